@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { SubtitleDownloadResponse } from '@/types';
 import { logEvent } from '@/src/lib/logger';
 import { createRateLimiter } from '@/src/lib/rate-limiter';
+import { decodeSubtitleBytes } from '@/src/features/subtitles/lib/subtitle-encoding';
 
 // 20 requests per minute per IP for subtitle downloads.
 const limiter = createRateLimiter({ windowMs: 60_000, maxRequests: 20 });
@@ -68,7 +69,8 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Failed to download subtitle file' }, { status: 502 });
     }
 
-    const content = await subtitleResponse.text();
+    // Many uploads are still in a legacy code page; Response.text() would read them as UTF-8 and mangle them
+    const { text: content } = decodeSubtitleBytes(new Uint8Array(await subtitleResponse.arrayBuffer()));
     const format = filename.split('.').pop()?.toLowerCase() || 'srt';
 
     const response: SubtitleDownloadResponse = {
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { YouTubeChaptersResponse, YouTubeVideosAPIResponseSchema } from '@/types';
+import { logEvent } from '@/src/lib/logger';
+import { createRateLimiter } from '@/src/lib/rate-limiter';
+import { parseDescriptionChapters } from '@/src/features/video-sync/lib/chapters';
+
+// 30 requests per minute per IP; every viewer of a YouTube video asks once per video.
+const limiter = createRateLimiter({ windowMs: 60_000, maxRequests: 30 });
+
+const YOUTUBE_API_URL = 'https://www.googleapis.com/youtube/v3';
+const VIDEO_ID_PATTERN = /^[a-zA-Z0-9_-]{11}$/;
+
+export async function GET(req: NextRequest) {
+  // Rate limit by client IP.
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || req.headers.get('x-real-ip') || 'unknown';
+  const rl = limiter.check(ip);
+  if (!rl.allowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please wait a moment and try again.' },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil((rl.retryAfterMs ?? 1000) / 1000)) } }
+    );
+  }
+
+  const videoId = req.nextUrl.searchParams.get('videoId');
+  if (!videoId || !VIDEO_ID_PATTERN.test(videoId)) {
+    return NextResponse.json({ error: 'A valid YouTube video ID is required' }, { status: 400 });
+  }
+
+  // Chapters are a nice-to-have: without a key, answer "none" rather than an error the client has to handle
+  const apiKey = process.env.YOUTUBE_API_KEY;
+  if (!apiKey) {
+    const empty: YouTubeChaptersResponse = { chapters: [] };
+    return NextResponse.json(empty);
+  }
+
+  const params = new URLSearchParams({ part: 'snippet', id: videoId, key: apiKey });
+
+  try {
+    const response = await fetch(`${YOUTUBE_API_URL}/videos?${params.toString()}`, {
+      headers: { Accept: 'application/json' },
+      // Descriptions rarely change; let the data cache absorb repeat lookups for the same video
+      next: { revalidate: 3600 },
+    });
+
+    if (!response.ok) {
+      logEvent({
+        level: 'warn',
+        domain: 'video',
+        event: 'youtube_chapters_upstream',
+        message: 'YouTube Data API request failed',
+        meta: { status: response.status, videoId },
+      });
+      return NextResponse.json({ error: 'YouTube chapter lookup unavailable' }, { status: 502 });
+    }
+
+    const parseResult = YouTubeVideosAPIResponseSchema.safeParse(await response.json());
+    if (!parseResult.success) {
+      logEvent({
+        level: 'error',
+        domain: 'video',
+        event: 'youtube_chapters_validation_failed',
+        message: 'YouTube Data API response validation failed',
+        meta: { error: parseResult.error },
+      });
+      return NextResponse.json({ error: 'YouTube chapter lookup unavailable' }, { status: 502 });
+    }
+
+    const description = parseResult.data.items[0]?.snippet.description ?? '';
+    const result: YouTubeChaptersResponse = { chapters: parseDescriptionChapters(description) };
+    return NextResponse.json(result);
+  } catch (error) {
+    logEvent({
+      level: 'error',
+      domain: 'video',
+      event: 'youtube_chapters_error',
+      message: 'YouTube Data API error',
+      meta: { error },
+    });
+    return NextResponse.json({ error: 'YouTube chapter lookup unavailable' }, { status: 502 });
+  }
+}
+
+export const runtime = 'nodejs';
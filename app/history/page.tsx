@@ -0,0 +1,35 @@
+'use client';
+
+import { History } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Icon } from '@/components/ui/icon';
+import { useWatchHistoryList, WatchHistoryList } from '@/src/features/history';
+
+export default function HistoryPage() {
+  const { entries, isLoading, isUnavailable, removeEntry, clearAll } = useWatchHistoryList();
+
+  return (
+    <div className="px-4 py-6 sm:px-8 sm:py-8 lg:px-14 lg:py-14">
+      <Card className="mx-auto flex max-w-screen-2xl flex-col items-center justify-center gap-6 rounded-lg border border-border bg-background p-6 sm:gap-8 sm:p-12 lg:gap-12 lg:p-24">
+        <header className="flex w-full flex-col items-center justify-center gap-4">
+          <Icon size="xl" variant="secondary">
+            <History />
+          </Icon>
+          <h1 className="whitespace-pre-wrap text-4xl font-bold tracking-tighter sm:text-6xl lg:text-8xl">History</h1>
+          <p className="text-center text-sm font-bold tracking-tight text-neutral-400 sm:text-base">
+            {`Where you left off, remembered by this browser and nobody else.`}
+          </p>
+        </header>
+
+        <WatchHistoryList
+          entries={entries}
+          isLoading={isLoading}
+          isUnavailable={isUnavailable}
+          onRemove={removeEntry}
+          onClear={clearAll}
+          className="w-full"
+        />
+      </Card>
+    </div>
+  );
+}
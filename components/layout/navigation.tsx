@@ -10,7 +10,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Users, Home, Menu, BadgePlus } from 'lucide-react';
+import { Users, Home, Menu, BadgePlus, History } from 'lucide-react';
 
 const EXTENSION_URL = 'https://pass.sideby.me';
 
@@ -26,6 +26,7 @@ const navigationItems = [
   { href: '/', label: 'Home', icon: Home },
   { href: '/create', label: 'Create Room', icon: BadgePlus },
   { href: '/join', label: 'Join Room', icon: Users },
+  { href: '/history', label: 'History', icon: History },
 ];
 
 export function Navigation() {
@@ -4,11 +4,14 @@ import { useEffect, useRef } from 'react';
 import type { Room } from '@/types/schemas';
 import type { VideoPlayerRef } from '@/src/features/video-sync/components/VideoPlayer';
 import type { HLSPlayerRef } from '@/src/core/video/hls-player';
+import type { DASHPlayerRef } from '@/src/core/video/dash-player';
+import { isEmbedVideoType } from '@/src/lib/video-utils';
 
-/** The in-scope players for keyboard shortcuts — both expose play/pause/seekTo/getCurrentTime/
- *  getDuration/isPaused/getVideoElement. YouTube is excluded by the videoType gate below, so these
- *  methods are always safe to call on whatever `getActivePlayer()` resolves. */
-export type ActiveShortcutPlayer = VideoPlayerRef | HLSPlayerRef;
+/** The in-scope players for keyboard shortcuts — all expose play/pause/seekTo/getCurrentTime/
+ *  getDuration/isPaused/getVideoElement. Iframe embeds (YouTube, Vimeo, Twitch) are excluded by the
+ *  videoType gate below, so these methods are always safe to call on whatever `getActivePlayer()`
+ *  resolves. */
+export type ActiveShortcutPlayer = VideoPlayerRef | HLSPlayerRef | DASHPlayerRef;
 
 export interface UseKeyboardShortcutsOptions {
   hasVideo: boolean;
@@ -109,8 +112,8 @@ export function createKeyboardShortcutHandler(
     // fresh via getDeps().onSeek() at fire-time, not the value captured at keydown-time.
     const { hasVideo, isHost, videoType, onControlAttempt, getActivePlayer, onPlay, onPause } = getDeps();
 
-    // Gate A: no video, or YouTube — the iframe owns its own keys entirely.
-    if (!hasVideo || videoType === 'youtube') return;
+    // Gate A: no video, or an iframe embed — the embed owns its own keys entirely.
+    if (!hasVideo || isEmbedVideoType(videoType)) return;
 
     // Gate B: don't intercept while the user is typing (isContentEditable, not the
     // string-compare form which returns "inherit" for nested nodes).
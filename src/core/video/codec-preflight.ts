@@ -0,0 +1,223 @@
+// Pure codec preflight helpers: read what a stream declares it is encoded with (HLS CODECS attributes or
+// the server's container hint) and fold per-codec probe results into one verdict per viewer. Probing itself
+// (MediaCapabilities / MediaSource.isTypeSupported / canPlayType) is browser-only and lives in
+// use-codec-preflight; everything here is node-testable.
+import type { CodecVerdict } from '@/types';
+
+export type CodecKind = 'video' | 'audio' | 'text';
+
+/** One playable rendition and the codecs it declares. A plain file is a single variant. */
+export interface DeclaredVariant {
+  codecs: string[];
+  width?: number;
+  height?: number;
+  /** Peak bitrate (bits/s). */
+  bandwidth?: number;
+}
+
+export interface ContainerHint {
+  /** MIME type to probe; null when the hint names nothing we can map. */
+  mimeType: string | null;
+  /** Human-readable container name for the host ("Matroska (MKV)"). */
+  name: string;
+  /** Codecs carried in a full MIME hint (`video/mp4; codecs="hvc1"`). */
+  codecs: string[];
+}
+
+export interface CodecSupportSummary {
+  /** Whether this viewer can play every variant, some, none, or nothing could be probed. */
+  verdict: CodecVerdict;
+  /** Human-readable names of the declared codecs (or container) this viewer can't decode, deduplicated. */
+  unsupportedCodecs: string[];
+}
+
+export interface SummarizeCodecSupportInput {
+  variants: DeclaredVariant[];
+  /** Probe result per variant per codec, parallel to `variants[i].codecs`; null when the browser can't say. */
+  results: (boolean | null)[][];
+  container?: { name: string; supported: boolean | null };
+}
+
+const CODEC_INFO: Record<string, { kind: CodecKind; name: string }> = {
+  avc1: { kind: 'video', name: 'H.264' },
+  avc3: { kind: 'video', name: 'H.264' },
+  hvc1: { kind: 'video', name: 'HEVC' },
+  hev1: { kind: 'video', name: 'HEVC' },
+  dvh1: { kind: 'video', name: 'Dolby Vision' },
+  dvhe: { kind: 'video', name: 'Dolby Vision' },
+  dva1: { kind: 'video', name: 'Dolby Vision' },
+  dvav: { kind: 'video', name: 'Dolby Vision' },
+  av01: { kind: 'video', name: 'AV1' },
+  vp09: { kind: 'video', name: 'VP9' },
+  vp9: { kind: 'video', name: 'VP9' },
+  vp08: { kind: 'video', name: 'VP8' },
+  vp8: { kind: 'video', name: 'VP8' },
+  theora: { kind: 'video', name: 'Theora' },
+  mp4a: { kind: 'audio', name: 'AAC' },
+  'ac-3': { kind: 'audio', name: 'Dolby Digital' },
+  'ec-3': { kind: 'audio', name: 'Dolby Digital Plus' },
+  'ac-4': { kind: 'audio', name: 'Dolby AC-4' },
+  opus: { kind: 'audio', name: 'Opus' },
+  flac: { kind: 'audio', name: 'FLAC' },
+  mp3: { kind: 'audio', name: 'MP3' },
+  vorbis: { kind: 'audio', name: 'Vorbis' },
+  alac: { kind: 'audio', name: 'ALAC' },
+  wvtt: { kind: 'text', name: 'WebVTT' },
+  stpp: { kind: 'text', name: 'TTML' },
+};
+
+// mp4a object types that aren't AAC
+const MP4A_MP3_OBJECT_TYPES = new Set(['69', '6b']);
+
+const CONTAINERS: Record<string, { mimeType: string; name: string }> = {
+  mp4: { mimeType: 'video/mp4', name: 'MP4' },
+  m4v: { mimeType: 'video/mp4', name: 'MP4' },
+  webm: { mimeType: 'video/webm', name: 'WebM' },
+  mkv: { mimeType: 'video/x-matroska', name: 'Matroska (MKV)' },
+  matroska: { mimeType: 'video/x-matroska', name: 'Matroska (MKV)' },
+  mov: { mimeType: 'video/quicktime', name: 'QuickTime (MOV)' },
+  quicktime: { mimeType: 'video/quicktime', name: 'QuickTime (MOV)' },
+  ogg: { mimeType: 'video/ogg', name: 'Ogg' },
+  ogv: { mimeType: 'video/ogg', name: 'Ogg' },
+  ts: { mimeType: 'video/mp2t', name: 'MPEG-TS' },
+  mpegts: { mimeType: 'video/mp2t', name: 'MPEG-TS' },
+  avi: { mimeType: 'video/x-msvideo', name: 'AVI' },
+  flv: { mimeType: 'video/x-flv', name: 'Flash Video (FLV)' },
+};
+
+function getCodecInfo(codec: string): { kind: CodecKind; name: string } | null {
+  const fourcc = codec.trim().split('.')[0].toLowerCase();
+  const info = CODEC_INFO[fourcc];
+  if (!info) return null;
+  if (fourcc === 'mp4a' && MP4A_MP3_OBJECT_TYPES.has(codec.split('.')[1]?.toLowerCase() ?? '')) {
+    return { kind: 'audio', name: 'MP3' };
+  }
+  return info;
+}
+
+/** Track kind of an RFC 6381 codec string; unrecognised codecs are assumed to be video. */
+export function getCodecKind(codec: string): CodecKind {
+  return getCodecInfo(codec)?.kind ?? 'video';
+}
+
+/** "hvc1.2.4.L153.B0" -> "HEVC"; unrecognised codecs come back as written. */
+export function describeCodec(codec: string): string {
+  return getCodecInfo(codec)?.name ?? codec.trim();
+}
+
+/**
+ * MIME type to probe one codec with. Without a container (HLS), codecs are probed as fMP4 — what hls.js
+ * remuxes TS segments into before appending to MediaSource.
+ */
+export function getCodecContentType(codec: string, mimeType?: string | null): string {
+  const container = mimeType ?? `${getCodecKind(codec) === 'audio' ? 'audio' : 'video'}/mp4`;
+  return `${container}; codecs="${codec.trim()}"`;
+}
+
+function splitCodecs(value: string): string[] {
+  return value
+    .split(',')
+    .map(codec => codec.trim())
+    .filter(Boolean);
+}
+
+function parseAttributeList(list: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+}
+
+/** Variants of a multivariant playlist with their declared codecs. A media playlist has none. */
+export function parseHlsVariantCodecs(manifest: string): DeclaredVariant[] {
+  const variants: DeclaredVariant[] = [];
+  for (const rawLine of manifest.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line.startsWith('#EXT-X-STREAM-INF:')) continue;
+
+    const attributes = parseAttributeList(line.slice('#EXT-X-STREAM-INF:'.length));
+    const variant: DeclaredVariant = { codecs: splitCodecs(attributes.CODECS ?? '') };
+    const resolution = attributes.RESOLUTION?.match(/^(\d+)x(\d+)$/);
+    if (resolution) {
+      variant.width = Number(resolution[1]);
+      variant.height = Number(resolution[2]);
+    }
+    const bandwidth = Number(attributes.BANDWIDTH);
+    if (Number.isFinite(bandwidth) && bandwidth > 0) variant.bandwidth = bandwidth;
+    variants.push(variant);
+  }
+  return variants;
+}
+
+/** Read the server's container hint: a short name ("mkv") or a MIME type, optionally with codecs. */
+export function parseContainerHint(hint: string): ContainerHint | null {
+  const trimmed = hint.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.includes('/')) {
+    const [type, ...params] = trimmed.split(';');
+    const mimeType = type.trim().toLowerCase();
+    const codecsParam = params.map(param => param.trim()).find(param => param.toLowerCase().startsWith('codecs='));
+    const known = Object.values(CONTAINERS).find(container => container.mimeType === mimeType);
+    return {
+      mimeType,
+      name: known?.name ?? mimeType,
+      codecs: codecsParam ? splitCodecs(codecsParam.slice('codecs='.length).replace(/^"|"$/g, '')) : [],
+    };
+  }
+
+  const known = CONTAINERS[trimmed.toLowerCase().replace(/^\./, '')];
+  return { mimeType: known?.mimeType ?? null, name: known?.name ?? trimmed, codecs: [] };
+}
+
+/**
+ * Fold probe results into one verdict. A variant is playable unless one of its audio/video codecs is known
+ * to be unsupported; text codecs never count, and a variant whose codecs nobody could probe stays unknown
+ * rather than counting either way.
+ */
+export function summarizeCodecSupport({
+  variants,
+  results,
+  container,
+}: SummarizeCodecSupportInput): CodecSupportSummary {
+  if (container?.supported === false) {
+    return { verdict: 'unsupported', unsupportedCodecs: [container.name] };
+  }
+
+  const unsupported = new Set<string>();
+  let playable = 0;
+  let blocked = 0;
+
+  variants.forEach((variant, variantIndex) => {
+    let variantBlocked = false;
+    let variantKnown = false;
+    variant.codecs.forEach((codec, codecIndex) => {
+      if (getCodecKind(codec) === 'text') return;
+      const supported = results[variantIndex]?.[codecIndex] ?? null;
+      if (supported === null) return;
+      variantKnown = true;
+      if (!supported) {
+        variantBlocked = true;
+        unsupported.add(describeCodec(codec));
+      }
+    });
+    if (variantBlocked) blocked++;
+    else if (variantKnown) playable++;
+  });
+
+  const unsupportedCodecs = [...unsupported];
+  if (blocked === 0 && playable === 0) return { verdict: 'unknown', unsupportedCodecs };
+  if (blocked === 0) return { verdict: 'supported', unsupportedCodecs };
+  if (playable === 0) return { verdict: 'unsupported', unsupportedCodecs };
+  return { verdict: 'partial', unsupportedCodecs };
+}
+
+// Mirrors CodecCapabilityReportDataSchema; one over-long entry would get the whole report rejected
+const MAX_REPORTED_CODECS = 16;
+const MAX_REPORTED_CODEC_LENGTH = 64;
+
+/** Unsupported codec names trimmed to what the capability report accepts. */
+export function toCodecReportEntries(unsupportedCodecs: string[]): string[] {
+  return unsupportedCodecs.slice(0, MAX_REPORTED_CODECS).map(name => name.slice(0, MAX_REPORTED_CODEC_LENGTH));
+}
@@ -0,0 +1,133 @@
+// Pure DASH error-recovery policy — the dash.js counterpart of hls-error-policy.ts.
+// No dashjs import, no DOM, no Date.now() inside — `now` is always caller-injected so this
+// module stays deterministic and node-testable.
+
+/** Rolling window (ms) for counting download failures; older ones no longer count. */
+export const DASH_NETWORK_ERROR_WINDOW_MS = 15000;
+
+/** Max attachSource() reloads inside the rolling window before giving up. dash.js has already
+ * exhausted its own per-request retries by the time it reports a failure, so this stays small. */
+export const MAX_DASH_SOURCE_RELOADS_IN_WINDOW = 2;
+
+/** Max reset+reinitialize attempts after a SourceBuffer append failure before giving up. */
+export const MAX_DASH_REATTACHES = 1;
+
+// dash.js MediaPlayer.errors codes, mirrored here so the policy needs no dashjs import
+const DOWNLOAD_ERROR_CODES = new Set([
+  11, // MANIFEST_LOADER_LOADING_FAILURE
+  12, // XLINK_LOADER_LOADING_FAILURE
+  15, // SEGMENT_BASE_LOADER
+  17, // FRAGMENT_LOADER_LOADING_FAILURE
+  25, // DOWNLOAD_ERROR_ID_MANIFEST
+  26, // DOWNLOAD_ERROR_ID_SIDX
+  27, // DOWNLOAD_ERROR_ID_CONTENT
+  28, // DOWNLOAD_ERROR_ID_INITIALIZATION
+  29, // DOWNLOAD_ERROR_ID_XLINK
+]);
+const UNPARSABLE_ERROR_CODES = new Set([
+  10, // MANIFEST_LOADER_PARSING_FAILURE
+  31, // MANIFEST_ERROR_ID_PARSE
+  32, // MANIFEST_ERROR_ID_NOSTREAMS
+  34, // MANIFEST_ERROR_ID_MULTIPLEXED
+  35, // MEDIASOURCE_TYPE_UNSUPPORTED
+]);
+const APPEND_ERROR_CODE = 20;
+// Subtitle parse failures and clock-sync failures leave the picture playing; dash.js copes on its own
+const IGNORABLE_ERROR_CODES = new Set([
+  16, // TIME_SYNC_FAILED
+  21, // REMOVE_ERROR
+  33, // TIMED_TEXT_ERROR_ID_PARSE
+]);
+
+export interface DashRecoveryState {
+  networkErrorTimestamps: number[];
+  /** Lifetime reload count — diagnostics only; the decision uses the windowed timestamps. */
+  sourceReloadCount: number;
+  reattachCount: number;
+}
+
+/** Fresh, mutable recovery state — create one per src (reset on src change). */
+export function createDashRecoveryState(): DashRecoveryState {
+  return {
+    networkErrorTimestamps: [],
+    sourceReloadCount: 0,
+    reattachCount: 0,
+  };
+}
+
+export interface DashErrorInput {
+  /** dash.js error code (MediaPlayer.errors). */
+  code?: number;
+  message?: string;
+  /** HTTP status of the failed request, when dash.js reports one. */
+  responseCode?: number;
+}
+
+export type DashRecoveryAction = 'ignore' | 'reload-source' | 'reattach' | 'terminal';
+
+export interface DashRecoveryDecision {
+  action: DashRecoveryAction;
+  codecUnparsable: boolean;
+}
+
+export interface DecideDashRecoveryInput {
+  error: DashErrorInput;
+  state: DashRecoveryState;
+  /** Injected timestamp (ms) — never Date.now() internally, for deterministic tests. */
+  now: number;
+}
+
+/** Manifest/codec-unparsable classification, split out so it can be asserted independently. */
+export function classifyDashError(code?: number): { codecUnparsable: boolean } {
+  return { codecUnparsable: code !== undefined && UNPARSABLE_ERROR_CODES.has(code) };
+}
+
+/**
+ * Decide how dash-player.tsx should react to a single dash.js ERROR event.
+ *
+ * dash.js only reports a download failure after its own retries, so unlike HLS there is no
+ * "non-fatal, let the library handle it" tier for network errors: each one earns an attachSource()
+ * reload at the current position, and only a burst inside the rolling window (or a hard HTTP block)
+ * is terminal, so failures spread across a long session never add up. Append failures get one
+ * reset+reinitialize; unparsable manifests, unsupported codecs and DRM errors are terminal straight
+ * away.
+ */
+export function decideDashRecovery(input: DecideDashRecoveryInput): DashRecoveryDecision {
+  const { error, state, now } = input;
+  const { codecUnparsable } = classifyDashError(error.code);
+
+  if (error.code !== undefined && IGNORABLE_ERROR_CODES.has(error.code)) {
+    return { action: 'ignore', codecUnparsable };
+  }
+
+  if (codecUnparsable) {
+    return { action: 'terminal', codecUnparsable };
+  }
+
+  if (error.code !== undefined && DOWNLOAD_ERROR_CODES.has(error.code)) {
+    // Hard HTTP block (403/404/410/...) is never recoverable — terminal immediately.
+    if (error.responseCode !== undefined && error.responseCode >= 400) {
+      return { action: 'terminal', codecUnparsable };
+    }
+
+    state.networkErrorTimestamps = state.networkErrorTimestamps.filter(ts => now - ts <= DASH_NETWORK_ERROR_WINDOW_MS);
+    state.networkErrorTimestamps.push(now);
+
+    if (state.networkErrorTimestamps.length > MAX_DASH_SOURCE_RELOADS_IN_WINDOW) {
+      return { action: 'terminal', codecUnparsable };
+    }
+    state.sourceReloadCount += 1;
+    return { action: 'reload-source', codecUnparsable };
+  }
+
+  if (error.code === APPEND_ERROR_CODE) {
+    if (state.reattachCount < MAX_DASH_REATTACHES) {
+      state.reattachCount += 1;
+      return { action: 'reattach', codecUnparsable };
+    }
+    return { action: 'terminal', codecUnparsable };
+  }
+
+  // Capability, DRM and anything unrecognised: nothing to retry.
+  return { action: 'terminal', codecUnparsable };
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
+import { logVideo } from '@/src/core/logger/client-logger';
+import { useVideoSubtitleTracks } from '@/src/features/subtitles/hooks';
+import type { SubtitleTrack } from '@/types/schemas';
+import {
+  createDashRecoveryState,
+  decideDashRecovery,
+  MAX_DASH_REATTACHES,
+  MAX_DASH_SOURCE_RELOADS_IN_WINDOW,
+  type DashRecoveryState,
+} from '@/src/core/video/dash-error-policy';
+
+export interface DASHPlayerRef {
+  play: () => Promise<void>;
+  pause: () => void;
+  getCurrentTime: () => number;
+  seekTo: (time: number) => void;
+  isPaused: () => boolean;
+  getDuration: () => number;
+  getVideoElement: () => HTMLVideoElement | null;
+  /** Sets native playbackRate for smooth sub-second sync glide. Plain native-element write —
+   *  dash.js follows the element's rate on its own. */
+  setPlaybackRate: (rate: number) => void;
+}
+
+interface DASHPlayerProps {
+  src: string;
+  onPlay?: () => void;
+  onPause?: () => void;
+  onSeeked?: () => void;
+  onLoadedMetadata?: () => void;
+  onTimeUpdate?: () => void;
+  onError?: (info: {
+    code?: number;
+    details?: string;
+    fatal?: boolean;
+    url?: string;
+    responseCode?: number;
+    codecUnparsable?: boolean;
+    currentTime?: number;
+  }) => void;
+  className?: string;
+  isHost?: boolean;
+  subtitleTracks?: SubtitleTrack[];
+  activeSubtitleTrack?: string;
+}
+
+interface DashErrorEventData {
+  code?: number;
+  message?: string;
+  data?: { request?: { url?: string }; response?: { status?: number } };
+}
+
+const DASHPlayer = forwardRef<DASHPlayerRef, DASHPlayerProps>(
+  (
+    {
+      src,
+      onPlay,
+      onPause,
+      onSeeked,
+      onLoadedMetadata,
+      onTimeUpdate,
+      onError,
+      className = '',
+      isHost = false,
+      subtitleTracks = [],
+      activeSubtitleTrack,
+    },
+    ref
+  ) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const dashRef = useRef<{ reset: () => void } | null>(null);
+    const programmaticActionRef = useRef(false);
+    const recoveryStateRef = useRef<DashRecoveryState>(createDashRecoveryState());
+
+    useVideoSubtitleTracks({
+      videoElement: videoRef.current,
+      subtitleTracks,
+      activeSubtitleTrack,
+    });
+
+    useImperativeHandle(ref, () => ({
+      play: async () => {
+        if (videoRef.current) {
+          try {
+            programmaticActionRef.current = true;
+            await videoRef.current.play();
+          } catch (error) {
+            logVideo('play_error', 'Error playing DASH video', { error });
+          }
+        }
+      },
+      pause: () => {
+        if (videoRef.current) {
+          programmaticActionRef.current = true;
+          videoRef.current.pause();
+        }
+      },
+      getCurrentTime: () => {
+        return videoRef.current?.currentTime || 0;
+      },
+      seekTo: (time: number) => {
+        if (videoRef.current) {
+          programmaticActionRef.current = true;
+          videoRef.current.currentTime = time;
+        }
+      },
+      isPaused: () => {
+        return videoRef.current?.paused ?? true;
+      },
+      getDuration: () => {
+        return videoRef.current?.duration || 0;
+      },
+      getVideoElement: () => {
+        return videoRef.current;
+      },
+      setPlaybackRate: (rate: number) => {
+        if (videoRef.current) {
+          videoRef.current.preservesPitch = true;
+          videoRef.current.playbackRate = rate;
+        }
+      },
+    }));
+
+    useEffect(() => {
+      const video = videoRef.current;
+      if (!video || !src) return;
+
+      // Reset recovery state when src changes
+      recoveryStateRef.current = createDashRecoveryState();
+
+      // The dash.js import and the reattach delay both outlive a src change or unmount; neither may
+      // attach a player to this element once the effect has been cleaned up
+      let cancelled = false;
+      let reattachTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const loadDASH = async (startTime?: number) => {
+        try {
+          const { MediaPlayer, supportsMediaSource } = await import('dashjs');
+          if (cancelled) return;
+
+          if (!supportsMediaSource()) {
+            // No native DASH fallback exists (unlike HLS on Safari), so say so instead of sitting blank
+            logVideo('dash_unsupported', 'DASH is not supported in this browser');
+            onError?.({ details: 'mediaSourceUnsupported', fatal: true, url: src, codecUnparsable: false });
+            return;
+          }
+
+          const player = MediaPlayer().create();
+          dashRef.current = player;
+          player.initialize(video, src, false, startTime);
+
+          player.on(MediaPlayer.events.MANIFEST_LOADED, () => {
+            logVideo('dash_manifest_loaded', 'DASH manifest loaded');
+          });
+
+          player.on(MediaPlayer.events.ERROR, (event: unknown) => {
+            const raw = (event as { error?: unknown }).error;
+            // Some dash.js errors (e.g. 'capability', 'cc') arrive as bare strings
+            const errorData: DashErrorEventData =
+              typeof raw === 'object' && raw !== null ? (raw as DashErrorEventData) : { message: String(raw) };
+            const responseCode = errorData.data?.response?.status || undefined;
+            const url = errorData.data?.request?.url;
+
+            const decision = decideDashRecovery({
+              error: { code: errorData.code, message: errorData.message, responseCode },
+              state: recoveryStateRef.current,
+              now: Date.now(),
+            });
+
+            logVideo('dash_error', 'DASH error', {
+              code: errorData.code,
+              message: errorData.message,
+              url,
+              responseCode,
+              currentTime: video.currentTime,
+              codecUnparsable: decision.codecUnparsable,
+              action: decision.action,
+            });
+
+            switch (decision.action) {
+              case 'ignore':
+                return;
+
+              case 'reload-source':
+                logVideo('dash_source_reload', 'Attempting DASH source reload (attachSource)', {
+                  attempt: recoveryStateRef.current.sourceReloadCount,
+                  maxAttemptsInWindow: MAX_DASH_SOURCE_RELOADS_IN_WINDOW,
+                  code: errorData.code,
+                });
+                player.attachSource(src, video.currentTime);
+                return;
+
+              case 'reattach': {
+                logVideo('dash_reattach', 'Attempting DASH reset+reinitialize after append error', {
+                  attempt: recoveryStateRef.current.reattachCount,
+                  maxAttempts: MAX_DASH_REATTACHES,
+                  src,
+                });
+                const resumeAt = video.currentTime;
+                player.reset();
+                dashRef.current = null;
+                reattachTimer = setTimeout(() => {
+                  reattachTimer = null;
+                  if (!cancelled) loadDASH(resumeAt);
+                }, 500);
+                return;
+              }
+
+              case 'terminal':
+                onError?.({
+                  code: errorData.code,
+                  details: errorData.message,
+                  fatal: true,
+                  url,
+                  responseCode,
+                  codecUnparsable: decision.codecUnparsable,
+                  currentTime: video.currentTime,
+                });
+                player.reset();
+                dashRef.current = null;
+                return;
+            }
+          });
+        } catch (error) {
+          logVideo('dash_load_failed', 'Failed to load dash.js', { error });
+        }
+      };
+
+      loadDASH();
+
+      return () => {
+        cancelled = true;
+        if (reattachTimer) clearTimeout(reattachTimer);
+        if (dashRef.current) {
+          dashRef.current.reset();
+          dashRef.current = null;
+        }
+      };
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [src]);
+
+    const handlePlay = () => {
+      logVideo('dash_play', 'DASH video started playing', { programmatic: programmaticActionRef.current, isHost });
+      // Only emit if this is a user action (not programmatic) and user is host
+      if (!programmaticActionRef.current && isHost) {
+        onPlay?.();
+      }
+      programmaticActionRef.current = false;
+    };
+
+    const handlePause = () => {
+      logVideo('dash_pause', 'DASH video paused', { programmatic: programmaticActionRef.current, isHost });
+      if (!programmaticActionRef.current && isHost) {
+        onPause?.();
+      }
+      programmaticActionRef.current = false;
+    };
+
+    const handleSeeked = () => {
+      logVideo('dash_seeked', 'DASH video seeked', {
+        time: videoRef.current?.currentTime,
+        programmatic: programmaticActionRef.current,
+        isHost,
+      });
+      if (!programmaticActionRef.current && isHost) {
+        onSeeked?.();
+      }
+      programmaticActionRef.current = false;
+    };
+
+    const handleLoadedMetadata = () => {
+      logVideo('dash_metadata_loaded', 'DASH video metadata loaded');
+      onLoadedMetadata?.();
+    };
+
+    const handleTimeUpdate = () => {
+      onTimeUpdate?.();
+    };
+
+    return (
+      <video
+        ref={videoRef}
+        className={`${className}`}
+        controls={false} // Always use custom controls
+        onPlay={handlePlay}
+        onPause={handlePause}
+        onSeeked={handleSeeked}
+        onLoadedMetadata={handleLoadedMetadata}
+        onTimeUpdate={handleTimeUpdate}
+        playsInline
+        preload="metadata"
+        controlsList="nodownload noremoteplayback"
+        disablePictureInPicture={false}
+        crossOrigin="anonymous"
+      />
+    );
+  }
+);
+
+DASHPlayer.displayName = 'DASHPlayer';
+
+export { DASHPlayer };
@@ -1,16 +1,39 @@
 'use client';
 
 import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
+import type HlsInstance from 'hls.js';
 import { logVideo } from '@/src/core/logger/client-logger';
 import { useVideoSubtitleTracks } from '@/src/features/subtitles/hooks';
-import type { SubtitleTrack } from '@/types/schemas';
+import type { Chapter, SubtitleTrack } from '@/types/schemas';
 import {
   createHlsRecoveryState,
   decideHlsRecovery,
   MAX_MEDIA_ERROR_RECOVERIES,
   MAX_NETWORK_RELOADS,
+  NETWORK_ERROR_WINDOW_MS,
   type HlsRecoveryState,
 } from '@/src/core/video/hls-error-policy';
+import {
+  pickPreferredAudioTrack,
+  pickPreferredLevel,
+  type HlsAudioTrackOption,
+  type HlsLevelOption,
+  type HlsSubtitleRenditionOption,
+} from '@/src/core/video/hls-renditions';
+import type { HlsDiagnostics } from '@/src/features/video-sync/lib/diagnostics';
+import {
+  chaptersFromDateRanges,
+  chaptersFromId3,
+  normalizeChapters,
+  type Id3FrameCue,
+} from '@/src/features/video-sync/lib/chapters';
+import {
+  createLiveClockState,
+  LIVE_EDGE_SAFETY_S,
+  updateLiveClock,
+  type LiveClockState,
+  type LiveTimeline,
+} from '@/src/features/video-sync/lib/live';
 
 export interface HLSPlayerRef {
   play: () => Promise<void>;
@@ -23,8 +46,35 @@ export interface HLSPlayerRef {
   /** Sets native playbackRate for smooth sub-second sync glide. Plain native-element write —
    *  no hls.js API call, no buffer flush. */
   setPlaybackRate: (rate: number) => void;
+  /** Current level and recovery counters for the stats-for-nerds overlay. */
+  getDiagnostics: () => HlsDiagnostics;
+  /** Variants from the manifest; empty under native (Safari) HLS, which picks levels itself. */
+  getLevels: () => HlsLevelOption[];
+  /** Level currently playing, with its bitrate and whether ABR is choosing it. */
+  getCurrentLevel: () => HlsLevelInfo;
+  /** Lock playback to a level index; -1 hands the choice back to ABR. */
+  setLevel: (index: number) => void;
+  getAudioTracks: () => HlsAudioTrackOption[];
+  /** Active audio track id; -1 when the manifest has no alternate audio. */
+  getAudioTrack: () => number;
+  setAudioTrack: (id: number) => void;
+  getSubtitleRenditions: () => HlsSubtitleRenditionOption[];
+  /** DVR window and stream-clock mapping of a live stream; null for VOD or before the playlist loads. */
+  getLiveTimeline: () => LiveTimeline | null;
+  /** True until the playlist has loaded far enough to tell live from VOD. */
+  isLiveTimelinePending: () => boolean;
+}
+
+export interface HlsLevelInfo {
+  level: number;
+  levelCount: number;
+  bitrate: number | null;
+  height: number | null;
+  autoLevel: boolean;
 }
 
+const UNKNOWN_LEVEL: HlsLevelInfo = { level: -1, levelCount: 0, bitrate: null, height: null, autoLevel: true };
+
 interface HLSPlayerProps {
   src: string;
   onPlay?: () => void;
@@ -47,6 +97,27 @@ interface HLSPlayerProps {
   useProxy?: boolean;
   subtitleTracks?: SubtitleTrack[];
   activeSubtitleTrack?: string;
+  /** Remembered quality (height) applied once the manifest is parsed; null = Auto. */
+  preferredHeight?: number | null;
+  /** Remembered audio language applied once alternate audio is known. */
+  preferredAudioLang?: string | null;
+  /** Levels, audio tracks or subtitle renditions changed — re-read them through the ref. */
+  onRenditionsChange?: () => void;
+  /** Chapters from #EXT-X-DATERANGE tags and timed ID3 frames; re-sent as live playlists and fragments add more. */
+  onChaptersChange?: (chapters: Chapter[]) => void;
+  /** Server minus local clock (ms); places a live stream without program date time on the room's clock. */
+  clockOffset?: number;
+}
+
+/** Epoch seconds at media time 0 from #EXT-X-PROGRAM-DATE-TIME, via hls.js' fragments or Safari's getStartDate. */
+function readProgramDateOffset(video: HTMLVideoElement, details: HlsInstance['latestLevelDetails']): number | null {
+  if (details) {
+    const first = details.fragments[0];
+    return first?.programDateTime != null ? first.programDateTime / 1000 - first.start : null;
+  }
+  const startDate = (video as HTMLVideoElement & { getStartDate?: () => Date }).getStartDate?.();
+  const epochMs = startDate?.getTime();
+  return epochMs !== undefined && Number.isFinite(epochMs) && epochMs > 0 ? epochMs / 1000 : null;
 }
 
 const HLSPlayer = forwardRef<HLSPlayerRef, HLSPlayerProps>(
@@ -64,13 +135,31 @@ const HLSPlayer = forwardRef<HLSPlayerRef, HLSPlayerProps>(
       // Kept for compatibility
       subtitleTracks = [],
       activeSubtitleTrack,
+      preferredHeight = null,
+      preferredAudioLang = null,
+      onRenditionsChange,
+      onChaptersChange,
+      clockOffset = 0,
     },
     ref
   ) => {
     const videoRef = useRef<HTMLVideoElement>(null);
-    const hlsRef = useRef<{ destroy: () => void; startLoad: () => void } | null>(null);
+    const hlsRef = useRef<HlsInstance | null>(null);
     const programmaticActionRef = useRef(false);
     const recoveryStateRef = useRef<HlsRecoveryState>(createHlsRecoveryState());
+    const levelInfoRef = useRef<HlsLevelInfo>(UNKNOWN_LEVEL);
+    // Read through refs so a preference change or a new callback never reloads the stream
+    const preferredHeightRef = useRef(preferredHeight);
+    preferredHeightRef.current = preferredHeight;
+    const preferredAudioLangRef = useRef(preferredAudioLang);
+    preferredAudioLangRef.current = preferredAudioLang;
+    const onRenditionsChangeRef = useRef(onRenditionsChange);
+    onRenditionsChangeRef.current = onRenditionsChange;
+    const onChaptersChangeRef = useRef(onChaptersChange);
+    onChaptersChangeRef.current = onChaptersChange;
+    const clockOffsetRef = useRef(clockOffset);
+    clockOffsetRef.current = clockOffset;
+    const liveClockRef = useRef<LiveClockState>(createLiveClockState());
 
     // Inject native <track> elements for iOS Safari native HLS playback
     useVideoSubtitleTracks({
@@ -120,6 +209,103 @@ const HLSPlayer = forwardRef<HLSPlayerRef, HLSPlayerProps>(
           videoRef.current.playbackRate = rate;
         }
       },
+      getDiagnostics: () => {
+        const recovery = recoveryStateRef.current;
+        const now = Date.now();
+        return {
+          ...levelInfoRef.current,
+          networkErrorsInWindow: recovery.networkErrorTimestamps.filter(t => now - t <= NETWORK_ERROR_WINDOW_MS).length,
+          networkReloadCount: recovery.networkReloadCount,
+          mediaRecoveryCount: recovery.mediaRecoveryCount,
+          reattachAttempted: recovery.reattachAttempted,
+        };
+      },
+      getLevels: () => {
+        return (hlsRef.current?.levels ?? []).map((level, index) => ({
+          index,
+          height: level.height || null,
+          bitrate: level.bitrate || null,
+        }));
+      },
+      getCurrentLevel: () => {
+        return levelInfoRef.current;
+      },
+      setLevel: (index: number) => {
+        const hls = hlsRef.current;
+        if (!hls) return;
+        logVideo('hls_level_select', 'HLS quality selected', { level: index });
+        hls.currentLevel = index;
+        levelInfoRef.current = { ...levelInfoRef.current, autoLevel: index === -1 };
+        onRenditionsChangeRef.current?.();
+      },
+      getAudioTracks: () => {
+        return (hlsRef.current?.audioTracks ?? []).map(track => ({
+          id: track.id,
+          name: track.name,
+          lang: track.lang ?? null,
+        }));
+      },
+      getAudioTrack: () => {
+        return hlsRef.current?.audioTrack ?? -1;
+      },
+      setAudioTrack: (id: number) => {
+        const hls = hlsRef.current;
+        if (!hls) return;
+        logVideo('hls_audio_select', 'HLS audio track selected', { id });
+        hls.audioTrack = id;
+      },
+      getSubtitleRenditions: () => {
+        return (hlsRef.current?.subtitleTracks ?? []).map(track => ({
+          id: track.id,
+          name: track.name,
+          lang: track.lang ?? null,
+        }));
+      },
+      getLiveTimeline: () => {
+        const video = videoRef.current;
+        if (!video) return null;
+        const hls = hlsRef.current;
+        const details = hls?.latestLevelDetails ?? null;
+
+        // hls.js knows the window from the playlist itself; native HLS exposes it as seekable
+        let start: number;
+        let end: number;
+        if (hls) {
+          if (!details?.live || details.fragments.length === 0) return null;
+          start = details.fragments[0].start;
+          end = details.edge;
+        } else {
+          if (video.duration !== Infinity || video.seekable.length === 0) return null;
+          start = video.seekable.start(0);
+          end = video.seekable.end(video.seekable.length - 1);
+        }
+
+        return updateLiveClock(
+          liveClockRef.current,
+          {
+            start,
+            end,
+            liveSyncPosition: Math.min(end, hls?.liveSyncPosition ?? end - LIVE_EDGE_SAFETY_S),
+            programDateOffset: readProgramDateOffset(video, details),
+            sequenceEnd: details ? (details.endSN + 1) * details.targetduration : null,
+          },
+          Date.now() + clockOffsetRef.current
+        );
+      },
+      isLiveTimelinePending: () => {
+        const video = videoRef.current;
+        if (!video) return true;
+        const hls = hlsRef.current;
+        if (hls) {
+          const details = hls.latestLevelDetails;
+          return !details || (details.live && details.fragments.length === 0);
+        }
+        // Native HLS: an infinite duration arrives with the metadata, the seekable window a little later
+        return (
+          video.readyState < HTMLMediaElement.HAVE_METADATA ||
+          (video.duration === Infinity && video.seekable.length === 0)
+        );
+      },
     }));
 
     useEffect(() => {
@@ -128,6 +314,9 @@ const HLSPlayer = forwardRef<HLSPlayerRef, HLSPlayerProps>(
 
       // Reset recovery state when src changes
       recoveryStateRef.current = createHlsRecoveryState();
+      levelInfoRef.current = UNKNOWN_LEVEL;
+      liveClockRef.current = createLiveClockState();
+      onChaptersChangeRef.current?.([]);
 
       const loadHLS = async () => {
         try {
@@ -141,14 +330,100 @@ const HLSPlayer = forwardRef<HLSPlayerRef, HLSPlayerProps>(
               maxBufferSize: 60 * 1000 * 1000,
               startFragPrefetch: true,
               maxLoadingDelay: 4,
+              // Live streams read as live to the element too, with the DVR window as its seekable range
+              liveDurationInfinity: true,
             });
 
-            hlsRef.current = hls as { destroy: () => void; startLoad: () => void };
+            hlsRef.current = hls;
             hls.loadSource(src);
             hls.attachMedia(video);
 
-            hls.on(Hls.Events.MANIFEST_PARSED, () => {
+            hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
               logVideo('hls_manifest_parsed', 'HLS manifest loaded');
+              levelInfoRef.current = { ...levelInfoRef.current, levelCount: data.levels.length };
+
+              const preferredLevel = pickPreferredLevel(
+                data.levels.map((level, index) => ({
+                  index,
+                  height: level.height || null,
+                  bitrate: level.bitrate || null,
+                })),
+                preferredHeightRef.current
+              );
+              if (preferredLevel !== -1) {
+                hls.currentLevel = preferredLevel;
+                levelInfoRef.current = { ...levelInfoRef.current, autoLevel: false };
+              }
+              onRenditionsChangeRef.current?.();
+            });
+
+            hls.on(Hls.Events.AUDIO_TRACKS_UPDATED, (_event, data) => {
+              const preferredTrack = pickPreferredAudioTrack(
+                data.audioTracks.map(track => ({ id: track.id, name: track.name, lang: track.lang ?? null })),
+                preferredAudioLangRef.current
+              );
+              if (preferredTrack !== null && preferredTrack !== hls.audioTrack) {
+                hls.audioTrack = preferredTrack;
+              }
+              onRenditionsChangeRef.current?.();
+            });
+
+            hls.on(Hls.Events.AUDIO_TRACK_SWITCHED, () => {
+              onRenditionsChangeRef.current?.();
+            });
+
+            hls.on(Hls.Events.SUBTITLE_TRACKS_UPDATED, () => {
+              onRenditionsChangeRef.current?.();
+            });
+
+            // Chapter metadata: both sources merge into one list, reported only when it changes
+            let dateRangeChapters: Chapter[] = [];
+            let id3Chapters: Chapter[] = [];
+            let reportedChapters = '[]';
+            const reportChapters = () => {
+              const chapters = normalizeChapters([...dateRangeChapters, ...id3Chapters]);
+              const serialized = JSON.stringify(chapters);
+              if (serialized === reportedChapters) return;
+              reportedChapters = serialized;
+              onChaptersChangeRef.current?.(chapters);
+            };
+
+            hls.on(Hls.Events.LEVEL_LOADED, (_event, data) => {
+              dateRangeChapters = chaptersFromDateRanges(
+                Object.values(data.details.dateRanges ?? {}).map(range => ({
+                  id: range.id,
+                  class: range.class,
+                  startTime: range.startTime,
+                  attr: range.attr,
+                }))
+              );
+              reportChapters();
+            });
+
+            // hls.js turns ID3 samples into cues on its hidden "id3" metadata track before this listener runs
+            hls.on(Hls.Events.FRAG_PARSING_METADATA, () => {
+              const track = Array.from(video.textTracks).find(t => t.kind === 'metadata' && t.label === 'id3');
+              if (!track?.cues) return;
+              const frames: Id3FrameCue[] = [];
+              for (const cue of Array.from(track.cues)) {
+                const value = (cue as TextTrackCue & { value?: { key?: string; info?: string; data?: unknown } }).value;
+                if (value?.key)
+                  frames.push({ startTime: cue.startTime, key: value.key, info: value.info, data: value.data });
+              }
+              id3Chapters = chaptersFromId3(frames);
+              reportChapters();
+            });
+
+            hls.on(Hls.Events.LEVEL_SWITCHED, (_event, data) => {
+              const level = hls.levels[data.level];
+              levelInfoRef.current = {
+                level: data.level,
+                levelCount: hls.levels.length,
+                bitrate: level?.bitrate ?? null,
+                height: level?.height ?? null,
+                autoLevel: hls.autoLevelEnabled,
+              };
+              onRenditionsChangeRef.current?.();
             });
 
             // Diagnostic: log segment load events for debugging buffer issues
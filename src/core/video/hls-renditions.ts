@@ -0,0 +1,90 @@
+// Pure helpers for the HLS quality / audio-track menus. No hls.js import, no DOM — node-testable.
+// Preferences are stored as a height and a language rather than indices, because level and track
+// indices mean nothing from one manifest to the next.
+
+/** One hls.js level (variant), as listed in the quality menu. */
+export interface HlsLevelOption {
+  /** hls.js level index. */
+  index: number;
+  height: number | null;
+  /** Advertised bitrate (bits/s). */
+  bitrate: number | null;
+}
+
+/** One alternate audio rendition (EXT-X-MEDIA TYPE=AUDIO). */
+export interface HlsAudioTrackOption {
+  /** hls.js audio track id. */
+  id: number;
+  name: string;
+  lang: string | null;
+}
+
+/** One in-manifest subtitle rendition (EXT-X-MEDIA TYPE=SUBTITLES). */
+export interface HlsSubtitleRenditionOption {
+  /** hls.js subtitle track id. */
+  id: number;
+  name: string;
+  lang: string | null;
+}
+
+/** What the quality and audio menus render, read from HLSPlayerRef whenever renditions change. */
+export interface HlsRenditionState {
+  levels: HlsLevelOption[];
+  /** Level currently playing; -1 while unknown. */
+  currentLevel: number;
+  autoLevel: boolean;
+  /** Bitrate (bits/s) of the level currently playing. */
+  currentBitrate: number | null;
+  audioTracks: HlsAudioTrackOption[];
+  /** Active audio track id; -1 when there is no alternate audio. */
+  audioTrack: number;
+}
+
+export function formatBitrate(bitrate: number | null): string {
+  if (bitrate === null) return '—';
+  return bitrate >= 1_000_000 ? `${(bitrate / 1_000_000).toFixed(2)} Mbps` : `${Math.round(bitrate / 1000)} kbps`;
+}
+
+/** Menu label: "720p", or the bitrate when the manifest doesn't advertise a resolution. */
+export function formatLevelLabel(level: HlsLevelOption): string {
+  return level.height ? `${level.height}p` : formatBitrate(level.bitrate);
+}
+
+export function formatAudioTrackLabel(track: HlsAudioTrackOption): string {
+  return track.name || track.lang || `Track ${track.id + 1}`;
+}
+
+/**
+ * Level index for a remembered height: the exact height (highest bitrate among equals), else the
+ * tallest level below it, else -1 (auto). null means the user chose Auto.
+ */
+export function pickPreferredLevel(levels: readonly HlsLevelOption[], preferredHeight: number | null): number {
+  if (preferredHeight === null) return -1;
+  const fitting = levels.filter(l => l.height !== null && l.height <= preferredHeight);
+  if (fitting.length === 0) return -1;
+  const best = fitting.reduce((a, b) => {
+    if (a.height !== b.height) return (b.height ?? 0) > (a.height ?? 0) ? b : a;
+    return (b.bitrate ?? 0) > (a.bitrate ?? 0) ? b : a;
+  });
+  return best.index;
+}
+
+function primarySubtag(lang: string): string {
+  return lang.toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Audio track id for a remembered language: an exact tag match ("pt-BR"), else the same primary
+ * language ("pt"), else null — leave the manifest's default alone.
+ */
+export function pickPreferredAudioTrack(
+  tracks: readonly HlsAudioTrackOption[],
+  preferredLang: string | null
+): number | null {
+  if (!preferredLang) return null;
+  const wanted = preferredLang.toLowerCase();
+  const exact = tracks.find(t => t.lang?.toLowerCase() === wanted);
+  if (exact) return exact.id;
+  const sameLanguage = tracks.find(t => t.lang && primarySubtag(t.lang) === primarySubtag(wanted));
+  return sameLanguage ? sameLanguage.id : null;
+}
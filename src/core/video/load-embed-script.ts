@@ -0,0 +1,26 @@
+const pendingScripts = new Map<string, Promise<void>>();
+
+/**
+ * Inject a player SDK's <script> once per page and resolve when it has loaded. Remounts and
+ * a second player on the page reuse the same promise; a failed load is forgotten so a later
+ * mount can retry.
+ */
+export function loadEmbedScript(src: string): Promise<void> {
+  const pending = pendingScripts.get(src);
+  if (pending) return pending;
+
+  const promise = new Promise<void>((resolve, reject) => {
+    const tag = document.createElement('script');
+    tag.src = src;
+    tag.async = true;
+    tag.onload = () => resolve();
+    tag.onerror = () => {
+      pendingScripts.delete(src);
+      tag.remove();
+      reject(new Error(`Failed to load ${src}`));
+    };
+    document.head.appendChild(tag);
+  });
+  pendingScripts.set(src, promise);
+  return promise;
+}
@@ -0,0 +1,100 @@
+// Pure per-client source fallback ladder for file playback (mp4/HLS/DASH): direct -> proxied -> report.
+// Each viewer walks it on their own: a link that one network or browser is refused can play fine for
+// everyone else, so nothing here is synced. No DOM, no proxy env lookup, no Date.now() — the proxied URL
+// and `now` are caller-injected so the ladder stays node-testable (mirrors hls-error-policy.ts).
+
+export type PlaybackSourceKind = 'direct' | 'proxy';
+
+export interface PlaybackFailure {
+  /** HTTP status when the player saw one (hls.js / dash.js). A CORS rejection has none, or 0. */
+  responseCode?: number;
+  /** MediaError code (1..4) from a plain <video>. */
+  mediaErrorCode?: number;
+  codecUnparsable?: boolean;
+  /** Player error details, or the MediaError message. */
+  details?: string;
+}
+
+export interface PlaybackAttempt {
+  kind: PlaybackSourceKind;
+  url: string;
+  startedAt: number;
+  /** Set once this attempt has failed; the attempt currently playing has none. */
+  failure?: PlaybackFailure;
+  failedAt?: number;
+}
+
+/** Mutable ladder state — create one per room video (reset when the URL changes). */
+export interface PlaybackFallbackState {
+  attempts: PlaybackAttempt[];
+}
+
+export type PlaybackFallbackDecision = { action: 'retry-proxied'; url: string } | { action: 'report' };
+
+export interface DecidePlaybackFallbackInput {
+  state: PlaybackFallbackState;
+  failure: PlaybackFailure;
+  /** buildProxyUrl() of the direct URL; null when the proxy is disabled. */
+  proxiedUrl: string | null;
+  /** Injected timestamp (ms) — never Date.now() internally, for deterministic tests. */
+  now: number;
+}
+
+// What a proxy can get past: hotlink/referrer and geo blocks, per-IP rate limits, and CORS (no status at all)
+const PROXY_FIXABLE_STATUSES = new Set([0, 401, 403, 429, 451]);
+
+const MEDIA_ERR_NETWORK = 2;
+const MEDIA_ERR_DECODE = 3;
+// Also what a <video crossorigin> reports when the response lacks CORS headers
+const MEDIA_ERR_SRC_NOT_SUPPORTED = 4;
+
+export function createPlaybackFallbackState(url: string, kind: PlaybackSourceKind, now: number): PlaybackFallbackState {
+  return { attempts: [{ kind, url, startedAt: now }] };
+}
+
+export function getActiveAttempt(state: PlaybackFallbackState): PlaybackAttempt | null {
+  return state.attempts[state.attempts.length - 1] ?? null;
+}
+
+/**
+ * Whether relaying the same URL through the proxy could change the outcome. The proxy serves the same
+ * bytes, so codec and decode failures are final, and so is a URL the origin says is gone (404/410).
+ */
+export function isProxyFixable(failure: PlaybackFailure): boolean {
+  if (failure.codecUnparsable) return false;
+  if (failure.mediaErrorCode === MEDIA_ERR_DECODE) return false;
+  if (failure.responseCode !== undefined) return PROXY_FIXABLE_STATUSES.has(failure.responseCode);
+  if (failure.mediaErrorCode !== undefined) {
+    return failure.mediaErrorCode === MEDIA_ERR_NETWORK || failure.mediaErrorCode === MEDIA_ERR_SRC_NOT_SUPPORTED;
+  }
+  // A network failure with no status at all is what CORS looks like from script
+  return true;
+}
+
+/**
+ * Record a fatal playback failure on the active attempt and decide the next rung: a direct source that
+ * failed in a way the proxy can get around is retried once through it; everything else is reported.
+ */
+export function decidePlaybackFallback(input: DecidePlaybackFallbackInput): PlaybackFallbackDecision {
+  const { state, failure, proxiedUrl, now } = input;
+  const active = getActiveAttempt(state);
+  if (!active) return { action: 'report' };
+
+  active.failure = failure;
+  active.failedAt = now;
+
+  if (active.kind === 'direct' && proxiedUrl && proxiedUrl !== active.url && isProxyFixable(failure)) {
+    state.attempts.push({ kind: 'proxy', url: proxiedUrl, startedAt: now });
+    return { action: 'retry-proxied', url: proxiedUrl };
+  }
+
+  return { action: 'report' };
+}
+
+/** Short label for a failure: "HTTP 403", "media error 4", "codec". */
+export function describePlaybackFailure(failure: PlaybackFailure): string {
+  if (failure.codecUnparsable) return 'codec';
+  if (failure.responseCode !== undefined && failure.responseCode > 0) return `HTTP ${failure.responseCode}`;
+  if (failure.mediaErrorCode !== undefined) return `media error ${failure.mediaErrorCode}`;
+  return failure.details || 'network';
+}
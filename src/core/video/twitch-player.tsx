@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useId, useRef, useImperativeHandle, forwardRef } from 'react';
+import { logVideo } from '@/src/core/logger/client-logger';
+import { loadEmbedScript } from './load-embed-script';
+import type { PlayerPlaybackState } from '@/src/features/video-sync/lib/player-adapter';
+
+const TWITCH_SDK_SRC = 'https://player.twitch.tv/js/embed/v1.js';
+
+interface TwitchPlayerProps {
+  /** Numeric VOD ID (without the leading "v"). */
+  videoId: string;
+  onReady?: () => void;
+  onStateChange?: (state: PlayerPlaybackState) => void;
+  /** Fired for seeks made in Twitch's own controls (not for seekTo calls). */
+  onSeeked?: () => void;
+  className?: string;
+}
+
+export interface TwitchPlayerRef {
+  play: () => void;
+  pause: () => void;
+  seekTo: (time: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  getPlaybackState: () => PlayerPlaybackState;
+  /** Always false — the Twitch embed has no speed control, so sync corrects by seeking. */
+  canSetPlaybackRate: () => boolean;
+  setPlaybackRate: (rate: number) => void;
+}
+
+interface TwitchSdkPlayer {
+  play(): void;
+  pause(): void;
+  seek(timestamp: number): void;
+  getCurrentTime(): number;
+  getDuration(): number;
+  addEventListener(event: string, callback: (data?: { position?: number }) => void): void;
+}
+
+declare global {
+  interface Window {
+    Twitch?: {
+      Player: {
+        new (elementId: string, options: Record<string, unknown>): TwitchSdkPlayer;
+        READY: string;
+        PLAY: string;
+        PLAYING: string;
+        PAUSE: string;
+        ENDED: string;
+        SEEK: string;
+      };
+    };
+  }
+}
+
+export const TwitchPlayer = forwardRef<TwitchPlayerRef, TwitchPlayerProps>(
+  ({ videoId, onReady, onStateChange, onSeeked, className }, ref) => {
+    const onReadyRef = useRef(onReady);
+    const onStateChangeRef = useRef(onStateChange);
+    const onSeekedRef = useRef(onSeeked);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const playerRef = useRef<TwitchSdkPlayer | null>(null);
+    const stateRef = useRef<PlayerPlaybackState>('unknown');
+    // Seek we requested ourselves, so its SEEK echo isn't reported as a viewer action
+    const programmaticSeekRef = useRef(false);
+    // The SDK looks its mount point up by element ID
+    const elementId = `twitch-player-${useId().replace(/:/g, '')}`;
+
+    useImperativeHandle(ref, () => ({
+      play: () => playerRef.current?.play(),
+      pause: () => playerRef.current?.pause(),
+      seekTo: (time: number) => {
+        if (!playerRef.current) return;
+        programmaticSeekRef.current = true;
+        playerRef.current.seek(time);
+      },
+      getCurrentTime: () => playerRef.current?.getCurrentTime() ?? 0,
+      getDuration: () => playerRef.current?.getDuration() ?? 0,
+      getPlaybackState: () => stateRef.current,
+      canSetPlaybackRate: () => false,
+      setPlaybackRate: () => {},
+    }));
+
+    useEffect(() => {
+      onReadyRef.current = onReady;
+      onStateChangeRef.current = onStateChange;
+      onSeekedRef.current = onSeeked;
+    });
+
+    useEffect(() => {
+      if (!videoId) return;
+      let cancelled = false;
+      const container = containerRef.current;
+      stateRef.current = 'unknown';
+
+      const setState = (state: PlayerPlaybackState) => {
+        stateRef.current = state;
+        onStateChangeRef.current?.(state);
+      };
+
+      const initializePlayer = () => {
+        const Player = window.Twitch?.Player;
+        if (cancelled || !container || !Player) return;
+
+        const player = new Player(elementId, {
+          video: `v${videoId}`,
+          parent: [window.location.hostname],
+          width: '100%',
+          height: '100%',
+          autoplay: false,
+        });
+        playerRef.current = player;
+
+        player.addEventListener(Player.READY, () => {
+          stateRef.current = 'paused';
+          onReadyRef.current?.();
+        });
+        // PLAY is the request, PLAYING the first frame; in between the VOD is loading
+        player.addEventListener(Player.PLAY, () => {
+          if (stateRef.current !== 'playing') setState('buffering');
+        });
+        player.addEventListener(Player.PLAYING, () => setState('playing'));
+        player.addEventListener(Player.PAUSE, () => setState('paused'));
+        player.addEventListener(Player.ENDED, () => setState('ended'));
+        player.addEventListener(Player.SEEK, () => {
+          if (programmaticSeekRef.current) {
+            programmaticSeekRef.current = false;
+            return;
+          }
+          onSeekedRef.current?.();
+        });
+      };
+
+      loadEmbedScript(TWITCH_SDK_SRC)
+        .then(initializePlayer)
+        .catch(error => {
+          logVideo('twitch_sdk_failed', 'Failed to load the Twitch player SDK', { error: String(error) });
+        });
+
+      return () => {
+        cancelled = true;
+        playerRef.current = null;
+        // The embed has no destroy(); dropping its iframe stops playback
+        container?.replaceChildren();
+      };
+    }, [videoId, elementId]);
+
+    return (
+      <div className={className}>
+        <div id={elementId} ref={containerRef} className="h-full w-full" />
+      </div>
+    );
+  }
+);
+
+TwitchPlayer.displayName = 'TwitchPlayer';
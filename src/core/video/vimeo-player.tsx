@@ -0,0 +1,246 @@
+'use client';
+
+import { useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
+import { logVideo } from '@/src/core/logger/client-logger';
+import { loadEmbedScript } from './load-embed-script';
+import { projectVimeoTime, type VimeoTimeSample } from '@/src/features/video-sync/lib/vimeo';
+import type { PlayerPlaybackState } from '@/src/features/video-sync/lib/player-adapter';
+
+const VIMEO_SDK_SRC = 'https://player.vimeo.com/api/player.js';
+
+interface VimeoPlayerProps {
+  videoId: string;
+  /** Privacy hash for unlisted videos. */
+  hash?: string;
+  onReady?: () => void;
+  onStateChange?: (state: PlayerPlaybackState) => void;
+  /** Fired for seeks made in Vimeo's own controls (not for seekTo calls). */
+  onSeeked?: () => void;
+  /** Fired when the viewer picks a speed in Vimeo's own menu (not for setPlaybackRate calls). */
+  onPlaybackRateChange?: (rate: number) => void;
+  className?: string;
+}
+
+export interface VimeoPlayerRef {
+  play: () => void;
+  pause: () => void;
+  seekTo: (time: number) => void;
+  /** Projected from the last timeupdate; the SDK's own getter is async. */
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  getPlaybackState: () => PlayerPlaybackState;
+  /** False until the video is known to allow speed changes (an owner/plan setting on Vimeo). */
+  canSetPlaybackRate: () => boolean;
+  setPlaybackRate: (rate: number) => void;
+}
+
+interface VimeoEventData {
+  seconds?: number;
+  duration?: number;
+  playbackRate?: number;
+}
+
+interface VimeoSdkPlayer {
+  play(): Promise<void>;
+  pause(): Promise<void>;
+  setCurrentTime(seconds: number): Promise<number>;
+  setPlaybackRate(rate: number): Promise<number>;
+  getDuration(): Promise<number>;
+  on(event: string, callback: (data: VimeoEventData) => void): void;
+  destroy(): Promise<void>;
+}
+
+declare global {
+  interface Window {
+    Vimeo?: {
+      Player: new (element: HTMLElement, options: Record<string, unknown>) => VimeoSdkPlayer;
+    };
+  }
+}
+
+export const VimeoPlayer = forwardRef<VimeoPlayerRef, VimeoPlayerProps>(
+  ({ videoId, hash, onReady, onStateChange, onSeeked, onPlaybackRateChange, className }, ref) => {
+    const onReadyRef = useRef(onReady);
+    const onStateChangeRef = useRef(onStateChange);
+    const onSeekedRef = useRef(onSeeked);
+    const onPlaybackRateChangeRef = useRef(onPlaybackRateChange);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const playerRef = useRef<VimeoSdkPlayer | null>(null);
+    const sampleRef = useRef<VimeoTimeSample>({ seconds: 0, at: 0, playing: false, rate: 1 });
+    const durationRef = useRef(0);
+    const stateRef = useRef<PlayerPlaybackState>('unknown');
+    const rateAllowedRef = useRef(false);
+    // Seek/rate we requested ourselves, so their event echoes aren't reported as viewer actions
+    const programmaticSeekRef = useRef(false);
+    const programmaticRateRef = useRef<number | null>(null);
+
+    useImperativeHandle(ref, () => ({
+      play: () => {
+        playerRef.current?.play().catch(error => {
+          logVideo('vimeo_play_error', 'Error playing Vimeo video', { error: String(error) });
+        });
+      },
+      pause: () => {
+        playerRef.current?.pause().catch(() => {});
+      },
+      seekTo: (time: number) => {
+        const player = playerRef.current;
+        if (!player) return;
+        programmaticSeekRef.current = true;
+        sampleRef.current = { ...sampleRef.current, seconds: time, at: Date.now() };
+        player.setCurrentTime(time).catch(error => {
+          programmaticSeekRef.current = false;
+          logVideo('vimeo_seek_error', 'Error seeking Vimeo video', { error: String(error), time });
+        });
+      },
+      getCurrentTime: () => projectVimeoTime(sampleRef.current, Date.now()),
+      getDuration: () => durationRef.current,
+      getPlaybackState: () => stateRef.current,
+      canSetPlaybackRate: () => rateAllowedRef.current,
+      setPlaybackRate: (rate: number) => {
+        const player = playerRef.current;
+        if (!player || !rateAllowedRef.current || sampleRef.current.rate === rate) return;
+        programmaticRateRef.current = rate;
+        player.setPlaybackRate(rate).catch(() => {
+          programmaticRateRef.current = null;
+          rateAllowedRef.current = false;
+        });
+      },
+    }));
+
+    useEffect(() => {
+      onReadyRef.current = onReady;
+      onStateChangeRef.current = onStateChange;
+      onSeekedRef.current = onSeeked;
+      onPlaybackRateChangeRef.current = onPlaybackRateChange;
+    });
+
+    useEffect(() => {
+      if (!videoId) return;
+      let cancelled = false;
+
+      sampleRef.current = { seconds: 0, at: Date.now(), playing: false, rate: 1 };
+      durationRef.current = 0;
+      stateRef.current = 'unknown';
+      rateAllowedRef.current = false;
+
+      // Re-anchor the projection at the moment the player changes what it's doing
+      const rebase = (playing: boolean, seconds?: number) => {
+        const now = Date.now();
+        const current = sampleRef.current;
+        sampleRef.current = { ...current, seconds: seconds ?? projectVimeoTime(current, now), at: now, playing };
+      };
+
+      const setState = (state: PlayerPlaybackState, emit = true) => {
+        stateRef.current = state;
+        if (emit) onStateChangeRef.current?.(state);
+      };
+
+      const initializePlayer = () => {
+        if (cancelled || !containerRef.current || !window.Vimeo) return;
+
+        const player = new window.Vimeo.Player(containerRef.current, {
+          ...(hash ? { url: `https://player.vimeo.com/video/${videoId}?h=${hash}` } : { id: Number(videoId) }),
+          autoplay: false,
+          controls: true,
+          dnt: true,
+          playsinline: true,
+        });
+        playerRef.current = player;
+
+        player.on('loaded', () => {
+          player
+            .getDuration()
+            .then(duration => {
+              durationRef.current = duration;
+            })
+            .catch(() => {});
+          // Speed control depends on the uploader's plan; a no-op set to 1x tells us without a visible change
+          player
+            .setPlaybackRate(1)
+            .then(() => {
+              rateAllowedRef.current = true;
+            })
+            .catch(() => {
+              rateAllowedRef.current = false;
+            });
+          setState('paused', false);
+          onReadyRef.current?.();
+        });
+
+        player.on('timeupdate', data => {
+          if (typeof data.duration === 'number' && data.duration > 0) durationRef.current = data.duration;
+          if (typeof data.seconds === 'number') rebase(sampleRef.current.playing, data.seconds);
+        });
+
+        player.on('playing', data => {
+          rebase(true, data.seconds);
+          setState('playing');
+        });
+
+        player.on('pause', data => {
+          rebase(false, data.seconds);
+          setState('paused');
+        });
+
+        player.on('ended', data => {
+          rebase(false, data.seconds);
+          setState('ended');
+        });
+
+        player.on('bufferstart', () => {
+          rebase(false);
+          setState('buffering');
+        });
+
+        // Resume quietly: reporting 'playing' would re-broadcast play to the room after every rebuffer
+        player.on('bufferend', () => {
+          const paused = stateRef.current === 'paused' || stateRef.current === 'ended';
+          rebase(!paused);
+          if (stateRef.current === 'buffering') setState('playing', false);
+        });
+
+        player.on('seeked', data => {
+          rebase(sampleRef.current.playing, data.seconds);
+          if (programmaticSeekRef.current) {
+            programmaticSeekRef.current = false;
+            return;
+          }
+          onSeekedRef.current?.();
+        });
+
+        player.on('playbackratechange', data => {
+          // The 1x capability probe on load can echo back as a change to the rate we're already at
+          if (typeof data.playbackRate !== 'number' || data.playbackRate === sampleRef.current.rate) return;
+          rebase(sampleRef.current.playing);
+          sampleRef.current = { ...sampleRef.current, rate: data.playbackRate };
+          if (programmaticRateRef.current === data.playbackRate) {
+            programmaticRateRef.current = null;
+            return;
+          }
+          onPlaybackRateChangeRef.current?.(data.playbackRate);
+        });
+      };
+
+      loadEmbedScript(VIMEO_SDK_SRC)
+        .then(initializePlayer)
+        .catch(error => {
+          logVideo('vimeo_sdk_failed', 'Failed to load the Vimeo player SDK', { error: String(error) });
+        });
+
+      return () => {
+        cancelled = true;
+        playerRef.current?.destroy().catch(() => {});
+        playerRef.current = null;
+      };
+    }, [videoId, hash]);
+
+    return (
+      <div className={className}>
+        <div ref={containerRef} className="h-full w-full [&>iframe]:h-full [&>iframe]:w-full" />
+      </div>
+    );
+  }
+);
+
+VimeoPlayer.displayName = 'VimeoPlayer';
@@ -1,12 +1,16 @@
 'use client';
 
 import { useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
+import { snapPlaybackRate } from '@/src/features/video-sync/lib/playback-rate';
+import { YT_STATES } from '@/src/features/video-sync/lib/youtube';
 
 interface YouTubePlayerProps {
   videoId: string;
   onReady?: () => void;
   onStateChange?: (state: number) => void;
   onTimeUpdate?: (currentTime: number, duration: number) => void;
+  /** Fired when the viewer picks a speed in YouTube's own settings menu (not for setPlaybackRate calls). */
+  onPlaybackRateChange?: (rate: number) => void;
   className?: string;
 }
 
@@ -17,17 +21,15 @@ export interface YouTubePlayerRef {
   getCurrentTime: () => number;
   getDuration: () => number;
   getPlayerState: () => number;
+  /** Snaps to the nearest rate YouTube offers for this video — it has no continuous playbackRate. */
+  setPlaybackRate: (rate: number) => void;
+  /** Rates this video accepts; empty until the player is ready. */
+  getAvailablePlaybackRates: () => number[];
+  /** Empty until the player has loaded the video. */
+  getVideoTitle: () => string;
 }
 
-// YouTube IFrame Player API states
-export const YT_STATES = {
-  UNSTARTED: -1,
-  ENDED: 0,
-  PLAYING: 1,
-  PAUSED: 2,
-  BUFFERING: 3,
-  CUED: 5,
-};
+export { YT_STATES };
 
 declare global {
   interface Window {
@@ -53,14 +55,21 @@ interface YTPlayer {
   getCurrentTime(): number;
   getDuration(): number;
   getPlayerState(): number;
+  getPlaybackRate(): number;
+  setPlaybackRate(suggestedRate: number): void;
+  getAvailablePlaybackRates(): number[];
+  getVideoData(): { title?: string };
   destroy(): void;
 }
 
 export const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(
-  ({ videoId, onReady, onStateChange, onTimeUpdate, className }, ref) => {
+  ({ videoId, onReady, onStateChange, onTimeUpdate, onPlaybackRateChange, className }, ref) => {
     const onReadyRef = useRef(onReady);
     const onStateChangeRef = useRef(onStateChange);
     const onTimeUpdateRef = useRef(onTimeUpdate);
+    const onPlaybackRateChangeRef = useRef(onPlaybackRateChange);
+    // Rate we last requested ourselves, so its onPlaybackRateChange echo isn't reported as a user pick
+    const programmaticRateRef = useRef<number | null>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const playerRef = useRef<YTPlayer | null>(null);
     const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -99,12 +108,23 @@ export const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(
         }
         return YT_STATES.UNSTARTED;
       },
+      setPlaybackRate: (rate: number) => {
+        const player = playerRef.current;
+        if (!player || !player.setPlaybackRate) return;
+        const snapped = snapPlaybackRate(rate, player.getAvailablePlaybackRates?.() ?? []);
+        if (player.getPlaybackRate?.() === snapped) return;
+        programmaticRateRef.current = snapped;
+        player.setPlaybackRate(snapped);
+      },
+      getAvailablePlaybackRates: () => playerRef.current?.getAvailablePlaybackRates?.() ?? [],
+      getVideoTitle: () => playerRef.current?.getVideoData?.()?.title ?? '',
     }));
 
     useEffect(() => {
       onReadyRef.current = onReady;
       onStateChangeRef.current = onStateChange;
       onTimeUpdateRef.current = onTimeUpdate;
+      onPlaybackRateChangeRef.current = onPlaybackRateChange;
     });
 
     useEffect(() => {
@@ -161,6 +181,13 @@ export const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(
                 stopTimeTracking();
               }
             },
+            onPlaybackRateChange: (event: { data: number }) => {
+              if (programmaticRateRef.current === event.data) {
+                programmaticRateRef.current = null;
+                return;
+              }
+              onPlaybackRateChangeRef.current?.(event.data);
+            },
           },
         });
       };
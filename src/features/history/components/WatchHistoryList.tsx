@@ -0,0 +1,149 @@
+'use client';
+
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { History, DoorOpen, Play, Trash2, X } from 'lucide-react';
+import { formatTimestamp } from '@/src/lib/chat-timestamps';
+import { getRecentRooms, getWatchProgress, type WatchHistoryEntry } from '../lib/watch-history';
+
+interface WatchHistoryListProps {
+  entries: WatchHistoryEntry[];
+  isLoading: boolean;
+  isUnavailable: boolean;
+  onRemove: (videoId: string) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+function formatWatchedAt(watchedAt: number): string {
+  return new Date(watchedAt).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export function WatchHistoryList({
+  entries,
+  isLoading,
+  isUnavailable,
+  onRemove,
+  onClear,
+  className,
+}: WatchHistoryListProps) {
+  const rooms = getRecentRooms(entries);
+
+  return (
+    <div className={`space-y-6 ${className ?? ''}`}>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-4">
+            <History className="h-5 w-5" />
+            <span className="text-xl font-semibold tracking-tighter">Recently Watched</span>
+            <Badge className="ml-auto">{entries.length}</Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {entries.map(entry => {
+              const progress = getWatchProgress(entry);
+              return (
+                <div
+                  key={entry.videoId}
+                  className="flex items-center space-x-4 rounded-md p-4 transition-colors hover:bg-muted/50"
+                >
+                  <div className="min-w-0 flex-1">
+                    <span className="block truncate font-bold tracking-tight" title={entry.videoUrl}>
+                      {entry.title}
+                    </span>
+                    <div className="mt-1 truncate text-sm tracking-tight text-neutral">
+                      Stopped at {formatTimestamp(entry.position)}
+                      {entry.duration > 0 && ` of ${formatTimestamp(entry.duration)}`} ·{' '}
+                      {formatWatchedAt(entry.watchedAt)}
+                    </div>
+                    {progress > 0 && (
+                      <div className="mt-2 h-1 w-full overflow-hidden rounded-full bg-muted">
+                        <div className="h-full bg-primary" style={{ width: `${progress * 100}%` }} />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Button asChild size="sm" variant="outline" className="h-8 px-2" title="Start a room with this">
+                      <Link href={`/create?videoUrl=${encodeURIComponent(entry.videoUrl)}`}>
+                        <Play className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => onRemove(entry.videoId)}
+                      className="h-8 px-2"
+                      title="Forget this video"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+
+            {!isLoading && entries.length === 0 && (
+              <div className="py-4 text-center text-muted-foreground">
+                <History className="mx-auto mb-2 h-8 w-8 opacity-50" />
+                <p>
+                  {isUnavailable
+                    ? `Your browser isn't letting us keep a history here. Private window, maybe?`
+                    : 'Nothing watched yet. Go make some memories.'}
+                </p>
+              </div>
+            )}
+
+            {entries.length > 0 && (
+              <Button variant="outline" className="w-full" onClick={onClear}>
+                <Trash2 className="h-4 w-4" />
+                Clear history
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {rooms.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-4">
+              <DoorOpen className="h-5 w-5" />
+              <span className="text-xl font-semibold tracking-tighter">Recent Rooms</span>
+              <Badge className="ml-auto">{rooms.length}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              {rooms.map(room => (
+                <div
+                  key={room.roomId}
+                  className="flex items-center space-x-4 rounded-md p-4 transition-colors hover:bg-muted/50"
+                >
+                  <div className="min-w-0 flex-1">
+                    <span className="block truncate font-mono font-bold tracking-tight">{room.roomId}</span>
+                    <div className="mt-1 truncate text-sm tracking-tight text-neutral">
+                      {room.lastTitle}
+                      {room.videoCount > 1 && ` and ${room.videoCount - 1} more`} · {formatWatchedAt(room.watchedAt)}
+                    </div>
+                  </div>
+                  <Button asChild size="sm" variant="outline">
+                    <Link href={`/room/${room.roomId}`}>Rejoin</Link>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { logDebug } from '@/src/core/logger';
+import type { WatchHistoryEntry } from '../lib/watch-history';
+import { clearWatchHistory, listWatchHistory, removeWatchHistoryEntry } from '../lib/watch-history-store';
+
+interface UseWatchHistoryListReturn {
+  /** Newest first. */
+  entries: WatchHistoryEntry[];
+  isLoading: boolean;
+  /** Storage couldn't be opened (private mode, blocked site data). */
+  isUnavailable: boolean;
+  removeEntry: (videoId: string) => void;
+  clearAll: () => void;
+}
+
+export function useWatchHistoryList(): UseWatchHistoryListReturn {
+  const [entries, setEntries] = useState<WatchHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUnavailable, setIsUnavailable] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listWatchHistory()
+      .then(list => {
+        if (!cancelled) setEntries(list);
+      })
+      .catch(error => {
+        logDebug('room', 'watch_history_list_fail', 'Failed to list watch history', { error: String(error) });
+        if (!cancelled) setIsUnavailable(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const removeEntry = useCallback((videoId: string) => {
+    setEntries(prev => prev.filter(entry => entry.videoId !== videoId));
+    removeWatchHistoryEntry(videoId).catch(error => {
+      logDebug('room', 'watch_history_remove_fail', 'Failed to remove watch history entry', { error: String(error) });
+    });
+  }, []);
+
+  const clearAll = useCallback(() => {
+    setEntries([]);
+    clearWatchHistory().catch(error => {
+      logDebug('room', 'watch_history_clear_fail', 'Failed to clear watch history', { error: String(error) });
+    });
+  }, []);
+
+  return { entries, isLoading, isUnavailable, removeEntry, clearAll };
+}
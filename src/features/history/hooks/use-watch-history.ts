@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { logDebug } from '@/src/core/logger';
+import { getVideoIdForStorage } from '@/src/features/subtitles/lib';
+import { formatTimestamp } from '@/src/lib/chat-timestamps';
+import { WATCH_HISTORY_RESUME_MARGIN_S, WATCH_HISTORY_SAVE_INTERVAL_MS } from '@/src/lib/constants';
+import { getHistoryTitle, getResumePosition } from '../lib/watch-history';
+import { getWatchHistoryEntry, saveWatchHistoryEntry } from '../lib/watch-history-store';
+
+interface UseWatchHistoryOptions {
+  roomId: string;
+  /** room.videoUrl, the URL the host set (not the proxied playback URL). */
+  videoUrl: string | undefined;
+  isHost: boolean;
+  isPlaying: boolean;
+  /** What the local player is showing; null when there is no player or it's a live stream. */
+  getPlaybackPosition: () => { position: number; duration: number } | null;
+  /** The room's projected position, used to tell a freshly set video from one already under way. */
+  getRoomPosition: () => number;
+  getPlayerTitle?: () => string | undefined;
+  /** Host: seek the room to a remembered position. */
+  onResume: (position: number) => void;
+}
+
+/**
+ * Remembers how far this browser got into each video, and offers the host a "resume from" prompt when a
+ * video they've watched before is set again.
+ */
+export function useWatchHistory({
+  roomId,
+  videoUrl,
+  isHost,
+  isPlaying,
+  getPlaybackPosition,
+  getRoomPosition,
+  getPlayerTitle,
+  onResume,
+}: UseWatchHistoryOptions): void {
+  const videoId = getVideoIdForStorage(videoUrl);
+  // Saving waits until the previous entry has been read, or the first save would wipe what we'd offer
+  const loadedVideoIdRef = useRef<string | null>(null);
+  // Layout effects run before passive cleanups, so the save-on-cleanup below can tell a video switch
+  // (the player already shows the next one) from a pause
+  const currentVideoIdRef = useRef(videoId);
+  useLayoutEffect(() => {
+    currentVideoIdRef.current = videoId;
+  }, [videoId]);
+
+  const callbacksRef = useRef({ getPlaybackPosition, getRoomPosition, getPlayerTitle, onResume, isHost });
+  useEffect(() => {
+    callbacksRef.current = { getPlaybackPosition, getRoomPosition, getPlayerTitle, onResume, isHost };
+  });
+
+  useEffect(() => {
+    loadedVideoIdRef.current = null;
+    if (!videoId) return;
+
+    let cancelled = false;
+    let toastId: string | number | undefined;
+
+    getWatchHistoryEntry(videoId)
+      .then(entry => {
+        if (cancelled) return;
+        loadedVideoIdRef.current = videoId;
+
+        const { isHost: host, getRoomPosition: roomPosition, onResume: resume } = callbacksRef.current;
+        const resumeAt = entry ? getResumePosition(entry) : null;
+        // Only for a video that's just been set; rejoining a room halfway through isn't the moment
+        if (!host || resumeAt === null || roomPosition() > WATCH_HISTORY_RESUME_MARGIN_S) return;
+
+        toastId = toast('Picking up where you left off?', {
+          description: `Last time this stopped at ${formatTimestamp(resumeAt)}.`,
+          duration: 15_000,
+          action: {
+            label: `Resume from ${formatTimestamp(resumeAt)}`,
+            onClick: () => resume(resumeAt),
+          },
+        });
+      })
+      .catch(error => {
+        if (cancelled) return;
+        // History is a nicety; without storage, just record nothing
+        logDebug('room', 'watch_history_load_fail', 'Failed to read watch history', { error: String(error) });
+      });
+
+    return () => {
+      cancelled = true;
+      if (toastId !== undefined) toast.dismiss(toastId);
+    };
+  }, [videoId]);
+
+  useEffect(() => {
+    if (!videoId || !videoUrl || !isPlaying) return;
+
+    const save = () => {
+      if (loadedVideoIdRef.current !== videoId) return;
+      const playback = callbacksRef.current.getPlaybackPosition();
+      if (!playback || !Number.isFinite(playback.position)) return;
+
+      saveWatchHistoryEntry({
+        videoId,
+        videoUrl,
+        title: getHistoryTitle(videoUrl, callbacksRef.current.getPlayerTitle?.()),
+        position: playback.position,
+        duration: Number.isFinite(playback.duration) && playback.duration > 0 ? playback.duration : 0,
+        roomId,
+        watchedAt: Date.now(),
+      }).catch(error => {
+        logDebug('room', 'watch_history_save_fail', 'Failed to save watch history', { error: String(error) });
+      });
+    };
+
+    const interval = setInterval(save, WATCH_HISTORY_SAVE_INTERVAL_MS);
+    window.addEventListener('pagehide', save);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', save);
+      // Pausing or leaving the room: keep the last position. After a switch the interval's last save stands
+      if (currentVideoIdRef.current === videoId) save();
+    };
+  }, [roomId, videoId, videoUrl, isPlaying]);
+}
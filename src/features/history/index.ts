@@ -0,0 +1,4 @@
+// Watch history feature exports
+export { useWatchHistory } from './hooks/use-watch-history';
+export { useWatchHistoryList } from './hooks/use-watch-history-list';
+export { WatchHistoryList } from './components/WatchHistoryList';
@@ -0,0 +1,87 @@
+// Local watch history in IndexedDB, one entry per video keyed by getVideoIdForStorage. Nothing here leaves
+// the browser; the room server never sees it.
+import { WATCH_HISTORY_MAX_ENTRIES } from '@/src/lib/constants';
+import { getEntriesToPrune, type WatchHistoryEntry } from './watch-history';
+
+const DB_NAME = 'sideby_watch_history';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'videoId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Let the next call try again (private mode, storage pressure)
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function getWatchHistoryEntry(videoId: string): Promise<WatchHistoryEntry | null> {
+  const entry = await withStore<WatchHistoryEntry | undefined>('readonly', store => store.get(videoId));
+  return entry ?? null;
+}
+
+/** Newest first. */
+export async function listWatchHistory(): Promise<WatchHistoryEntry[]> {
+  const entries = await withStore<WatchHistoryEntry[]>('readonly', store => store.getAll());
+  return (entries ?? []).sort((a, b) => b.watchedAt - a.watchedAt);
+}
+
+export async function saveWatchHistoryEntry(entry: WatchHistoryEntry): Promise<void> {
+  await withStore('readwrite', store => {
+    store.put(entry);
+  });
+
+  const count = await withStore<number>('readonly', store => store.count());
+  if ((count ?? 0) <= WATCH_HISTORY_MAX_ENTRIES) return;
+
+  const stale = getEntriesToPrune(await listWatchHistory(), WATCH_HISTORY_MAX_ENTRIES);
+  if (stale.length > 0) {
+    await withStore('readwrite', store => {
+      stale.forEach(videoId => store.delete(videoId));
+    });
+  }
+}
+
+export async function removeWatchHistoryEntry(videoId: string): Promise<void> {
+  await withStore('readwrite', store => {
+    store.delete(videoId);
+  });
+}
+
+export async function clearWatchHistory(): Promise<void> {
+  await withStore('readwrite', store => {
+    store.clear();
+  });
+}
@@ -0,0 +1,78 @@
+import { describeQueueUrl } from '@/src/features/queue/lib/queue';
+import { WATCH_HISTORY_RESUME_MARGIN_S } from '@/src/lib/constants';
+
+export interface WatchHistoryEntry {
+  /** getVideoIdForStorage(videoUrl), the same key subtitles are stored under. */
+  videoId: string;
+  videoUrl: string;
+  title: string;
+  /** Seconds into the video when we last saw it playing. */
+  position: number;
+  /** Seconds; 0 when the player never reported one. */
+  duration: number;
+  /** Room it was last watched in. */
+  roomId: string;
+  /** Epoch ms of the last save. */
+  watchedAt: number;
+}
+
+export interface RecentRoom {
+  roomId: string;
+  watchedAt: number;
+  /** Title of the last video watched there. */
+  lastTitle: string;
+  videoCount: number;
+}
+
+/** Where to offer to pick up from, or null when the last session barely started or already reached the end. */
+export function getResumePosition(entry: Pick<WatchHistoryEntry, 'position' | 'duration'>): number | null {
+  if (!Number.isFinite(entry.position) || entry.position < WATCH_HISTORY_RESUME_MARGIN_S) return null;
+  if (entry.duration > 0 && entry.position > entry.duration - WATCH_HISTORY_RESUME_MARGIN_S) return null;
+  return entry.position;
+}
+
+/** 0..1 share of the video watched; 0 when the duration is unknown. */
+export function getWatchProgress(entry: Pick<WatchHistoryEntry, 'position' | 'duration'>): number {
+  if (!(entry.duration > 0)) return 0;
+  return Math.min(1, Math.max(0, entry.position / entry.duration));
+}
+
+/** The player's own title when it has one (YouTube), otherwise the same short label the queue shows. */
+export function getHistoryTitle(videoUrl: string, playerTitle?: string | null): string {
+  const trimmed = playerTitle?.trim();
+  if (trimmed) return trimmed;
+  const { source, detail } = describeQueueUrl(videoUrl);
+  return detail ? `${detail} (${source})` : source;
+}
+
+/** Rooms from the history, most recent first. */
+export function getRecentRooms(entries: readonly WatchHistoryEntry[]): RecentRoom[] {
+  const rooms = new Map<string, RecentRoom>();
+  for (const entry of entries) {
+    const room = rooms.get(entry.roomId);
+    if (!room) {
+      rooms.set(entry.roomId, {
+        roomId: entry.roomId,
+        watchedAt: entry.watchedAt,
+        lastTitle: entry.title,
+        videoCount: 1,
+      });
+      continue;
+    }
+    room.videoCount++;
+    if (entry.watchedAt > room.watchedAt) {
+      room.watchedAt = entry.watchedAt;
+      room.lastTitle = entry.title;
+    }
+  }
+  return [...rooms.values()].sort((a, b) => b.watchedAt - a.watchedAt);
+}
+
+/** Video ids to drop so that only the `max` most recently watched entries remain. */
+export function getEntriesToPrune(entries: readonly WatchHistoryEntry[], max: number): string[] {
+  if (entries.length <= max) return [];
+  return [...entries]
+    .sort((a, b) => b.watchedAt - a.watchedAt)
+    .slice(max)
+    .map(entry => entry.videoId);
+}
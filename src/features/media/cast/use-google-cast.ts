@@ -393,6 +393,8 @@ export function useGoogleCast(options: UseGoogleCastOptions = {}): UseGoogleCast
         if (!effectiveContentType) {
           if (mediaUrl.includes('.m3u8') || mediaUrl.includes('m3u8')) {
             effectiveContentType = 'application/x-mpegurl';
+          } else if (mediaUrl.includes('.mpd')) {
+            effectiveContentType = 'application/dash+xml';
           } else if (mediaUrl.includes('.mp4')) {
             effectiveContentType = 'video/mp4';
           } else if (mediaUrl.includes('.webm')) {
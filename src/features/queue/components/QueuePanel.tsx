@@ -0,0 +1,205 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ListVideo, ChevronUp, ChevronDown, Check, X, Play, SkipForward, Plus } from 'lucide-react';
+import type { QueueItem } from '@/types';
+import { parseVideoUrl, isDrmHost } from '@/src/lib/video-utils';
+import { canRemoveQueueItem, describeQueueUrl, getNextQueueItem } from '../lib/queue';
+
+interface QueuePanelProps {
+  queue: QueueItem[];
+  currentUserId: string;
+  isHost: boolean;
+  /** Room setting: guests may suggest links for the host to approve. */
+  allowSuggestions: boolean;
+  onAdd: (videoUrl: string) => void;
+  onRemove: (itemId: string) => void;
+  onMove: (itemId: string, toIndex: number) => void;
+  onApprove: (itemId: string) => void;
+  onPlay: (itemId?: string) => void;
+  className?: string;
+}
+
+export function QueuePanel({
+  queue,
+  currentUserId,
+  isHost,
+  allowSuggestions,
+  onAdd,
+  onRemove,
+  onMove,
+  onApprove,
+  onPlay,
+  className,
+}: QueuePanelProps) {
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState('');
+
+  const canAdd = isHost || allowSuggestions;
+  const currentUser = { id: currentUserId, isHost };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = url.trim();
+    if (!trimmed) return;
+
+    if (!parseVideoUrl(trimmed)) {
+      setError(`That doesn't look like a video link we can play.`);
+      return;
+    }
+    if (isDrmHost(trimmed)) {
+      setError(`DRM-protected streams can't be queued.`);
+      return;
+    }
+
+    onAdd(trimmed);
+    setUrl('');
+    setError('');
+  };
+
+  // Guests only see their own pending suggestions; the host reviews all of them
+  const visibleQueue = isHost
+    ? queue
+    : queue.filter(item => item.status === 'queued' || item.addedBy === currentUserId);
+
+  if (!canAdd && visibleQueue.length === 0) return null;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-4">
+          <ListVideo className="h-5 w-5" />
+          <span className="text-xl font-semibold tracking-tighter">Up Next</span>
+          <Badge className="ml-auto">{visibleQueue.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        <div className="space-y-4">
+          {canAdd && (
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  type="url"
+                  placeholder="Paste a video link"
+                  value={url}
+                  onChange={e => {
+                    setUrl(e.target.value);
+                    if (error) setError('');
+                  }}
+                />
+                <Button type="submit" disabled={!url.trim()}>
+                  <Plus className="h-4 w-4" />
+                  {isHost ? 'Add' : 'Suggest'}
+                </Button>
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </form>
+          )}
+
+          {visibleQueue.map((item, index) => {
+            const { source, detail } = describeQueueUrl(item.videoUrl);
+            const isSuggestion = item.status === 'suggested';
+            return (
+              <div
+                key={item.id}
+                className={`flex items-center space-x-4 rounded-md p-4 transition-colors ${
+                  isSuggestion ? 'border border-dashed' : 'hover:bg-muted/50'
+                }`}
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="truncate font-bold tracking-tight" title={item.videoUrl}>
+                      {detail}
+                    </span>
+                    {isSuggestion && <Badge variant="outline">Suggested</Badge>}
+                  </div>
+                  <div className="mt-1 truncate text-sm tracking-tight text-neutral">
+                    {source} · added by {item.addedBy === currentUserId ? 'you' : item.addedByName}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  {isHost && (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onMove(item.id, index - 1)}
+                        disabled={index === 0}
+                        className="h-8 px-2"
+                        title="Move up"
+                      >
+                        <ChevronUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onMove(item.id, index + 1)}
+                        disabled={index === visibleQueue.length - 1}
+                        className="h-8 px-2"
+                        title="Move down"
+                      >
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                      {isSuggestion ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onApprove(item.id)}
+                          className="h-8 px-2"
+                          title="Approve suggestion"
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onPlay(item.id)}
+                          className="h-8 px-2"
+                          title="Play now"
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </>
+                  )}
+                  {canRemoveQueueItem(item, currentUser) && (
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => onRemove(item.id)}
+                      className="h-8 px-2"
+                      title={isSuggestion && !isHost ? 'Withdraw suggestion' : 'Remove from queue'}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {visibleQueue.length === 0 && (
+            <div className="py-4 text-center text-muted-foreground">
+              <ListVideo className="mx-auto mb-2 h-8 w-8 opacity-50" />
+              <p>Nothing queued yet.</p>
+            </div>
+          )}
+
+          {isHost && getNextQueueItem(queue) && (
+            <Button variant="outline" className="w-full" onClick={() => onPlay()}>
+              <SkipForward className="h-4 w-4" />
+              Play next
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Socket } from 'socket.io-client';
+import type { QueueItem, QueueUpdatedResponse } from '@/types';
+import { logDebug } from '@/src/core/logger';
+import { getNextQueueItem, moveQueueItem } from '../lib/queue';
+
+interface UseWatchQueueOptions {
+  roomId: string;
+  socket: Socket | null;
+  isConnected: boolean;
+  /** Snapshot from room-joined; queue-updated broadcasts take over from there. */
+  initialQueue: QueueItem[] | undefined;
+  isHost: boolean;
+  currentVideoUrl: string | undefined;
+}
+
+interface UseWatchQueueReturn {
+  queue: QueueItem[];
+  addToQueue: (videoUrl: string) => void;
+  removeFromQueue: (itemId: string) => void;
+  moveInQueue: (itemId: string, toIndex: number) => void;
+  approveSuggestion: (itemId: string) => void;
+  /** Host: play an item now (or the next queued one when omitted). */
+  playFromQueue: (itemId?: string) => void;
+  /** Host: the current video ended — play the next queued item, if there is one. */
+  advanceOnEnded: () => void;
+}
+
+export function useWatchQueue({
+  roomId,
+  socket,
+  isConnected,
+  initialQueue,
+  isHost,
+  currentVideoUrl,
+}: UseWatchQueueOptions): UseWatchQueueReturn {
+  const [queue, setQueue] = useState<QueueItem[]>(initialQueue ?? []);
+
+  useEffect(() => {
+    setQueue(initialQueue ?? []);
+  }, [initialQueue]);
+
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+
+    const handleQueueUpdated = ({ queue: next }: QueueUpdatedResponse) => {
+      setQueue(next);
+    };
+
+    socket.on('queue-updated', handleQueueUpdated);
+    return () => {
+      socket.off('queue-updated', handleQueueUpdated);
+    };
+  }, [socket, isConnected]);
+
+  const addToQueue = useCallback(
+    (videoUrl: string) => {
+      if (!socket) return;
+      logDebug('room', 'queue_add', 'Adding to watch queue', { videoUrl, asSuggestion: !isHost });
+      socket.emit('queue-add', { roomId, videoUrl });
+    },
+    [socket, roomId, isHost]
+  );
+
+  const removeFromQueue = useCallback(
+    (itemId: string) => {
+      if (!socket) return;
+      setQueue(prev => prev.filter(item => item.id !== itemId));
+      socket.emit('queue-remove', { roomId, itemId });
+    },
+    [socket, roomId]
+  );
+
+  const moveInQueue = useCallback(
+    (itemId: string, toIndex: number) => {
+      if (!socket || !isHost) return;
+      setQueue(prev => moveQueueItem(prev, itemId, toIndex));
+      socket.emit('queue-reorder', { roomId, itemId, toIndex });
+    },
+    [socket, roomId, isHost]
+  );
+
+  const approveSuggestion = useCallback(
+    (itemId: string) => {
+      if (!socket || !isHost) return;
+      socket.emit('queue-approve', { roomId, itemId });
+    },
+    [socket, roomId, isHost]
+  );
+
+  const playFromQueue = useCallback(
+    (itemId?: string) => {
+      if (!socket || !isHost) return;
+      logDebug('room', 'queue_play', 'Playing from watch queue', { itemId });
+      socket.emit('queue-advance', { roomId, itemId });
+    },
+    [socket, roomId, isHost]
+  );
+
+  const advanceOnEnded = useCallback(() => {
+    if (!socket || !isHost || !getNextQueueItem(queue)) return;
+    logDebug('room', 'queue_auto_advance', 'Video ended, advancing the watch queue', { currentVideoUrl });
+    socket.emit('queue-advance', { roomId, fromVideoUrl: currentVideoUrl });
+  }, [socket, roomId, isHost, queue, currentVideoUrl]);
+
+  return {
+    queue,
+    addToQueue,
+    removeFromQueue,
+    moveInQueue,
+    approveSuggestion,
+    playFromQueue,
+    advanceOnEnded,
+  };
+}
@@ -0,0 +1,3 @@
+// Watch queue feature exports
+export { useWatchQueue } from './hooks/use-watch-queue';
+export { QueuePanel } from './components/QueuePanel';
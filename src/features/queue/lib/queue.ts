@@ -0,0 +1,43 @@
+import type { QueueItem } from '@/types';
+import { extractYouTubeId } from '@/src/features/video-sync/lib/youtube';
+import { extractVimeoVideo } from '@/src/features/video-sync/lib/vimeo';
+import { extractTwitchVideoId } from '@/src/features/video-sync/lib/twitch';
+
+/** What auto-advance plays next: the first approved item. Suggestions never play on their own. */
+export function getNextQueueItem(queue: readonly QueueItem[]): QueueItem | null {
+  return queue.find(item => item.status === 'queued') ?? null;
+}
+
+/** Optimistic local copy of a reorder; the server's queue-updated snapshot replaces it. */
+export function moveQueueItem(queue: readonly QueueItem[], itemId: string, toIndex: number): QueueItem[] {
+  const from = queue.findIndex(item => item.id === itemId);
+  if (from === -1) return [...queue];
+  const next = [...queue];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, item);
+  return next;
+}
+
+export function canRemoveQueueItem(item: QueueItem, user: { id: string; isHost: boolean }): boolean {
+  return user.isHost || (item.status === 'suggested' && item.addedBy === user.id);
+}
+
+/** Short label for a queued link: the platform and its video ID, or the host and file name. */
+export function describeQueueUrl(url: string): { source: string; detail: string } {
+  const youTubeId = /youtube\.com|youtu\.be/.test(url) ? extractYouTubeId(url) : undefined;
+  if (youTubeId) return { source: 'YouTube', detail: youTubeId };
+
+  const vimeo = extractVimeoVideo(url);
+  if (vimeo) return { source: 'Vimeo', detail: vimeo.id };
+
+  const twitchId = extractTwitchVideoId(url);
+  if (twitchId) return { source: 'Twitch VOD', detail: twitchId };
+
+  try {
+    const u = new URL(url);
+    const fileName = decodeURIComponent(u.pathname.split('/').filter(Boolean).pop() ?? '');
+    return { source: u.hostname.replace(/^www\./, ''), detail: fileName || u.pathname };
+  } catch {
+    return { source: 'Link', detail: url };
+  }
+}
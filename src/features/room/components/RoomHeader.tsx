@@ -4,7 +4,13 @@ import { memo } from 'react';
 import { Card, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Copy, Check, Crown, Share, Settings } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Copy, Check, Crown, Share, Settings, Clock } from 'lucide-react';
 
 interface RoomHeaderProps {
   roomId: string;
@@ -14,6 +20,8 @@ interface RoomHeaderProps {
   showCopied: boolean;
   onCopyRoomId: () => void;
   onShareRoom: () => void;
+  /** Present while a video is loaded; copies a link that opens at the current position. */
+  onCopyLinkAtCurrentTime?: () => void;
   onOpenSettings?: () => void;
 }
 
@@ -25,6 +33,7 @@ export const RoomHeader = memo(function RoomHeader({
   showCopied,
   onCopyRoomId,
   onShareRoom,
+  onCopyLinkAtCurrentTime,
   onOpenSettings,
 }: RoomHeaderProps) {
   return (
@@ -62,10 +71,31 @@ export const RoomHeader = memo(function RoomHeader({
               {showCopied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
               {showCopied ? 'Copied!' : 'Copy ID'}
             </Button>
-            <Button variant="default" onClick={onShareRoom}>
-              <Share className="mr-2 h-4 w-4" />
-              Share
-            </Button>
+            {onCopyLinkAtCurrentTime ? (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="default">
+                    <Share className="mr-2 h-4 w-4" />
+                    Share
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={onShareRoom}>
+                    <Share className="h-4 w-4" />
+                    Share room
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={onCopyLinkAtCurrentTime}>
+                    <Clock className="h-4 w-4" />
+                    Copy link at current time
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            ) : (
+              <Button variant="default" onClick={onShareRoom}>
+                <Share className="mr-2 h-4 w-4" />
+                Share
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
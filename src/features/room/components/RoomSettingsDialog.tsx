@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Settings, Lock, KeyRound, MessageSquareLock, X, AlertTriangle } from 'lucide-react';
+import { Settings, Lock, KeyRound, MessageSquareLock, Hourglass, ListPlus, X, AlertTriangle } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -27,6 +27,8 @@ export function RoomSettingsDialog({ open, onOpenChange, settings, onUpdateSetti
   const [isLocked, setIsLocked] = useState(settings?.isLocked ?? false);
   const [passcode, setPasscode] = useState(settings?.passcode ?? '');
   const [isChatLocked, setIsChatLocked] = useState(settings?.isChatLocked ?? false);
+  const [waitForEveryone, setWaitForEveryone] = useState(settings?.waitForEveryone ?? false);
+  const [allowQueueSuggestions, setAllowQueueSuggestions] = useState(settings?.allowQueueSuggestions ?? false);
   const [hasChanges, setHasChanges] = useState(false);
 
   // Reset local state when dialog opens or settings change
@@ -35,6 +37,8 @@ export function RoomSettingsDialog({ open, onOpenChange, settings, onUpdateSetti
       setIsLocked(settings?.isLocked ?? false);
       setPasscode(settings?.passcode ?? '');
       setIsChatLocked(settings?.isChatLocked ?? false);
+      setWaitForEveryone(settings?.waitForEveryone ?? false);
+      setAllowQueueSuggestions(settings?.allowQueueSuggestions ?? false);
       setHasChanges(false);
     }
   }, [open, settings]);
@@ -44,12 +48,18 @@ export function RoomSettingsDialog({ open, onOpenChange, settings, onUpdateSetti
     const originalIsLocked = settings?.isLocked ?? false;
     const originalPasscode = settings?.passcode ?? '';
     const originalIsChatLocked = settings?.isChatLocked ?? false;
+    const originalWaitForEveryone = settings?.waitForEveryone ?? false;
+    const originalAllowQueueSuggestions = settings?.allowQueueSuggestions ?? false;
 
     const changed =
-      isLocked !== originalIsLocked || passcode !== originalPasscode || isChatLocked !== originalIsChatLocked;
+      isLocked !== originalIsLocked ||
+      passcode !== originalPasscode ||
+      isChatLocked !== originalIsChatLocked ||
+      waitForEveryone !== originalWaitForEveryone ||
+      allowQueueSuggestions !== originalAllowQueueSuggestions;
 
     setHasChanges(changed);
-  }, [isLocked, passcode, isChatLocked, settings]);
+  }, [isLocked, passcode, isChatLocked, waitForEveryone, allowQueueSuggestions, settings]);
 
   const handlePasscodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value.replace(/\D/g, '').slice(0, 4);
@@ -65,6 +75,8 @@ export function RoomSettingsDialog({ open, onOpenChange, settings, onUpdateSetti
       isLocked,
       passcode: passcode.length === 4 ? passcode : null,
       isChatLocked,
+      waitForEveryone,
+      allowQueueSuggestions,
     });
     onOpenChange(false);
   };
@@ -198,6 +210,26 @@ export function RoomSettingsDialog({ open, onOpenChange, settings, onUpdateSetti
             onCheckedChange={setIsChatLocked}
           />
 
+          {/* Buffering Barrier */}
+          <SettingItem
+            id="wait-for-everyone"
+            icon={Hourglass}
+            label="Wait for Everyone"
+            description="Pause the room when someone's stream stalls, then resume together"
+            checked={waitForEveryone}
+            onCheckedChange={setWaitForEveryone}
+          />
+
+          {/* Queue Suggestions */}
+          <SettingItem
+            id="allow-queue-suggestions"
+            icon={ListPlus}
+            label="Guest Suggestions"
+            description="Let guests suggest videos for the queue; hosts approve them"
+            checked={allowQueueSuggestions}
+            onCheckedChange={setAllowQueueSuggestions}
+          />
+
           {/* Priority Note */}
           {isLocked && passcode.length === 4 && (
             <div className="flex items-start gap-3 rounded-lg border border-destructive-100 bg-destructive-50 p-3">
@@ -7,18 +7,29 @@ import { useRoomCore } from '@/src/features/room/hooks/use-room-core';
 import { useRoomUiState } from '@/src/features/room/hooks/use-room-ui-state';
 import { useChat } from '@/src/features/chat/hooks/use-chat';
 import { useVideoSync } from '@/src/features/video-sync/hooks';
-import { useClockOffset } from '@/src/features/video-sync/hooks';
+import type { PlayerRefs } from '@/src/features/video-sync/hooks';
+import { resolvePlayerHandle, resolvePlayerSource } from '@/src/features/video-sync/lib/player-registry';
+import type { VideoEventResponse } from '@/types';
+import { useClockOffset, useCodecPreflight } from '@/src/features/video-sync/hooks';
 import { extractYouTubeId } from '@/src/features/video-sync/lib';
-import { useSubtitles } from '@/src/features/subtitles/hooks';
-import { getVideoIdForStorage } from '@/src/features/subtitles/lib';
+import { useSyncPreferences } from '@/src/features/video-sync/lib/sync-preferences-store';
+import { useSharedSubtitles, useSubtitles } from '@/src/features/subtitles/hooks';
+import { getVideoIdForStorage, type SubtitleCue } from '@/src/features/subtitles/lib';
+import { TranscriptPanel } from '@/src/features/subtitles/components';
 import { useKeyboardShortcuts } from '@/src/core/input';
 import { useFullscreenChatOverlay } from '@/src/features/chat/hooks';
 import { useRoomInitialization } from '@/src/features/room/hooks';
 import { useMedia } from '@/src/features/media';
+import { useWatchQueue, QueuePanel } from '@/src/features/queue';
+import { useWatchHistory } from '@/src/features/history';
 import { useGoogleCast } from '@/src/features/media/cast';
 import { YouTubePlayerRef } from '@/src/core/video/youtube-player';
 import { VideoPlayerRef } from '@/src/features/video-sync/components/VideoPlayer';
 import { HLSPlayerRef } from '@/src/core/video/hls-player';
+import { DASHPlayerRef } from '@/src/core/video/dash-player';
+import { VimeoPlayerRef } from '@/src/core/video/vimeo-player';
+import { TwitchPlayerRef } from '@/src/core/video/twitch-player';
+import { isEmbedVideoType, calculateCurrentTime } from '@/src/lib/video-utils';
 import { formatTimestamp } from '@/src/lib/chat-timestamps';
 
 import { RoomHeader } from './RoomHeader';
@@ -36,6 +47,7 @@ import { PasscodeDialog } from './PasscodeDialog';
 import { Spinner } from '@/components/ui/spinner';
 import { toast } from 'sonner';
 import { logDebug } from '@/src/core/logger';
+import { formatPlaybackRate } from '@/src/features/video-sync/lib/playback-rate';
 
 interface RoomShellProps {
   roomId: string;
@@ -50,8 +62,12 @@ export function RoomShell({ roomId }: RoomShellProps) {
   const youtubePlayerRef = useRef<YouTubePlayerRef>(null);
   const videoPlayerRef = useRef<VideoPlayerRef>(null);
   const hlsPlayerRef = useRef<HLSPlayerRef>(null);
+  const dashPlayerRef = useRef<DASHPlayerRef>(null);
+  const vimeoPlayerRef = useRef<VimeoPlayerRef>(null);
+  const twitchPlayerRef = useRef<TwitchPlayerRef>(null);
   const initialVideoAppliedRef = useRef(false);
   const autoplayTriggeredRef = useRef(false);
+  const deepLinkHandledRef = useRef(false);
 
   // Pending user name state for passcode flow
   const [pendingUserName, setPendingUserName] = useState('');
@@ -133,18 +149,36 @@ export function RoomShell({ roomId }: RoomShellProps) {
     });
   }, [core, ui, chat, router]);
 
-  // Use local subtitle hook for subtitle management (no socket sync)
+  // Subtitle tracks are local; only the host's room default is shared over the socket
+  const subtitleVideoId = getVideoIdForStorage(core.room?.videoUrl);
   const {
     subtitleTracks,
     activeTrackId: activeSubtitleTrack,
     addSubtitleTracks,
     removeSubtitleTrack,
     setActiveSubtitleTrack,
+    secondaryTrackId: secondarySubtitleTrack,
+    setSecondarySubtitleTrack,
+    updateSubtitleTracksAndActive,
   } = useSubtitles({
     roomId,
-    videoId: getVideoIdForStorage(core.room?.videoUrl),
+    videoId: subtitleVideoId,
   });
 
+  const { roomTrackId: roomSubtitleTrackId, shareSubtitleTrack } = useSharedSubtitles({
+    roomId,
+    socket,
+    isConnected,
+    isHost: core.currentUser?.isHost ?? false,
+    currentUserId: core.currentUser?.id,
+    videoUrl: core.room?.videoUrl,
+    subtitleTracks,
+    updateSubtitleTracksAndActive,
+  });
+
+  const [showTranscript, setShowTranscript] = useState(false);
+  const toggleTranscript = useCallback(() => setShowTranscript(prev => !prev), []);
+
   const remoteActionHandlersRef = useRef<{
     onPlay: (() => void) | null;
     onPause: (() => void) | null;
@@ -156,6 +190,9 @@ export function RoomShell({ roomId }: RoomShellProps) {
     return (
       youtubePlayerRef.current?.getCurrentTime() ??
       hlsPlayerRef.current?.getCurrentTime() ??
+      dashPlayerRef.current?.getCurrentTime() ??
+      vimeoPlayerRef.current?.getCurrentTime() ??
+      twitchPlayerRef.current?.getCurrentTime() ??
       videoPlayerRef.current?.getCurrentTime() ??
       0
     );
@@ -193,9 +230,32 @@ export function RoomShell({ roomId }: RoomShellProps) {
     },
   });
 
-  const { clockOffset } = useClockOffset();
+  const { clockOffset, clockRtt, clockConfidence, getServerNow } = useClockOffset();
+  const { preferences: syncPreferences } = useSyncPreferences();
 
   // Use video sync hook for video synchronization
+  const playerRefs = useMemo<PlayerRefs>(
+    () => ({
+      youtube: youtubePlayerRef,
+      mp4: videoPlayerRef,
+      m3u8: hlsPlayerRef,
+      mpd: dashPlayerRef,
+      vimeo: vimeoPlayerRef,
+      twitch: twitchPlayerRef,
+      cast: castPlayerRef,
+    }),
+    [castPlayerRef]
+  );
+
+  const queue = useWatchQueue({
+    roomId,
+    socket,
+    isConnected,
+    initialQueue: core.room?.queue,
+    isHost: core.currentUser?.isHost ?? false,
+    currentVideoUrl: core.room?.videoUrl,
+  });
+
   const {
     syncVideo,
     startSyncCheck,
@@ -203,19 +263,62 @@ export function RoomShell({ roomId }: RoomShellProps) {
     handleVideoPlay,
     handleVideoPause,
     handleVideoSeek,
+    handlePlaybackRateChange,
     handleYouTubeStateChange,
+    handlePlayerStateChange,
     handleSetVideo,
     applyPendingSync,
+    getSyncDiagnostics,
+    bufferingBarrier,
+    playbackRate,
+    catchUpRemainingS,
+    unmatchedRoomRate,
   } = useVideoSync({
     room: core.room,
     currentUser: core.currentUser,
     roomId,
-    youtubePlayerRef,
-    videoPlayerRef,
-    hlsPlayerRef,
-    castPlayerRef,
+    playerRefs,
     isCasting,
     clockOffset,
+    getServerNow,
+    clockRtt,
+    clockConfidence,
+    catchUpRate: syncPreferences.catchUpEnabled ? syncPreferences.catchUpRate : null,
+    onEnded: queue.advanceOnEnded,
+  });
+
+  // The sync loop stops chasing a room its player can't keep pace with; tell the viewer once per speed
+  useEffect(() => {
+    if (unmatchedRoomRate === null) return;
+    toast.info(`The room is at ${formatPlaybackRate(unmatchedRoomRate)}, and your player only does 1x.`, {
+      description: `You'll drift from everyone else until the host goes back to normal speed.`,
+      duration: 8000,
+    });
+  }, [unmatchedRoomRate]);
+
+  // Resolve barrier user ids to names once here; the banner and UserList both read from it
+  const bufferingUserIds = useMemo(() => new Set(bufferingBarrier?.waitingUserIds ?? []), [bufferingBarrier]);
+  const bufferingBarrierStatus = useMemo(() => {
+    if (!bufferingBarrier) return null;
+    const users = core.room?.users ?? [];
+    return {
+      waitingNames: bufferingBarrier.waitingUserIds
+        .map(id => (id === core.currentUser?.id ? 'you' : users.find(u => u.id === id)?.name))
+        .filter((name): name is string => Boolean(name)),
+      resumeAt: bufferingBarrier.resumeAt,
+    };
+  }, [bufferingBarrier, core.room?.users, core.currentUser?.id]);
+
+  const codecReports = useCodecPreflight({
+    roomId,
+    socket,
+    isConnected,
+    videoUrl: core.room?.videoUrl,
+    videoType: core.room?.videoMeta?.videoType ?? core.room?.videoType ?? undefined,
+    videoMeta: core.room?.videoMeta,
+    isHost: core.currentUser?.isHost ?? false,
+    users: core.room?.users ?? [],
+    currentUserId: core.currentUser?.id,
   });
 
   // Update handler refs when they change
@@ -297,12 +400,11 @@ export function RoomShell({ roomId }: RoomShellProps) {
     }
   }, [core.currentUser?.isHost, ui]);
 
-  const getActivePlayer = useCallback(() => {
-    if (!core.room?.videoType) return null;
-    if (core.room.videoType === 'youtube') return youtubePlayerRef.current;
-    if (core.room.videoType === 'm3u8') return hlsPlayerRef.current;
-    return videoPlayerRef.current;
-  }, [core.room?.videoType]);
+  // The local player for the room's video type; a Cast session doesn't change which one this is
+  const getActivePlayer = useCallback(
+    () => resolvePlayerHandle(playerRefs, resolvePlayerSource(core.room?.videoType, playerRefs)),
+    [core.room?.videoType, playerRefs]
+  );
 
   const safeDuration = (value?: number | null) =>
     typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
@@ -325,9 +427,7 @@ export function RoomShell({ roomId }: RoomShellProps) {
         return;
       }
 
-      const duration =
-        safeDuration((player as YouTubePlayerRef | VideoPlayerRef | HLSPlayerRef).getDuration?.()) ??
-        safeDuration(core.room.videoState?.duration);
+      const duration = safeDuration(player.getDuration?.()) ?? safeDuration(core.room.videoState?.duration);
       const target = duration ? Math.min(seconds, duration) : seconds;
 
       player.seekTo(target);
@@ -344,13 +444,13 @@ export function RoomShell({ roomId }: RoomShellProps) {
   const { showChatOverlay, isChatMinimized, toggleChatMinimize, closeChatOverlay, showChatOverlayManually } =
     useFullscreenChatOverlay();
 
-  // Narrows getActivePlayer's YouTube | HLS | VideoPlayer union down to the two in-scope
-  // shortcut players — YouTube is already excluded by the hook's videoType gate, this just
-  // satisfies the type at the call site without touching getActivePlayer itself.
+  // Narrows getActivePlayer's union down to the in-scope shortcut players — iframe embeds are
+  // already excluded by the hook's videoType gate, this just satisfies the type at the call site
+  // without touching getActivePlayer itself.
   const getActiveShortcutPlayer = useCallback(() => {
-    if (core.room?.videoType === 'youtube') return null;
+    if (isEmbedVideoType(core.room?.videoType)) return null;
     const player = getActivePlayer();
-    return player as VideoPlayerRef | HLSPlayerRef | null;
+    return player as VideoPlayerRef | HLSPlayerRef | DASHPlayerRef | null;
   }, [core.room?.videoType, getActivePlayer]);
 
   // Use keyboard shortcuts hook
@@ -365,6 +465,104 @@ export function RoomShell({ roomId }: RoomShellProps) {
     onSeek: handleVideoSeek,
   });
 
+  // Where the room is right now, projected from the last broadcast state
+  const getRoomPosition = useCallback(() => {
+    const state = core.room?.videoState;
+    if (!state) return 0;
+    return calculateCurrentTime({ ...state, rate: state.playbackRate }, clockOffset);
+  }, [core.room?.videoState, clockOffset]);
+
+  // A live stream has no fixed timeline to link into, and its room position is on the stream clock
+  const isLiveStream = useCallback(
+    () => core.room?.videoType === 'm3u8' && !!hlsPlayerRef.current?.getLiveTimeline(),
+    [core.room?.videoType]
+  );
+
+  const handleGuestDeepLink = useCallback(
+    (requestedSeconds: number) => {
+      if (isLiveStream()) return;
+      toast.info(
+        `The host is at ${formatTimestamp(getRoomPosition())}, you asked for ${formatTimestamp(requestedSeconds)}.`,
+        {
+          description: 'Only hosts can move the room. Drop the timestamp in chat and a host can jump there.',
+          duration: 8000,
+        }
+      );
+    },
+    [getRoomPosition, isLiveStream]
+  );
+
+  const handleResumeFromHistory = useCallback(
+    (seconds: number) => {
+      const player = getActivePlayer();
+      if (!player) {
+        toast.error('The player is still waking up. Give it a quick second.');
+        return;
+      }
+      player.seekTo(seconds);
+      handleVideoSeek();
+    },
+    [getActivePlayer, handleVideoSeek]
+  );
+
+  const getTranscriptPlaybackPosition = useCallback(
+    () => getActivePlayer()?.getCurrentTime() ?? null,
+    [getActivePlayer]
+  );
+
+  // Transcript click: hosts take the room there, guests get the same nudge as a deep link plus a way to ask
+  const handleTranscriptSeek = useCallback(
+    (seconds: number, cue: SubtitleCue) => {
+      const target = Math.max(0, seconds);
+
+      // handleVideoSeek resolves the player that owns playback, the Cast device included
+      if (core.currentUser?.isHost) {
+        handleVideoSeek(target);
+        return;
+      }
+
+      const line = cue.text.replace(/\s+/g, ' ');
+      const quote = line.length > 80 ? `${line.slice(0, 79)}…` : line;
+      toast.info(`Only hosts can move the room. That line is at ${formatTimestamp(target)}.`, {
+        description: 'Ask in chat and a host can jump there with one click.',
+        duration: 8000,
+        action: core.room?.settings?.isChatLocked
+          ? undefined
+          : {
+              label: 'Ask in chat',
+              onClick: () => chat.handleSendMessage(`Can we jump to ${formatTimestamp(target)}? "${quote}"`),
+            },
+      });
+    },
+    [core.currentUser?.isHost, core.room?.settings?.isChatLocked, handleVideoSeek, chat]
+  );
+
+  const getHistoryPlaybackPosition = useCallback(() => {
+    const player = getActivePlayer();
+    if (!player || isLiveStream()) return null;
+    return { position: player.getCurrentTime(), duration: player.getDuration() };
+  }, [getActivePlayer, isLiveStream]);
+
+  useWatchHistory({
+    roomId,
+    videoUrl: core.room?.videoUrl,
+    isHost: core.currentUser?.isHost ?? false,
+    isPlaying: core.room?.videoState?.isPlaying ?? false,
+    getPlaybackPosition: getHistoryPlaybackPosition,
+    getRoomPosition,
+    getPlayerTitle: () => youtubePlayerRef.current?.getVideoTitle(),
+    onResume: handleResumeFromHistory,
+  });
+
+  const handleCopyLinkAtCurrentTime = useCallback(() => {
+    if (isLiveStream()) {
+      toast.info(`Live streams don't have timestamps to link to, so here's the room link instead.`);
+      ui.shareRoom();
+      return;
+    }
+    ui.copyLinkAtTime(getActivePlayer()?.getCurrentTime() ?? getRoomPosition());
+  }, [ui, getActivePlayer, getRoomPosition, isLiveStream]);
+
   // Room initialization: auto-join, initial video from query, autoplay
   useRoomInitialization({
     roomId,
@@ -386,22 +584,39 @@ export function RoomShell({ roomId }: RoomShellProps) {
     handleSetVideo,
     getActivePlayer,
     handleVideoPlay,
+    deepLinkHandledRef,
+    handleVideoSeek,
+    onGuestDeepLink: handleGuestDeepLink,
   });
 
   // Handle video sync events from socket
   useEffect(() => {
     if (!socket) return;
 
-    const handleVideoPlayed = ({ currentTime, timestamp }: { currentTime: number; timestamp: number }) => {
-      syncVideo(currentTime, true, timestamp);
+    // No rate on the event keeps the room's current speed (see resolveSyncRate)
+    const handleVideoPlayed = ({ currentTime, timestamp, rate }: VideoEventResponse) => {
+      syncVideo(currentTime, true, timestamp, rate);
     };
 
-    const handleVideoPaused = ({ currentTime, timestamp }: { currentTime: number; timestamp: number }) => {
-      syncVideo(currentTime, false, timestamp);
+    const handleVideoPaused = ({ currentTime, timestamp, rate }: VideoEventResponse) => {
+      syncVideo(currentTime, false, timestamp, rate);
     };
 
-    const handleVideoSeeked = ({ currentTime, timestamp }: { currentTime: number; timestamp: number }) => {
-      syncVideo(currentTime, null, timestamp);
+    const handleVideoSeeked = ({ currentTime, timestamp, rate }: VideoEventResponse) => {
+      syncVideo(currentTime, null, timestamp, rate);
+    };
+
+    const handlePlaybackRateChanged = ({
+      rate,
+      currentTime,
+      timestamp,
+    }: {
+      rate: number;
+      currentTime: number;
+      timestamp: number;
+    }) => {
+      logDebug('video', 'rate_changed', `Host changed playback speed to ${rate}x`);
+      syncVideo(currentTime, null, timestamp, rate);
     };
 
     const handleSyncUpdate = ({
@@ -419,18 +634,20 @@ export function RoomShell({ roomId }: RoomShellProps) {
       // The host is protected from self-yank by the timestamp-monotonicity guard inside syncVideo
       // (shouldApplySyncUpdate), not by an isHost early-return here.
       logDebug('video', 'sync_update', 'Received sync update from server');
-      syncVideo(currentTime, isPlaying, timestamp, rate ?? 1);
+      syncVideo(currentTime, isPlaying, timestamp, rate);
     };
 
     socket.on('video-played', handleVideoPlayed);
     socket.on('video-paused', handleVideoPaused);
     socket.on('video-seeked', handleVideoSeeked);
+    socket.on('playback-rate-changed', handlePlaybackRateChanged);
     socket.on('sync-update', handleSyncUpdate);
 
     return () => {
       socket.off('video-played', handleVideoPlayed);
       socket.off('video-paused', handleVideoPaused);
       socket.off('video-seeked', handleVideoSeeked);
+      socket.off('playback-rate-changed', handlePlaybackRateChanged);
       socket.off('sync-update', handleSyncUpdate);
     };
   }, [socket, syncVideo]);
@@ -454,10 +671,15 @@ export function RoomShell({ roomId }: RoomShellProps) {
   useEffect(() => {
     if (!isCasting || !core.room?.videoUrl) return;
 
-    if (core.room.videoType === 'youtube') return;
+    if (isEmbedVideoType(core.room.videoType)) return;
 
     logDebug('cast', 'load_video', `Loading video on Chromecast: ${core.room.videoUrl}`);
-    const contentType = core.room.videoType === 'm3u8' ? 'application/x-mpegurl' : 'video/mp4';
+    const contentType =
+      core.room.videoType === 'm3u8'
+        ? 'application/x-mpegurl'
+        : core.room.videoType === 'mpd'
+          ? 'application/dash+xml'
+          : 'video/mp4';
     startCasting(core.room.videoUrl, contentType);
   }, [isCasting, core.room?.videoUrl, core.room?.videoType, startCasting]);
 
@@ -516,6 +738,7 @@ export function RoomShell({ roomId }: RoomShellProps) {
         showCopied={ui.showCopied}
         onCopyRoomId={ui.copyRoomId}
         onShareRoom={ui.shareRoom}
+        onCopyLinkAtCurrentTime={core.room.videoUrl ? handleCopyLinkAtCurrentTime : undefined}
         onOpenSettings={() => ui.setShowSettingsDialog(true)}
       />
 
@@ -545,6 +768,7 @@ export function RoomShell({ roomId }: RoomShellProps) {
             onPause={handleVideoPause}
             onSeeked={handleVideoSeek}
             onYouTubeStateChange={handleYouTubeStateChange}
+            onEmbedStateChange={handlePlayerStateChange}
             onControlAttempt={handleVideoControlAttempt}
             onVideoChange={handleSetVideo}
             onShowChatOverlay={showChatOverlayManually}
@@ -553,11 +777,21 @@ export function RoomShell({ roomId }: RoomShellProps) {
             onAddSubtitleTracks={addSubtitleTracks}
             onRemoveSubtitleTrack={removeSubtitleTrack}
             onActiveSubtitleTrackChange={setActiveSubtitleTrack}
+            secondarySubtitleTrack={secondarySubtitleTrack}
+            onSecondarySubtitleTrackChange={setSecondarySubtitleTrack}
+            roomSubtitleTrackId={roomSubtitleTrackId}
+            onShareSubtitleTrack={shareSubtitleTrack}
+            subtitleVideoId={subtitleVideoId}
+            onToggleTranscript={toggleTranscript}
             youtubePlayerRef={youtubePlayerRef}
             videoPlayerRef={videoPlayerRef}
             hlsPlayerRef={hlsPlayerRef}
+            dashPlayerRef={dashPlayerRef}
+            vimeoPlayerRef={vimeoPlayerRef}
+            twitchPlayerRef={twitchPlayerRef}
+            playerRefs={playerRefs}
             isCasting={isCasting}
-            isCastAvailable={isCastAvailable && effectiveVideoType !== 'youtube'}
+            isCastAvailable={isCastAvailable && !isEmbedVideoType(effectiveVideoType)}
             castDeviceName={castDeviceName}
             onCastClick={() => {
               if (isCasting) {
@@ -572,6 +806,12 @@ export function RoomShell({ roomId }: RoomShellProps) {
             }}
             castPlayerRef={castPlayerRef}
             applyPendingSync={applyPendingSync}
+            getSyncDiagnostics={getSyncDiagnostics}
+            bufferingBarrier={bufferingBarrierStatus}
+            playbackRate={playbackRate}
+            onPlaybackRateChange={handlePlaybackRateChange}
+            catchUpRemainingS={catchUpRemainingS}
+            clockOffset={clockOffset}
             captureStatus={core.captureStatus}
           />
         </div>
@@ -593,6 +833,18 @@ export function RoomShell({ roomId }: RoomShellProps) {
             onToggleReaction={chat.handleToggleReaction}
             onTimestampClick={handleChatTimestampClick}
           />
+
+          {showTranscript && (
+            <TranscriptPanel
+              track={subtitleTracks.find(track => track.id === activeSubtitleTrack)}
+              videoId={subtitleVideoId}
+              getCurrentTime={getTranscriptPlaybackPosition}
+              isHost={core.currentUser.isHost}
+              onSeek={handleTranscriptSeek}
+              onClose={() => setShowTranscript(false)}
+              className="mt-4 rounded-md"
+            />
+          )}
         </div>
 
         {/* Remote audio — hidden <audio> elements, one per remote participant with an audio track.
@@ -646,12 +898,27 @@ export function RoomShell({ roomId }: RoomShellProps) {
           </div>
         )}
 
+        <QueuePanel
+          queue={queue.queue}
+          currentUserId={core.currentUser.id}
+          isHost={core.currentUser.isHost}
+          allowSuggestions={core.room.settings?.allowQueueSuggestions ?? false}
+          onAdd={queue.addToQueue}
+          onRemove={queue.removeFromQueue}
+          onMove={queue.moveInQueue}
+          onApprove={queue.approveSuggestion}
+          onPlay={queue.playFromQueue}
+          className="col-span-full mt-4 rounded-md"
+        />
+
         <UserList
           users={core.room.users}
           currentUserId={core.currentUser.id}
           currentUserIsHost={core.currentUser.isHost}
           onPromoteUser={core.handlePromoteUser}
           onKickUser={core.handleKickUser}
+          bufferingUserIds={bufferingUserIds}
+          codecReports={codecReports}
           speakingUserIds={
             // Convert participantId-keyed speaking set to userId-keyed for UserList (SFU path)
             (() => {
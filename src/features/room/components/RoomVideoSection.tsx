@@ -6,12 +6,21 @@ import { VideoSetup } from './VideoSetup';
 import { YouTubePlayerRef } from '@/src/core/video/youtube-player';
 import { VideoPlayerRef } from '@/src/features/video-sync/components/VideoPlayer';
 import { HLSPlayerRef } from '@/src/core/video/hls-player';
+import { DASHPlayerRef } from '@/src/core/video/dash-player';
+import { VimeoPlayerRef } from '@/src/core/video/vimeo-player';
+import { TwitchPlayerRef } from '@/src/core/video/twitch-player';
 import { CastPlayerRef } from '@/src/features/media/cast';
+import type { PlayerRefs } from '@/src/features/video-sync/lib/player-registry';
 import type { SubtitleTrack } from '@/types/schemas';
 import { Loader2 } from 'lucide-react';
 import { useSocket } from '@/src/core/socket';
 import { PickerOverlay } from '@/src/features/picker/components/PickerOverlay';
 import type { PickerCandidate, PickerRequiredResponse } from '@/types';
+import type { SyncDiagnostics } from '@/src/features/video-sync/lib/diagnostics';
+import type { BufferingBarrierStatus } from '@/src/features/video-sync/components/BufferingBarrierBanner';
+import type { PlayerPlaybackState } from '@/src/features/video-sync/lib/player-adapter';
+import { isEmbedVideoType } from '@/src/lib/video-utils';
+import type { VideoType } from '@/types';
 
 function CaptureSpinner() {
   return (
@@ -26,7 +35,7 @@ function CaptureSpinner() {
 interface RoomVideoSectionProps {
   roomId: string;
   videoUrl: string | undefined;
-  videoType: 'youtube' | 'mp4' | 'm3u8' | undefined;
+  videoType: NonNullable<VideoType> | undefined;
   youTubeId: string | undefined;
   isHost: boolean;
   hasVideo: boolean;
@@ -35,8 +44,9 @@ interface RoomVideoSectionProps {
   // Video event handlers
   onPlay: () => void;
   onPause: () => void;
-  onSeeked: () => void;
+  onSeeked: (explicitTime?: number) => void;
   onYouTubeStateChange: (state: number) => void;
+  onEmbedStateChange: (state: PlayerPlaybackState) => void;
   onControlAttempt: () => void;
   onVideoChange: (url: string) => void;
   onShowChatOverlay: () => void;
@@ -47,11 +57,22 @@ interface RoomVideoSectionProps {
   onAddSubtitleTracks: (tracks: SubtitleTrack[]) => void;
   onRemoveSubtitleTrack: (trackId: string) => void;
   onActiveSubtitleTrackChange: (trackId?: string) => void;
+  secondarySubtitleTrack: string | undefined;
+  onSecondarySubtitleTrackChange: (trackId?: string) => void;
+  roomSubtitleTrackId: string | undefined;
+  onShareSubtitleTrack: (trackId?: string) => void;
+  subtitleVideoId: string | undefined;
+  onToggleTranscript: () => void;
 
   // Player refs
   youtubePlayerRef: RefObject<YouTubePlayerRef | null>;
   videoPlayerRef: RefObject<VideoPlayerRef | null>;
   hlsPlayerRef: RefObject<HLSPlayerRef | null>;
+  dashPlayerRef: RefObject<DASHPlayerRef | null>;
+  vimeoPlayerRef: RefObject<VimeoPlayerRef | null>;
+  twitchPlayerRef: RefObject<TwitchPlayerRef | null>;
+  /** The same refs keyed by player source, for registry lookups. */
+  playerRefs: PlayerRefs;
 
   // Cast props
   isCasting: boolean;
@@ -60,6 +81,12 @@ interface RoomVideoSectionProps {
   onCastClick: () => void;
   castPlayerRef?: RefObject<CastPlayerRef | null>;
   applyPendingSync?: () => void;
+  getSyncDiagnostics?: () => SyncDiagnostics;
+  bufferingBarrier?: BufferingBarrierStatus | null;
+  clockOffset?: number;
+  playbackRate?: number;
+  onPlaybackRateChange?: (rate: number) => void;
+  catchUpRemainingS?: number | null;
 
   // Lens capture status
   captureStatus?: string | null;
@@ -77,6 +104,7 @@ export const RoomVideoSection = memo(function RoomVideoSection({
   onPause,
   onSeeked,
   onYouTubeStateChange,
+  onEmbedStateChange,
   onControlAttempt,
   onVideoChange,
   onShowChatOverlay,
@@ -85,15 +113,31 @@ export const RoomVideoSection = memo(function RoomVideoSection({
   onAddSubtitleTracks,
   onRemoveSubtitleTrack,
   onActiveSubtitleTrackChange,
+  secondarySubtitleTrack,
+  onSecondarySubtitleTrackChange,
+  roomSubtitleTrackId,
+  onShareSubtitleTrack,
+  subtitleVideoId,
+  onToggleTranscript,
   youtubePlayerRef,
   videoPlayerRef,
   hlsPlayerRef,
+  dashPlayerRef,
+  vimeoPlayerRef,
+  twitchPlayerRef,
+  playerRefs,
   isCasting,
   isCastAvailable,
   castDeviceName,
   onCastClick,
   castPlayerRef,
   applyPendingSync,
+  getSyncDiagnostics,
+  bufferingBarrier,
+  clockOffset,
+  playbackRate,
+  onPlaybackRateChange,
+  catchUpRemainingS,
   captureStatus,
 }: RoomVideoSectionProps) {
   const { socket } = useSocket();
@@ -162,6 +206,7 @@ export const RoomVideoSection = memo(function RoomVideoSection({
             onPause={onPause}
             onSeeked={onSeeked}
             onYouTubeStateChange={onYouTubeStateChange}
+            onEmbedStateChange={onEmbedStateChange}
             onControlAttempt={onControlAttempt}
             onVideoChange={onVideoChange}
             onShowChatOverlay={onShowChatOverlay}
@@ -170,16 +215,32 @@ export const RoomVideoSection = memo(function RoomVideoSection({
             onAddSubtitleTracks={onAddSubtitleTracks}
             onRemoveSubtitleTrack={onRemoveSubtitleTrack}
             onActiveSubtitleTrackChange={onActiveSubtitleTrackChange}
+            secondarySubtitleTrack={secondarySubtitleTrack}
+            onSecondarySubtitleTrackChange={onSecondarySubtitleTrackChange}
+            roomSubtitleTrackId={roomSubtitleTrackId}
+            onShareSubtitleTrack={isHost ? onShareSubtitleTrack : undefined}
+            subtitleVideoId={subtitleVideoId}
+            onToggleTranscript={onToggleTranscript}
             currentVideoTitle={undefined}
             youtubePlayerRef={youtubePlayerRef}
             videoPlayerRef={videoPlayerRef}
             hlsPlayerRef={hlsPlayerRef}
+            dashPlayerRef={dashPlayerRef}
+            vimeoPlayerRef={vimeoPlayerRef}
+            twitchPlayerRef={twitchPlayerRef}
+            playerRefs={playerRefs}
             isCasting={isCasting}
-            isCastAvailable={isCastAvailable && videoType !== 'youtube'}
+            isCastAvailable={isCastAvailable && !isEmbedVideoType(videoType)}
             castDeviceName={castDeviceName}
             onCastClick={onCastClick}
             castPlayerRef={castPlayerRef}
             applyPendingSync={applyPendingSync}
+            getSyncDiagnostics={getSyncDiagnostics}
+            bufferingBarrier={bufferingBarrier}
+            clockOffset={clockOffset}
+            playbackRate={playbackRate}
+            onPlaybackRateChange={onPlaybackRateChange}
+            catchUpRemainingS={catchUpRemainingS}
             alternatives={pickerCandidates.length > 0 ? pickerCandidates : undefined}
             onWrongVideo={pickerCandidates.length > 0 ? handleWrongVideo : undefined}
           />
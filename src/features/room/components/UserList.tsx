@@ -4,8 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Users, Crown, User, UserX } from 'lucide-react';
-import { User as UserType } from '@/types';
+import { Users, Crown, User, UserX, Hourglass, FileWarning } from 'lucide-react';
+import { CodecCapabilityReport, User as UserType } from '@/types';
 
 interface UserListProps {
   users: UserType[];
@@ -15,6 +15,10 @@ interface UserListProps {
   onKickUser?: (userId: string) => void;
   className?: string;
   speakingUserIds?: Set<string>;
+  /** Users currently holding the room under the "wait for everyone" barrier. */
+  bufferingUserIds?: Set<string>;
+  /** Host only: each user's codec preflight verdict for the current video. */
+  codecReports?: Map<string, CodecCapabilityReport>;
 }
 
 export function UserList({
@@ -25,6 +29,8 @@ export function UserList({
   onKickUser,
   className,
   speakingUserIds,
+  bufferingUserIds,
+  codecReports,
 }: UserListProps) {
   const getInitials = (name: string) => {
     return name
@@ -57,6 +63,8 @@ export function UserList({
         <div className="space-y-6">
           {sortedUsers.map(user => {
             const isSpeaking = speakingUserIds?.has(user.id);
+            const codecReport = codecReports?.get(user.id);
+            const codecList = codecReport?.unsupportedCodecs.join(', ');
             return (
               <div
                 key={user.id}
@@ -98,6 +106,24 @@ export function UserList({
                   <div className="mt-1 flex items-center space-x-2">
                     <User className="h-4 w-4 text-neutral" />
                     <span className="tracking-tight text-neutral">{user.isHost ? 'Host' : 'Guest'}</span>
+                    {bufferingUserIds?.has(user.id) && (
+                      <Badge variant="outline" title="Everyone's waiting for this stream to buffer">
+                        <Hourglass className="animate-pulse" />
+                        Buffering
+                      </Badge>
+                    )}
+                    {codecReport?.verdict === 'unsupported' && (
+                      <Badge variant="destructive" title={`Their browser can't decode ${codecList || 'this video'}`}>
+                        <FileWarning />
+                        Can&apos;t play
+                      </Badge>
+                    )}
+                    {codecReport?.verdict === 'partial' && (
+                      <Badge variant="outline" title={`Some qualities are out of reach: no ${codecList} support`}>
+                        <FileWarning />
+                        Limited
+                      </Badge>
+                    )}
                   </div>
                 </div>
 
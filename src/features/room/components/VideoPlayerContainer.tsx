@@ -3,11 +3,38 @@ import { Button } from '@/components/ui/button';
 import { YouTubePlayer, YouTubePlayerRef } from '@/src/core/video/youtube-player';
 import { VideoPlayer, VideoPlayerRef } from '@/src/features/video-sync/components/VideoPlayer';
 import { HLSPlayer, HLSPlayerRef } from '@/src/core/video/hls-player';
+import { DASHPlayer, DASHPlayerRef } from '@/src/core/video/dash-player';
+import { VimeoPlayer, VimeoPlayerRef } from '@/src/core/video/vimeo-player';
+import { TwitchPlayer, TwitchPlayerRef } from '@/src/core/video/twitch-player';
 import { VideoControls } from '@/src/features/video-sync/components/VideoControls';
+import { SyncDiagnosticsOverlay } from '@/src/features/video-sync/components/SyncDiagnosticsOverlay';
+import {
+  BufferingBarrierBanner,
+  type BufferingBarrierStatus,
+} from '@/src/features/video-sync/components/BufferingBarrierBanner';
+import { CatchUpIndicator } from '@/src/features/video-sync/components/CatchUpIndicator';
+import { CatchUpMenu } from '@/src/features/video-sync/components/CatchUpMenu';
+import { buildSyncDiagnosticsSnapshot, type SyncDiagnostics } from '@/src/features/video-sync/lib/diagnostics';
+import { useStreamPreferences } from '@/src/features/video-sync/lib/stream-preferences-store';
+import type { HlsRenditionState } from '@/src/core/video/hls-renditions';
+import {
+  extractTwitchVideoId,
+  extractVimeoVideo,
+  extractYouTubeId,
+  getChapterIndexAt,
+  getChapterSeekTarget,
+} from '@/src/features/video-sync/lib';
+import { useVideoChapters } from '@/src/features/video-sync/hooks';
+import type { PlayerPlaybackState } from '@/src/features/video-sync/lib/player-adapter';
 import { SubtitleOverlay } from '@/src/features/subtitles/components';
-import { Video, ExternalLink, Edit3, AlertTriangle, Cast } from 'lucide-react';
-import type { SubtitleTrack } from '@/types/schemas';
+import { Video, ExternalLink, Edit3, AlertTriangle, Cast, Activity, SkipBack, SkipForward } from 'lucide-react';
+import type { Chapter, SubtitleTrack } from '@/types/schemas';
 import { CastPlayerRef } from '@/src/features/media/cast';
+import {
+  resolvePlayerHandle,
+  resolvePlayerSource,
+  type PlayerRefs,
+} from '@/src/features/video-sync/lib/player-registry';
 import {
   Dialog,
   DialogContent,
@@ -17,26 +44,45 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { parseVideoUrl, getSupportedVideoFormats } from '@/src/lib/video-utils';
-import { isProxiedUrl } from '@/src/lib/video-proxy-client';
+import { parseVideoUrl, getSupportedVideoFormats, isEmbedVideoType } from '@/src/lib/video-utils';
+import { buildProxyUrl, isProxiedUrl, PROXY_ENABLED } from '@/src/lib/video-proxy-client';
+import {
+  createPlaybackFallbackState,
+  decidePlaybackFallback,
+  describePlaybackFailure,
+  type PlaybackFailure,
+  type PlaybackFallbackState,
+} from '@/src/core/video/playback-fallback-policy';
 import { toast } from 'sonner';
 import { useSocket } from '@/src/core/socket';
 import { logClient, logDebug } from '@/src/core/logger';
-import type { PickerCandidate } from '@/types';
+import type { PickerCandidate, VideoType } from '@/types';
+
+/** Fatal-error payload shared by HLSPlayer and DASHPlayer. */
+interface StreamErrorInfo {
+  type?: string;
+  details?: string;
+  responseCode?: number;
+  codecUnparsable?: boolean;
+  currentTime?: number;
+}
 
 interface VideoPlayerContainerProps {
   roomId?: string;
   videoUrl: string;
-  videoType: 'youtube' | 'mp4' | 'm3u8';
+  videoType: NonNullable<VideoType>;
   videoId?: string;
   isHost: boolean;
   onPlay: () => void;
   onPause: () => void;
-  onSeeked: () => void;
+  /** Host seek report; an explicit time seeks the player there first (chapter jumps). */
+  onSeeked: (explicitTime?: number) => void;
   onYouTubeStateChange: (state: number) => void;
+  /** Vimeo/Twitch state reports (their seeks arrive through onSeeked). */
+  onEmbedStateChange: (state: PlayerPlaybackState) => void;
   onControlAttempt: () => void;
   onVideoChange?: (url: string) => void;
   onShowChatOverlay?: () => void;
@@ -45,10 +91,26 @@ interface VideoPlayerContainerProps {
   onAddSubtitleTracks?: (tracks: SubtitleTrack[]) => void;
   onRemoveSubtitleTrack?: (trackId: string) => void;
   onActiveSubtitleTrackChange?: (trackId?: string) => void;
+  /** Second-language track shown alongside the active one. */
+  secondarySubtitleTrack?: string;
+  onSecondarySubtitleTrackChange?: (trackId?: string) => void;
+  /** Track the host made the room default. */
+  roomSubtitleTrackId?: string;
+  /** Host only: share a track with the room, or stop sharing with no id. */
+  onShareSubtitleTrack?: (trackId?: string) => void;
+  /** getVideoIdForStorage of the room video; keys its subtitle timing fix. */
+  subtitleVideoId?: string;
+  /** Open or close the transcript panel. */
+  onToggleTranscript?: () => void;
   currentVideoTitle?: string;
   youtubePlayerRef: React.RefObject<YouTubePlayerRef | null>;
   videoPlayerRef: React.RefObject<VideoPlayerRef | null>;
   hlsPlayerRef: React.RefObject<HLSPlayerRef | null>;
+  dashPlayerRef: React.RefObject<DASHPlayerRef | null>;
+  vimeoPlayerRef: React.RefObject<VimeoPlayerRef | null>;
+  twitchPlayerRef: React.RefObject<TwitchPlayerRef | null>;
+  /** The same refs keyed by player source, for registry lookups. */
+  playerRefs: PlayerRefs;
   // Cast integration
   isCasting?: boolean;
   isCastAvailable?: boolean;
@@ -58,6 +120,12 @@ interface VideoPlayerContainerProps {
   applyPendingSync?: () => void;
   alternatives?: PickerCandidate[]; // alternatives from the current video-set payload; drives Wrong video? visibility
   onWrongVideo?: () => void; // called when host clicks "Wrong video?" — parent handles reactive picker
+  getSyncDiagnostics?: () => SyncDiagnostics;
+  bufferingBarrier?: BufferingBarrierStatus | null;
+  clockOffset?: number;
+  playbackRate?: number;
+  onPlaybackRateChange?: (rate: number) => void;
+  catchUpRemainingS?: number | null;
 }
 
 export function VideoPlayerContainer({
@@ -70,6 +138,7 @@ export function VideoPlayerContainer({
   onPause,
   onSeeked,
   onYouTubeStateChange,
+  onEmbedStateChange,
   onControlAttempt,
   onVideoChange,
   onShowChatOverlay,
@@ -78,10 +147,20 @@ export function VideoPlayerContainer({
   onAddSubtitleTracks,
   onRemoveSubtitleTrack,
   onActiveSubtitleTrackChange,
+  secondarySubtitleTrack,
+  onSecondarySubtitleTrackChange,
+  roomSubtitleTrackId,
+  onShareSubtitleTrack,
+  subtitleVideoId,
+  onToggleTranscript,
   currentVideoTitle,
   youtubePlayerRef,
   videoPlayerRef,
   hlsPlayerRef,
+  dashPlayerRef,
+  vimeoPlayerRef,
+  twitchPlayerRef,
+  playerRefs,
   isCasting = false,
   isCastAvailable = false,
   castDeviceName,
@@ -90,6 +169,12 @@ export function VideoPlayerContainer({
   applyPendingSync,
   alternatives,
   onWrongVideo,
+  getSyncDiagnostics,
+  bufferingBarrier,
+  clockOffset = 0,
+  playbackRate = 1,
+  onPlaybackRateChange,
+  catchUpRemainingS = null,
 }: VideoPlayerContainerProps) {
   const { socket } = useSocket();
   const [isChangeDialogOpen, setIsChangeDialogOpen] = useState(false);
@@ -104,12 +189,34 @@ export function VideoPlayerContainer({
   const [videoSourceValid, setVideoSourceValid] = useState<boolean | null>(true);
   const [playbackError, setPlaybackError] = useState<string | null>(null);
   const [isStaleReconnecting, setIsStaleReconnecting] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [hlsRenditions, setHlsRenditions] = useState<HlsRenditionState | null>(null);
+  const [streamChapters, setStreamChapters] = useState<Chapter[]>([]);
+  const [chapterIndex, setChapterIndex] = useState(-1);
+  const { preferences: streamPreferences, setPreferredHeight, setPreferredAudioLang } = useStreamPreferences();
+  // Per-viewer fallback ladder (direct -> proxied -> report); the proxied source only applies to the URL it was made for
+  const [proxiedSource, setProxiedSource] = useState<{ originalUrl: string; url: string } | null>(null);
+  const fallbackStateRef = useRef<PlaybackFallbackState | null>(null);
   const lastErrorReportRef = useRef<number>(0);
   const staleTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const staleEmittedRef = useRef(false);
 
   const ERROR_REPORT_DEBOUNCE_MS = 4000;
 
+  // What this viewer actually loads: the room's URL, or its proxied form after a direct failure
+  const playbackSrc = proxiedSource?.originalUrl === videoUrl ? proxiedSource.url : videoUrl;
+
+  const getFallbackState = useCallback(() => {
+    if (fallbackStateRef.current?.attempts[0]?.url !== videoUrl) {
+      fallbackStateRef.current = createPlaybackFallbackState(
+        videoUrl,
+        isProxiedUrl(videoUrl) ? 'proxy' : 'direct',
+        Date.now()
+      );
+    }
+    return fallbackStateRef.current;
+  }, [videoUrl]);
+
   // Check if video ref is ready
   useEffect(() => {
     const checkVideoRef = () => {
@@ -117,6 +224,8 @@ export function VideoPlayerContainer({
         setVideoRefReady(true);
       } else if (videoType === 'm3u8' && hlsPlayerRef.current) {
         setVideoRefReady(true);
+      } else if (videoType === 'mpd' && dashPlayerRef.current) {
+        setVideoRefReady(true);
       } else {
         setVideoRefReady(false);
       }
@@ -132,9 +241,9 @@ export function VideoPlayerContainer({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [videoType]);
 
-  // Validate video source for non-YouTube videos
+  // Validate video source for non-embed videos
   useEffect(() => {
-    if (videoType === 'youtube') {
+    if (isEmbedVideoType(videoType)) {
       setVideoSourceValid(true);
       setPlaybackError(null);
       return;
@@ -160,6 +269,44 @@ export function VideoPlayerContainer({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [videoUrl]);
 
+  // A new stream has its own levels and audio tracks; the player reports them once parsed
+  useEffect(() => {
+    setHlsRenditions(null);
+    setStreamChapters([]);
+  }, [videoUrl]);
+
+  const refreshHlsRenditions = useCallback(() => {
+    const player = hlsPlayerRef.current;
+    if (!player) return;
+    const level = player.getCurrentLevel();
+    setHlsRenditions({
+      levels: player.getLevels(),
+      currentLevel: level.level,
+      autoLevel: level.autoLevel,
+      currentBitrate: level.bitrate,
+      audioTracks: player.getAudioTracks(),
+      audioTrack: player.getAudioTrack(),
+    });
+  }, [hlsPlayerRef]);
+
+  const handleHlsLevelChange = useCallback(
+    (index: number) => {
+      hlsPlayerRef.current?.setLevel(index);
+      const level = hlsRenditions?.levels.find(l => l.index === index);
+      setPreferredHeight(index === -1 ? null : (level?.height ?? null));
+    },
+    [hlsPlayerRef, hlsRenditions, setPreferredHeight]
+  );
+
+  const handleHlsAudioTrackChange = useCallback(
+    (id: number) => {
+      hlsPlayerRef.current?.setAudioTrack(id);
+      const track = hlsRenditions?.audioTracks.find(t => t.id === id);
+      setPreferredAudioLang(track?.lang ?? null);
+    },
+    [hlsPlayerRef, hlsRenditions, setPreferredAudioLang]
+  );
+
   // Get video element ref for guest controls
   const getVideoElementRef = () => {
     if (videoType === 'mp4' && videoPlayerRef.current) {
@@ -170,15 +317,118 @@ export function VideoPlayerContainer({
       const videoElement = hlsPlayerRef.current.getVideoElement();
       return videoElement ? { current: videoElement } : null;
     }
+    if (videoType === 'mpd' && dashPlayerRef.current) {
+      const videoElement = dashPlayerRef.current.getVideoElement();
+      return videoElement ? { current: videoElement } : null;
+    }
     return null;
   };
 
+  const getElementPlayer = useCallback(
+    () =>
+      videoType === 'm3u8'
+        ? hlsPlayerRef.current
+        : videoType === 'mpd'
+          ? dashPlayerRef.current
+          : videoPlayerRef.current,
+    [videoType, hlsPlayerRef, dashPlayerRef, videoPlayerRef]
+  );
+
+  // Whatever is playing for this viewer right now, the Cast receiver included
+  const getCurrentPlayer = useCallback(
+    () => resolvePlayerHandle(playerRefs, resolvePlayerSource(videoType, playerRefs, isCasting)),
+    [playerRefs, videoType, isCasting]
+  );
+
+  const chapters = useVideoChapters({
+    videoType,
+    youTubeId: videoType === 'youtube' ? (videoId ?? extractYouTubeId(videoUrl)) : undefined,
+    videoElement: videoRefReady && !isCasting ? (getVideoElementRef()?.current ?? null) : null,
+    streamChapters,
+  });
+
+  // The title area follows the chapter under the playhead; embeds have no time events, so poll
+  useEffect(() => {
+    if (chapters.length === 0) {
+      setChapterIndex(-1);
+      return;
+    }
+    const update = () => {
+      const player = getCurrentPlayer();
+      if (player) setChapterIndex(getChapterIndexAt(chapters, player.getCurrentTime()));
+    };
+    update();
+    const interval = setInterval(update, 500);
+    return () => clearInterval(interval);
+  }, [chapters, getCurrentPlayer]);
+
+  const handleChapterJump = useCallback(
+    (direction: 'next' | 'previous') => {
+      const player = getCurrentPlayer();
+      if (!isHost || !player) return;
+      const target = getChapterSeekTarget(chapters, player.getCurrentTime(), direction);
+      if (target === null) return;
+      // Chapters are in media time, but a live room seeks on the stream clock: seek here and let the
+      // sync hook read the position back in room coordinates
+      if (!isCasting && videoType === 'm3u8' && hlsPlayerRef.current?.getLiveTimeline()) {
+        player.seekTo(target);
+        onSeeked();
+      } else {
+        onSeeked(target);
+      }
+      setChapterIndex(getChapterIndexAt(chapters, target));
+    },
+    [isHost, chapters, getCurrentPlayer, onSeeked, isCasting, videoType, hlsPlayerRef]
+  );
+
+  const getHlsLiveTimeline = useCallback(() => hlsPlayerRef.current?.getLiveTimeline() ?? null, [hlsPlayerRef]);
+
+  const getDiagnosticsSnapshot = useCallback(() => {
+    const sync = getSyncDiagnostics?.() ?? null;
+    const videoElement =
+      isCasting || isEmbedVideoType(videoType) ? null : (getElementPlayer()?.getVideoElement() ?? null);
+    const player = getCurrentPlayer();
+
+    return buildSyncDiagnosticsSnapshot({
+      videoType,
+      sync,
+      currentTime: player ? player.getCurrentTime() : null,
+      buffered: videoElement?.buffered ?? null,
+      readyState: videoElement?.readyState ?? null,
+      hls: videoType === 'm3u8' && !isCasting ? (hlsPlayerRef.current?.getDiagnostics() ?? null) : null,
+      sourceAttempts: isEmbedVideoType(videoType)
+        ? []
+        : getFallbackState().attempts.map(attempt => ({
+            kind: attempt.kind,
+            failure: attempt.failure ? describePlaybackFailure(attempt.failure) : null,
+          })),
+      isHost,
+      isCasting,
+      serverNow: Date.now() + (sync?.clockOffset ?? 0),
+    });
+  }, [
+    getSyncDiagnostics,
+    videoType,
+    isCasting,
+    isHost,
+    hlsPlayerRef,
+    getElementPlayer,
+    getCurrentPlayer,
+    getFallbackState,
+  ]);
+
   const getVideoTypeName = () => {
     switch (videoType) {
       case 'youtube':
         return 'YouTube';
+      case 'vimeo':
+        return 'Vimeo';
+      case 'twitch':
+        return 'Twitch VOD';
       case 'm3u8':
         return 'HLS Stream';
+      case 'mpd':
+        return 'DASH Stream';
       default:
         return 'Video File';
     }
@@ -198,14 +448,14 @@ export function VideoPlayerContainer({
     const parsed = parseVideoUrl(newUrl.trim());
     if (!parsed) {
       setError(
-        `Hmm, that link doesn't look right. We can handle a public http/https video link (YouTube, HLS, MP4, or similar).`
+        `Hmm, that link doesn't look right. We can handle a public http/https video link (YouTube, Vimeo, Twitch VOD, HLS, MP4, or similar).`
       );
       setIsLoading(false);
       return;
     }
 
-    // For non-YouTube videos, validate the source
-    if (parsed.type !== 'youtube') {
+    // For non-embed videos, validate the source
+    if (!isEmbedVideoType(parsed.type)) {
       logDebug('video', 'validate_source', 'Validating new video source');
       try {
         // Server-side validation now
@@ -242,14 +492,14 @@ export function VideoPlayerContainer({
     const parsed = parseVideoUrl(newUrl.trim());
     if (!parsed) {
       setError(
-        `Hmm, that link doesn't look right. We can handle a public http/https video link (YouTube, HLS, MP4, or similar).`
+        `Hmm, that link doesn't look right. We can handle a public http/https video link (YouTube, Vimeo, Twitch VOD, HLS, MP4, or similar).`
       );
       setIsLoading(false);
       return;
     }
 
-    // For non-YouTube videos, validate the source
-    if (parsed.type !== 'youtube') {
+    // For non-embed videos, validate the source
+    if (!isEmbedVideoType(parsed.type)) {
       logDebug('video', 'validate_source', 'Validating new video source', { url: newUrl });
       try {
         // Server-side validation now
@@ -319,9 +569,114 @@ export function VideoPlayerContainer({
     if (url.includes('youtube.com') || url.includes('youtu.be')) {
       return 'YouTube';
     }
+    if (url.includes('vimeo.com')) {
+      return 'Vimeo';
+    }
+    if (url.includes('twitch.tv')) {
+      return 'Twitch VOD';
+    }
     return 'Video File';
   };
 
+  // Next rung of the fallback ladder for a fatal playback failure; true when a proxied retry is under way
+  const tryProxyFallback = (failure: PlaybackFailure, format: string) => {
+    const decision = decidePlaybackFallback({
+      state: getFallbackState(),
+      failure,
+      proxiedUrl: PROXY_ENABLED ? buildProxyUrl(videoUrl) : null,
+      now: Date.now(),
+    });
+    if (decision.action !== 'retry-proxied') return false;
+
+    logClient({
+      level: 'info',
+      domain: 'video',
+      event: 'proxy_fallback',
+      message: `Direct ${format} playback failed, retrying through the proxy`,
+      meta: { failure: describePlaybackFailure(failure), videoUrl },
+    });
+    toast.info(`That link wouldn't play directly, so we're sneaking it in through our proxy.`);
+    setProxiedSource({ originalUrl: videoUrl, url: decision.url });
+    return true;
+  };
+
+  // Fatal HLS/DASH stream errors share one path: stale Lens token refresh, proxy fallback, host error report, banner
+  const handleStreamError = (err: StreamErrorInfo, format: 'HLS' | 'DASH') => {
+    const codecUnparsable = Boolean(err?.codecUnparsable);
+    const responseCode = err?.responseCode;
+    const effectiveRoomId =
+      roomId || (typeof window !== 'undefined' ? window.location.pathname.split('/').pop() || '' : '');
+
+    // Stale Lens UUID detection: 403/401/410 on a pipe ?uuid= URL triggers reactive re-extraction
+    const isStaleCode = responseCode === 403 || responseCode === 401 || responseCode === 410;
+    const isLensUuidUrl = videoUrl.includes('uuid=');
+    if (isStaleCode && isLensUuidUrl && effectiveRoomId && socket && !staleEmittedRef.current) {
+      staleEmittedRef.current = true;
+      setIsStaleReconnecting(true);
+      socket.emit('video-stale', { roomId: effectiveRoomId });
+      logClient({
+        level: 'info',
+        domain: 'video',
+        event: `${format.toLowerCase()}_stale_detected`,
+        message: 'Stale Lens URL detected, triggering re-extraction',
+        meta: { responseCode, videoUrl },
+      });
+      // Fallback: if no refresh arrives within 20s, surface the error
+      staleTimeoutRef.current = setTimeout(() => {
+        setIsStaleReconnecting(false);
+        staleEmittedRef.current = false;
+        setPlaybackError(`The stream token expired and we couldn't refresh it automatically. Try setting a new link.`);
+        setVideoSourceValid(false);
+      }, 20_000);
+      return;
+    }
+
+    if (tryProxyFallback({ responseCode, codecUnparsable, details: err?.details || err?.type }, format)) return;
+
+    if (isHost) {
+      const now = Date.now();
+      if (socket && now - lastErrorReportRef.current > ERROR_REPORT_DEBOUNCE_MS) {
+        lastErrorReportRef.current = now;
+        try {
+          if (effectiveRoomId) {
+            socket.emit('video-error-report', {
+              roomId: effectiveRoomId,
+              code: responseCode,
+              message: err?.details || err?.type || `${format.toLowerCase()}_error`,
+              currentSrc: playbackSrc,
+              currentTime: err?.currentTime || 0,
+              isHost: true,
+              codecUnparsable,
+            });
+          }
+        } catch (e) {
+          logClient({
+            level: 'warn',
+            domain: 'video',
+            event: 'error_report_fail',
+            message: `Failed to emit video-error-report (${format})`,
+            meta: { error: String(e) },
+          });
+        }
+      }
+    }
+
+    setPlaybackError(
+      codecUnparsable
+        ? `Your browser just choked on this stream's formatting. It's likely an exotic codec issue. Switching devices might help, but grabbing a standard H.264/AAC link is your safest bet.`
+        : `We couldn't load this ${format} stream. It might be expired, behind a firewall (403), or just being a bit shy with our proxy. Time for a new link?`
+    );
+    setIsLoading(false);
+    setVideoSourceValid(false);
+    logClient({
+      level: 'error',
+      domain: 'video',
+      event: `${format.toLowerCase()}_error`,
+      message: `${format} reported fatal error`,
+      meta: { err, codecUnparsable },
+    });
+  };
+
   const renderPlayer = () => {
     // Show error state if video source validation failed
     // If server provided URL fails, onError path will trigger proxy or report.
@@ -357,6 +712,33 @@ export function VideoPlayerContainer({
             ref={youtubePlayerRef}
             videoId={effectiveId}
             onStateChange={onYouTubeStateChange}
+            onPlaybackRateChange={isHost ? onPlaybackRateChange : undefined}
+            className="h-full w-full"
+          />
+        );
+      case 'vimeo': {
+        const vimeo = extractVimeoVideo(videoUrl);
+        return (
+          <VimeoPlayer
+            ref={vimeoPlayerRef}
+            videoId={vimeo?.id ?? ''}
+            hash={vimeo?.hash}
+            onReady={applyPendingSync}
+            onStateChange={onEmbedStateChange}
+            onSeeked={onSeeked}
+            onPlaybackRateChange={isHost ? onPlaybackRateChange : undefined}
+            className="h-full w-full"
+          />
+        );
+      }
+      case 'twitch':
+        return (
+          <TwitchPlayer
+            ref={twitchPlayerRef}
+            videoId={extractTwitchVideoId(videoUrl) ?? ''}
+            onReady={applyPendingSync}
+            onStateChange={onEmbedStateChange}
+            onSeeked={onSeeked}
             className="h-full w-full"
           />
         );
@@ -364,86 +746,33 @@ export function VideoPlayerContainer({
         return (
           <HLSPlayer
             ref={hlsPlayerRef}
-            src={videoUrl}
-            useProxy={isProxiedUrl(videoUrl)}
+            src={playbackSrc}
+            useProxy={isProxiedUrl(playbackSrc)}
             onPlay={onPlay}
             onPause={onPause}
             onSeeked={onSeeked}
-            onError={err => {
-              const codecUnparsable = Boolean(err?.codecUnparsable);
-              const responseCode = err?.responseCode;
-              const effectiveRoomId =
-                roomId || (typeof window !== 'undefined' ? window.location.pathname.split('/').pop() || '' : '');
-
-              // Stale Lens UUID detection: 403/401/410 on a pipe ?uuid= URL triggers reactive re-extraction
-              const isStaleCode = responseCode === 403 || responseCode === 401 || responseCode === 410;
-              const isLensUuidUrl = videoUrl.includes('uuid=');
-              if (isStaleCode && isLensUuidUrl && effectiveRoomId && socket && !staleEmittedRef.current) {
-                staleEmittedRef.current = true;
-                setIsStaleReconnecting(true);
-                socket.emit('video-stale', { roomId: effectiveRoomId });
-                logClient({
-                  level: 'info',
-                  domain: 'video',
-                  event: 'hls_stale_detected',
-                  message: 'Stale Lens URL detected, triggering re-extraction',
-                  meta: { responseCode, videoUrl },
-                });
-                // Fallback: if no refresh arrives within 20s, surface the error
-                staleTimeoutRef.current = setTimeout(() => {
-                  setIsStaleReconnecting(false);
-                  staleEmittedRef.current = false;
-                  setPlaybackError(
-                    `The stream token expired and we couldn't refresh it automatically. Try setting a new link.`
-                  );
-                  setVideoSourceValid(false);
-                }, 20_000);
-                return;
-              }
-
-              if (isHost) {
-                const now = Date.now();
-                if (socket && now - lastErrorReportRef.current > ERROR_REPORT_DEBOUNCE_MS) {
-                  lastErrorReportRef.current = now;
-                  try {
-                    if (effectiveRoomId) {
-                      socket.emit('video-error-report', {
-                        roomId: effectiveRoomId,
-                        code: responseCode,
-                        message: err?.details || err?.type || 'hls_error',
-                        currentSrc: videoUrl,
-                        currentTime: hlsPlayerRef.current?.getCurrentTime?.() || 0,
-                        isHost: true,
-                        codecUnparsable,
-                      });
-                    }
-                  } catch (e) {
-                    logClient({
-                      level: 'warn',
-                      domain: 'video',
-                      event: 'error_report_fail',
-                      message: 'Failed to emit video-error-report (HLS)',
-                      meta: { error: String(e) },
-                    });
-                  }
-                }
-              }
-
-              setPlaybackError(
-                codecUnparsable
-                  ? `Your browser just choked on this stream's formatting. It's likely an exotic codec issue. Switching devices might help, but grabbing a standard H.264/AAC link is your safest bet.`
-                  : `We couldn't load this HLS stream. It might be expired, behind a firewall (403), or just being a bit shy with our proxy. Time for a new link?`
-              );
-              setIsLoading(false);
-              setVideoSourceValid(false);
-              logClient({
-                level: 'error',
-                domain: 'video',
-                event: 'hls_error',
-                message: 'HLS reported fatal error',
-                meta: { err, codecUnparsable },
-              });
-            }}
+            onError={err => handleStreamError(err, 'HLS')}
+            isHost={isHost}
+            subtitleTracks={subtitleTracks}
+            activeSubtitleTrack={activeSubtitleTrack}
+            className="h-full w-full"
+            onLoadedMetadata={applyPendingSync}
+            preferredHeight={streamPreferences.preferredHeight}
+            preferredAudioLang={streamPreferences.preferredAudioLang}
+            onRenditionsChange={refreshHlsRenditions}
+            onChaptersChange={setStreamChapters}
+            clockOffset={clockOffset}
+          />
+        );
+      case 'mpd':
+        return (
+          <DASHPlayer
+            ref={dashPlayerRef}
+            src={playbackSrc}
+            onPlay={onPlay}
+            onPause={onPause}
+            onSeeked={onSeeked}
+            onError={err => handleStreamError(err, 'DASH')}
             isHost={isHost}
             subtitleTracks={subtitleTracks}
             activeSubtitleTrack={activeSubtitleTrack}
@@ -455,7 +784,7 @@ export function VideoPlayerContainer({
         return (
           <VideoPlayer
             ref={videoPlayerRef}
-            src={videoUrl}
+            src={playbackSrc}
             onPlay={onPlay}
             onPause={onPause}
             onSeeked={onSeeked}
@@ -475,6 +804,10 @@ export function VideoPlayerContainer({
                 meta: { code: err.code, message: err.message, codecUnparsable, isHost },
               });
 
+              if (tryProxyFallback({ mediaErrorCode: err.code, codecUnparsable, details: err.message }, 'video')) {
+                return;
+              }
+
               if (isHost) {
                 const now = Date.now();
                 if (socket && now - lastErrorReportRef.current > ERROR_REPORT_DEBOUNCE_MS) {
@@ -487,7 +820,7 @@ export function VideoPlayerContainer({
                         roomId: effectiveRoomId,
                         code: err.code,
                         message: err.message,
-                        currentSrc: videoUrl,
+                        currentSrc: playbackSrc,
                         currentTime:
                           (videoPlayerRef.current?.getCurrentTime && videoPlayerRef.current.getCurrentTime()) || 0,
                         isHost: true,
@@ -574,19 +907,21 @@ export function VideoPlayerContainer({
             </div>
           ) : null}
 
-          {/* Custom subtitle overlay for non-YouTube videos */}
-          {videoType !== 'youtube' && videoSourceValid !== false && (
+          {/* Custom subtitle overlay for non-embed videos */}
+          {!isEmbedVideoType(videoType) && videoSourceValid !== false && (
             <SubtitleOverlay
               videoRef={getVideoElementRef()}
               subtitleTracks={subtitleTracks}
               activeSubtitleTrack={activeSubtitleTrack}
+              secondarySubtitleTrack={secondarySubtitleTrack}
+              videoId={subtitleVideoId}
               controlsVisible={controlsVisible}
               isFullscreen={isFullscreen}
             />
           )}
 
-          {/* Unified video controls for non-YouTube videos */}
-          {videoType !== 'youtube' && (videoRefReady || isCasting) && videoSourceValid !== false && (
+          {/* Unified video controls for non-embed videos */}
+          {!isEmbedVideoType(videoType) && (videoRefReady || isCasting) && videoSourceValid !== false && (
             <VideoControls
               videoRef={isCasting ? null : getVideoElementRef()}
               castPlayerRef={castPlayerRef}
@@ -606,6 +941,12 @@ export function VideoPlayerContainer({
               onAddSubtitleTracks={onAddSubtitleTracks}
               onRemoveSubtitleTrack={onRemoveSubtitleTrack}
               onActiveSubtitleTrackChange={onActiveSubtitleTrackChange}
+              secondarySubtitleTrack={secondarySubtitleTrack}
+              onSecondarySubtitleTrackChange={onSecondarySubtitleTrackChange}
+              roomSubtitleTrackId={roomSubtitleTrackId}
+              onShareSubtitleTrack={onShareSubtitleTrack}
+              subtitleVideoId={subtitleVideoId}
+              onToggleTranscript={onToggleTranscript}
               currentVideoTitle={currentVideoTitle}
               className="z-20"
               onControlsVisibilityChange={setControlsVisible}
@@ -616,11 +957,30 @@ export function VideoPlayerContainer({
               onCastClick={onCastClick}
               alternativesCount={alternatives?.length ?? 0}
               onWrongVideo={isHost ? onWrongVideo : undefined}
+              playbackRate={playbackRate}
+              onPlaybackRateChange={isHost ? onPlaybackRateChange : undefined}
+              hlsRenditions={videoType === 'm3u8' ? hlsRenditions : null}
+              onHlsLevelChange={handleHlsLevelChange}
+              onHlsAudioTrackChange={handleHlsAudioTrackChange}
+              chapters={chapters}
+              getLiveTimeline={videoType === 'm3u8' ? getHlsLiveTimeline : undefined}
             />
           )}
 
-          {/* Block video controls for non-hosts on YouTube */}
-          {!isHost && videoType === 'youtube' && (
+          {bufferingBarrier && !playbackError && (
+            <BufferingBarrierBanner status={bufferingBarrier} clockOffset={clockOffset} />
+          )}
+
+          {catchUpRemainingS !== null && !bufferingBarrier && !playbackError && (
+            <CatchUpIndicator remainingS={catchUpRemainingS} />
+          )}
+
+          {showDiagnostics && (
+            <SyncDiagnosticsOverlay getSnapshot={getDiagnosticsSnapshot} onClose={() => setShowDiagnostics(false)} />
+          )}
+
+          {/* Block the embed's own controls for non-hosts */}
+          {!isHost && isEmbedVideoType(videoType) && (
             <div
               className="absolute inset-0 z-10"
               onClick={onControlAttempt}
@@ -630,11 +990,49 @@ export function VideoPlayerContainer({
         </div>
 
         <div className="mt-4 flex items-center justify-between">
-          <div className="flex items-center space-x-2">
-            <Video className="h-4 w-4 text-muted-foreground" />
+          <div className="flex min-w-0 items-center space-x-2">
+            <Video className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
             <span className="font-mono text-sm tracking-tighter text-muted-foreground">{getVideoTypeName()}</span>
+            {chapters[chapterIndex] && (
+              <span className="truncate text-sm font-semibold tracking-tight" title={chapters[chapterIndex].title}>
+                {chapters[chapterIndex].title}
+              </span>
+            )}
           </div>
           <div className="flex items-center space-x-2">
+            {isHost && chapters.length > 1 && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleChapterJump('previous')}
+                  title="Previous chapter"
+                >
+                  <SkipBack className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleChapterJump('next')}
+                  disabled={chapterIndex >= chapters.length - 1}
+                  title="Next chapter"
+                >
+                  <SkipForward className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            {!isHost && !isCasting && <CatchUpMenu playbackRate={playbackRate} />}
+            {getSyncDiagnostics && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowDiagnostics(prev => !prev)}
+                title="Stats for nerds"
+                aria-pressed={showDiagnostics}
+              >
+                <Activity className="h-4 w-4" />
+              </Button>
+            )}
             {/* Dialog for changing video */}
             {isHost && onVideoChange && (
               <Dialog open={isChangeDialogOpen} onOpenChange={handleDialogOpenChange}>
@@ -650,7 +1048,8 @@ export function VideoPlayerContainer({
                       <span className="text-xl font-semibold tracking-tighter">Change Video</span>
                     </DialogTitle>
                     <DialogDescription className="text-sm tracking-tight text-neutral">
-                      Enter a new YouTube, MP4, or M3U8 (HLS) video URL to change what everyone is watching.
+                      Enter a new YouTube, Vimeo, Twitch VOD, MP4, or M3U8 (HLS) video URL to change what everyone is
+                      watching.
                     </DialogDescription>
                   </DialogHeader>
 
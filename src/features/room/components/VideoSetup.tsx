@@ -14,7 +14,7 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { parseVideoUrl, isDrmHost } from '@/src/lib/video-utils';
-import { Video, Youtube, FileVideo, ExternalLink, ArrowRight, Link } from 'lucide-react';
+import { Video, Youtube, Twitch, FileVideo, ExternalLink, ArrowRight, Link } from 'lucide-react';
 
 function ChromeIcon({ className }: { className?: string }) {
   return (
@@ -47,7 +47,7 @@ export function VideoSetup({ onVideoSet, isHost, hasVideo, videoUrl }: VideoSetu
     const parsed = parseVideoUrl(url.trim());
     if (!parsed) {
       setError(
-        `Hmm, that link doesn't look right. We can handle a public http/https video link (YouTube, HLS, MP4, or similar).`
+        `Hmm, that link doesn't look right. We can handle a public http/https video link (YouTube, Vimeo, Twitch VOD, HLS, MP4, or similar).`
       );
       return;
     }
@@ -67,6 +67,12 @@ export function VideoSetup({ onVideoSet, isHost, hasVideo, videoUrl }: VideoSetu
     if (url.includes('youtube.com') || url.includes('youtu.be')) {
       return 'YouTube';
     }
+    if (url.includes('vimeo.com')) {
+      return 'Vimeo';
+    }
+    if (url.includes('twitch.tv')) {
+      return 'Twitch VOD';
+    }
     return 'Video File';
   };
 
@@ -74,6 +80,12 @@ export function VideoSetup({ onVideoSet, isHost, hasVideo, videoUrl }: VideoSetu
     if (url.includes('youtube.com') || url.includes('youtu.be')) {
       return <Youtube className="h-4 w-4 text-red-500" />;
     }
+    if (url.includes('vimeo.com')) {
+      return <Video className="h-4 w-4 text-sky-500" />;
+    }
+    if (url.includes('twitch.tv')) {
+      return <Twitch className="h-4 w-4 text-purple-500" />;
+    }
     return <FileVideo className="h-4 w-4 text-blue-500" />;
   };
 
@@ -185,7 +197,7 @@ function VideoUrlForm({
           <Link className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 transform text-neutral" />
           <Input
             id="videoUrl"
-            placeholder="Paste a YouTube, MP4, or M3U8 or any video link..."
+            placeholder="Paste a YouTube, Vimeo, Twitch, MP4, or M3U8 or any video link..."
             value={url}
             onChange={e => setUrl(e.target.value)}
             className="p-6 pl-10 !text-base"
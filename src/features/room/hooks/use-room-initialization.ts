@@ -4,8 +4,13 @@ import { useEffect, useState } from 'react';
 import type { Socket } from 'socket.io-client';
 import type { Room, User } from '@/types';
 import { roomSessionStorage } from '@/src/lib/session-storage';
+import { readShareTime } from '@/src/lib/share-timestamps';
 import { logDebug, logClient } from '@/src/core/logger';
 
+// How long a host's deep-link seek waits for the player to learn its duration before giving up
+const DEEP_LINK_SEEK_TIMEOUT_MS = 15_000;
+const DEEP_LINK_POLL_MS = 250;
+
 export interface UseRoomInitializationOptions {
   roomId: string;
   socket: Socket | null;
@@ -26,8 +31,13 @@ export interface UseRoomInitializationOptions {
   initialVideoAppliedRef: React.MutableRefObject<boolean>;
   autoplayTriggeredRef: React.MutableRefObject<boolean>;
   handleSetVideo: (url: string, pageUrl?: string | null) => void;
-  getActivePlayer: () => { play?: () => void | Promise<void> } | null;
+  getActivePlayer: () => { play?: () => void | Promise<void>; getDuration?: () => number } | null;
   handleVideoPlay: () => void;
+  // For ?t= / #t= deep links
+  deepLinkHandledRef: React.MutableRefObject<boolean>;
+  handleVideoSeek: (explicitTime?: number) => void;
+  /** Guests can't move the room; called once with the requested position so the UI can explain. */
+  onGuestDeepLink: (requestedSeconds: number) => void;
 }
 
 export function useRoomInitialization(options: UseRoomInitializationOptions): void {
@@ -51,6 +61,9 @@ export function useRoomInitialization(options: UseRoomInitializationOptions): vo
     handleSetVideo,
     getActivePlayer,
     handleVideoPlay,
+    deepLinkHandledRef,
+    handleVideoSeek,
+    onGuestDeepLink,
   } = options;
 
   // Internal join cooldown state
@@ -184,4 +197,47 @@ export function useRoomInitialization(options: UseRoomInitializationOptions): vo
       logDebug('video', 'autoplay_error', 'Autoplay threw an error');
     }
   }, [room, currentUser, autoplayParam, autoplayTriggeredRef, getActivePlayer, handleVideoPlay]);
+
+  // Deep-linked start time (?t= / #t=): hosts seek the room once, guests get told where the room is instead
+  useEffect(() => {
+    if (!room?.videoUrl || !currentUser || deepLinkHandledRef.current) return;
+
+    const requested = readShareTime(window.location.search, window.location.hash);
+    if (requested === null) {
+      deepLinkHandledRef.current = true;
+      return;
+    }
+
+    if (!currentUser.isHost) {
+      deepLinkHandledRef.current = true;
+      onGuestDeepLink(requested);
+      return;
+    }
+
+    // Seeking before the player has metadata is dropped by some players (YouTube), so wait for a duration
+    const startedAt = Date.now();
+    const interval = setInterval(() => {
+      const player = getActivePlayer();
+      const duration = player?.getDuration?.() ?? 0;
+
+      if (!player || !Number.isFinite(duration) || duration <= 0) {
+        if (Date.now() - startedAt > DEEP_LINK_SEEK_TIMEOUT_MS) {
+          clearInterval(interval);
+          deepLinkHandledRef.current = true;
+          logDebug('video', 'deep_link_timeout', 'Player never became seekable for the deep-linked time', {
+            requested,
+          });
+        }
+        return;
+      }
+
+      clearInterval(interval);
+      deepLinkHandledRef.current = true;
+      const target = Math.min(requested, duration);
+      logDebug('video', 'deep_link_seek', 'Seeking room to deep-linked time', { requested, target });
+      handleVideoSeek(target);
+    }, DEEP_LINK_POLL_MS);
+
+    return () => clearInterval(interval);
+  }, [room?.videoUrl, currentUser, deepLinkHandledRef, getActivePlayer, handleVideoSeek, onGuestDeepLink]);
 }
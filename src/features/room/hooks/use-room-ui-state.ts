@@ -3,7 +3,10 @@
 import { useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { Socket } from 'socket.io-client';
+import { toast } from 'sonner';
 import { roomSessionStorage } from '@/src/lib/session-storage';
+import { buildRoomShareUrl } from '@/src/lib/share-timestamps';
+import { formatTimestamp } from '@/src/lib/chat-timestamps';
 import { logDebug } from '@/src/core/logger';
 
 interface UseRoomUiStateOptions {
@@ -43,6 +46,8 @@ interface UseRoomUiStateReturn {
   handleCancelPasscode: () => void;
   copyRoomId: () => void;
   shareRoom: () => void;
+  /** Copies a room link that opens at the given position (?t=). */
+  copyLinkAtTime: (seconds: number) => void;
   showGuestBannerTemporarily: () => void;
   resetPasscodeState: () => void;
 }
@@ -141,7 +146,7 @@ export function useRoomUiState({
   }, [roomId]);
 
   const shareRoom = useCallback(() => {
-    const url = `${window.location.origin}/room/${roomId}`;
+    const url = buildRoomShareUrl(window.location.origin, roomId);
     if (navigator.share) {
       navigator.share({
         title: `You're invited! Yay?`,
@@ -153,6 +158,17 @@ export function useRoomUiState({
     }
   }, [roomId]);
 
+  const copyLinkAtTime = useCallback(
+    (seconds: number) => {
+      const url = buildRoomShareUrl(window.location.origin, roomId, seconds);
+      navigator.clipboard
+        .writeText(url)
+        .then(() => toast.success(`Link copied! It opens at ${formatTimestamp(seconds)}.`))
+        .catch(() => toast.error(`Couldn't reach the clipboard. Here's the link: ${url}`));
+    },
+    [roomId]
+  );
+
   return {
     // UI State
     showGuestInfoBanner,
@@ -181,6 +197,7 @@ export function useRoomUiState({
     handleCancelPasscode,
     copyRoomId,
     shareRoom,
+    copyLinkAtTime,
     showGuestBannerTemporarily,
     resetPasscodeState,
   };
@@ -7,12 +7,14 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuTrigger,
   DropdownMenuSeparator,
 } from '@/components/ui/dropdown-menu';
-import { Subtitles, Plus, X, Settings } from 'lucide-react';
+import { Subtitles, Plus, X, Settings, Share2, Timer, Languages, ScrollText } from 'lucide-react';
 import { SubtitleUploadDialog } from './SubtitleUploadDialog';
 import { SubtitleSettingsDialog } from './SubtitleSettingsDialog';
+import { SubtitleTimingDialog } from './SubtitleTimingDialog';
 import type { SubtitleTrack } from '@/types/schemas';
 
 interface SubtitleManagerProps {
@@ -21,6 +23,19 @@ interface SubtitleManagerProps {
   onAddTracks: (tracks: SubtitleTrack[]) => void;
   onRemoveTrack: (trackId: string) => void;
   onActiveTrackChange: (trackId?: string) => void;
+  /** Second-language track shown alongside the active one. */
+  secondaryTrackId?: string;
+  onSecondaryTrackChange?: (trackId?: string) => void;
+  /** Track the host made the room default; marked in the list. */
+  roomTrackId?: string;
+  /** Host only: share a track with the room, or stop sharing with no id. */
+  onShareTrack?: (trackId?: string) => void;
+  /** getVideoIdForStorage of the room video; timing fixes are saved per video. */
+  videoId?: string;
+  /** Playback position, for the timing tool. */
+  getCurrentTime?: () => number;
+  /** Open or close the transcript panel next to the player; not offered in fullscreen, where it can't be seen. */
+  onToggleTranscript?: () => void;
   currentVideoTitle?: string;
   isHost?: boolean;
   isFullscreen?: boolean;
@@ -32,12 +47,20 @@ export function SubtitleManager({
   onAddTracks,
   onRemoveTrack,
   onActiveTrackChange,
+  secondaryTrackId,
+  onSecondaryTrackChange,
+  roomTrackId,
+  onShareTrack,
+  videoId,
+  getCurrentTime,
+  onToggleTranscript,
   currentVideoTitle: _currentVideoTitle,
   isHost = false,
   isFullscreen = false,
 }: SubtitleManagerProps) {
   const [showSearchDialog, setShowSearchDialog] = useState(false);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
+  const [showTimingDialog, setShowTimingDialog] = useState(false);
   const [isClient, setIsClient] = useState(false);
 
   useEffect(() => {
@@ -75,6 +98,25 @@ export function SubtitleManager({
     setShowSettingsDialog(true);
   };
 
+  const handleTimingClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setShowTimingDialog(true);
+  };
+
+  const handleTranscriptClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onToggleTranscript?.();
+  };
+
+  const activeTrack = subtitleTracks.find(track => track.id === activeTrackId);
+  // A second language only makes sense on top of a first one
+  const secondaryCandidates = activeTrack ? subtitleTracks.filter(track => track.id !== activeTrack.id) : [];
+
+  const handleSecondaryClick = (trackId?: string) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSecondaryTrackChange?.(trackId);
+  };
+
   return (
     <>
       {isFullscreen && isClient ? (
@@ -83,9 +125,15 @@ export function SubtitleManager({
           subtitleTracks={subtitleTracks}
           activeTrackId={activeTrackId}
           onTrackSelect={handleTrackSelect}
+          secondaryTrackId={secondaryTrackId}
+          secondaryCandidates={onSecondaryTrackChange ? secondaryCandidates : []}
+          onSecondaryTrackSelect={onSecondaryTrackChange}
           onRemoveTrack={handleRemoveTrack}
+          roomTrackId={roomTrackId}
+          onShareTrack={onShareTrack}
           onUploadClick={handleUploadClick}
           onSettingsClick={handleSettingsClick}
+          onTimingClick={activeTrack ? handleTimingClick : undefined}
           isHost={isHost}
           isFullscreen={isFullscreen}
         />
@@ -124,9 +172,17 @@ export function SubtitleManager({
                     <div className="truncate font-medium">{track.label}</div>
                     <div className="text-xs text-muted-foreground">
                       {track.language.toUpperCase()} • {track.format.toUpperCase()}
+                      {roomTrackId === track.id && <span className="text-primary"> • Room default</span>}
                     </div>
                   </div>
                 </DropdownMenuItem>
+                {/* Share with the room (host) */}
+                {onShareTrack && (
+                  <ShareTrackButton
+                    isShared={roomTrackId === track.id}
+                    onClick={() => onShareTrack(roomTrackId === track.id ? undefined : track.id)}
+                  />
+                )}
                 {/* Remove track button */}
                 <Button
                   variant="ghost"
@@ -142,6 +198,35 @@ export function SubtitleManager({
               </div>
             ))}
 
+            {/* Second language */}
+            {onSecondaryTrackChange && secondaryCandidates.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel className="flex items-center text-xs font-medium text-muted-foreground">
+                  <Languages className="mr-2 h-3.5 w-3.5" />
+                  Second Language
+                </DropdownMenuLabel>
+                <DropdownMenuItem
+                  onClick={handleSecondaryClick(undefined)}
+                  className={!secondaryTrackId ? 'bg-accent' : ''}
+                >
+                  None
+                </DropdownMenuItem>
+                {secondaryCandidates.map(track => (
+                  <DropdownMenuItem
+                    key={track.id}
+                    onClick={handleSecondaryClick(track.id)}
+                    className={secondaryTrackId === track.id ? 'bg-accent' : ''}
+                  >
+                    <span className="truncate">
+                      {track.label}{' '}
+                      <span className="text-xs text-muted-foreground">{track.language.toUpperCase()}</span>
+                    </span>
+                  </DropdownMenuItem>
+                ))}
+              </>
+            )}
+
             {/* Upload subtitles */}
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={handleUploadClick}>
@@ -155,6 +240,17 @@ export function SubtitleManager({
               <Settings className="mr-2 h-4 w-4" />
               Subtitle Settings
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={handleTimingClick} disabled={!activeTrack}>
+              <Timer className="mr-2 h-4 w-4" />
+              Timing Tool
+            </DropdownMenuItem>
+            {/* The panel sits beside the player, out of sight in fullscreen */}
+            {onToggleTranscript && !isFullscreen && (
+              <DropdownMenuItem onClick={handleTranscriptClick} disabled={!activeTrack}>
+                <ScrollText className="mr-2 h-4 w-4" />
+                Transcript
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       )}
@@ -168,18 +264,52 @@ export function SubtitleManager({
 
       {/* Subtitle settings dialog */}
       <SubtitleSettingsDialog open={showSettingsDialog} onOpenChange={setShowSettingsDialog} />
+
+      {/* Frame-rate and two-point timing fixes for the active track */}
+      <SubtitleTimingDialog
+        open={showTimingDialog}
+        onOpenChange={setShowTimingDialog}
+        videoId={videoId}
+        track={activeTrack}
+        getCurrentTime={getCurrentTime}
+      />
     </>
   );
 }
 
+function ShareTrackButton({ isShared, onClick }: { isShared: boolean; onClick: () => void }) {
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={e => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className={`h-6 w-6 flex-shrink-0 p-0 hover:bg-primary hover:text-primary-foreground ${isShared ? 'text-primary' : ''}`}
+      title={isShared ? 'Stop sharing with the room' : 'Share with the room'}
+    >
+      <Share2 className="h-3 w-3" />
+    </Button>
+  );
+}
+
 // Custom fullscreen dropdown component
 interface FullscreenSubtitleDropdownProps {
   subtitleTracks: SubtitleTrack[];
   activeTrackId?: string;
   onTrackSelect: (trackId?: string) => void;
+  secondaryTrackId?: string;
+  /** Tracks that can be the second language; empty hides the section. */
+  secondaryCandidates: SubtitleTrack[];
+  onSecondaryTrackSelect?: (trackId?: string) => void;
   onRemoveTrack: (trackId: string) => void;
+  roomTrackId?: string;
+  onShareTrack?: (trackId?: string) => void;
   onUploadClick: (e: React.MouseEvent) => void;
   onSettingsClick: (e: React.MouseEvent) => void;
+  /** Absent while no track is on. */
+  onTimingClick?: (e: React.MouseEvent) => void;
   isHost: boolean;
   isFullscreen: boolean;
 }
@@ -188,9 +318,15 @@ function FullscreenSubtitleDropdown({
   subtitleTracks,
   activeTrackId,
   onTrackSelect,
+  secondaryTrackId,
+  secondaryCandidates,
+  onSecondaryTrackSelect,
   onRemoveTrack,
+  roomTrackId,
+  onShareTrack,
   onUploadClick,
   onSettingsClick,
+  onTimingClick,
   isHost: _isHost,
   isFullscreen: _isFullscreen,
 }: FullscreenSubtitleDropdownProps) {
@@ -202,6 +338,12 @@ function FullscreenSubtitleDropdown({
     setIsOpen(false);
   };
 
+  const handleSecondaryClick = (trackId?: string) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onSecondaryTrackSelect?.(trackId);
+    setIsOpen(false);
+  };
+
   const handleDropdownClick = (e: React.MouseEvent) => {
     e.stopPropagation();
   };
@@ -237,9 +379,17 @@ function FullscreenSubtitleDropdown({
               <div className="truncate font-medium">{track.label}</div>
               <div className="text-xs text-muted-foreground">
                 {track.language.toUpperCase()} • {track.format.toUpperCase()}
+                {roomTrackId === track.id && <span className="text-primary"> • Room default</span>}
               </div>
             </div>
           </div>
+          {/* Share with the room (host) */}
+          {onShareTrack && (
+            <ShareTrackButton
+              isShared={roomTrackId === track.id}
+              onClick={() => onShareTrack(roomTrackId === track.id ? undefined : track.id)}
+            />
+          )}
           {/* Remove track button */}
           <Button
             variant="ghost"
@@ -255,6 +405,32 @@ function FullscreenSubtitleDropdown({
         </div>
       ))}
 
+      {/* Second language */}
+      {secondaryCandidates.length > 0 && (
+        <>
+          <div className="my-1 h-px bg-border" />
+          <div className="flex items-center px-2 py-1.5 text-xs font-medium text-muted-foreground">
+            <Languages className="mr-2 h-3.5 w-3.5" />
+            Second Language
+          </div>
+          <div
+            className={`cursor-pointer rounded-sm px-2 py-1.5 text-sm outline-none transition-colors hover:bg-accent hover:text-accent-foreground ${!secondaryTrackId ? 'bg-accent' : ''}`}
+            onClick={handleSecondaryClick(undefined)}
+          >
+            None
+          </div>
+          {secondaryCandidates.map(track => (
+            <div
+              key={track.id}
+              className={`cursor-pointer truncate rounded-sm px-2 py-1.5 text-sm outline-none transition-colors hover:bg-accent hover:text-accent-foreground ${secondaryTrackId === track.id ? 'bg-accent' : ''}`}
+              onClick={handleSecondaryClick(track.id)}
+            >
+              {track.label} <span className="text-xs text-muted-foreground">{track.language.toUpperCase()}</span>
+            </div>
+          ))}
+        </>
+      )}
+
       {/* Upload subtitles */}
       <div className="my-1 h-px bg-border" />
       <div
@@ -274,6 +450,13 @@ function FullscreenSubtitleDropdown({
         <Settings className="mr-2 inline h-4 w-4" />
         Subtitle Settings
       </div>
+      <div
+        className={`rounded-sm px-2 py-1.5 text-sm outline-none transition-colors ${onTimingClick ? 'cursor-pointer hover:bg-accent hover:text-accent-foreground' : 'pointer-events-none opacity-50'}`}
+        onClick={onTimingClick}
+      >
+        <Timer className="mr-2 inline h-4 w-4" />
+        Timing Tool
+      </div>
     </div>
   ) : null;
 
@@ -1,65 +1,96 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import type { SubtitleTrack } from '@/types/schemas';
-import { SubtitleParser, type SubtitleCue as ParsedSubtitleCue } from '../lib';
+import {
+  DEFAULT_CUE_POSITION,
+  getCueRuns,
+  parseVTT,
+  transformCues,
+  useSubtitleTiming,
+  type SubtitleCue,
+  type SubtitleCuePosition,
+  type SubtitleStyleRun,
+  type SubtitleTimingTransform,
+} from '../lib';
 import { useSubtitleSettings } from '../lib';
 import { logClient } from '@/src/core/logger';
 
-interface SubtitleCue {
-  text: string;
-  startTime: number;
-  endTime: number;
-}
-
 interface SubtitleOverlayProps {
   videoRef: React.RefObject<HTMLVideoElement> | null;
   subtitleTracks: SubtitleTrack[];
   activeSubtitleTrack?: string;
+  /** Second-language track, drawn at its own edge and size from the subtitle settings. */
+  secondarySubtitleTrack?: string;
+  /** getVideoIdForStorage of the room video, for its saved timing fix. */
+  videoId?: string;
   controlsVisible: boolean;
   isFullscreen: boolean;
 }
 
-// Helper function to convert parsed subtitle cue to component's expected format
-const convertSubtitleCue = (parsedCue: ParsedSubtitleCue): SubtitleCue => ({
-  text: parsedCue.text,
-  startTime: parsedCue.start,
-  endTime: parsedCue.end,
-});
+interface CueGroup {
+  position: SubtitleCuePosition;
+  cues: SubtitleCue[];
+}
 
-export function SubtitleOverlay({
-  videoRef,
-  subtitleTracks,
-  activeSubtitleTrack,
-  controlsVisible,
-  isFullscreen,
-}: SubtitleOverlayProps) {
-  const [currentCue, setCurrentCue] = useState<SubtitleCue | null>(null);
+const HORIZONTAL_CLASSES: Record<SubtitleCuePosition['horizontal'], string> = {
+  left: 'items-start text-left',
+  center: 'items-center text-center',
+  right: 'items-end text-right',
+};
+
+// Cues sharing a screen position stack in one column, in start order
+function groupCuesByPosition(cues: SubtitleCue[]): CueGroup[] {
+  const groups = new Map<string, CueGroup>();
+  for (const cue of cues) {
+    const position = cue.position ?? DEFAULT_CUE_POSITION;
+    const key = `${position.vertical}-${position.horizontal}`;
+    const group = groups.get(key) ?? { position, cues: [] };
+    group.cues.push(cue);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+function sameCues(a: SubtitleCue[], b: SubtitleCue[]): boolean {
+  return a.length === b.length && a.every((cue, index) => cue === b[index]);
+}
+
+function getRunStyles(run: SubtitleStyleRun): React.CSSProperties {
+  return {
+    fontStyle: run.italic ? 'italic' : undefined,
+    fontWeight: run.bold ? 700 : undefined,
+    textDecoration: run.underline ? 'underline' : undefined,
+    color: run.color,
+  };
+}
+
+// Cues of one track that are up at the video's current time (with the timing fix and syncOffset applied)
+function useCurrentCues(
+  videoRef: React.RefObject<HTMLVideoElement> | null,
+  track: SubtitleTrack | undefined,
+  transform: SubtitleTimingTransform,
+  syncOffset: number
+): SubtitleCue[] {
+  const [currentCues, setCurrentCues] = useState<SubtitleCue[]>([]);
   const [parsedCues, setParsedCues] = useState<SubtitleCue[]>([]);
-  const { settings } = useSubtitleSettings();
+  // Frame-rate/two-point fix first; syncOffset nudges on top of it
+  const timedCues = useMemo(() => transformCues(parsedCues, transform), [parsedCues, transform]);
+  const trackUrl = track?.url;
 
   // Load and parse subtitle file
   useEffect(() => {
-    if (!activeSubtitleTrack) {
-      setParsedCues([]);
-      setCurrentCue(null);
-      return;
-    }
-
-    const activeTrack = subtitleTracks.find(track => track.id === activeSubtitleTrack);
-    if (!activeTrack) {
+    if (!trackUrl) {
       setParsedCues([]);
-      setCurrentCue(null);
+      setCurrentCues([]);
       return;
     }
 
     // Fetch and parse the subtitle file
-    fetch(activeTrack.url)
+    fetch(trackUrl)
       .then(response => response.text())
       .then(content => {
-        const parsedCues = SubtitleParser.parseVTT(content);
-        const cues = parsedCues.map(convertSubtitleCue);
-        setParsedCues(cues);
+        setParsedCues(parseVTT(content).cues);
       })
       .catch(error => {
         logClient({
@@ -71,12 +102,12 @@ export function SubtitleOverlay({
         });
         setParsedCues([]);
       });
-  }, [activeSubtitleTrack, subtitleTracks]);
+  }, [trackUrl]);
 
   // Update current cue based on video time (with syncOffset applied)
   useEffect(() => {
-    if (!videoRef?.current || parsedCues.length === 0) {
-      setCurrentCue(null);
+    if (!videoRef?.current || timedCues.length === 0) {
+      setCurrentCues([]);
       return;
     }
 
@@ -84,9 +115,10 @@ export function SubtitleOverlay({
 
     const updateCurrentCue = () => {
       // Apply sync offset: positive = subtitles appear later, negative = earlier
-      const adjustedTime = video.currentTime - settings.syncOffset;
-      const activeCue = parsedCues.find(cue => adjustedTime >= cue.startTime && adjustedTime <= cue.endTime);
-      setCurrentCue(activeCue || null);
+      const adjustedTime = video.currentTime - syncOffset;
+      // Several cues can be up at once (a sign at the top while dialogue runs at the bottom)
+      const activeCues = timedCues.filter(cue => adjustedTime >= cue.start && adjustedTime <= cue.end);
+      setCurrentCues(prev => (sameCues(prev, activeCues) ? prev : activeCues));
     };
 
     // Initial update
@@ -100,17 +132,45 @@ export function SubtitleOverlay({
       video.removeEventListener('timeupdate', updateCurrentCue);
       video.removeEventListener('seeked', updateCurrentCue);
     };
-  }, [videoRef, parsedCues, settings.syncOffset]);
+  }, [videoRef, timedCues, syncOffset]);
+
+  return currentCues;
+}
+
+export function SubtitleOverlay({
+  videoRef,
+  subtitleTracks,
+  activeSubtitleTrack,
+  secondarySubtitleTrack,
+  videoId,
+  controlsVisible,
+  isFullscreen,
+}: SubtitleOverlayProps) {
+  const { settings } = useSubtitleSettings();
+  const primaryTrack = subtitleTracks.find(track => track.id === activeSubtitleTrack);
+  const secondaryTrack = primaryTrack
+    ? subtitleTracks.find(track => track.id === secondarySubtitleTrack && track.id !== primaryTrack.id)
+    : undefined;
+  // The timing fix belongs to the track it was made on, whichever slot that track is in now
+  const { transform: primaryTransform } = useSubtitleTiming(videoId, primaryTrack?.id);
+  const { transform: secondaryTransform } = useSubtitleTiming(videoId, secondaryTrack?.id);
+  const currentCues = useCurrentCues(videoRef, primaryTrack, primaryTransform, settings.syncOffset);
+  const secondaryCues = useCurrentCues(videoRef, secondaryTrack, secondaryTransform, settings.syncOffset);
 
   // Don't render if no current cue
-  if (!currentCue) {
+  if (currentCues.length === 0 && secondaryCues.length === 0) {
     return null;
   }
 
-  // Calculate positioning based on settings and controls visibility
-  const getPositionStyles = () => {
-    // Base offset from user settings (percentage of container height)
-    const baseOffsetPercent = settings.verticalPosition;
+  // Calculate positioning based on settings and controls visibility. baseOffsetPercent is the user's margin
+  // from whichever edge the cue is aligned to; the file decides the edge.
+  const getPositionStyles = (position: SubtitleCuePosition, baseOffsetPercent: number): React.CSSProperties => {
+    if (position.vertical === 'top') {
+      return { top: `${baseOffsetPercent}%` };
+    }
+    if (position.vertical === 'middle') {
+      return { top: '50%', transform: 'translateY(-50%)' };
+    }
 
     // Additional offset when controls are visible
     let additionalOffset = 0;
@@ -124,9 +184,9 @@ export function SubtitleOverlay({
   };
 
   // Calculate font size based on settings
-  const getFontSize = () => {
+  const getFontSize = (scale: number) => {
     const baseSize = isFullscreen ? 1.25 : 1; // rem
-    return `${(baseSize * settings.fontSize) / 100}rem`;
+    return `${(baseSize * scale) / 100}rem`;
   };
 
   // Build background styles
@@ -153,22 +213,52 @@ export function SubtitleOverlay({
     return styles;
   };
 
-  return (
-    <div className="pointer-events-none absolute inset-x-0 z-30 flex justify-center" style={getPositionStyles()}>
-      <div
-        className={`max-w-[85%] rounded-lg px-4 py-2 text-center ${isFullscreen ? 'max-w-[70%]' : ''} text-white`}
-        style={{
-          fontFamily: 'var(--font-space-grotesk), -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
-          fontWeight: settings.isBold ? 700 : 500,
-          fontSize: getFontSize(),
-          lineHeight: isFullscreen ? '1.15' : '1.25',
-          whiteSpace: 'pre-line',
-          letterSpacing: '0.02em',
-          ...getBackgroundStyles(),
-        }}
-      >
-        {currentCue.text}
-      </div>
+  // Keyed by place in the column: fansubs stack identical lines on several layers, so content isn't unique
+  const renderCue = (cue: SubtitleCue, index: number, fontScale: number) => (
+    <div
+      key={index}
+      className={`max-w-[85%] rounded-lg px-4 py-2 ${isFullscreen ? 'max-w-[70%]' : ''} text-white`}
+      style={{
+        fontFamily: 'var(--font-space-grotesk), -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        fontWeight: settings.isBold ? 700 : 500,
+        fontSize: getFontSize(fontScale),
+        lineHeight: isFullscreen ? '1.15' : '1.25',
+        whiteSpace: 'pre-line',
+        letterSpacing: '0.02em',
+        ...getBackgroundStyles(),
+      }}
+    >
+      {getCueRuns(cue).map((run, runIndex) => (
+        <span key={runIndex} style={getRunStyles(run)}>
+          {run.text}
+        </span>
+      ))}
     </div>
   );
+
+  const secondaryPosition: SubtitleCuePosition = { vertical: settings.secondaryEdge, horizontal: 'center' };
+
+  // File styling (italics, colours, placement) is kept; size, weight and background come from the user's settings.
+  // The second-language track ignores file placement and sits where the user put it.
+  return (
+    <>
+      {groupCuesByPosition(currentCues).map(({ position, cues }) => (
+        <div
+          key={`${position.vertical}-${position.horizontal}`}
+          className={`pointer-events-none absolute inset-x-0 z-30 flex flex-col gap-1 px-[5%] ${HORIZONTAL_CLASSES[position.horizontal]}`}
+          style={getPositionStyles(position, settings.verticalPosition)}
+        >
+          {cues.map((cue, index) => renderCue(cue, index, settings.fontSize))}
+        </div>
+      ))}
+      {secondaryCues.length > 0 && (
+        <div
+          className={`pointer-events-none absolute inset-x-0 z-30 flex flex-col gap-1 px-[5%] ${HORIZONTAL_CLASSES.center}`}
+          style={getPositionStyles(secondaryPosition, settings.secondaryVerticalPosition)}
+        >
+          {secondaryCues.map((cue, index) => renderCue(cue, index, settings.secondaryFontSize))}
+        </div>
+      )}
+    </>
+  );
 }
@@ -251,18 +251,7 @@ function SubtitleResultItem({
       // Import SubtitleParser dynamically to avoid SSR issues
       const { SubtitleParser } = await import('../lib');
 
-      // Parse the subtitle content based on format
-      let cues;
-      if (data.format === 'vtt') {
-        cues = SubtitleParser.parseVTT(data.content);
-      } else if (data.format === 'srt') {
-        cues = SubtitleParser.parseSRT(data.content);
-      } else if (data.format === 'ass') {
-        cues = SubtitleParser.parseASS(data.content);
-      } else {
-        // Default to SRT parsing
-        cues = SubtitleParser.parseSRT(data.content);
-      }
+      const { cues } = SubtitleParser.parseSubtitleContent(data.content, data.format);
 
       // Convert to VTT and create blob URL
       const blobUrl = SubtitleParser.createBlobUrl(cues);
@@ -274,6 +263,8 @@ function SubtitleResultItem({
         url: blobUrl,
         format: 'vtt',
         isDefault: false,
+        fileId: result.fileId,
+        fps: result.fps || undefined,
       };
 
       onSelect(track);
@@ -1,6 +1,19 @@
 'use client';
 
-import { Wrench, Eye, RotateCcw, Type, Bold, Sparkles, PaintBucket, ArrowUpDown, Clock } from 'lucide-react';
+import {
+  Wrench,
+  Eye,
+  RotateCcw,
+  Type,
+  Bold,
+  Sparkles,
+  PaintBucket,
+  ArrowUpDown,
+  ArrowUpToLine,
+  Clock,
+  Users,
+  Languages,
+} from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -36,6 +49,10 @@ export function SubtitleSettingsDialog({ open, onOpenChange }: SubtitleSettingsD
     setBackgroundBlur,
     setBackgroundFill,
     setIsBold,
+    setAutoLoadShared,
+    setSecondaryFontSize,
+    setSecondaryEdge,
+    setSecondaryVerticalPosition,
     resetToDefaults,
   } = useSubtitleSettings();
 
@@ -276,6 +293,92 @@ export function SubtitleSettingsDialog({ open, onOpenChange }: SubtitleSettingsD
               </div>
             </div>
           </div>
+
+          {/* Second Language - the track picked under "Second Language" in the subtitle menu */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <div className="rounded-md bg-primary/10 p-1.5">
+                <Languages className="h-3.5 w-3.5 text-primary" />
+              </div>
+              <h3 className="text-sm font-semibold tracking-tight">Second Language</h3>
+            </div>
+
+            <SettingToggle
+              id="secondary-top-toggle"
+              icon={ArrowUpToLine}
+              label="Show on Top"
+              description="Off stacks it at the bottom, at its own height"
+              checked={settings.secondaryEdge === 'top'}
+              onCheckedChange={checked => setSecondaryEdge(checked ? 'top' : 'bottom')}
+            />
+
+            <div className="rounded-lg border border-border bg-card p-4">
+              <div className="flex items-start gap-3">
+                <div className="rounded-md bg-muted p-2 text-muted-foreground">
+                  <Type className="h-4 w-4" />
+                </div>
+                <div className="flex-1 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-semibold tracking-tight">Text Scale</Label>
+                    <span className="font-mono text-sm text-muted-foreground">{settings.secondaryFontSize}%</span>
+                  </div>
+                  <Slider
+                    value={[settings.secondaryFontSize]}
+                    onValueChange={([value]) => setSecondaryFontSize(findNearestSnap(value, FONT_SIZE_SNAPS))}
+                    min={50}
+                    max={175}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="rounded-lg border border-border bg-card p-4">
+              <div className="flex items-start gap-3">
+                <div className="rounded-md bg-muted p-2 text-muted-foreground">
+                  <ArrowUpDown className="h-4 w-4" />
+                </div>
+                <div className="flex-1 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-semibold tracking-tight">Distance from Edge</Label>
+                    <span className="font-mono text-sm text-muted-foreground">
+                      {settings.secondaryVerticalPosition}%
+                    </span>
+                  </div>
+                  <Slider
+                    value={[settings.secondaryVerticalPosition]}
+                    onValueChange={([value]) =>
+                      setSecondaryVerticalPosition(findNearestSnap(value, VERTICAL_POSITION_SNAPS))
+                    }
+                    min={5}
+                    max={25}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Room - what happens when the host shares a track */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <div className="rounded-md bg-primary/10 p-1.5">
+                <Users className="h-3.5 w-3.5 text-primary" />
+              </div>
+              <h3 className="text-sm font-semibold tracking-tight">Room</h3>
+            </div>
+
+            <SettingToggle
+              id="auto-load-shared-toggle"
+              icon={Users}
+              label="Use Host's Subtitles"
+              description="Switch to the track the host shares with the room"
+              checked={settings.autoLoadShared}
+              onCheckedChange={setAutoLoadShared}
+            />
+          </div>
         </div>
 
         <DialogFooter className="flex flex-shrink-0 justify-between gap-3 border-t bg-card/50 px-6 py-4">
@@ -0,0 +1,294 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Timer, Gauge, Crosshair, RotateCcw, Clock } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { SubtitleTrack } from '@/types/schemas';
+import { logSubtitles } from '@/src/core/logger';
+import {
+  COMMON_FRAME_RATES,
+  describeTimingTransform,
+  formatVTTTimestamp,
+  getFrameRateTransform,
+  getTwoPointTransform,
+  isIdentityTransform,
+  parseTimestamp,
+  parseVTT,
+  useSubtitleTiming,
+  type SubtitleCue,
+} from '../lib';
+
+interface SubtitleTimingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** getVideoIdForStorage of the room video; the transform is saved under it, for this track only. */
+  videoId?: string;
+  /** The track being fixed; its cues fill the line pickers and only it gets the transform. */
+  track?: SubtitleTrack;
+  /** Playback position, for "Now" buttons. */
+  getCurrentTime?: () => number;
+}
+
+interface SyncPointDraft {
+  cueIndex: number;
+  videoTime: string;
+}
+
+const SELECT_CLASS_NAME =
+  'h-9 w-full min-w-0 rounded-md border border-border bg-transparent px-2 text-sm tracking-tight outline-none focus-visible:border-ring focus-visible:ring-[1px] focus-visible:ring-ring/50 dark:bg-input/30';
+
+const DEFAULT_SOURCE_FPS = 25;
+const DEFAULT_TARGET_FPS = 23.976;
+
+function describeCue(cue: SubtitleCue): string {
+  const text = cue.text.replace(/\s+/g, ' ');
+  return `${formatVTTTimestamp(cue.start).slice(0, 8)}  ${text.length > 48 ? `${text.slice(0, 47)}…` : text}`;
+}
+
+export function SubtitleTimingDialog({
+  open,
+  onOpenChange,
+  videoId,
+  track,
+  getCurrentTime,
+}: SubtitleTimingDialogProps) {
+  const { transform, setTransform, resetTransform } = useSubtitleTiming(videoId, track?.id);
+  const [cues, setCues] = useState<SubtitleCue[]>([]);
+  const [sourceFps, setSourceFps] = useState(DEFAULT_SOURCE_FPS);
+  const [targetFps, setTargetFps] = useState(DEFAULT_TARGET_FPS);
+  const [firstPoint, setFirstPoint] = useState<SyncPointDraft>({ cueIndex: 0, videoTime: '' });
+  const [secondPoint, setSecondPoint] = useState<SyncPointDraft>({ cueIndex: 0, videoTime: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  // Fresh state per open: the track's own cues, its release frame rate when OpenSubtitles knew it
+  useEffect(() => {
+    if (!open || !track) return;
+    let cancelled = false;
+    setError(null);
+    setSourceFps(track.fps ?? DEFAULT_SOURCE_FPS);
+
+    fetch(track.url)
+      .then(response => response.text())
+      .then(content => {
+        if (cancelled) return;
+        const parsed = parseVTT(content).cues;
+        setCues(parsed);
+        setFirstPoint({ cueIndex: 0, videoTime: '' });
+        setSecondPoint({ cueIndex: Math.max(0, parsed.length - 1), videoTime: '' });
+      })
+      .catch(loadError => {
+        logSubtitles('timing_cues_fail', 'Failed to load cues for the timing tool', { error: String(loadError) });
+        if (!cancelled) setCues([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, track]);
+
+  const handleApplyFrameRate = () => {
+    const next = getFrameRateTransform(sourceFps, targetFps);
+    if (!next) {
+      setError(`Those frame rates don't add up. Double-check both?`);
+      return;
+    }
+    setError(null);
+    setTransform(next);
+  };
+
+  const handleApplyTwoPoint = () => {
+    const first = cues[firstPoint.cueIndex];
+    const second = cues[secondPoint.cueIndex];
+    const firstTime = parseTimestamp(firstPoint.videoTime);
+    const secondTime = parseTimestamp(secondPoint.videoTime);
+    if (!first || !second || firstTime === null || secondTime === null) {
+      setError('Pick two lines and when each one is actually said (like 00:12:03).');
+      return;
+    }
+
+    const next = getTwoPointTransform(
+      { cueTime: first.start, videoTime: firstTime },
+      { cueTime: second.start, videoTime: secondTime }
+    );
+    if (!next) {
+      setError(`That can't be right. Pick two lines further apart, in the order they're said.`);
+      return;
+    }
+    setError(null);
+    setTransform(next);
+  };
+
+  const fillNow = (setPoint: (update: (prev: SyncPointDraft) => SyncPointDraft) => void) => {
+    const time = getCurrentTime?.();
+    if (time === undefined) return;
+    setPoint(prev => ({ ...prev, videoTime: formatVTTTimestamp(time) }));
+  };
+
+  const renderSyncPoint = (
+    label: string,
+    point: SyncPointDraft,
+    setPoint: (update: (prev: SyncPointDraft) => SyncPointDraft) => void
+  ) => (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground">{label}</Label>
+      <select
+        className={SELECT_CLASS_NAME}
+        value={point.cueIndex}
+        onChange={e => {
+          const cueIndex = Number(e.target.value);
+          setPoint(prev => ({ ...prev, cueIndex }));
+        }}
+        disabled={cues.length === 0}
+      >
+        {cues.map((cue, index) => (
+          <option key={index} value={index}>
+            {describeCue(cue)}
+          </option>
+        ))}
+      </select>
+      <div className="flex gap-2">
+        <Input
+          value={point.videoTime}
+          onChange={e => {
+            const videoTime = e.target.value;
+            setPoint(prev => ({ ...prev, videoTime }));
+          }}
+          placeholder="Actually said at (00:12:03)"
+          className="font-mono"
+        />
+        {getCurrentTime && (
+          <Button type="button" variant="outline" size="sm" className="h-9 gap-1" onClick={() => fillNow(setPoint)}>
+            <Clock className="h-3.5 w-3.5" />
+            Now
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader className="px-6 pt-6">
+          <DialogTitle className="flex items-center gap-2 text-xl font-semibold tracking-tighter">
+            <Timer className="h-5 w-5 text-primary" />
+            Timing Tool
+          </DialogTitle>
+          <DialogDescription className="text-sm tracking-tight text-muted-foreground">
+            For subtitles that start fine and drift. Saved for this subtitle file on this video.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 px-6 py-4">
+          <div className="flex items-center justify-between rounded-lg border border-border bg-card px-4 py-3">
+            <span className="text-sm font-semibold tracking-tight">Current timing</span>
+            <span className="font-mono text-sm text-muted-foreground">{describeTimingTransform(transform)}</span>
+          </div>
+
+          {/* Frame rate stretch */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <div className="rounded-md bg-primary/10 p-1.5">
+                <Gauge className="h-3.5 w-3.5 text-primary" />
+              </div>
+              <h3 className="text-sm font-semibold tracking-tight">Frame Rate</h3>
+            </div>
+            <div className="space-y-3 rounded-lg border border-border bg-card p-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium text-muted-foreground">Subtitles made for</Label>
+                  <select
+                    className={SELECT_CLASS_NAME}
+                    value={sourceFps}
+                    onChange={e => setSourceFps(Number(e.target.value))}
+                  >
+                    {COMMON_FRAME_RATES.map(fps => (
+                      <option key={fps} value={fps}>
+                        {fps} fps
+                      </option>
+                    ))}
+                    {!COMMON_FRAME_RATES.includes(sourceFps) && <option value={sourceFps}>{sourceFps} fps</option>}
+                  </select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label className="text-xs font-medium text-muted-foreground">This video is</Label>
+                  <select
+                    className={SELECT_CLASS_NAME}
+                    value={targetFps}
+                    onChange={e => setTargetFps(Number(e.target.value))}
+                  >
+                    {COMMON_FRAME_RATES.map(fps => (
+                      <option key={fps} value={fps}>
+                        {fps} fps
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <Button type="button" variant="outline" className="w-full" onClick={handleApplyFrameRate}>
+                Stretch to fit
+              </Button>
+            </div>
+          </div>
+
+          {/* Two-point sync */}
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <div className="rounded-md bg-primary/10 p-1.5">
+                <Crosshair className="h-3.5 w-3.5 text-primary" />
+              </div>
+              <h3 className="text-sm font-semibold tracking-tight">Two-Point Sync</h3>
+            </div>
+            <div className="space-y-4 rounded-lg border border-border bg-card p-4">
+              {cues.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Turn on a subtitle track to pick lines from it.</p>
+              ) : (
+                <>
+                  {renderSyncPoint('An early line', firstPoint, setFirstPoint)}
+                  {renderSyncPoint('A late line', secondPoint, setSecondPoint)}
+                </>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={handleApplyTwoPoint}
+                disabled={cues.length === 0}
+              >
+                Line them up
+              </Button>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="flex flex-shrink-0 justify-between gap-3 border-t bg-card/50 px-6 py-4">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={resetTransform}
+            className="gap-2"
+            disabled={isIdentityTransform(transform)}
+          >
+            <RotateCcw className="h-4 w-4" />
+            Undo Fixes
+          </Button>
+          <Button type="button" onClick={() => onOpenChange(false)}>
+            Looks Good
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,8 +7,8 @@ import { Dialog, DialogHeader, DialogTitle, DialogPortal, DialogOverlay } from '
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { logSubtitles } from '@/src/core/logger';
 import { Badge } from '@/components/ui/badge';
-import { Upload, FileText, CheckCircle, X, XIcon, Search } from 'lucide-react';
-import { SubtitleParser } from '../lib';
+import { Upload, FileText, CheckCircle, X, XIcon, Search, TriangleAlert } from 'lucide-react';
+import { SubtitleParser, type SubtitleParseWarning } from '../lib';
 import { useFullscreenPortalContainer } from '@/src/features/room/hooks';
 import { cn } from '@/src/lib/utils';
 import { SubtitleSearchTab } from './SubtitleSearchTab';
@@ -22,11 +22,21 @@ interface SubtitleUploadDialogProps {
 
 type TabType = 'upload' | 'search';
 
+interface ParseReport {
+  encoding: string;
+  warnings: SubtitleParseWarning[];
+}
+
+const SUBTITLE_EXTENSIONS = ['vtt', 'srt', 'ass', 'ssa'];
+// Enough to spot a pattern without turning the dialog into a log viewer
+const MAX_LISTED_WARNINGS = 5;
+
 export function SubtitleUploadDialog({ open, onOpenChange, onSubtitleSelected }: SubtitleUploadDialogProps) {
   const [activeTab, setActiveTab] = useState<TabType>('upload');
   const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processedTracks, setProcessedTracks] = useState<SubtitleTrack[]>([]);
+  const [parseReports, setParseReports] = useState<Record<string, ParseReport>>({});
   const fileInputRef = useRef<HTMLInputElement>(null);
   const portalContainer = useFullscreenPortalContainer();
 
@@ -34,11 +44,13 @@ export function SubtitleUploadDialog({ open, onOpenChange, onSubtitleSelected }:
     const files = Array.from(event.target.files || []);
     const validFiles = files.filter(file => {
       const extension = file.name.split('.').pop()?.toLowerCase();
-      return ['vtt', 'srt', 'ass'].includes(extension || '');
+      return SUBTITLE_EXTENSIONS.includes(extension || '');
     });
 
     if (validFiles.length !== files.length) {
-      alert('Heads-up: Some files were skipped because we can only process .vtt, .srt, and .ass subtitle formats.');
+      alert(
+        'Heads-up: Some files were skipped because we can only process .vtt, .srt, .ass and .ssa subtitle formats.'
+      );
     }
 
     setUploadedFiles(prev => [...prev, ...validFiles]);
@@ -54,26 +66,28 @@ export function SubtitleUploadDialog({ open, onOpenChange, onSubtitleSelected }:
 
     setIsProcessing(true);
     const tracks: SubtitleTrack[] = [];
+    const reports: Record<string, ParseReport> = {};
+    const emptyFiles: string[] = [];
 
     try {
       for (const file of uploadedFiles) {
         const extension = file.name.split('.').pop()?.toLowerCase();
         logSubtitles('file_process', `Processing ${extension?.toUpperCase()} subtitle file`, { fileName: file.name });
 
-        let url: string;
-
-        if (extension === 'vtt') {
-          // VTT files can be used directly
-          url = URL.createObjectURL(file);
-        } else {
-          // Parse and convert SRT/ASS files to VTT
-          const cues = await SubtitleParser.parseSubtitleFile(file);
-          logSubtitles('file_parsed', `Parsed ${cues.length} subtitle cues`);
-
-          // Convert to VTT format and create blob URL
-          url = SubtitleParser.createBlobUrl(cues);
+        // Everything goes through the parser, VTT included: it fixes encodings and line endings on the way
+        const { cues, warnings, encoding } = await SubtitleParser.parseSubtitleFile(file);
+        logSubtitles('file_parsed', `Parsed ${cues.length} subtitle cues`, {
+          encoding,
+          warnings: warnings.length,
+        });
+        if (cues.length === 0) {
+          emptyFiles.push(file.name);
+          continue;
         }
 
+        // Convert to VTT format and create blob URL
+        const url = SubtitleParser.createBlobUrl(cues);
+
         // Try to detect language from filename
         const filename = file.name.toLowerCase();
         let language = 'unknown';
@@ -98,9 +112,14 @@ export function SubtitleUploadDialog({ open, onOpenChange, onSubtitleSelected }:
         };
 
         tracks.push(track);
+        reports[track.id] = { encoding, warnings };
       }
 
       setProcessedTracks(tracks);
+      setParseReports(reports);
+      if (emptyFiles.length > 0) {
+        alert(`We couldn't find a single subtitle line in ${emptyFiles.join(', ')}, so we left it out.`);
+      }
       logSubtitles('process_success', 'Successfully processed subtitle files', { count: tracks.length });
     } catch (error) {
       logSubtitles('process_fail', 'Error processing subtitle files', { error: String(error) });
@@ -123,6 +142,7 @@ export function SubtitleUploadDialog({ open, onOpenChange, onSubtitleSelected }:
         // Reset state
         setUploadedFiles([]);
         setProcessedTracks([]);
+        setParseReports({});
       }, 100);
     }
   };
@@ -157,7 +177,7 @@ export function SubtitleUploadDialog({ open, onOpenChange, onSubtitleSelected }:
     const extension = filename.split('.').pop()?.toLowerCase();
     if (extension === 'vtt') return '🎬';
     if (extension === 'srt') return '📝';
-    if (extension === 'ass') return '🎭';
+    if (extension === 'ass' || extension === 'ssa') return '🎭';
     return '📄';
   };
 
@@ -220,7 +240,7 @@ export function SubtitleUploadDialog({ open, onOpenChange, onSubtitleSelected }:
                   <CardHeader>
                     <CardTitle className="text-lg">Grab Your Subtitle Files</CardTitle>
                     <CardDescription>
-                      Got a .vtt, .srt, or .ass file? We can handle those. You can even upload multiple at once.
+                      Got a .vtt, .srt, .ass or .ssa file? We can handle those. You can even upload multiple at once.
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -235,13 +255,14 @@ export function SubtitleUploadDialog({ open, onOpenChange, onSubtitleSelected }:
                         <Badge variant="outline">.vtt</Badge>
                         <Badge variant="outline">.srt</Badge>
                         <Badge variant="outline">.ass</Badge>
+                        <Badge variant="outline">.ssa</Badge>
                       </div>
                     </div>
                     <input
                       ref={fileInputRef}
                       type="file"
                       multiple
-                      accept=".vtt,.srt,.ass"
+                      accept=".vtt,.srt,.ass,.ssa"
                       onChange={handleFileSelect}
                       className="hidden"
                     />
@@ -296,30 +317,60 @@ export function SubtitleUploadDialog({ open, onOpenChange, onSubtitleSelected }:
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-2">
-                        {processedTracks.map((track, _index) => (
-                          <div
-                            key={track.id}
-                            className="flex items-center justify-between rounded-lg border border-green-200 bg-green-50 p-3 dark:border-green-800 dark:bg-green-900/20"
-                          >
-                            <div className="flex min-w-0 flex-1 items-center gap-3">
-                              <CheckCircle className="h-5 w-5 flex-shrink-0 text-green-500" />
-                              <div className="min-w-0 flex-1">
-                                <p className="truncate font-medium" title={track.label}>
-                                  {track.label}
-                                </p>
-                                <div className="mt-1 flex flex-wrap items-center gap-2">
-                                  <Badge variant="outline" className="text-xs">
-                                    {getLanguageLabel(track.language)}
-                                  </Badge>
-                                  <Badge variant="outline" className="text-xs">
-                                    {track.format.toUpperCase()}
-                                  </Badge>
-                                  {track.isDefault && <Badge className="bg-blue-500 text-xs">Default</Badge>}
+                        {processedTracks.map(track => {
+                          const report = parseReports[track.id];
+                          const warnings = report?.warnings ?? [];
+                          return (
+                            <div
+                              key={track.id}
+                              className="rounded-lg border border-green-200 bg-green-50 p-3 dark:border-green-800 dark:bg-green-900/20"
+                            >
+                              <div className="flex min-w-0 flex-1 items-center gap-3">
+                                <CheckCircle className="h-5 w-5 flex-shrink-0 text-green-500" />
+                                <div className="min-w-0 flex-1">
+                                  <p className="truncate font-medium" title={track.label}>
+                                    {track.label}
+                                  </p>
+                                  <div className="mt-1 flex flex-wrap items-center gap-2">
+                                    <Badge variant="outline" className="text-xs">
+                                      {getLanguageLabel(track.language)}
+                                    </Badge>
+                                    <Badge variant="outline" className="text-xs">
+                                      {track.format.toUpperCase()}
+                                    </Badge>
+                                    {report && report.encoding !== 'utf-8' && (
+                                      <Badge variant="outline" className="text-xs">
+                                        {report.encoding}
+                                      </Badge>
+                                    )}
+                                    {track.isDefault && <Badge className="bg-blue-500 text-xs">Default</Badge>}
+                                  </div>
                                 </div>
                               </div>
+                              {warnings.length > 0 && (
+                                <details className="mt-2 text-sm text-muted-foreground">
+                                  <summary className="flex cursor-pointer items-center gap-2">
+                                    <TriangleAlert className="h-4 w-4 flex-shrink-0 text-yellow-500" />
+                                    {warnings.length === 1
+                                      ? '1 thing looked off, but we patched around it'
+                                      : `${warnings.length} things looked off, but we patched around them`}
+                                  </summary>
+                                  <ul className="mt-1 space-y-1 pl-6">
+                                    {warnings.slice(0, MAX_LISTED_WARNINGS).map((warning, index) => (
+                                      <li key={index}>
+                                        {warning.line ? `Line ${warning.line}: ` : ''}
+                                        {warning.message}
+                                      </li>
+                                    ))}
+                                    {warnings.length > MAX_LISTED_WARNINGS && (
+                                      <li>...and {warnings.length - MAX_LISTED_WARNINGS} more</li>
+                                    )}
+                                  </ul>
+                                </details>
+                              )}
                             </div>
-                          </div>
-                        ))}
+                          );
+                        })}
                       </div>
                     </CardContent>
                   </Card>
@@ -0,0 +1,221 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ScrollText, Search, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { SubtitleTrack } from '@/types/schemas';
+import { formatTimestamp } from '@/src/lib/chat-timestamps';
+import { logSubtitles } from '@/src/core/logger';
+import {
+  buildTranscript,
+  findCurrentEntryIndex,
+  normalizeSearchText,
+  parseVTT,
+  searchTranscript,
+  transformCues,
+  useSubtitleSettings,
+  useSubtitleTiming,
+  type SubtitleCue,
+} from '../lib';
+
+interface TranscriptPanelProps {
+  /** The active track; the transcript is all of its cues. */
+  track?: SubtitleTrack;
+  /** getVideoIdForStorage of the room video, for the track's saved timing fix. */
+  videoId?: string;
+  /** Playback position of the local player; null while there isn't one. */
+  getCurrentTime: () => number | null;
+  isHost: boolean;
+  /** A line was clicked; seconds are video time, timing fix and sync offset included. */
+  onSeek: (seconds: number, cue: SubtitleCue) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+// Often enough that the highlight keeps up with short lines
+const POSITION_POLL_MS = 250;
+// After the viewer scrolls the list themselves, leave it where they put it for a bit
+const MANUAL_SCROLL_HOLD_MS = 5000;
+
+// Wrap each search term in <mark>. Matches are found in the normalized text, so this only works when normalizing
+// kept every character in place (it does for accents); otherwise the line is shown unmarked.
+function highlightMatches(text: string, query: string): React.ReactNode {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const haystack = normalizeSearchText(flat);
+  const terms = normalizeSearchText(query).split(' ').filter(Boolean);
+  if (terms.length === 0 || haystack.length !== flat.length) return text;
+
+  const marked = new Array<boolean>(flat.length).fill(false);
+  for (const term of terms) {
+    for (let at = haystack.indexOf(term); at !== -1; at = haystack.indexOf(term, at + term.length)) {
+      marked.fill(true, at, at + term.length);
+    }
+  }
+
+  const parts: React.ReactNode[] = [];
+  let start = 0;
+  for (let i = 1; i <= flat.length; i++) {
+    if (i === flat.length || marked[i] !== marked[start]) {
+      const chunk = flat.slice(start, i);
+      parts.push(
+        marked[start] ? (
+          <mark key={start} className="rounded-sm bg-primary/30 text-foreground">
+            {chunk}
+          </mark>
+        ) : (
+          chunk
+        )
+      );
+      start = i;
+    }
+  }
+  return parts;
+}
+
+export function TranscriptPanel({
+  track,
+  videoId,
+  getCurrentTime,
+  isHost,
+  onSeek,
+  onClose,
+  className,
+}: TranscriptPanelProps) {
+  const [parsedCues, setParsedCues] = useState<SubtitleCue[]>([]);
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+  const [query, setQuery] = useState('');
+  const { settings } = useSubtitleSettings();
+  const { transform } = useSubtitleTiming(videoId, track?.id);
+  const listRef = useRef<HTMLDivElement>(null);
+  const manualScrollUntilRef = useRef(0);
+  const trackUrl = track?.url;
+
+  // Load and parse the whole track
+  useEffect(() => {
+    if (!trackUrl) {
+      setParsedCues([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(trackUrl)
+      .then(response => response.text())
+      .then(content => {
+        if (!cancelled) setParsedCues(parseVTT(content).cues);
+      })
+      .catch(error => {
+        logSubtitles('transcript_load_fail', 'Failed to load cues for the transcript', { error: String(error) });
+        if (!cancelled) setParsedCues([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trackUrl]);
+
+  // Same clock as the overlay: timing fix on the cues, sync offset on top
+  const entries = useMemo(() => {
+    const timed = transformCues(parsedCues, transform);
+    const offset = settings.syncOffset;
+    return buildTranscript(
+      offset === 0 ? timed : timed.map(cue => ({ ...cue, start: cue.start + offset, end: cue.end + offset }))
+    );
+  }, [parsedCues, transform, settings.syncOffset]);
+  const visibleEntries = useMemo(() => searchTranscript(entries, query), [entries, query]);
+  const currentIndex = currentTime === null ? -1 : findCurrentEntryIndex(entries, currentTime);
+
+  // Follow the player
+  useEffect(() => {
+    const poll = () => setCurrentTime(getCurrentTime());
+    poll();
+    const interval = setInterval(poll, POSITION_POLL_MS);
+    return () => clearInterval(interval);
+  }, [getCurrentTime]);
+
+  // Keep the current line in the middle of the list, unless the viewer is searching or scrolling around.
+  // Scrolls the list itself rather than scrollIntoView, which would drag the page along.
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || currentIndex === -1 || query || Date.now() < manualScrollUntilRef.current) return;
+    const row = list.querySelector<HTMLElement>(`[data-transcript-index="${currentIndex}"]`);
+    if (!row) return;
+    list.scrollTo({ top: row.offsetTop - list.clientHeight / 2 + row.clientHeight / 2, behavior: 'smooth' });
+  }, [currentIndex, query]);
+
+  const holdAutoScroll = () => {
+    manualScrollUntilRef.current = Date.now() + MANUAL_SCROLL_HOLD_MS;
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-4">
+          <ScrollText className="h-5 w-5" />
+          <span className="text-xl font-semibold tracking-tighter">Transcript</span>
+          <Button variant="ghost" size="sm" onClick={onClose} className="ml-auto h-8 w-8 p-0" title="Close transcript">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+        {track && <p className="truncate text-xs text-muted-foreground">{track.label}</p>}
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        <div className="relative">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search the transcript"
+            className="pl-9"
+            disabled={entries.length === 0}
+          />
+        </div>
+
+        {query && entries.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {visibleEntries.length === 0
+              ? 'Nobody says that.'
+              : `${visibleEntries.length} ${visibleEntries.length === 1 ? 'line' : 'lines'}`}
+          </p>
+        )}
+
+        <div
+          ref={listRef}
+          className="relative max-h-96 space-y-0.5 overflow-y-auto pr-1"
+          onWheel={holdAutoScroll}
+          onTouchMove={holdAutoScroll}
+        >
+          {entries.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              {track ? 'Reading the subtitles...' : 'Turn on a subtitle track to see the whole script here.'}
+            </p>
+          ) : (
+            visibleEntries.map(({ index, cue }) => (
+              <button
+                key={index}
+                type="button"
+                data-transcript-index={index}
+                onClick={() => onSeek(cue.start, cue)}
+                title={isHost ? 'Jump the room here' : 'Ask the host to jump here'}
+                className={`flex w-full gap-3 rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-accent hover:text-accent-foreground ${
+                  index === currentIndex ? 'bg-primary/10 text-foreground' : 'text-muted-foreground'
+                }`}
+              >
+                <span
+                  className={`w-14 flex-shrink-0 font-mono text-xs leading-5 ${index === currentIndex ? 'text-primary' : ''}`}
+                >
+                  {formatTimestamp(cue.start)}
+                </span>
+                <span className="min-w-0 flex-1 whitespace-pre-line break-words">
+                  {query ? highlightMatches(cue.text, query) : cue.text}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,4 +3,6 @@ export { SubtitleManager } from './SubtitleManager';
 export { SubtitleOverlay } from './SubtitleOverlay';
 export { SubtitleSearchTab } from './SubtitleSearchTab';
 export { SubtitleSettingsDialog } from './SubtitleSettingsDialog';
+export { SubtitleTimingDialog } from './SubtitleTimingDialog';
 export { SubtitleUploadDialog } from './SubtitleUploadDialog';
+export { TranscriptPanel } from './TranscriptPanel';
@@ -1,2 +1,3 @@
 export { useSubtitles } from './use-subtitles';
+export { useSharedSubtitles } from './use-shared-subtitles';
 export { useVideoSubtitleTracks } from './use-video-subtitle-tracks';
@@ -0,0 +1,228 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Socket } from 'socket.io-client';
+import { toast } from 'sonner';
+import type {
+  SharedSubtitleTrack,
+  SubtitleDownloadResponse,
+  SubtitleTrack,
+  SubtitleTrackSharedResponse,
+} from '@/types';
+import { logSubtitles } from '@/src/core/logger';
+import { SUBTITLE_SHARE_ACK_TIMEOUT_MS } from '@/src/lib/constants';
+import {
+  SubtitleParser,
+  decodeSharedCues,
+  encodeSharedCues,
+  getSharedTrackBase,
+  parseVTT,
+  useSubtitleSettings,
+  type SubtitleCue,
+} from '../lib';
+
+interface UseSharedSubtitlesOptions {
+  roomId: string;
+  socket: Socket | null;
+  isConnected: boolean;
+  isHost: boolean;
+  currentUserId: string | undefined;
+  /** room.videoUrl; a shared track belongs to one video. */
+  videoUrl: string | undefined;
+  subtitleTracks: SubtitleTrack[];
+  updateSubtitleTracksAndActive: (tracks: SubtitleTrack[], activeTrackId?: string) => void;
+}
+
+interface UseSharedSubtitlesReturn {
+  /** Id of the track the host made the room default, if any. */
+  roomTrackId: string | undefined;
+  /** Host: share one of their tracks with the room, or stop sharing with no id. */
+  shareSubtitleTrack: (trackId?: string) => void;
+}
+
+/** A shared track as a local one: OpenSubtitles files are downloaded again, cue payloads inflated. */
+async function loadSharedTrack(track: SharedSubtitleTrack): Promise<SubtitleTrack> {
+  let cues: SubtitleCue[];
+  if (track.source === 'opensubtitles') {
+    const params = new URLSearchParams({ fileId: track.fileId });
+    const response = await fetch(`/api/subtitles/download?${params.toString()}`);
+    if (!response.ok) throw new Error(`Subtitle download failed (${response.status})`);
+    const data: SubtitleDownloadResponse = await response.json();
+    cues = SubtitleParser.parseSubtitleContent(data.content, data.format).cues;
+  } else {
+    cues = await decodeSharedCues(track.payload);
+  }
+
+  return {
+    id: track.trackId,
+    label: track.label,
+    language: track.language,
+    url: SubtitleParser.createBlobUrl(cues),
+    format: 'vtt',
+    isDefault: true,
+    fileId: track.source === 'opensubtitles' ? track.fileId : undefined,
+  };
+}
+
+/**
+ * Room-default subtitles. A host shares one of their tracks; everyone else gets it loaded and switched on
+ * (or offered, when they've turned that off in Subtitle Settings). The server keeps the latest share per
+ * video and replays it to late joiners.
+ */
+export function useSharedSubtitles({
+  roomId,
+  socket,
+  isConnected,
+  isHost,
+  currentUserId,
+  videoUrl,
+  subtitleTracks,
+  updateSubtitleTracksAndActive,
+}: UseSharedSubtitlesOptions): UseSharedSubtitlesReturn {
+  const [roomTrackId, setRoomTrackId] = useState<string | undefined>();
+  const { settings } = useSubtitleSettings();
+
+  const videoUrlRef = useRef(videoUrl);
+  // The last shared track loaded here; its blob URL is ours to revoke once a newer share replaces it
+  const sharedTrackRef = useRef<{ id: string; url: string } | null>(null);
+  // The host's share in flight: the server echoes it back to the room, sender included, once it's accepted
+  const pendingShareRef = useRef<{ trackId: string; label: string; timer: ReturnType<typeof setTimeout> } | null>(null);
+  const latestRef = useRef({ subtitleTracks, updateSubtitleTracksAndActive, currentUserId, settings });
+  useEffect(() => {
+    latestRef.current = { subtitleTracks, updateSubtitleTracksAndActive, currentUserId, settings };
+  });
+
+  const clearPendingShare = useCallback(() => {
+    if (pendingShareRef.current) clearTimeout(pendingShareRef.current.timer);
+    pendingShareRef.current = null;
+  }, []);
+
+  // A share only holds for the video it was made on
+  useEffect(() => {
+    videoUrlRef.current = videoUrl;
+    setRoomTrackId(undefined);
+    clearPendingShare();
+  }, [videoUrl, clearPendingShare]);
+
+  useEffect(() => clearPendingShare, [clearPendingShare]);
+
+  useEffect(
+    () => () => {
+      if (sharedTrackRef.current) URL.revokeObjectURL(sharedTrackRef.current.url);
+      sharedTrackRef.current = null;
+    },
+    []
+  );
+
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+
+    const applySharedTrack = async (track: SharedSubtitleTrack, sharedUrl: string) => {
+      try {
+        const loaded = await loadSharedTrack(track);
+        if (videoUrlRef.current !== sharedUrl) {
+          URL.revokeObjectURL(loaded.url);
+          return;
+        }
+        // The previous room share goes with its blob, and so does any earlier copy of this one
+        const previous = sharedTrackRef.current;
+        const { subtitleTracks: tracks, updateSubtitleTracksAndActive: update } = latestRef.current;
+        update(
+          [...tracks.filter(existing => existing.id !== loaded.id && existing.id !== previous?.id), loaded],
+          loaded.id
+        );
+        if (previous && previous.url !== loaded.url) URL.revokeObjectURL(previous.url);
+        sharedTrackRef.current = { id: loaded.id, url: loaded.url };
+        logSubtitles('share_loaded', 'Loaded shared subtitle track', { source: track.source, trackId: track.trackId });
+      } catch (error) {
+        logSubtitles('share_load_fail', 'Failed to load shared subtitle track', { error: String(error) });
+        toast.error(`Couldn't load the host's subtitles.`, {
+          description: 'You can still search for them yourself.',
+        });
+      }
+    };
+
+    const handleSubtitleTrackShared = ({ videoUrl: sharedUrl, sharedBy, track }: SubtitleTrackSharedResponse) => {
+      if (sharedUrl !== videoUrlRef.current) return;
+      setRoomTrackId(track?.trackId);
+
+      const pending = pendingShareRef.current;
+      if (pending && track?.trackId === pending.trackId && sharedBy === latestRef.current.currentUserId) {
+        clearPendingShare();
+        toast.success(`Shared "${pending.label}" with the room.`);
+      }
+      if (!track || sharedBy === latestRef.current.currentUserId) return;
+
+      if (latestRef.current.settings.autoLoadShared) {
+        void applySharedTrack(track, sharedUrl);
+        toast.info(`The host turned on subtitles: ${track.label}`, {
+          description: `Rather pick your own? Switch "Use Host's Subtitles" off in Subtitle Settings.`,
+        });
+      } else {
+        toast.info(`The host shared subtitles: ${track.label}`, {
+          action: { label: 'Use them', onClick: () => void applySharedTrack(track, sharedUrl) },
+        });
+      }
+    };
+
+    socket.on('subtitle-track-shared', handleSubtitleTrackShared);
+    return () => {
+      socket.off('subtitle-track-shared', handleSubtitleTrackShared);
+    };
+  }, [socket, isConnected, clearPendingShare]);
+
+  const shareSubtitleTrack = useCallback(
+    async (trackId?: string) => {
+      if (!socket || !isConnected || !isHost || !videoUrl) return;
+
+      if (!trackId) {
+        clearPendingShare();
+        socket.emit('share-subtitle-track', { roomId, videoUrl, track: null });
+        setRoomTrackId(undefined);
+        return;
+      }
+
+      const track = subtitleTracks.find(candidate => candidate.id === trackId);
+      if (!track) return;
+
+      try {
+        let shared: SharedSubtitleTrack;
+        const base = getSharedTrackBase(track);
+        if (track.fileId) {
+          // Everyone can fetch an OpenSubtitles file themselves; no need to ship the cues
+          shared = { ...base, source: 'opensubtitles', fileId: track.fileId };
+        } else {
+          const content = await fetch(track.url).then(response => response.text());
+          const payload = await encodeSharedCues(parseVTT(content).cues);
+          if (!payload) {
+            toast.error('That subtitle file is too big to share.', {
+              description: 'Everyone can still load it on their own.',
+            });
+            return;
+          }
+          shared = { ...base, source: 'cues', payload };
+        }
+
+        // Marked as the room default once the server echoes it back (handleSubtitleTrackShared)
+        clearPendingShare();
+        pendingShareRef.current = {
+          trackId: track.id,
+          label: track.label,
+          timer: setTimeout(() => {
+            pendingShareRef.current = null;
+            logSubtitles('share_unacked', 'Server never confirmed the subtitle share', { trackId });
+            toast.error(`The room didn't pick up those subtitles. Mind trying again?`);
+          }, SUBTITLE_SHARE_ACK_TIMEOUT_MS),
+        };
+        socket.emit('share-subtitle-track', { roomId, videoUrl, track: shared });
+        logSubtitles('share_sent', 'Shared subtitle track with the room', { source: shared.source, trackId });
+      } catch (error) {
+        logSubtitles('share_fail', 'Failed to share subtitle track', { error: String(error) });
+        toast.error(`Couldn't share those subtitles. Mind trying again?`);
+      }
+    },
+    [socket, isConnected, isHost, roomId, videoUrl, subtitleTracks, clearPendingShare]
+  );
+
+  return { roomTrackId, shareSubtitleTrack };
+}
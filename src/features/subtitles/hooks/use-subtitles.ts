@@ -13,10 +13,13 @@ interface UseSubtitlesReturn {
   // State
   subtitleTracks: SubtitleTrack[];
   activeTrackId?: string;
+  /** Second track shown alongside the active one (dual-language viewing). Never the same as activeTrackId. */
+  secondaryTrackId?: string;
   // Actions
   addSubtitleTracks: (newTracks: SubtitleTrack[]) => void;
   removeSubtitleTrack: (trackId: string) => void;
   setActiveSubtitleTrack: (trackId?: string) => void;
+  setSecondarySubtitleTrack: (trackId?: string) => void;
   updateSubtitleTracks: (tracks: SubtitleTrack[]) => void;
   updateSubtitleTracksAndActive: (tracks: SubtitleTrack[], activeTrackId?: string) => void;
 }
@@ -26,16 +29,19 @@ interface UseSubtitlesReturn {
 export function useSubtitles({ roomId, videoId }: UseSubtitlesOptions): UseSubtitlesReturn {
   const [subtitleTracks, setSubtitleTracks] = useState<SubtitleTrack[]>([]);
   const [activeTrackId, setActiveTrackId] = useState<string | undefined>();
+  const [secondaryTrackId, setSecondaryTrackId] = useState<string | undefined>();
 
   // Create a unique storage key for this room/video combination
   const storageKey = `subtitles_${roomId}${videoId ? `_${videoId}` : ''}`;
   const activeTrackKey = `subtitle_active_${roomId}${videoId ? `_${videoId}` : ''}`;
+  const secondaryTrackKey = `subtitle_secondary_${roomId}${videoId ? `_${videoId}` : ''}`;
 
   // Load subtitles from localStorage on mount and when key changes
   useEffect(() => {
     try {
       const storedTracks = localStorage.getItem(storageKey);
       const storedActiveTrack = localStorage.getItem(activeTrackKey);
+      const storedSecondaryTrack = localStorage.getItem(secondaryTrackKey);
 
       if (storedTracks) {
         const tracks = JSON.parse(storedTracks) as SubtitleTrack[];
@@ -49,12 +55,15 @@ export function useSubtitles({ roomId, videoId }: UseSubtitlesOptions): UseSubti
       } else {
         setActiveTrackId(undefined);
       }
+
+      setSecondaryTrackId(storedSecondaryTrack || undefined);
     } catch (error) {
       logSubtitles('load_fail', 'Failed to load subtitles from localStorage', { error: String(error) });
       setSubtitleTracks([]);
       setActiveTrackId(undefined);
+      setSecondaryTrackId(undefined);
     }
-  }, [storageKey, activeTrackKey]);
+  }, [storageKey, activeTrackKey, secondaryTrackKey]);
 
   // Save subtitles to localStorage whenever they change
   const saveToStorage = useCallback(
@@ -71,6 +80,32 @@ export function useSubtitles({ roomId, videoId }: UseSubtitlesOptions): UseSubti
     [storageKey, activeTrackKey]
   );
 
+  const saveSecondaryToStorage = useCallback(
+    (trackId?: string) => {
+      try {
+        if (trackId) {
+          localStorage.setItem(secondaryTrackKey, trackId);
+        } else {
+          localStorage.removeItem(secondaryTrackKey);
+        }
+      } catch (error) {
+        logSubtitles('save_fail', 'Failed to save subtitles to localStorage', { error: String(error) });
+      }
+    },
+    [secondaryTrackKey]
+  );
+
+  // A track can't be both; whichever role it was just given wins
+  const clearSecondaryIf = useCallback(
+    (trackId?: string) => {
+      if (trackId && trackId === secondaryTrackId) {
+        setSecondaryTrackId(undefined);
+        saveSecondaryToStorage(undefined);
+      }
+    },
+    [secondaryTrackId, saveSecondaryToStorage]
+  );
+
   // Add new subtitle tracks
   const addSubtitleTracks = useCallback(
     (newTracks: SubtitleTrack[]) => {
@@ -107,8 +142,9 @@ export function useSubtitles({ roomId, videoId }: UseSubtitlesOptions): UseSubti
         saveToStorage(updatedTracks, newActiveTrackId);
         return updatedTracks;
       });
+      clearSecondaryIf(trackId);
     },
-    [activeTrackId, saveToStorage]
+    [activeTrackId, saveToStorage, clearSecondaryIf]
   );
 
   // Set the active subtitle track
@@ -116,8 +152,19 @@ export function useSubtitles({ roomId, videoId }: UseSubtitlesOptions): UseSubti
     (trackId?: string) => {
       setActiveTrackId(trackId);
       saveToStorage(subtitleTracks, trackId);
+      clearSecondaryIf(trackId);
+    },
+    [subtitleTracks, saveToStorage, clearSecondaryIf]
+  );
+
+  // Set the track shown alongside the active one
+  const setSecondarySubtitleTrack = useCallback(
+    (trackId?: string) => {
+      const nextId = trackId === activeTrackId ? undefined : trackId;
+      setSecondaryTrackId(nextId);
+      saveSecondaryToStorage(nextId);
     },
-    [subtitleTracks, saveToStorage]
+    [activeTrackId, saveSecondaryToStorage]
   );
 
   // Update subtitle tracks (for compatibility)
@@ -135,16 +182,19 @@ export function useSubtitles({ roomId, videoId }: UseSubtitlesOptions): UseSubti
       setSubtitleTracks(tracks);
       setActiveTrackId(newActiveTrackId);
       saveToStorage(tracks, newActiveTrackId);
+      clearSecondaryIf(newActiveTrackId);
     },
-    [saveToStorage]
+    [saveToStorage, clearSecondaryIf]
   );
 
   return {
     subtitleTracks,
     activeTrackId,
+    secondaryTrackId,
     addSubtitleTracks,
     removeSubtitleTrack,
     setActiveSubtitleTrack,
+    setSecondarySubtitleTrack,
     updateSubtitleTracks,
     updateSubtitleTracksAndActive,
   };
@@ -1,5 +1,50 @@
 // Subtitles lib utilities
-export { SubtitleParser, type SubtitleCue } from './subtitle-utils';
+export { SubtitleParser, type SubtitleFileParseResult } from './subtitle-utils';
+export {
+  parseSubtitleText,
+  parseVTT,
+  parseSRT,
+  parseASS,
+  parseTimestamp,
+  formatVTTTimestamp,
+  detectSubtitleFormat,
+  serializeVTT,
+  type SubtitleCue,
+  type SubtitleFormat,
+  type SubtitleParseResult,
+  type SubtitleParseWarning,
+  type SubtitleWarningCode,
+} from './subtitle-parser';
+export {
+  getCueRuns,
+  DEFAULT_CUE_POSITION,
+  type SubtitleStyleRun,
+  type SubtitleCuePosition,
+  type SubtitleVerticalAlign,
+  type SubtitleHorizontalAlign,
+} from './subtitle-styles';
+export {
+  IDENTITY_TRANSFORM,
+  COMMON_FRAME_RATES,
+  isIdentityTransform,
+  getFrameRateTransform,
+  getTwoPointTransform,
+  applyTimingTransform,
+  transformCues,
+  describeTimingTransform,
+  type SubtitleTimingTransform,
+  type SubtitleSyncPoint,
+} from './subtitle-timing';
+export { useSubtitleTiming } from './subtitle-timing-store';
+export {
+  buildTranscript,
+  findCurrentEntryIndex,
+  normalizeSearchText,
+  searchTranscript,
+  type TranscriptEntry,
+} from './subtitle-transcript';
+export { encodeSharedCues, decodeSharedCues, getSharedTrackBase } from './subtitle-share';
+export { decodeSubtitleBytes, type DecodedSubtitleText } from './subtitle-encoding';
 export {
   useSubtitleSettings,
   type SubtitleSettings,
@@ -0,0 +1,127 @@
+// Charset sniffing for subtitle files. Most arrive as UTF-8, but OpenSubtitles uploads are still often in a
+// legacy Windows code page, and decoding those as UTF-8 turns every accented letter into U+FFFD. Order: BOM,
+// UTF-16 without a BOM, strict UTF-8, then the best-scoring single-byte code page.
+
+export interface DecodedSubtitleText {
+  text: string;
+  /** WHATWG encoding label the text was decoded with ("utf-8", "windows-1251"). */
+  encoding: string;
+  /** True when the encoding is a guess (no BOM and not valid UTF-8). */
+  guessed: boolean;
+}
+
+interface LegacyCandidate {
+  encoding: string;
+  /** Letters that carry most of the non-ASCII text in the languages this code page is used for. */
+  commonLetters: string;
+}
+
+// Latin-script code pages: text is mostly ASCII with the odd accented letter
+const LATIN_CANDIDATES: LegacyCandidate[] = [
+  { encoding: 'windows-1252', commonLetters: 'éèêëàâäáãåçñóòôöõúùûüíìîïßæœÿÉÈÀÇÑÓÚÜÖÄ' },
+  { encoding: 'windows-1250', commonLetters: 'ěščřžýáíéúůňťďłąęśćńóżźőűöüŠČŘŽŁŚŻĆ' },
+  { encoding: 'windows-1254', commonLetters: 'şığçöüâîûŞİĞÇÖÜ' },
+];
+
+// Other scripts: nearly every letter is a high byte
+const NON_LATIN_CANDIDATES: LegacyCandidate[] = [
+  { encoding: 'windows-1251', commonLetters: 'оеаинтсрвлкмдпуяыьгзбчйхжшюцщэфъё' },
+  { encoding: 'windows-1253', commonLetters: 'αοιετσνηυρπκμλωδγχθφβζξψάέήίόύώ' },
+  { encoding: 'windows-1255', commonLetters: 'יוהלראמתבשנכעדקפחגסזטצ' },
+  { encoding: 'windows-1256', commonLetters: 'الیمونهرتبدسكعقفحجشصخذطزثغضظةىءأإآئؤ' },
+];
+
+// Share of high-byte letters above which the text is taken to be in a non-Latin script
+const NON_LATIN_HIGH_BYTE_SHARE = 0.5;
+
+function decodeWith(bytes: Uint8Array, encoding: string, fatal = false): string {
+  return new TextDecoder(encoding, { fatal }).decode(bytes);
+}
+
+function looksLikeUtf16(bytes: Uint8Array): 'utf-16le' | 'utf-16be' | null {
+  const sample = bytes.subarray(0, Math.min(bytes.length, 4096));
+  if (sample.length < 4) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+  const half = sample.length / 2;
+  // ASCII-range text in UTF-16 has a zero in every other byte
+  if (oddZeros > half * 0.3 && evenZeros < half * 0.05) return 'utf-16le';
+  if (evenZeros > half * 0.3 && oddZeros < half * 0.05) return 'utf-16be';
+  return null;
+}
+
+function isLetter(char: string): boolean {
+  return /\p{L}/u.test(char);
+}
+
+/**
+ * How plausible a decoding is: high-byte characters that decode to one of the code page's common letters score,
+ * and symbols or control characters wedged between letters (a Polish "ł" read as windows-1252 "³") cost.
+ */
+function scoreCandidate(text: string, candidate: LegacyCandidate): number {
+  const chars = [...text];
+  let score = 0;
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    if (char.charCodeAt(0) < 0x80) continue;
+    if (candidate.commonLetters.includes(char)) {
+      score += 1;
+    } else if (!isLetter(char) && (isLetter(chars[i - 1] ?? '') || isLetter(chars[i + 1] ?? ''))) {
+      score -= 2;
+    } else if (char === '\uFFFD' || /[\u0080-\u009F]/.test(char)) {
+      score -= 2;
+    }
+  }
+  return score;
+}
+
+function guessLegacyEncoding(bytes: Uint8Array): string {
+  let asciiLetters = 0;
+  let highBytes = 0;
+  for (const byte of bytes) {
+    if ((byte >= 0x41 && byte <= 0x5a) || (byte >= 0x61 && byte <= 0x7a)) asciiLetters++;
+    else if (byte >= 0xc0) highBytes++;
+  }
+  const candidates =
+    highBytes / Math.max(1, asciiLetters + highBytes) > NON_LATIN_HIGH_BYTE_SHARE
+      ? NON_LATIN_CANDIDATES
+      : LATIN_CANDIDATES;
+
+  let best = candidates[0];
+  let bestScore = -Infinity;
+  for (const candidate of candidates) {
+    const score = scoreCandidate(decodeWith(bytes, candidate.encoding), candidate);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best.encoding;
+}
+
+export function decodeSubtitleBytes(bytes: Uint8Array): DecodedSubtitleText {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: decodeWith(bytes.subarray(3), 'utf-8'), encoding: 'utf-8', guessed: false };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: decodeWith(bytes.subarray(2), 'utf-16le'), encoding: 'utf-16le', guessed: false };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: decodeWith(bytes.subarray(2), 'utf-16be'), encoding: 'utf-16be', guessed: false };
+  }
+
+  const utf16 = looksLikeUtf16(bytes);
+  if (utf16) return { text: decodeWith(bytes, utf16), encoding: utf16, guessed: true };
+
+  try {
+    return { text: decodeWith(bytes, 'utf-8', true), encoding: 'utf-8', guessed: false };
+  } catch {
+    const encoding = guessLegacyEncoding(bytes);
+    return { text: decodeWith(bytes, encoding), encoding, guessed: true };
+  }
+}
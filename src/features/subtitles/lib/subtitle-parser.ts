@@ -0,0 +1,376 @@
+// Pure subtitle parsing: a tolerant line tokenizer plus SRT, WebVTT and ASS/SSA readers that collect structured
+// warnings instead of throwing. Real-world files (OpenSubtitles uploads, fansubs) routinely break the specs, so a
+// bad block costs that block and a warning, never the whole file. Decoding bytes to text is subtitle-encoding.ts;
+// inline styling and placement are subtitle-styles.ts.
+
+import {
+  parseASSStyle,
+  parseASSText,
+  parseCueMarkup,
+  positionFromNumpad,
+  positionFromVTTSettings,
+  positionToVTTSettings,
+  serializeCueMarkup,
+  type ASSStyle,
+  type SubtitleCuePosition,
+  type SubtitleStyleRun,
+} from './subtitle-styles';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'ssa';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  /** Plain text, markup removed. */
+  text: string;
+  /** WebVTT cue settings as written ("line:0 align:start"); kept so converted tracks keep their placement. */
+  settings?: string;
+  /** Styled spans covering the same text; absent when the cue has no styling. */
+  runs?: SubtitleStyleRun[];
+  /** Where the cue sits on screen; absent means bottom-centre. */
+  position?: SubtitleCuePosition;
+}
+
+export type SubtitleWarningCode =
+  | 'missing-header'
+  | 'invalid-timing'
+  | 'orphan-text'
+  | 'empty-cue'
+  | 'negative-duration'
+  | 'missing-format-line'
+  | 'malformed-dialogue'
+  | 'legacy-encoding';
+
+export interface SubtitleParseWarning {
+  code: SubtitleWarningCode;
+  /** 1-based line in the source file, when the warning points at one. */
+  line?: number;
+  message: string;
+}
+
+export interface SubtitleParseResult {
+  format: SubtitleFormat;
+  /** Sorted by start time. */
+  cues: SubtitleCue[];
+  warnings: SubtitleParseWarning[];
+}
+
+interface SourceLine {
+  /** 1-based. */
+  number: number;
+  text: string;
+}
+
+// ASS/SSA event fields when a file has no Format: line (the spec defaults)
+const DEFAULT_ASS_EVENT_FORMAT = [
+  'layer',
+  'start',
+  'end',
+  'style',
+  'name',
+  'marginl',
+  'marginr',
+  'marginv',
+  'effect',
+  'text',
+];
+const DEFAULT_SSA_EVENT_FORMAT = [
+  'marked',
+  'start',
+  'end',
+  'style',
+  'name',
+  'marginl',
+  'marginr',
+  'marginv',
+  'effect',
+  'text',
+];
+
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,:](\d{1,3}))?$/;
+const TIMING_PATTERN = /^(\S+)\s*-->\s*(\S+)(.*)$/;
+
+/** Strips the BOM and normalizes CRLF / lone CR line endings, then numbers the lines. */
+export function tokenizeLines(text: string): SourceLine[] {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line, index) => ({ number: index + 1, text: line }));
+}
+
+/** Blank-line separated blocks; whitespace-only lines count as blank. */
+function splitBlocks(lines: SourceLine[]): SourceLine[][] {
+  const blocks: SourceLine[][] = [];
+  let current: SourceLine[] = [];
+  for (const line of lines) {
+    if (line.text.trim() === '') {
+      if (current.length > 0) blocks.push(current);
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  if (current.length > 0) blocks.push(current);
+  return blocks;
+}
+
+/**
+ * Seconds from "01:02:03,456", "01:02:03.456", "02:03.456" or ASS "1:02:03.45". The fraction is read as a decimal,
+ * so ASS centiseconds and SRT milliseconds both come out right. Null when it isn't a timestamp.
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(TIMESTAMP_PATTERN);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  const total =
+    Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + (fraction ? Number(`0.${fraction}`) : 0);
+  return Number.isFinite(total) ? total : null;
+}
+
+export function formatVTTTimestamp(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(ms).padStart(3, '0')}`;
+}
+
+/** Guess the format from the content first and the file name second; content wins when they disagree. */
+export function detectSubtitleFormat(text: string, fileName?: string): SubtitleFormat | null {
+  const head = text
+    .replace(/^\uFEFF/, '')
+    .trimStart()
+    .slice(0, 2048);
+  if (/^WEBVTT(?:[ \t]|\r?\n|$)/.test(head)) return 'vtt';
+  if (/^\[Script Info\]/im.test(head)) {
+    return /^ScriptType:\s*v4\.00\s*$/im.test(head) || /^\[V4 Styles\]/im.test(text) ? 'ssa' : 'ass';
+  }
+
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'srt' || extension === 'vtt' || extension === 'ass' || extension === 'ssa') return extension;
+
+  // Comma milliseconds are SRT's tell; a bare timing line without a header is still most likely SRT
+  if (/\d{1,2}:\d{2}:\d{2},\d{1,3}\s*-->/.test(head)) return 'srt';
+  if (/\d{1,2}:\d{2}(?::\d{2})?\.\d{1,3}\s*-->/.test(head)) return 'vtt';
+  return null;
+}
+
+function readTiming(
+  line: SourceLine,
+  warnings: SubtitleParseWarning[]
+): { start: number; end: number; settings: string } | null {
+  const match = line.text.trim().match(TIMING_PATTERN);
+  const start = match ? parseTimestamp(match[1]) : null;
+  const end = match ? parseTimestamp(match[2]) : null;
+  if (!match || start === null || end === null) {
+    warnings.push({ code: 'invalid-timing', line: line.number, message: `Unreadable timing "${line.text.trim()}"` });
+    return null;
+  }
+  return { start, end, settings: match[3].trim() };
+}
+
+function pushCue(cues: SubtitleCue[], warnings: SubtitleParseWarning[], cue: SubtitleCue, lineNumber: number): void {
+  if (cue.end <= cue.start) {
+    warnings.push({ code: 'negative-duration', line: lineNumber, message: 'Cue ends before it starts' });
+    return;
+  }
+  if (cue.text.trim() === '') {
+    warnings.push({ code: 'empty-cue', line: lineNumber, message: 'Cue has no text' });
+    return;
+  }
+  cues.push(cue);
+}
+
+function toCue(
+  timing: { start: number; end: number },
+  styled: { text: string; runs?: SubtitleStyleRun[] },
+  position?: SubtitleCuePosition
+): SubtitleCue {
+  const cue: SubtitleCue = { start: timing.start, end: timing.end, text: styled.text };
+  if (styled.runs) cue.runs = styled.runs;
+  if (position) cue.position = position;
+  return cue;
+}
+
+function sortCues(cues: SubtitleCue[]): SubtitleCue[] {
+  // Stable, so cues sharing a start keep file order
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/** SRT with or without index lines; timing lines may use '.' for milliseconds and carry coordinates. */
+export function parseSRT(text: string): SubtitleParseResult {
+  const cues: SubtitleCue[] = [];
+  const warnings: SubtitleParseWarning[] = [];
+
+  for (const block of splitBlocks(tokenizeLines(text))) {
+    const timingIndex = block.findIndex(line => line.text.includes('-->'));
+    // Only an index line may come before the timing; anything more is text that lost its cue
+    if (timingIndex === -1 || timingIndex > 1) {
+      warnings.push({ code: 'orphan-text', line: block[0].number, message: 'Text without a timing line was skipped' });
+      continue;
+    }
+
+    const timing = readTiming(block[timingIndex], warnings);
+    if (!timing) continue;
+
+    const payload = block
+      .slice(timingIndex + 1)
+      .map(line => line.text.trimEnd())
+      .join('\n');
+    // Plenty of SRTs borrow ASS's {\an8} for placement; other override blocks are noise
+    const alignment = payload.match(/\{\\an(\d)\}/);
+    const styled = parseCueMarkup(payload.replace(/\{\\[^}]*\}/g, ''));
+    const position = alignment ? positionFromNumpad(Number(alignment[1])) : undefined;
+    pushCue(cues, warnings, toCue(timing, styled, position), block[timingIndex].number);
+  }
+
+  return { format: 'srt', cues: sortCues(cues), warnings };
+}
+
+/** WebVTT: skips NOTE/STYLE/REGION blocks, keeps cue settings, tolerates a missing header. */
+export function parseVTT(text: string): SubtitleParseResult {
+  const cues: SubtitleCue[] = [];
+  const warnings: SubtitleParseWarning[] = [];
+  const blocks = splitBlocks(tokenizeLines(text));
+
+  if (blocks.length > 0 && /^WEBVTT(?:[ \t]|$)/.test(blocks[0][0].text)) {
+    // Header metadata runs to the first blank line, unless a cue follows without one
+    const [header] = blocks.splice(0, 1);
+    const firstTiming = header.findIndex(line => line.text.includes('-->'));
+    if (firstTiming !== -1) blocks.unshift(header.slice(firstTiming));
+  } else {
+    warnings.push({ code: 'missing-header', line: 1, message: 'No WEBVTT header' });
+  }
+
+  for (const block of blocks) {
+    if (/^(NOTE|STYLE|REGION)(?:[ \t]|$)/.test(block[0].text)) continue;
+
+    // An identifier line is allowed before the timing
+    const timingIndex = block.findIndex(line => line.text.includes('-->'));
+    if (timingIndex === -1 || timingIndex > 1) {
+      warnings.push({ code: 'orphan-text', line: block[0].number, message: 'Text without a timing line was skipped' });
+      continue;
+    }
+
+    const timing = readTiming(block[timingIndex], warnings);
+    if (!timing) continue;
+
+    const payload = block
+      .slice(timingIndex + 1)
+      .map(line => line.text.trimEnd())
+      .join('\n');
+    const styled = parseCueMarkup(payload, { decodeEntities: true });
+    const cue = toCue(timing, styled, positionFromVTTSettings(timing.settings));
+    if (timing.settings) cue.settings = timing.settings;
+    pushCue(cues, warnings, cue, block[timingIndex].number);
+  }
+
+  return { format: 'vtt', cues: sortCues(cues), warnings };
+}
+
+/**
+ * ASS and SSA. Dialogue fields follow the [Events] Format: line, and the Text field takes everything after its
+ * comma so commas inside the text survive. Comment: lines and vector drawings (\p1) are skipped. Each line starts
+ * from its [V4+ Styles] entry, which override tags then adjust.
+ */
+export function parseASS(text: string): SubtitleParseResult {
+  const cues: SubtitleCue[] = [];
+  const warnings: SubtitleParseWarning[] = [];
+  const isSSA = detectSubtitleFormat(text) === 'ssa';
+  let section = '';
+  let eventFormat: string[] | null = null;
+  let styleFormat: string[] | null = null;
+  const styles = new Map<string, ASSStyle>();
+
+  for (const line of tokenizeLines(text)) {
+    const trimmed = line.text.trim();
+    if (!trimmed || trimmed.startsWith(';')) continue;
+
+    const sectionMatch = trimmed.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      continue;
+    }
+    const isStyleSection = section === 'v4+ styles' || section === 'v4 styles';
+    if (section !== 'events' && !isStyleSection) continue;
+
+    const separator = trimmed.indexOf(':');
+    if (separator === -1) continue;
+    const kind = trimmed.slice(0, separator).trim().toLowerCase();
+    const body = trimmed.slice(separator + 1).trimStart();
+
+    if (isStyleSection) {
+      if (kind === 'format') styleFormat = body.split(',').map(field => field.trim().toLowerCase());
+      const style = kind === 'style' && styleFormat ? parseASSStyle(styleFormat, body, isSSA) : null;
+      if (style) styles.set(...style);
+      continue;
+    }
+
+    if (kind === 'format') {
+      eventFormat = body.split(',').map(field => field.trim().toLowerCase());
+      continue;
+    }
+    if (kind !== 'dialogue') continue;
+
+    if (!eventFormat) {
+      warnings.push({
+        code: 'missing-format-line',
+        line: line.number,
+        message: 'No Format: line in [Events]; assuming the standard field order',
+      });
+      eventFormat = isSSA ? DEFAULT_SSA_EVENT_FORMAT : DEFAULT_ASS_EVENT_FORMAT;
+    }
+
+    const textIndex = eventFormat.indexOf('text');
+    const startIndex = eventFormat.indexOf('start');
+    const endIndex = eventFormat.indexOf('end');
+    const fields = body.split(',');
+    if (textIndex === -1 || startIndex === -1 || endIndex === -1 || fields.length < eventFormat.length) {
+      warnings.push({ code: 'malformed-dialogue', line: line.number, message: 'Dialogue line is missing fields' });
+      continue;
+    }
+
+    const start = parseTimestamp(fields[startIndex]);
+    const end = parseTimestamp(fields[endIndex]);
+    if (start === null || end === null) {
+      warnings.push({ code: 'invalid-timing', line: line.number, message: 'Unreadable dialogue timing' });
+      continue;
+    }
+
+    // Text is the last field by spec; everything from its position on belongs to it
+    const rawText = fields.slice(textIndex).join(',');
+    if (/\{[^}]*\\p[1-9][^}]*\}/.test(rawText)) continue;
+
+    const styleName = fields[eventFormat.indexOf('style')]?.trim().replace(/^\*/, '');
+    const style = (styleName && styles.get(styleName)) || styles.get('Default');
+    const styled = parseASSText(rawText, style, styles);
+    pushCue(cues, warnings, toCue({ start, end }, styled, styled.position), line.number);
+  }
+
+  return { format: isSSA ? 'ssa' : 'ass', cues: sortCues(cues), warnings };
+}
+
+export function parseSubtitleText(text: string, format: SubtitleFormat): SubtitleParseResult {
+  switch (format) {
+    case 'vtt':
+      return parseVTT(text);
+    case 'srt':
+      return parseSRT(text);
+    case 'ass':
+    case 'ssa':
+      return parseASS(text);
+  }
+}
+
+export function serializeVTT(cues: SubtitleCue[]): string {
+  let vtt = 'WEBVTT\n\n';
+  for (const cue of cues) {
+    const settings = cue.settings ?? (cue.position ? positionToVTTSettings(cue.position) : '');
+    vtt += `${formatVTTTimestamp(cue.start)} --> ${formatVTTTimestamp(cue.end)}${settings ? ` ${settings}` : ''}\n`;
+    // A blank line would end the cue early
+    vtt += `${serializeCueMarkup(cue).replace(/\n{2,}/g, '\n')}\n\n`;
+  }
+  return vtt;
+}
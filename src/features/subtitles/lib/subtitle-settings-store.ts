@@ -17,6 +17,12 @@ export interface SubtitleSettings {
   backgroundBlur: boolean;
   backgroundFill: boolean;
   isBold: boolean;
+  /** Load the track a host shares with the room without asking. */
+  autoLoadShared: boolean;
+  /** Second-language track: its own size, edge and distance from that edge. */
+  secondaryFontSize: number;
+  secondaryEdge: 'top' | 'bottom';
+  secondaryVerticalPosition: number;
 }
 
 const DEFAULT_SETTINGS: SubtitleSettings = {
@@ -26,6 +32,11 @@ const DEFAULT_SETTINGS: SubtitleSettings = {
   backgroundBlur: true,
   backgroundFill: true,
   isBold: false,
+  autoLoadShared: true,
+  // A touch smaller and out of the way of the main track by default
+  secondaryFontSize: 75,
+  secondaryEdge: 'top',
+  secondaryVerticalPosition: 10,
 };
 
 const STORAGE_KEY = 'subtitle_settings';
@@ -99,6 +110,30 @@ function setIsBold(value: boolean) {
   emitChange();
 }
 
+function setAutoLoadShared(value: boolean) {
+  settings = { ...settings, autoLoadShared: value };
+  persist();
+  emitChange();
+}
+
+function setSecondaryFontSize(value: number) {
+  settings = { ...settings, secondaryFontSize: Math.max(50, Math.min(175, value)) };
+  persist();
+  emitChange();
+}
+
+function setSecondaryEdge(value: SubtitleSettings['secondaryEdge']) {
+  settings = { ...settings, secondaryEdge: value };
+  persist();
+  emitChange();
+}
+
+function setSecondaryVerticalPosition(value: number) {
+  settings = { ...settings, secondaryVerticalPosition: Math.max(5, Math.min(25, value)) };
+  persist();
+  emitChange();
+}
+
 function resetToDefaults() {
   settings = DEFAULT_SETTINGS;
   persist();
@@ -130,6 +165,10 @@ export function useSubtitleSettings() {
     setBackgroundBlur: useCallback((v: boolean) => setBackgroundBlur(v), []),
     setBackgroundFill: useCallback((v: boolean) => setBackgroundFill(v), []),
     setIsBold: useCallback((v: boolean) => setIsBold(v), []),
+    setAutoLoadShared: useCallback((v: boolean) => setAutoLoadShared(v), []),
+    setSecondaryFontSize: useCallback((v: number) => setSecondaryFontSize(v), []),
+    setSecondaryEdge: useCallback((v: SubtitleSettings['secondaryEdge']) => setSecondaryEdge(v), []),
+    setSecondaryVerticalPosition: useCallback((v: number) => setSecondaryVerticalPosition(v), []),
     resetToDefaults: useCallback(() => resetToDefaults(), []),
   };
 }
@@ -0,0 +1,110 @@
+// Wire format for sharing a subtitle track with the room: parsed cues as JSON, gzipped with the platform's
+// CompressionStream and base64-encoded so the payload rides in a plain socket event. Guests validate what they
+// inflate; a share is whatever another client chose to send.
+
+import { z } from 'zod';
+import {
+  SUBTITLE_SHARE_MAX_BYTES,
+  SUBTITLE_SHARE_MAX_INFLATED_BYTES,
+  SUBTITLE_SHARE_MAX_LABEL_LENGTH,
+  SUBTITLE_SHARE_MAX_LANGUAGE_LENGTH,
+} from '@/src/lib/constants';
+import type { SubtitleTrack } from '@/types/schemas';
+import type { SubtitleCue } from './subtitle-parser';
+
+const SharedCueSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().min(0),
+  text: z.string(),
+  settings: z.string().optional(),
+  runs: z
+    .array(
+      z.object({
+        text: z.string(),
+        italic: z.boolean().optional(),
+        bold: z.boolean().optional(),
+        underline: z.boolean().optional(),
+        color: z
+          .string()
+          .regex(/^#[0-9a-f]{6}$/i)
+          .optional(),
+      })
+    )
+    .optional(),
+  position: z
+    .object({
+      vertical: z.enum(['top', 'middle', 'bottom']),
+      horizontal: z.enum(['left', 'center', 'right']),
+    })
+    .optional(),
+});
+
+const SharedCuesSchema = z.array(SharedCueSchema);
+
+async function readAll(stream: ReadableStream<Uint8Array>, maxBytes = Infinity): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error('Shared subtitles are too large');
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // String.fromCharCode takes arguments, so go in chunks well under the engine's argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Cues to a share payload; null when even compressed they exceed SUBTITLE_SHARE_MAX_BYTES. */
+export async function encodeSharedCues(cues: SubtitleCue[]): Promise<string | null> {
+  const json = new Blob([JSON.stringify(cues)]).stream();
+  const compressed = await readAll(json.pipeThrough(new CompressionStream('gzip')));
+  if (compressed.byteLength > SUBTITLE_SHARE_MAX_BYTES) return null;
+  return toBase64(compressed);
+}
+
+/** A share payload back to cues. Throws when it isn't valid base64 gzip, inflates too far, or isn't cues. */
+export async function decodeSharedCues(payload: string): Promise<SubtitleCue[]> {
+  const compressed = new Blob([fromBase64(payload) as BlobPart]).stream();
+  const json = await readAll(
+    compressed.pipeThrough(new DecompressionStream('gzip')),
+    SUBTITLE_SHARE_MAX_INFLATED_BYTES
+  );
+  const cues = SharedCuesSchema.parse(JSON.parse(new TextDecoder().decode(json)));
+  return cues.filter(cue => cue.end > cue.start);
+}
+
+/** The fields every share carries, cut to what the server accepts (labels often come straight from file names). */
+export function getSharedTrackBase(track: Pick<SubtitleTrack, 'id' | 'label' | 'language'>) {
+  return {
+    trackId: track.id,
+    label: track.label.slice(0, SUBTITLE_SHARE_MAX_LABEL_LENGTH),
+    language: track.language.slice(0, SUBTITLE_SHARE_MAX_LANGUAGE_LENGTH),
+  };
+}
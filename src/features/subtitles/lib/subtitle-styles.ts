@@ -0,0 +1,348 @@
+// Styled cue text: the inline style runs and on-screen placement the SRT, WebVTT and ASS/SSA readers produce, plus
+// the WebVTT markup they round-trip through. Tracks are stored as VTT blobs, so anything the overlay draws has to
+// survive serializeVTT -> parseVTT; ASS colours travel as "c.color-rrggbb" classes.
+
+export interface SubtitleTextStyle {
+  italic?: boolean;
+  bold?: boolean;
+  underline?: boolean;
+  /** CSS hex colour ("#ffcc00"). */
+  color?: string;
+}
+
+export interface SubtitleStyleRun extends SubtitleTextStyle {
+  text: string;
+}
+
+export type SubtitleVerticalAlign = 'top' | 'middle' | 'bottom';
+export type SubtitleHorizontalAlign = 'left' | 'center' | 'right';
+
+export interface SubtitleCuePosition {
+  vertical: SubtitleVerticalAlign;
+  horizontal: SubtitleHorizontalAlign;
+}
+
+export interface StyledCueText {
+  /** Plain text with the markup removed; what search and the transcript read. */
+  text: string;
+  /** Only present when some run carries a style. */
+  runs?: SubtitleStyleRun[];
+  /** Only present when the cue isn't bottom-centre. */
+  position?: SubtitleCuePosition;
+}
+
+/** A [V4+ Styles] / [V4 Styles] entry, reduced to what the overlay draws. */
+export interface ASSStyle extends SubtitleTextStyle {
+  position: SubtitleCuePosition;
+}
+
+export const DEFAULT_CUE_POSITION: SubtitleCuePosition = { vertical: 'bottom', horizontal: 'center' };
+
+// WebVTT's default colour classes
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  lime: '#00ff00',
+  cyan: '#00ffff',
+  red: '#ff0000',
+  yellow: '#ffff00',
+  magenta: '#ff00ff',
+  blue: '#0000ff',
+  black: '#000000',
+};
+
+const HORIZONTAL_ALIGNS: SubtitleHorizontalAlign[] = ['left', 'center', 'right'];
+
+// Tags SRT and WebVTT files actually use; any other "<...>" is literal text
+const MARKUP_TAGS = new Set(['i', 'b', 'u', 'c', 'v', 'lang', 'ruby', 'rt', 'font']);
+const MARKUP_PATTERN = /<(\/?)([a-zA-Z]+)([^>]*)>|<\d{1,2}:[\d:.]+>/g;
+
+const VTT_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': '\u00A0',
+  '&lrm;': '\u200E',
+  '&rlm;': '\u200F',
+};
+
+function sameStyle(a: SubtitleTextStyle, b: SubtitleTextStyle): boolean {
+  return !!a.italic === !!b.italic && !!a.bold === !!b.bold && !!a.underline === !!b.underline && a.color === b.color;
+}
+
+function pushRun(runs: SubtitleStyleRun[], text: string, style: SubtitleTextStyle): void {
+  if (!text) return;
+  const last = runs[runs.length - 1];
+  if (last && sameStyle(last, style)) {
+    last.text += text;
+    return;
+  }
+  const run: SubtitleStyleRun = { text };
+  if (style.italic) run.italic = true;
+  if (style.bold) run.bold = true;
+  if (style.underline) run.underline = true;
+  if (style.color) run.color = style.color;
+  runs.push(run);
+}
+
+/** Trims each line across run boundaries and drops runs left empty, then splits out the plain text. */
+function finishRuns(runs: SubtitleStyleRun[], position?: SubtitleCuePosition): StyledCueText {
+  const tidied = runs
+    .map(run => ({ ...run, text: run.text.replace(/[ \t]*\n[ \t]*/g, '\n') }))
+    .filter(run => run.text !== '');
+  if (tidied.length > 0) {
+    tidied[0].text = tidied[0].text.trimStart();
+    tidied[tidied.length - 1].text = tidied[tidied.length - 1].text.trimEnd();
+  }
+  const nonEmpty = tidied.filter(run => run.text !== '');
+
+  const result: StyledCueText = { text: nonEmpty.map(run => run.text).join('') };
+  if (nonEmpty.some(run => run.italic || run.bold || run.underline || run.color)) result.runs = nonEmpty;
+  if (position && !isDefaultPosition(position)) result.position = position;
+  return result;
+}
+
+export function isDefaultPosition(position: SubtitleCuePosition): boolean {
+  return position.vertical === DEFAULT_CUE_POSITION.vertical && position.horizontal === DEFAULT_CUE_POSITION.horizontal;
+}
+
+/** Runs to draw for a cue; unstyled cues are a single plain run. */
+export function getCueRuns(cue: { text: string; runs?: SubtitleStyleRun[] }): SubtitleStyleRun[] {
+  return cue.runs ?? [{ text: cue.text }];
+}
+
+function colorFromClass(className: string): string | undefined {
+  const lower = className.toLowerCase();
+  if (NAMED_COLORS[lower]) return NAMED_COLORS[lower];
+  const hex = lower.match(/^color-([0-9a-f]{6})$/);
+  return hex ? `#${hex[1]}` : undefined;
+}
+
+function colorFromFontAttributes(attributes: string): string | undefined {
+  const value = attributes.match(/color\s*=\s*["']?([#\w]+)/i)?.[1].toLowerCase();
+  if (!value) return undefined;
+  if (/^#[0-9a-f]{6}$/.test(value)) return value;
+  return NAMED_COLORS[value];
+}
+
+/** Style a markup tag adds on top of the enclosing one. */
+function applyMarkupTag(style: SubtitleTextStyle, name: string, rest: string): SubtitleTextStyle {
+  switch (name) {
+    case 'i':
+      return { ...style, italic: true };
+    case 'b':
+      return { ...style, bold: true };
+    case 'u':
+      return { ...style, underline: true };
+    case 'c': {
+      const color = rest.split(/[.\s]/).map(colorFromClass).find(Boolean);
+      return color ? { ...style, color } : style;
+    }
+    case 'font': {
+      const color = colorFromFontAttributes(rest);
+      return color ? { ...style, color } : style;
+    }
+    default:
+      return style;
+  }
+}
+
+/**
+ * SRT / WebVTT cue payload to runs: <i>, <b>, <u>, <c.classes> and SRT's <font color>. Voice, language and ruby
+ * spans keep their text; karaoke timestamps are dropped. Entities are only decoded for WebVTT.
+ */
+export function parseCueMarkup(payload: string, options: { decodeEntities?: boolean } = {}): StyledCueText {
+  const decode = (text: string) =>
+    options.decodeEntities ? text.replace(/&(?:amp|lt|gt|nbsp|lrm|rlm);/g, entity => VTT_ENTITIES[entity]) : text;
+
+  const runs: SubtitleStyleRun[] = [];
+  const stack: { name: string; style: SubtitleTextStyle }[] = [];
+  const current = () => stack[stack.length - 1]?.style ?? {};
+  let cursor = 0;
+
+  for (const match of payload.matchAll(MARKUP_PATTERN)) {
+    const [tag, closing, rawName = '', rest = ''] = match;
+    const name = rawName.toLowerCase();
+    if (rawName && !MARKUP_TAGS.has(name)) continue;
+
+    pushRun(runs, decode(payload.slice(cursor, match.index)), current());
+    cursor = match.index + tag.length;
+    if (!rawName) continue;
+
+    if (closing) {
+      const openIndex = stack.map(entry => entry.name).lastIndexOf(name);
+      if (openIndex !== -1) stack.length = openIndex;
+    } else {
+      stack.push({ name, style: applyMarkupTag(current(), name, rest) });
+    }
+  }
+  pushRun(runs, decode(payload.slice(cursor)), current());
+
+  return finishRuns(runs);
+}
+
+function escapeVTT(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Runs back to WebVTT cue markup; plain text is only escaped. */
+export function serializeCueMarkup(cue: { text: string; runs?: SubtitleStyleRun[] }): string {
+  return getCueRuns(cue)
+    .map(run => {
+      let markup = escapeVTT(run.text);
+      if (run.underline) markup = `<u>${markup}</u>`;
+      if (run.bold) markup = `<b>${markup}</b>`;
+      if (run.italic) markup = `<i>${markup}</i>`;
+      if (run.color) markup = `<c.color-${run.color.slice(1)}>${markup}</c>`;
+      return markup;
+    })
+    .join('');
+}
+
+/** Coarse placement from WebVTT cue settings; only "line" and "align" move a cue off bottom-centre. */
+export function positionFromVTTSettings(settings: string): SubtitleCuePosition | undefined {
+  const values = new Map<string, string>();
+  for (const setting of settings.split(/\s+/)) {
+    const separator = setting.indexOf(':');
+    if (separator > 0) values.set(setting.slice(0, separator), setting.slice(separator + 1));
+  }
+
+  const line = values.get('line')?.split(',')[0];
+  const align = values.get('align');
+  if (!line && !align) return undefined;
+
+  let vertical: SubtitleVerticalAlign = 'bottom';
+  if (line?.endsWith('%')) {
+    const percent = parseFloat(line);
+    vertical = percent < 34 ? 'top' : percent < 67 ? 'middle' : 'bottom';
+  } else if (line && line !== 'auto' && Number.isFinite(Number(line))) {
+    // Line numbers count from the top when positive, from the bottom when negative
+    vertical = Number(line) >= 0 ? 'top' : 'bottom';
+  }
+
+  const horizontal: SubtitleHorizontalAlign =
+    align === 'start' || align === 'left' ? 'left' : align === 'end' || align === 'right' ? 'right' : 'center';
+
+  const position = { vertical, horizontal };
+  return isDefaultPosition(position) ? undefined : position;
+}
+
+export function positionToVTTSettings(position: SubtitleCuePosition): string {
+  const settings: string[] = [];
+  if (position.vertical === 'top') settings.push('line:0');
+  if (position.vertical === 'middle') settings.push('line:50%,center');
+  if (position.horizontal !== 'center') settings.push(`align:${position.horizontal}`);
+  return settings.join(' ');
+}
+
+/** ASS "\an" / numpad alignment: 1-3 bottom, 4-6 middle, 7-9 top. */
+export function positionFromNumpad(alignment: number): SubtitleCuePosition | undefined {
+  if (!Number.isInteger(alignment) || alignment < 1 || alignment > 9) return undefined;
+  return {
+    vertical: alignment >= 7 ? 'top' : alignment >= 4 ? 'middle' : 'bottom',
+    horizontal: HORIZONTAL_ALIGNS[(alignment - 1) % 3],
+  };
+}
+
+/** SSA "\a" / legacy alignment: 1-3 bottom, 5-7 top, 9-11 middle. */
+export function positionFromLegacyAlignment(alignment: number): SubtitleCuePosition | undefined {
+  const column = (alignment - 1) % 4;
+  if (!Number.isInteger(alignment) || alignment < 1 || alignment > 11 || column === 3) return undefined;
+  return {
+    vertical: alignment >= 9 ? 'middle' : alignment >= 5 ? 'top' : 'bottom',
+    horizontal: HORIZONTAL_ALIGNS[column],
+  };
+}
+
+/** "&H00BBGGRR&", "&HBBGGRR" or SSA's decimal BGR to CSS hex. Alpha is ignored. */
+export function assColorToCss(value: string): string | undefined {
+  const trimmed = value.trim();
+  let bgr: number;
+  if (/^&H[0-9a-f]+&?$/i.test(trimmed)) {
+    bgr = parseInt(trimmed.replace(/^&H|&$/gi, '').slice(-6), 16);
+  } else if (/^-?\d+$/.test(trimmed)) {
+    bgr = Number(trimmed) & 0xffffff;
+  } else {
+    return undefined;
+  }
+  const hex = (shift: number) => ((bgr >> shift) & 0xff).toString(16).padStart(2, '0');
+  return `#${hex(0)}${hex(8)}${hex(16)}`;
+}
+
+function assFlag(value: string | undefined): boolean {
+  // -1 in most files, 1 in some, and a font weight in a few
+  const number = Number(value);
+  return number === -1 || number === 1 || number >= 600;
+}
+
+/** One Style: line, keyed by the lower-cased field names of its section's Format: line. */
+export function parseASSStyle(format: string[], body: string, isSSA: boolean): [string, ASSStyle] | null {
+  const fields = body.split(',');
+  const field = (name: string) => {
+    const index = format.indexOf(name);
+    return index === -1 ? undefined : fields[index]?.trim();
+  };
+  const name = field('name');
+  if (!name) return null;
+
+  const alignment = Number(field('alignment'));
+  const color = assColorToCss(field('primarycolour') ?? '');
+  const style: ASSStyle = {
+    position: (isSSA ? positionFromLegacyAlignment(alignment) : positionFromNumpad(alignment)) ?? DEFAULT_CUE_POSITION,
+  };
+  if (assFlag(field('italic'))) style.italic = true;
+  if (assFlag(field('bold'))) style.bold = true;
+  if (assFlag(field('underline'))) style.underline = true;
+  // White is what the overlay draws anyway
+  if (color && color !== '#ffffff') style.color = color;
+  return [name, style];
+}
+
+function baseStyle(style: ASSStyle | undefined): SubtitleTextStyle {
+  if (!style) return {};
+  const { italic, bold, underline, color } = style;
+  return { italic, bold, underline, color };
+}
+
+/**
+ * ASS dialogue text to runs. Override blocks switch italics, bold, underline and primary colour, "\r" resets to the
+ * line's style (or a named one), and the first "\an" / "\a" places the cue. Everything else ("\pos", "\fad", fonts,
+ * transforms) is dropped.
+ */
+export function parseASSText(
+  rawText: string,
+  style: ASSStyle | undefined,
+  styles: Map<string, ASSStyle>
+): StyledCueText {
+  const runs: SubtitleStyleRun[] = [];
+  let current = baseStyle(style);
+  let position: SubtitleCuePosition | undefined;
+
+  const parts = rawText.split(/(\{[^}]*\})/);
+  for (const part of parts) {
+    if (!part.startsWith('{') || !part.endsWith('}')) {
+      pushRun(runs, part.replace(/\\[Nn]/g, '\n').replace(/\\h/g, '\u00A0'), current);
+      continue;
+    }
+
+    for (const tag of part.slice(1, -1).split('\\').slice(1)) {
+      let match: RegExpMatchArray | null;
+      if ((match = tag.match(/^an(\d)$/))) {
+        position ??= positionFromNumpad(Number(match[1]));
+      } else if ((match = tag.match(/^a(\d{1,2})$/))) {
+        position ??= positionFromLegacyAlignment(Number(match[1]));
+      } else if ((match = tag.match(/^i([01])$/))) {
+        current = { ...current, italic: match[1] === '1' };
+      } else if ((match = tag.match(/^b(\d+)$/))) {
+        current = { ...current, bold: assFlag(match[1]) };
+      } else if ((match = tag.match(/^u([01])$/))) {
+        current = { ...current, underline: match[1] === '1' };
+      } else if ((match = tag.match(/^1?c(&H[0-9a-f]+&?)?$/i))) {
+        current = { ...current, color: match[1] ? assColorToCss(match[1]) : baseStyle(style).color };
+      } else if ((match = tag.match(/^r(.*)$/))) {
+        current = baseStyle(styles.get(match[1].trim()) ?? style);
+      }
+    }
+  }
+
+  return finishRuns(runs, position ?? style?.position);
+}
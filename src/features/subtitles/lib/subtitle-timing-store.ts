@@ -0,0 +1,101 @@
+'use client';
+
+import { useSyncExternalStore, useCallback } from 'react';
+import { logSubtitles } from '@/src/core/logger';
+import { IDENTITY_TRANSFORM, isIdentityTransform, type SubtitleTimingTransform } from './subtitle-timing';
+
+// One transform per video, keyed by getVideoIdForStorage like the tracks themselves. It's saved with the id of
+// the track it was made on and only applies to that track: another release of the same video has its own timing.
+const STORAGE_PREFIX = 'subtitle_timing_';
+
+interface StoredTiming {
+  trackId: string;
+  transform: SubtitleTimingTransform;
+}
+
+// Module-level state (singleton); entries are read from localStorage on first use
+const timings = new Map<string, StoredTiming | null>();
+const listeners = new Set<() => void>();
+
+function isValidTiming(value: unknown): value is SubtitleTimingTransform & { trackId: string } {
+  const candidate = value as Partial<SubtitleTimingTransform & { trackId: string }> | null;
+  return (
+    typeof candidate?.trackId === 'string' &&
+    typeof candidate.scale === 'number' &&
+    typeof candidate.offset === 'number' &&
+    Number.isFinite(candidate.scale) &&
+    Number.isFinite(candidate.offset) &&
+    candidate.scale > 0
+  );
+}
+
+function getStoredTiming(videoId: string): StoredTiming | null {
+  if (timings.has(videoId)) return timings.get(videoId) ?? null;
+
+  let timing: StoredTiming | null = null;
+  try {
+    const stored = localStorage.getItem(`${STORAGE_PREFIX}${videoId}`);
+    const parsed: unknown = stored ? JSON.parse(stored) : null;
+    if (isValidTiming(parsed)) {
+      timing = { trackId: parsed.trackId, transform: { scale: parsed.scale, offset: parsed.offset } };
+    }
+  } catch (error) {
+    logSubtitles('timing_load_fail', 'Failed to load subtitle timing from localStorage', { error: String(error) });
+  }
+  timings.set(videoId, timing);
+  return timing;
+}
+
+function getTransform(videoId: string | undefined, trackId: string | undefined): SubtitleTimingTransform {
+  if (!videoId || !trackId || typeof window === 'undefined') return IDENTITY_TRANSFORM;
+  const timing = getStoredTiming(videoId);
+  return timing?.trackId === trackId ? timing.transform : IDENTITY_TRANSFORM;
+}
+
+// Notify all subscribers
+function emitChange() {
+  listeners.forEach(listener => listener());
+}
+
+function setTransform(videoId: string | undefined, trackId: string | undefined, transform: SubtitleTimingTransform) {
+  if (!videoId || !trackId) return;
+  const timing = isIdentityTransform(transform) ? null : { trackId, transform };
+  timings.set(videoId, timing);
+  try {
+    if (timing) {
+      localStorage.setItem(`${STORAGE_PREFIX}${videoId}`, JSON.stringify({ trackId, ...transform }));
+    } else {
+      localStorage.removeItem(`${STORAGE_PREFIX}${videoId}`);
+    }
+  } catch (error) {
+    logSubtitles('timing_save_fail', 'Failed to save subtitle timing to localStorage', { error: String(error) });
+  }
+  emitChange();
+}
+
+// Subscribe/unsubscribe for useSyncExternalStore
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function getServerSnapshot() {
+  return IDENTITY_TRANSFORM;
+}
+
+/**
+ * The timing transform for one track of a video; identity until the timing tool sets one on that track.
+ * Setting it on a track replaces the fix saved for any other track of the same video.
+ */
+export function useSubtitleTiming(videoId: string | undefined, trackId: string | undefined) {
+  const transform = useSyncExternalStore(subscribe, () => getTransform(videoId, trackId), getServerSnapshot);
+
+  return {
+    transform,
+    setTransform: useCallback(
+      (value: SubtitleTimingTransform) => setTransform(videoId, trackId, value),
+      [videoId, trackId]
+    ),
+    resetTransform: useCallback(() => setTransform(videoId, trackId, IDENTITY_TRANSFORM), [videoId, trackId]),
+  };
+}
@@ -0,0 +1,73 @@
+// Subtitle timing transforms: a linear map from the times written in a subtitle file to video time,
+// videoTime = cueTime * scale + offset. A frame-rate conversion is a pure stretch; two-point sync solves
+// both from two lines the viewer has placed. The user's syncOffset still applies on top for fine-tuning.
+
+import type { SubtitleCue } from './subtitle-parser';
+
+export interface SubtitleTimingTransform {
+  scale: number;
+  /** Seconds. */
+  offset: number;
+}
+
+/** A line from the file and where it actually falls in the video. */
+export interface SubtitleSyncPoint {
+  cueTime: number;
+  videoTime: number;
+}
+
+export const IDENTITY_TRANSFORM: SubtitleTimingTransform = { scale: 1, offset: 0 };
+
+// Frame rates subtitles are commonly released for; 23.976 vs 25 (PAL speed-up) is the classic mismatch
+export const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 50, 59.94, 60];
+
+// Anything outside this is a mis-picked line, not a frame-rate difference (60 -> 23.976 is ~2.5)
+const MIN_SCALE = 0.4;
+const MAX_SCALE = 2.5;
+
+export function isIdentityTransform(transform: SubtitleTimingTransform): boolean {
+  return transform.scale === 1 && transform.offset === 0;
+}
+
+/** Stretch for a file timed against sourceFps playing over a targetFps video; null for nonsense rates. */
+export function getFrameRateTransform(sourceFps: number, targetFps: number): SubtitleTimingTransform | null {
+  if (!(sourceFps > 0) || !(targetFps > 0)) return null;
+  const scale = sourceFps / targetFps;
+  if (scale < MIN_SCALE || scale > MAX_SCALE) return null;
+  return { scale, offset: 0 };
+}
+
+/** Scale and offset that put both lines where the viewer says they belong; null when that can't be right. */
+export function getTwoPointTransform(
+  first: SubtitleSyncPoint,
+  second: SubtitleSyncPoint
+): SubtitleTimingTransform | null {
+  const cueSpan = second.cueTime - first.cueTime;
+  if (Math.abs(cueSpan) < 1) return null;
+  const scale = (second.videoTime - first.videoTime) / cueSpan;
+  if (!Number.isFinite(scale) || scale < MIN_SCALE || scale > MAX_SCALE) return null;
+  return { scale, offset: first.videoTime - first.cueTime * scale };
+}
+
+export function applyTimingTransform(time: number, transform: SubtitleTimingTransform): number {
+  return time * transform.scale + transform.offset;
+}
+
+/** Cues moved into video time. Returns the same array when there's nothing to do. */
+export function transformCues(cues: SubtitleCue[], transform: SubtitleTimingTransform): SubtitleCue[] {
+  if (isIdentityTransform(transform)) return cues;
+  return cues.map(cue => ({
+    ...cue,
+    start: applyTimingTransform(cue.start, transform),
+    end: applyTimingTransform(cue.end, transform),
+  }));
+}
+
+/** "×1.0427, +1.2s" style summary for the timing tool. */
+export function describeTimingTransform(transform: SubtitleTimingTransform): string {
+  if (isIdentityTransform(transform)) return 'As released';
+  const parts: string[] = [];
+  if (transform.scale !== 1) parts.push(`×${transform.scale.toFixed(4)}`);
+  if (transform.offset !== 0) parts.push(`${transform.offset > 0 ? '+' : ''}${transform.offset.toFixed(2)}s`);
+  return parts.join(', ');
+}
@@ -0,0 +1,72 @@
+// Transcript helpers: the whole track as a list, which line we're on, and search across it.
+
+import type { SubtitleCue } from './subtitle-parser';
+
+/** One transcript row: a cue plus its index in the start-ordered list. */
+export interface TranscriptEntry {
+  index: number;
+  cue: SubtitleCue;
+}
+
+/**
+ * Cues in start order, each line once. ASS files stack copies of a line on several layers (outline, shadow,
+ * karaoke fill) that can end at different times and sort apart; a line is a copy when it starts together with
+ * one already kept and reads the same.
+ */
+export function buildTranscript(cues: SubtitleCue[]): TranscriptEntry[] {
+  const sorted = [...cues].sort((a, b) => a.start - b.start || a.end - b.end);
+  const entries: TranscriptEntry[] = [];
+  let groupStart: number | null = null;
+  let groupTexts = new Set<string>();
+  for (const cue of sorted) {
+    if (cue.start !== groupStart) {
+      groupStart = cue.start;
+      groupTexts = new Set();
+    }
+    const text = normalizeSearchText(cue.text);
+    if (groupTexts.has(text)) continue;
+    groupTexts.add(text);
+    entries.push({ index: entries.length, cue });
+  }
+  return entries;
+}
+
+/**
+ * The row to highlight at `time`: the latest line that has started, so the highlight holds through gaps
+ * between lines. -1 before the first line. Expects buildTranscript's start order.
+ */
+export function findCurrentEntryIndex(entries: TranscriptEntry[], time: number): number {
+  let low = 0;
+  let high = entries.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (entries[mid].cue.start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+// Case- and accent-insensitive, with line breaks treated as spaces
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Rows containing every word of the query, in any order. Everything for a blank query. */
+export function searchTranscript(entries: TranscriptEntry[], query: string): TranscriptEntry[] {
+  const terms = normalizeSearchText(query).split(' ').filter(Boolean);
+  if (terms.length === 0) return entries;
+  return entries.filter(({ cue }) => {
+    const text = normalizeSearchText(cue.text);
+    return terms.every(term => text.includes(term));
+  });
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Hourglass } from 'lucide-react';
+import { getBarrierCountdown } from '@/src/features/video-sync/lib/buffering-barrier';
+
+const COUNTDOWN_TICK_MS = 250;
+
+export interface BufferingBarrierStatus {
+  /** Display names of everyone currently holding the room. */
+  waitingNames: string[];
+  /** Server-time (ms) playback resumes at; null while still waiting. */
+  resumeAt: number | null;
+}
+
+interface BufferingBarrierBannerProps {
+  status: BufferingBarrierStatus;
+  clockOffset: number;
+}
+
+function formatWaitingNames(names: string[]): string {
+  if (names.length === 0) return 'someone';
+  if (names.length <= 2) return names.join(' and ');
+  return `${names[0]}, ${names[1]} and ${names.length - 2} more`;
+}
+
+export function BufferingBarrierBanner({ status, clockOffset }: BufferingBarrierBannerProps) {
+  const { waitingNames, resumeAt } = status;
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (resumeAt === null) {
+      setSecondsLeft(null);
+      return;
+    }
+    const tick = () => setSecondsLeft(getBarrierCountdown(resumeAt, Date.now() + clockOffset));
+    tick();
+    const interval = setInterval(tick, COUNTDOWN_TICK_MS);
+    return () => clearInterval(interval);
+  }, [resumeAt, clockOffset]);
+
+  return (
+    <div className="pointer-events-none absolute left-1/2 top-3 z-30 -translate-x-1/2">
+      <div className="flex items-center gap-2 rounded-full border border-border bg-black/80 px-4 py-2 text-sm tracking-tight text-primary-foreground backdrop-blur-sm">
+        <Hourglass className="h-4 w-4 flex-shrink-0 text-primary" />
+        {secondsLeft !== null ? (
+          <span>
+            Everyone&apos;s caught up. Resuming in <span className="font-mono font-semibold">{secondsLeft}</span>
+            &hellip;
+          </span>
+        ) : (
+          <span>Hold up, waiting for {formatWaitingNames(waitingNames)} to catch up&hellip;</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+'use client';
+
+import { FastForward } from 'lucide-react';
+
+interface CatchUpIndicatorProps {
+  /** Whole seconds until back in step with the room. */
+  remainingS: number;
+}
+
+export function CatchUpIndicator({ remainingS }: CatchUpIndicatorProps) {
+  return (
+    <div className="pointer-events-none absolute left-1/2 top-3 z-30 -translate-x-1/2">
+      <div className="flex items-center gap-2 rounded-full border border-border bg-black/80 px-4 py-2 text-sm tracking-tight text-primary-foreground backdrop-blur-sm">
+        <FastForward className="h-4 w-4 flex-shrink-0 text-primary" />
+        <span>
+          Catching up&hellip; <span className="font-mono font-semibold">{Math.max(1, remainingS)}s</span>
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { FastForward } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CATCH_UP_RATES } from '@/src/lib/constants';
+import { formatPlaybackRate } from '@/src/features/video-sync/lib/playback-rate';
+import { useSyncPreferences } from '@/src/features/video-sync/lib/sync-preferences-store';
+
+interface CatchUpMenuProps {
+  /** Shared room speed, shown for context; catch-up runs relative to it. */
+  playbackRate: number;
+}
+
+/**
+ * A guest's own catch-up preference. Lives in the room toolbar rather than the player controls so it's there for
+ * every player type, embeds included; a player that can't change speed still skips.
+ */
+export function CatchUpMenu({ playbackRate }: CatchUpMenuProps) {
+  const { preferences, setCatchUpEnabled, setCatchUpRate } = useSyncPreferences();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          title="When I fall behind"
+          aria-pressed={preferences.catchUpEnabled}
+          className={preferences.catchUpEnabled ? 'text-primary' : undefined}
+        >
+          <FastForward className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-52">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">
+          Room speed is {formatPlaybackRate(playbackRate)} (host&apos;s call)
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs text-muted-foreground">When I fall behind</DropdownMenuLabel>
+        <DropdownMenuCheckboxItem
+          checked={preferences.catchUpEnabled}
+          onCheckedChange={checked => setCatchUpEnabled(checked === true)}
+        >
+          Speed up instead of skipping
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuRadioGroup
+          value={String(preferences.catchUpRate)}
+          onValueChange={value => setCatchUpRate(Number(value))}
+        >
+          {CATCH_UP_RATES.map(rate => (
+            <DropdownMenuRadioItem
+              key={rate}
+              value={String(rate)}
+              disabled={!preferences.catchUpEnabled}
+              className="font-mono"
+            >
+              {formatPlaybackRate(rate)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
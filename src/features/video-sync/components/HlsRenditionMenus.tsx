@@ -0,0 +1,113 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Languages, Settings2 } from 'lucide-react';
+import {
+  formatAudioTrackLabel,
+  formatBitrate,
+  formatLevelLabel,
+  type HlsRenditionState,
+} from '@/src/core/video/hls-renditions';
+
+interface HlsRenditionMenusProps {
+  renditions: HlsRenditionState;
+  onLevelChange: (index: number) => void;
+  onAudioTrackChange: (id: number) => void;
+  isFullscreen?: boolean;
+}
+
+const AUTO_LEVEL = '-1';
+
+/** Per-viewer quality and audio-language menus for HLS. Neither affects anyone else in the room. */
+export function HlsRenditionMenus({
+  renditions,
+  onLevelChange,
+  onAudioTrackChange,
+  isFullscreen = false,
+}: HlsRenditionMenusProps) {
+  const { levels, currentLevel, autoLevel, currentBitrate, audioTracks, audioTrack } = renditions;
+  const playing = levels.find(l => l.index === currentLevel);
+  const buttonClassName = `${isFullscreen ? 'h-11 w-11' : 'h-9 w-9'} border border-border bg-black/60 p-0 text-primary-foreground transition-interactive hover:border-primary hover:bg-primary hover:text-primary-foreground`;
+  const iconClassName = isFullscreen ? 'h-5 w-5' : 'h-4 w-4';
+
+  return (
+    <>
+      {levels.length > 1 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="secondary"
+              size={isFullscreen ? 'default' : 'sm'}
+              className={buttonClassName}
+              title="Quality"
+              onClick={e => e.stopPropagation()}
+            >
+              <Settings2 className={iconClassName} />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className={`w-48 ${isFullscreen ? 'z-50' : ''}`}>
+            <DropdownMenuLabel className="text-xs text-muted-foreground">
+              Quality{playing ? ` · ${formatLevelLabel(playing)}, ${formatBitrate(currentBitrate)}` : ''}
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuRadioGroup
+              value={autoLevel ? AUTO_LEVEL : String(currentLevel)}
+              onValueChange={value => onLevelChange(Number(value))}
+            >
+              <DropdownMenuRadioItem value={AUTO_LEVEL}>Auto</DropdownMenuRadioItem>
+              {[...levels]
+                .sort((a, b) => (b.height ?? 0) - (a.height ?? 0) || (b.bitrate ?? 0) - (a.bitrate ?? 0))
+                .map(level => (
+                  <DropdownMenuRadioItem key={level.index} value={String(level.index)} className="font-mono">
+                    {formatLevelLabel(level)}
+                    {level.height && level.bitrate ? (
+                      <span className="ml-auto pl-2 text-xs text-muted-foreground">{formatBitrate(level.bitrate)}</span>
+                    ) : null}
+                  </DropdownMenuRadioItem>
+                ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {audioTracks.length > 1 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="secondary"
+              size={isFullscreen ? 'default' : 'sm'}
+              className={buttonClassName}
+              title="Audio language"
+              onClick={e => e.stopPropagation()}
+            >
+              <Languages className={iconClassName} />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className={`w-48 ${isFullscreen ? 'z-50' : ''}`}>
+            <DropdownMenuLabel className="text-xs text-muted-foreground">Audio</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuRadioGroup
+              value={String(audioTrack)}
+              onValueChange={value => onAudioTrackChange(Number(value))}
+            >
+              {audioTracks.map(track => (
+                <DropdownMenuRadioItem key={track.id} value={String(track.id)}>
+                  {formatAudioTrackLabel(track)}
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </>
+  );
+}
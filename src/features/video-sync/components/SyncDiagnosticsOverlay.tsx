@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Copy, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { logClient } from '@/src/core/logger';
+import type { SyncDiagnosticsSnapshot } from '@/src/features/video-sync/lib/diagnostics';
+import { formatBitrate } from '@/src/core/video/hls-renditions';
+
+const REFRESH_INTERVAL_MS = 500;
+
+interface SyncDiagnosticsOverlayProps {
+  getSnapshot: () => SyncDiagnosticsSnapshot;
+  onClose: () => void;
+}
+
+function formatMs(value: number | null): string {
+  if (value === null) return '—';
+  return `${value > 0 ? '+' : ''}${value} ms`;
+}
+
+function formatRanges(ranges: Array<[number, number]>): string {
+  if (ranges.length === 0) return '—';
+  return ranges.map(([start, end]) => `${start.toFixed(1)}–${end.toFixed(1)}`).join(', ');
+}
+
+export function SyncDiagnosticsOverlay({ getSnapshot, onClose }: SyncDiagnosticsOverlayProps) {
+  const [snapshot, setSnapshot] = useState<SyncDiagnosticsSnapshot>(() => getSnapshot());
+
+  useEffect(() => {
+    const interval = setInterval(() => setSnapshot(getSnapshot()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [getSnapshot]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(getSnapshot(), null, 2));
+      toast.success('Copied! Paste it in chat so the host can take a look.');
+    } catch (error) {
+      logClient({
+        level: 'warn',
+        domain: 'video',
+        event: 'diagnostics_copy_fail',
+        message: 'Failed to copy sync diagnostics',
+        meta: { error: String(error) },
+      });
+      toast.error("Your browser wouldn't let us touch the clipboard.");
+    }
+  };
+
+  const rows: Array<[string, string]> = [
+    ['Role', `${snapshot.role}${snapshot.casting ? ' (casting)' : ''}`],
+    ['Position', snapshot.currentTime === null ? '—' : `${snapshot.currentTime.toFixed(2)} s`],
+    ['Drift', formatMs(snapshot.driftMs)],
+    ['Correction', snapshot.correction ?? '—'],
+    ['Rate', snapshot.playbackRate === null ? '—' : `${snapshot.playbackRate.toFixed(3)}x`],
+    ['Clock offset', snapshot.clock ? formatMs(snapshot.clock.offsetMs) : '—'],
+    ['Clock RTT', snapshot.clock ? `${snapshot.clock.rttMs} ms` : '—'],
+    ['Clock confidence', snapshot.clock ? snapshot.clock.confidence.toFixed(2) : '—'],
+    ['Anchor age', snapshot.anchorAgeMs === null ? '—' : `${snapshot.anchorAgeMs} ms`],
+    ['Hard seeks', String(snapshot.hardSeekCount)],
+    ['Ready state', snapshot.readyState === null ? '—' : String(snapshot.readyState)],
+    ['Buffer ahead', snapshot.bufferAhead === null ? '—' : `${snapshot.bufferAhead.toFixed(1)} s`],
+    ['Buffered', formatRanges(snapshot.buffered)],
+  ];
+
+  if (snapshot.sourceAttempts.length > 0) {
+    rows.push([
+      'Source',
+      snapshot.sourceAttempts
+        .map(attempt => `${attempt.kind}${attempt.failure ? ` ✕ ${attempt.failure}` : ''}`)
+        .join(' → '),
+    ]);
+  }
+
+  if (snapshot.hls) {
+    const { hls } = snapshot;
+    rows.push(
+      [
+        'HLS level',
+        hls.level < 0
+          ? `? / ${hls.levelCount}`
+          : `${hls.level + 1} / ${hls.levelCount}${hls.height ? ` (${hls.height}p)` : ''}${hls.autoLevel ? ' auto' : ''}`,
+      ],
+      ['HLS bitrate', formatBitrate(hls.bitrate)],
+      ['HLS net errors', `${hls.networkErrorsInWindow} recent, ${hls.networkReloadCount} reloads`],
+      ['HLS media recoveries', `${hls.mediaRecoveryCount}${hls.reattachAttempted ? ', reattached' : ''}`]
+    );
+  }
+
+  return (
+    <div className="absolute left-2 top-2 z-30 w-72 max-w-[calc(100%-1rem)] rounded-lg border border-border bg-black/80 p-3 text-primary-foreground backdrop-blur-sm">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-sm font-semibold tracking-tighter">Stats for nerds</span>
+        <div className="flex items-center">
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleCopy} title="Copy as JSON">
+            <Copy className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose} title="Close">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 font-mono text-xs">
+        {rows.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-muted-foreground">{label}</dt>
+            <dd className="truncate text-right" title={value}>
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -2,6 +2,14 @@
 
 import { useState, useRef, useEffect, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   Maximize,
   Volume2,
@@ -16,9 +24,15 @@ import {
   SearchX,
 } from 'lucide-react';
 import { SubtitleManager } from '@/src/features/subtitles/components';
-import type { SubtitleTrack } from '@/types/schemas';
+import type { Chapter, SubtitleTrack } from '@/types/schemas';
 import { logVideo } from '@/src/core/logger/client-logger';
 import { CastPlayerRef } from '@/src/features/media/cast';
+import { PLAYBACK_RATES } from '@/src/lib/constants';
+import { formatPlaybackRate } from '@/src/features/video-sync/lib/playback-rate';
+import { HlsRenditionMenus } from '@/src/features/video-sync/components/HlsRenditionMenus';
+import type { HlsRenditionState } from '@/src/core/video/hls-renditions';
+import { getChapterIndexAt } from '@/src/features/video-sync/lib/chapters';
+import { getLiveBehindS, isAtLiveEdge, type LiveTimeline } from '@/src/features/video-sync/lib/live';
 
 interface VideoControlsProps {
   videoRef: React.RefObject<HTMLVideoElement> | null;
@@ -34,6 +48,12 @@ interface VideoControlsProps {
   onAddSubtitleTracks?: (tracks: SubtitleTrack[]) => void;
   onRemoveSubtitleTrack?: (trackId: string) => void;
   onActiveSubtitleTrackChange?: (trackId?: string) => void;
+  secondarySubtitleTrack?: string;
+  onSecondarySubtitleTrackChange?: (trackId?: string) => void;
+  roomSubtitleTrackId?: string;
+  onShareSubtitleTrack?: (trackId?: string) => void;
+  subtitleVideoId?: string;
+  onToggleTranscript?: () => void;
   currentVideoTitle?: string;
   className?: string;
   onControlsVisibilityChange?: (visible: boolean) => void;
@@ -46,6 +66,17 @@ interface VideoControlsProps {
   // Picker controls
   alternativesCount?: number; // number of alternatives; 0 or undefined = hide button
   onWrongVideo?: () => void; // called when host clicks "Wrong video?"
+  // Shared speed controls
+  playbackRate?: number;
+  onPlaybackRateChange?: (rate: number) => void; // host only; guests see the current speed read-only
+  // HLS quality / audio - per viewer, never synced
+  hlsRenditions?: HlsRenditionState | null;
+  onHlsLevelChange?: (index: number) => void;
+  onHlsAudioTrackChange?: (id: number) => void;
+  // Chapter markers on the seek bar
+  chapters?: Chapter[];
+  // Live HLS: the seek bar spans the DVR window and the host gets a "Go live" button
+  getLiveTimeline?: () => LiveTimeline | null;
 }
 
 export function VideoControls({
@@ -62,6 +93,12 @@ export function VideoControls({
   onAddSubtitleTracks,
   onRemoveSubtitleTrack,
   onActiveSubtitleTrackChange,
+  secondarySubtitleTrack,
+  onSecondarySubtitleTrackChange,
+  roomSubtitleTrackId,
+  onShareSubtitleTrack,
+  subtitleVideoId,
+  onToggleTranscript,
   currentVideoTitle,
   className,
   onControlsVisibilityChange,
@@ -72,6 +109,13 @@ export function VideoControls({
   onCastClick,
   alternativesCount,
   onWrongVideo,
+  playbackRate = 1,
+  onPlaybackRateChange,
+  hlsRenditions,
+  onHlsLevelChange,
+  onHlsAudioTrackChange,
+  chapters = [],
+  getLiveTimeline,
 }: VideoControlsProps) {
   const [isMuted, setIsMuted] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -81,6 +125,8 @@ export function VideoControls({
   const [isDragging, setIsDragging] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isVideoLoading, setIsVideoLoading] = useState(false);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [liveTimeline, setLiveTimeline] = useState<LiveTimeline | null>(null);
   const sliderRef = useRef<HTMLDivElement>(null);
   const programmaticActionRef = useRef(false);
   const hideControlsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -174,12 +220,15 @@ export function VideoControls({
 
     const handleLoadedMetadata = () => {
       setDuration(video.duration);
+      setLiveTimeline(getLiveTimeline?.() ?? null);
     };
 
     const handleTimeUpdate = () => {
       if (!isDragging) {
         setCurrentTime(video.currentTime);
       }
+      // The DVR window slides as the playlist refreshes
+      setLiveTimeline(getLiveTimeline?.() ?? null);
     };
 
     const handlePlay = () => {
@@ -231,6 +280,7 @@ export function VideoControls({
     setDuration(video.duration || 0);
     setCurrentTime(video.currentTime || 0);
     setIsVideoLoading(video.readyState < 3);
+    setLiveTimeline(getLiveTimeline?.() ?? null);
 
     return () => {
       video.removeEventListener('loadedmetadata', handleLoadedMetadata);
@@ -244,7 +294,7 @@ export function VideoControls({
       video.removeEventListener('playing', handlePlaying);
       video.removeEventListener('loadeddata', handleLoadedData);
     };
-  }, [videoRef, isDragging, isCasting]);
+  }, [videoRef, isDragging, isCasting, getLiveTimeline]);
 
   useEffect(() => {
     return () => {
@@ -369,7 +419,7 @@ export function VideoControls({
     // Handle local video
     if (!videoRef?.current) return;
 
-    const newTime = Math.max(0, videoRef.current.currentTime - 10);
+    const newTime = Math.max(liveTimeline?.start ?? 0, videoRef.current.currentTime - 10);
     videoRef.current.currentTime = newTime;
     onSeek?.(newTime);
   };
@@ -386,7 +436,7 @@ export function VideoControls({
     // Handle local video
     if (!videoRef?.current) return;
 
-    const newTime = Math.min(duration, videoRef.current.currentTime + 10);
+    const newTime = Math.min(liveTimeline?.liveSyncPosition ?? duration, videoRef.current.currentTime + 10);
     videoRef.current.currentTime = newTime;
     onSeek?.(newTime);
   };
@@ -432,7 +482,10 @@ export function VideoControls({
     const rect = sliderRef.current.getBoundingClientRect();
     const x = Math.max(0, Math.min(rect.width, e.clientX - rect.left));
     const percentage = x / rect.width;
-    const newTime = percentage * duration;
+    // Live: the right end of the bar is the live sync position, not the very edge of the playlist
+    const newTime = liveTimeline
+      ? Math.min(liveTimeline.liveSyncPosition, seekStart + percentage * seekLength)
+      : percentage * duration;
 
     setCurrentTime(newTime);
 
@@ -469,7 +522,35 @@ export function VideoControls({
       onControlsVisibilityChange?.(false);
     }, 2000);
   };
-  const progressPercentage = duration > 0 ? (currentTime / duration) * 100 : 0;
+  const handleGoLive = () => {
+    if (!liveTimeline || !videoRef?.current) return;
+    videoRef.current.currentTime = liveTimeline.liveSyncPosition;
+    setCurrentTime(liveTimeline.liveSyncPosition);
+    onSeek?.(liveTimeline.liveSyncPosition);
+  };
+
+  // The bar spans the whole video, or the DVR window of a live stream
+  const seekStart = liveTimeline?.start ?? 0;
+  const seekLength = liveTimeline ? liveTimeline.end - liveTimeline.start : duration;
+  const toSeekPercentage = (time: number) =>
+    seekLength > 0 ? Math.max(0, Math.min(100, ((time - seekStart) / seekLength) * 100)) : 0;
+  const progressPercentage = toSeekPercentage(currentTime);
+  const isLive = liveTimeline !== null;
+  const atLiveEdge = liveTimeline !== null && isAtLiveEdge(currentTime, liveTimeline);
+  const formatSeekTime = (time: number) =>
+    liveTimeline ? `-${formatTime(getLiveBehindS(time, liveTimeline))}` : formatTime(time);
+
+  const handleSliderHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!sliderRef.current || seekLength <= 0) return;
+    const rect = sliderRef.current.getBoundingClientRect();
+    setHoverTime(seekStart + (Math.max(0, Math.min(rect.width, e.clientX - rect.left)) / rect.width) * seekLength);
+  };
+
+  // The first chapter starts at 0:00, so it gets no marker
+  const chapterMarkers =
+    seekLength > 0 ? chapters.filter(c => c.start > seekStart && c.start < seekStart + seekLength) : [];
+  const currentChapter = chapters[getChapterIndexAt(chapters, currentTime)];
+  const hoverChapter = hoverTime !== null ? chapters[getChapterIndexAt(chapters, hoverTime)] : undefined;
 
   const handleVideoClick = (e: React.MouseEvent) => {
     // Only allow host to click to play/pause
@@ -529,6 +610,8 @@ export function VideoControls({
                 isFullscreen ? 'h-3' : 'h-2'
               }`}
               onMouseDown={handleSliderMouseDown}
+              onMouseMove={handleSliderHover}
+              onMouseLeave={() => setHoverTime(null)}
             >
               {/* Progress bar */}
               <div
@@ -536,6 +619,26 @@ export function VideoControls({
                 style={{ width: `${progressPercentage}%` }}
               />
 
+              {/* Chapter markers: gaps in the bar at each chapter start */}
+              {chapterMarkers.map(chapter => (
+                <div
+                  key={chapter.start}
+                  className="pointer-events-none absolute inset-y-0 w-0.5 -translate-x-1/2 bg-black/70"
+                  style={{ left: `${toSeekPercentage(chapter.start)}%` }}
+                />
+              ))}
+
+              {/* Chapter under the cursor */}
+              {hoverChapter && hoverTime !== null && (
+                <div
+                  className="pointer-events-none absolute bottom-full mb-2 max-w-48 -translate-x-1/2 truncate rounded bg-black/80 px-2 py-1 text-xs text-primary-foreground"
+                  style={{ left: `${toSeekPercentage(hoverTime)}%` }}
+                >
+                  {hoverChapter.title}
+                  <span className="ml-1 font-mono text-neutral">{formatSeekTime(hoverTime)}</span>
+                </div>
+              )}
+
               {/* Slider handle */}
               <div
                 className={`absolute top-1/2 -translate-y-1/2 rounded-full border-2 border-primary-foreground bg-primary opacity-0 shadow-lg transition-interactive hover:scale-110 group-hover:opacity-100 ${
@@ -549,8 +652,9 @@ export function VideoControls({
             <div
               className={`mt-2 flex justify-between font-mono text-primary-foreground ${isFullscreen ? 'text-sm' : 'text-xs'}`}
             >
-              <span>{formatTime(currentTime)}</span>
-              <span>{formatTime(duration)}</span>
+              <span>{isLive ? (atLiveEdge ? 'LIVE' : formatSeekTime(currentTime)) : formatTime(currentTime)}</span>
+              {currentChapter && <span className="mx-4 truncate font-sans">{currentChapter.title}</span>}
+              <span>{isLive ? formatTime(seekLength) : formatTime(duration)}</span>
             </div>
           </div>
         )}
@@ -595,6 +699,20 @@ export function VideoControls({
                   <RotateCw className={isFullscreen ? 'h-5 w-5' : 'h-4 w-4'} />
                 </Button>
 
+                {isLive && (
+                  <Button
+                    variant="secondary"
+                    size={isFullscreen ? 'default' : 'sm'}
+                    onClick={handleGoLive}
+                    disabled={atLiveEdge}
+                    className={`${isFullscreen ? 'h-11 px-4' : 'h-9 px-3'} border border-border bg-black/60 text-xs font-semibold text-primary-foreground transition-interactive hover:border-primary hover:bg-primary hover:text-primary-foreground disabled:opacity-100`}
+                    title={atLiveEdge ? 'Watching live' : 'Go live'}
+                  >
+                    <span className={`h-2 w-2 rounded-full ${atLiveEdge ? 'bg-destructive' : 'bg-muted-foreground'}`} />
+                    {atLiveEdge ? 'LIVE' : 'Go live'}
+                  </Button>
+                )}
+
                 {(alternativesCount ?? 0) > 0 && onWrongVideo && (
                   <Button
                     variant="secondary"
@@ -610,6 +728,14 @@ export function VideoControls({
                 )}
               </>
             )}
+
+            {/* Guests can't leave the room's position, so live is just a badge for them */}
+            {!isHost && isLive && (
+              <span className="flex items-center gap-2 rounded-md bg-black/60 px-3 py-1 text-xs font-semibold text-primary-foreground">
+                <span className="h-2 w-2 rounded-full bg-destructive" />
+                LIVE
+              </span>
+            )}
           </div>
 
           {/* Common controls (mute, chat, and fullscreen) */}
@@ -635,6 +761,54 @@ export function VideoControls({
               </Button>
             )}
 
+            {/* Shared playback speed - host picks, guests see it when it isn't 1x */}
+            {!isCasting && isHost && onPlaybackRateChange && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="secondary"
+                    size={isFullscreen ? 'default' : 'sm'}
+                    className={`${isFullscreen ? 'h-11 min-w-11' : 'h-9 min-w-9'} border border-border bg-black/60 px-2 font-mono text-xs text-primary-foreground transition-interactive hover:border-primary hover:bg-primary hover:text-primary-foreground`}
+                    title="Playback speed (everyone)"
+                    onClick={e => e.stopPropagation()}
+                  >
+                    {formatPlaybackRate(playbackRate)}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className={`w-36 ${isFullscreen ? 'z-50' : ''}`}>
+                  <DropdownMenuLabel className="text-xs text-muted-foreground">Speed for everyone</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {PLAYBACK_RATES.map(rate => (
+                    <DropdownMenuItem
+                      key={rate}
+                      onClick={() => onPlaybackRateChange(rate)}
+                      className={`font-mono ${rate === playbackRate ? 'bg-accent' : ''}`}
+                    >
+                      {rate === 1 ? 'Normal' : formatPlaybackRate(rate)}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            {!isCasting && !isHost && playbackRate !== 1 && (
+              <span
+                className={`rounded-md border border-border bg-black/60 px-2 py-1 font-mono text-primary-foreground ${isFullscreen ? 'text-sm' : 'text-xs'}`}
+                title="The host set a different playback speed for everyone"
+              >
+                {formatPlaybackRate(playbackRate)}
+              </span>
+            )}
+
+            {/* HLS quality and audio language */}
+            {!isCasting && hlsRenditions && onHlsLevelChange && onHlsAudioTrackChange && (
+              <HlsRenditionMenus
+                renditions={hlsRenditions}
+                onLevelChange={onHlsLevelChange}
+                onAudioTrackChange={onHlsAudioTrackChange}
+                isFullscreen={isFullscreen}
+              />
+            )}
+
             {/* Subtitle Controls */}
             {onAddSubtitleTracks && onActiveSubtitleTrackChange && !isCasting && (
               <SubtitleManager
@@ -643,6 +817,13 @@ export function VideoControls({
                 onAddTracks={onAddSubtitleTracks}
                 onRemoveTrack={onRemoveSubtitleTrack || (() => {})}
                 onActiveTrackChange={onActiveSubtitleTrackChange}
+                secondaryTrackId={secondarySubtitleTrack}
+                onSecondaryTrackChange={onSecondarySubtitleTrackChange}
+                roomTrackId={roomSubtitleTrackId}
+                onShareTrack={onShareSubtitleTrack}
+                videoId={subtitleVideoId}
+                getCurrentTime={() => videoRef?.current?.currentTime ?? currentTime}
+                onToggleTranscript={onToggleTranscript}
                 currentVideoTitle={currentVideoTitle}
                 isHost={isHost}
                 isFullscreen={isFullscreen}
@@ -1,3 +1,5 @@
 export { useVideoSync } from './use-video-sync';
-export type { VideoPlayerRef } from './use-video-sync';
+export type { VideoPlayerRef, PlayerRefs } from './use-video-sync';
 export { useClockOffset } from './use-clock-offset';
+export { useVideoChapters } from './use-video-chapters';
+export { useCodecPreflight } from './use-codec-preflight';
@@ -3,92 +3,146 @@
 import { useRef, useState, useEffect, useCallback } from 'react';
 import { useSocket } from '@/src/core/socket';
 import { logDebug } from '@/src/core/logger';
+import { CLOCK_BURST_PROBE_COUNT, CLOCK_BURST_PROBE_INTERVAL_MS, CLOCK_REPROBE_INTERVAL_MS } from '@/src/lib/constants';
+import {
+  addClockSample,
+  createClockEstimatorState,
+  estimateClock,
+  projectClockOffset,
+  type ClockEstimate,
+} from '@/src/features/video-sync/lib/clock-estimator';
+
+interface ClockSnapshot {
+  offset: number;
+  rtt: number;
+  confidence: number;
+}
 
-const PROBE_COUNT = 5;
-const PROBE_INTERVAL_MS = 200;
-
-// NTP-style clock offset measurement
+// NTP-style clock offset tracking: a fast probe burst on every (re)connect, then a slow background
+// re-probe so sleep, NTP jumps and skew over a long session keep feeding the estimator.
 export function useClockOffset() {
   const { socket } = useSocket();
-  const [clockOffset, setClockOffset] = useState(0);
-  const measuredRef = useRef(false);
+  const [snapshot, setSnapshot] = useState<ClockSnapshot | null>(null);
+  const estimateRef = useRef<ClockEstimate | null>(null);
 
   useEffect(() => {
     if (!socket) return;
 
-    type Sample = { rtt: number; offset: number };
-    const samples: Sample[] = [];
-    let probesSent = 0;
-    let probeTimer: ReturnType<typeof setTimeout> | null = null;
-
-    const handlePong = ({ clientSendTime, serverTime }: { clientSendTime: number; serverTime: number }) => {
-      const now = Date.now();
-      const rtt = now - clientSendTime;
-      const offset = serverTime - (clientSendTime + rtt / 2);
-      samples.push({ rtt, offset });
+    const state = createClockEstimatorState();
+    let burstRemaining = 0;
+    let burstTimer: ReturnType<typeof setTimeout> | null = null;
+    let lastReprobeTick = Date.now();
+
+    const publish = () => {
+      const estimate = estimateClock(state);
+      estimateRef.current = estimate;
+      if (!estimate) return;
+
+      const next: ClockSnapshot = {
+        offset: Math.round(projectClockOffset(estimate, Date.now())),
+        rtt: Math.round(estimate.rtt),
+        confidence: estimate.confidence,
+      };
+
+      // Only re-render consumers when a rounded value actually moved
+      setSnapshot(prev =>
+        prev && prev.offset === next.offset && prev.rtt === next.rtt && prev.confidence === next.confidence
+          ? prev
+          : next
+      );
+    };
 
-      logDebug('video', 'clock_sample', `Clock sample: rtt=${rtt}ms, offset=${offset.toFixed(1)}ms`);
+    const sendProbe = () => {
+      socket.emit('time-ping', { clientSendTime: Date.now() });
+    };
 
-      if (samples.length >= PROBE_COUNT) {
-        finalize();
+    const sendBurstProbe = () => {
+      burstTimer = null;
+      if (burstRemaining <= 0) return;
+      sendProbe();
+      burstRemaining--;
+      if (burstRemaining > 0) {
+        burstTimer = setTimeout(sendBurstProbe, CLOCK_BURST_PROBE_INTERVAL_MS);
       }
     };
 
-    const finalize = () => {
-      if (samples.length === 0) return;
-
-      // Discard the sample with highest RTT (most likely delayed/queued)
-      const sorted = [...samples].sort((a, b) => a.rtt - b.rtt);
-      const trimmed = sorted.slice(0, -1); // drop worst
-      const candidates = trimmed.length > 0 ? trimmed : sorted;
+    const startBurst = () => {
+      if (burstRemaining > 0) return;
+      burstRemaining = CLOCK_BURST_PROBE_COUNT;
+      sendBurstProbe();
+    };
 
-      const avgOffset = candidates.reduce((sum, s) => sum + s.offset, 0) / candidates.length;
-      const rounded = Math.round(avgOffset);
-      setClockOffset(rounded);
-      measuredRef.current = true;
+    const handlePong = ({ clientSendTime, serverTime }: { clientSendTime: number; serverTime: number }) => {
+      const outcome = addClockSample(state, { clientSendTime, serverTime }, Date.now());
 
-      logDebug('video', 'clock_offset', `Clock offset finalized: ${rounded}ms (from ${candidates.length} samples)`);
-    };
+      logDebug('video', 'clock_sample', `Clock sample ${outcome}: rtt=${Date.now() - clientSendTime}ms`, {
+        samples: state.samples.length,
+      });
 
-    const sendProbe = () => {
-      if (probesSent >= PROBE_COUNT) return;
-      socket.emit('time-ping', { clientSendTime: Date.now() });
-      probesSent++;
+      if (outcome === 'step-pending') {
+        // Possible sleep/NTP jump — gather confirming samples quickly instead of waiting a full interval
+        startBurst();
+        return;
+      }
+      if (outcome === 'rejected') return;
 
-      if (probesSent < PROBE_COUNT) {
-        probeTimer = setTimeout(sendProbe, PROBE_INTERVAL_MS);
+      if (outcome === 'step-reset') {
+        logDebug('video', 'clock_step', 'Clock step confirmed, estimator window reset');
       }
+      publish();
     };
 
-    const startMeasurement = () => {
-      samples.length = 0;
-      probesSent = 0;
-      measuredRef.current = false;
-      sendProbe();
+    const handleConnect = () => {
+      startBurst();
     };
 
+    const reprobeInterval = setInterval(() => {
+      if (!socket.connected) return;
+      const now = Date.now();
+      // A tick that arrives far later than scheduled means the machine was asleep (or the tab was
+      // frozen) — the clock may have stepped, so re-burst rather than trickle a single probe.
+      const slept = now - lastReprobeTick > CLOCK_REPROBE_INTERVAL_MS * 2;
+      lastReprobeTick = now;
+      if (slept) {
+        logDebug('video', 'clock_wake', 'Re-probe tick arrived late, re-bursting clock probes');
+        startBurst();
+      } else {
+        sendProbe();
+      }
+    }, CLOCK_REPROBE_INTERVAL_MS);
+
     socket.on('time-pong', handlePong);
 
-    // Measure on current connection and on every reconnect
+    // Burst on current connection and on every reconnect
     if (socket.connected) {
-      startMeasurement();
+      startBurst();
     }
-    socket.on('connect', startMeasurement);
+    socket.on('connect', handleConnect);
 
     return () => {
       socket.off('time-pong', handlePong);
-      socket.off('connect', startMeasurement);
-      if (probeTimer) clearTimeout(probeTimer);
+      socket.off('connect', handleConnect);
+      clearInterval(reprobeInterval);
+      if (burstTimer) clearTimeout(burstTimer);
+      estimateRef.current = null;
     };
   }, [socket]);
 
+  // Reads the live estimate so skew is applied continuously, not only when state last changed; useVideoSync
+  // reads server time through this
   const getServerNow = useCallback(() => {
-    return Date.now() + clockOffset;
-  }, [clockOffset]);
+    const now = Date.now();
+    const estimate = estimateRef.current;
+    return now + (estimate ? projectClockOffset(estimate, now) : 0);
+  }, []);
 
   return {
-    clockOffset,
-    isMeasured: measuredRef.current,
+    clockOffset: snapshot?.offset ?? 0,
+    /** Smallest round trip in the estimator window (ms); 0 until measured. */
+    clockRtt: snapshot?.rtt ?? 0,
+    /** 0 (unmeasured) .. 1 (tight, consistent window). */
+    clockConfidence: snapshot?.confidence ?? 0,
+    isMeasured: snapshot !== null,
     getServerNow,
   };
 }
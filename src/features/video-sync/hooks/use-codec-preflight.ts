@@ -0,0 +1,249 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Socket } from 'socket.io-client';
+import { toast } from 'sonner';
+import type { CodecCapabilityMatrixResponse, CodecCapabilityReport, User, VideoMeta, VideoType } from '@/types';
+import { logDebug } from '@/src/core/logger';
+import {
+  getCodecContentType,
+  getCodecKind,
+  parseContainerHint,
+  parseHlsVariantCodecs,
+  summarizeCodecSupport,
+  toCodecReportEntries,
+  type DeclaredVariant,
+} from '@/src/core/video/codec-preflight';
+import { isEmbedVideoType } from '@/src/lib/video-utils';
+import { buildProxyUrl, isProxiedUrl, PROXY_ENABLED } from '@/src/lib/video-proxy-client';
+
+// Preflight is best-effort; a slow origin shouldn't keep the verdict (or the warning) waiting
+const MANIFEST_TIMEOUT_MS = 5000;
+
+// MediaCapabilities needs a full video configuration; variants without RESOLUTION/BANDWIDTH probe as 1080p
+const DEFAULT_PROBE_VIDEO = { width: 1920, height: 1080, bitrate: 5_000_000, framerate: 30 };
+
+// hls.js and dash.js append to MediaSource; plain files go straight to the <video> element
+type ProbePipeline = 'mse' | 'element';
+
+interface UseCodecPreflightOptions {
+  roomId: string;
+  socket: Socket | null;
+  isConnected: boolean;
+  /** room.videoUrl — reports and the matrix are keyed by it. */
+  videoUrl: string | undefined;
+  videoType: VideoType | undefined;
+  videoMeta: VideoMeta | undefined;
+  isHost: boolean;
+  users: User[];
+  currentUserId: string | undefined;
+}
+
+function getMediaSource(): typeof MediaSource | undefined {
+  // iOS Safari 17.1+ only exposes ManagedMediaSource
+  const managed = (window as Window & { ManagedMediaSource?: typeof MediaSource }).ManagedMediaSource;
+  return window.MediaSource ?? managed;
+}
+
+/** MediaCapabilities first (it knows about resolution and hardware decode), then the older yes/no checks. */
+async function probeCodec(
+  codec: string,
+  variant: DeclaredVariant,
+  pipeline: ProbePipeline,
+  mimeType: string | null
+): Promise<boolean | null> {
+  const kind = getCodecKind(codec);
+  if (kind === 'text') return null;
+  const contentType = getCodecContentType(codec, mimeType);
+
+  if (navigator.mediaCapabilities?.decodingInfo) {
+    try {
+      const type = pipeline === 'mse' ? 'media-source' : 'file';
+      const info = await navigator.mediaCapabilities.decodingInfo(
+        kind === 'audio'
+          ? { type, audio: { contentType } }
+          : {
+              type,
+              video: {
+                contentType,
+                width: variant.width ?? DEFAULT_PROBE_VIDEO.width,
+                height: variant.height ?? DEFAULT_PROBE_VIDEO.height,
+                bitrate: variant.bandwidth ?? DEFAULT_PROBE_VIDEO.bitrate,
+                framerate: DEFAULT_PROBE_VIDEO.framerate,
+              },
+            }
+      );
+      return info.supported;
+    } catch {
+      // A codec string the browser can't parse throws here; the checks below answer it instead
+    }
+  }
+
+  const mediaSource = pipeline === 'mse' ? getMediaSource() : undefined;
+  if (mediaSource) return mediaSource.isTypeSupported(contentType);
+  return document.createElement('video').canPlayType(contentType) !== '';
+}
+
+/** The multivariant playlist, direct first and through the proxy when the origin won't hand it to us. */
+async function fetchManifest(url: string, signal: AbortSignal): Promise<string | null> {
+  const candidates = PROXY_ENABLED && !isProxiedUrl(url) ? [url, buildProxyUrl(url)] : [url];
+  for (const candidate of candidates) {
+    try {
+      const response = await fetch(candidate, { signal });
+      if (response.ok) return await response.text();
+    } catch {
+      if (signal.aborted) return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Codec preflight. When a video is set, every client checks the stream's declared codecs against what its
+ * browser can decode, warns its own viewer before playback falls over, and reports the verdict. Hosts get
+ * back the per-client matrix, keyed by user id, and a heads-up whenever someone turns out unable to play.
+ */
+export function useCodecPreflight({
+  roomId,
+  socket,
+  isConnected,
+  videoUrl,
+  videoType,
+  videoMeta,
+  isHost,
+  users,
+  currentUserId,
+}: UseCodecPreflightOptions): Map<string, CodecCapabilityReport> {
+  const [codecReports, setCodecReports] = useState<Map<string, CodecCapabilityReport>>(() => new Map());
+  const codecReportsRef = useRef(codecReports);
+  const videoUrlRef = useRef(videoUrl);
+  const isHostRef = useRef(isHost);
+  const usersRef = useRef(users);
+  const currentUserIdRef = useRef(currentUserId);
+
+  useEffect(() => {
+    isHostRef.current = isHost;
+    usersRef.current = users;
+    currentUserIdRef.current = currentUserId;
+  }, [isHost, users, currentUserId]);
+
+  // Reports belong to one video; start over whenever it changes
+  useEffect(() => {
+    videoUrlRef.current = videoUrl;
+    const empty = new Map<string, CodecCapabilityReport>();
+    codecReportsRef.current = empty;
+    setCodecReports(empty);
+  }, [videoUrl]);
+
+  const playbackUrl = videoMeta?.playbackUrl ?? videoUrl;
+  const containerHint = videoMeta?.containerHint;
+  const codecWarning = videoMeta?.codecWarning;
+
+  useEffect(() => {
+    if (!socket || !isConnected || !videoUrl || !playbackUrl || !videoType || isEmbedVideoType(videoType)) return;
+
+    let cancelled = false;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), MANIFEST_TIMEOUT_MS);
+    const hint = containerHint ? parseContainerHint(containerHint) : null;
+
+    const run = async () => {
+      let variants: DeclaredVariant[] = hint?.codecs.length ? [{ codecs: hint.codecs }] : [];
+      let pipeline: ProbePipeline = videoType === 'mpd' ? 'mse' : 'element';
+
+      if (videoType === 'm3u8') {
+        // Without MediaSource, HLS is Safari's native player
+        pipeline = getMediaSource() ? 'mse' : 'element';
+        const manifest = await fetchManifest(playbackUrl, controller.signal);
+        const declared = manifest ? parseHlsVariantCodecs(manifest) : [];
+        if (declared.some(variant => variant.codecs.length > 0)) variants = declared;
+      }
+
+      // Segmented streams reach the decoder as fMP4 whatever they're served in; files play as-is
+      const mimeType = videoType === 'mp4' ? (hint?.mimeType ?? null) : null;
+      const results = await Promise.all(
+        variants.map(variant =>
+          Promise.all(variant.codecs.map(codec => probeCodec(codec, variant, pipeline, mimeType)))
+        )
+      );
+      const container =
+        videoType === 'mp4' && hint?.mimeType
+          ? { name: hint.name, supported: document.createElement('video').canPlayType(hint.mimeType) !== '' }
+          : undefined;
+      if (cancelled) return;
+
+      const { verdict, unsupportedCodecs } = summarizeCodecSupport({ variants, results, container });
+      logDebug('video', 'codec_preflight', 'Codec preflight finished', {
+        verdict,
+        unsupportedCodecs,
+        pipeline,
+        variants: variants.length,
+      });
+      socket.emit('codec-capability-report', {
+        roomId,
+        videoUrl,
+        verdict,
+        unsupportedCodecs: toCodecReportEntries(unsupportedCodecs),
+      });
+
+      if (verdict === 'unsupported') {
+        toast.warning(`Your browser can't decode this video (${unsupportedCodecs.join(', ')}).`, {
+          description: isHostRef.current
+            ? 'Everyone else might be fine, but you may want to pick another link.'
+            : "We've let the host know so they can find another link.",
+        });
+      } else if (verdict === 'unknown' && codecWarning) {
+        // Nothing we could check ourselves, so pass on whatever the server spotted
+        toast.warning(codecWarning);
+      }
+    };
+
+    run()
+      .catch(error => {
+        logDebug('video', 'codec_preflight_failed', 'Codec preflight failed', { error: String(error) });
+      })
+      .finally(() => clearTimeout(timeout));
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+      clearTimeout(timeout);
+    };
+  }, [socket, isConnected, roomId, videoUrl, playbackUrl, videoType, containerHint, codecWarning]);
+
+  useEffect(() => {
+    if (!socket || !isConnected || !isHost) return;
+
+    const handleCodecMatrix = ({ videoUrl: matrixUrl, reports }: CodecCapabilityMatrixResponse) => {
+      if (matrixUrl !== videoUrlRef.current) return;
+
+      const previous = codecReportsRef.current;
+      const next = new Map(reports.map(report => [report.userId, report]));
+      codecReportsRef.current = next;
+      setCodecReports(next);
+
+      const newlyBlocked = reports.filter(
+        report =>
+          report.verdict === 'unsupported' &&
+          report.userId !== currentUserIdRef.current &&
+          previous.get(report.userId)?.verdict !== 'unsupported'
+      );
+      if (newlyBlocked.length === 0) return;
+
+      const names = newlyBlocked
+        .map(report => usersRef.current.find(user => user.id === report.userId)?.name)
+        .filter((name): name is string => Boolean(name));
+      const codecs = [...new Set(newlyBlocked.flatMap(report => report.unsupportedCodecs))];
+      toast.warning(`${names.length > 0 ? names.join(', ') : 'Someone'} can't play this video.`, {
+        description: `Their browser can't decode ${codecs.join(', ') || 'it'}. Another link might work for everyone.`,
+      });
+    };
+
+    socket.on('codec-capability-matrix', handleCodecMatrix);
+    return () => {
+      socket.off('codec-capability-matrix', handleCodecMatrix);
+    };
+  }, [socket, isConnected, isHost]);
+
+  return codecReports;
+}
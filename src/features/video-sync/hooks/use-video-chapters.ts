@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Chapter, VideoType, YouTubeChaptersResponse } from '@/types';
+import { logDebug } from '@/src/core/logger';
+import { chaptersFromCues } from '../lib/chapters';
+
+interface UseVideoChaptersOptions {
+  videoType: VideoType | undefined;
+  /** YouTube video ID; its description timestamps are looked up server-side. */
+  youTubeId?: string;
+  /** The <video> behind mp4/HLS/DASH playback; its kind="chapters" text tracks are read. */
+  videoElement: HTMLVideoElement | null;
+  /** Chapters the stream itself carries (HLS DATERANGE / ID3), reported by the player. */
+  streamChapters: Chapter[];
+}
+
+/**
+ * Chapters for the current video. Every client derives them from the same source, so nothing is synced.
+ * A WebVTT chapters track wins over stream metadata when a video has both.
+ */
+export function useVideoChapters({
+  videoType,
+  youTubeId,
+  videoElement,
+  streamChapters,
+}: UseVideoChaptersOptions): Chapter[] {
+  const [youTubeChapters, setYouTubeChapters] = useState<Chapter[]>([]);
+  const [trackChapters, setTrackChapters] = useState<Chapter[]>([]);
+
+  useEffect(() => {
+    setYouTubeChapters([]);
+    if (videoType !== 'youtube' || !youTubeId) return;
+
+    const controller = new AbortController();
+    fetch(`/api/youtube/chapters?videoId=${encodeURIComponent(youTubeId)}`, { signal: controller.signal })
+      .then(response => (response.ok ? (response.json() as Promise<YouTubeChaptersResponse>) : { chapters: [] }))
+      .then(({ chapters }) => setYouTubeChapters(chapters))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        logDebug('video', 'chapters_fetch_failed', 'YouTube chapter lookup failed', { error: String(error) });
+      });
+
+    return () => controller.abort();
+  }, [videoType, youTubeId]);
+
+  useEffect(() => {
+    setTrackChapters([]);
+    if (!videoElement) return;
+
+    const read = () => {
+      const cues: { startTime: number; text: string }[] = [];
+      for (const track of Array.from(videoElement.textTracks)) {
+        if (track.kind !== 'chapters') continue;
+        // Disabled tracks never load their cues; hidden ones do without rendering anything
+        if (track.mode === 'disabled') track.mode = 'hidden';
+        for (const cue of Array.from(track.cues ?? [])) {
+          cues.push({ startTime: cue.startTime, text: (cue as VTTCue).text ?? '' });
+        }
+      }
+      setTrackChapters(chaptersFromCues(cues));
+    };
+
+    read();
+    videoElement.textTracks.addEventListener('addtrack', read);
+    videoElement.addEventListener('loadedmetadata', read);
+    // <track> load events don't bubble, so listen in the capture phase
+    videoElement.addEventListener('load', read, true);
+
+    return () => {
+      videoElement.textTracks.removeEventListener('addtrack', read);
+      videoElement.removeEventListener('loadedmetadata', read);
+      videoElement.removeEventListener('load', read, true);
+    };
+  }, [videoElement]);
+
+  if (videoType === 'youtube') return youTubeChapters;
+  return trackChapters.length > 0 ? trackChapters : streamChapters;
+}
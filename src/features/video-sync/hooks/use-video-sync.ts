@@ -1,14 +1,38 @@
 'use client';
 
-import { useRef, useCallback, useEffect } from 'react';
+import { useRef, useCallback, useEffect, useState } from 'react';
 import { useSocket } from '@/src/core/socket';
-import { YouTubePlayerRef, YT_STATES } from '@/src/core/video/youtube-player';
-import { HLSPlayerRef } from '@/src/core/video/hls-player';
-import { CastPlayerRef } from '@/src/features/media/cast';
 import { calculateCurrentTime } from '@/src/lib/video-utils';
 import { SYNC_COOLDOWN_MS, HOST_REANCHOR_MS, SYNC_CORRECTOR_INTERVAL_MS } from '@/src/lib/constants';
-import { decideCorrection, shouldApplySyncUpdate, type CorrectorMode } from '@/src/features/video-sync/lib/corrector';
-import { Room, User } from '@/types';
+import {
+  createPiCorrectorState,
+  decidePiCorrection,
+  shouldApplySyncUpdate,
+  type PiCorrectorState,
+} from '@/src/features/video-sync/lib/corrector';
+import type { SyncDiagnostics } from '@/src/features/video-sync/lib/diagnostics';
+import {
+  deriveCorrectorMode,
+  toPlaybackState,
+  type PlayerAdapter,
+  type PlayerPlaybackState,
+} from '@/src/features/video-sync/lib/player-adapter';
+import {
+  resolvePlayerAdapter,
+  resolvePlayerHandle,
+  resolvePlayerSource,
+  type PlayerRefs,
+  type PlayerSource,
+} from '@/src/features/video-sync/lib/player-registry';
+import { decideCatchUp } from '@/src/features/video-sync/lib/catch-up';
+import { clampToLiveWindow } from '@/src/features/video-sync/lib/live';
+import { canPlayAtRate, resolveSyncRate } from '@/src/features/video-sync/lib/playback-rate';
+import {
+  advanceLocalBuffering,
+  createLocalBufferingState,
+  type LocalBufferingState,
+} from '@/src/features/video-sync/lib/buffering-barrier';
+import { BufferingBarrierResponse, Room, User } from '@/types';
 import { logDebug } from '@/src/core/logger';
 
 // Re-export VideoPlayerRef type for consumers
@@ -24,16 +48,42 @@ export interface VideoPlayerRef {
   setPlaybackRate?: (rate: number) => void;
 }
 
+// A live room's position can sit outside this viewer's DVR window (slid out of it while paused, or ahead of
+// an older playlist); aim for the nearest point the player can reach instead of re-seeking at the impossible one
+function getReachableTarget(player: PlayerAdapter, time: number): number {
+  return player.getCapabilities().live ? clampToLiveWindow(time, player.getSeekableRanges()) : time;
+}
+
+// Until an HLS playlist loads the player reads media time, and the stream clock once it turns out to be live
+// (see live.ts). A host position sent in between lands on the wrong clock for everyone, so host events wait;
+// the periodic re-anchor brings the room up to date once the timeline is known.
+function isTimelinePending(player: PlayerAdapter): boolean {
+  return player.getCapabilities().timeline === 'pending';
+}
+
+export type { PlayerRefs };
+
 interface UseVideoSyncOptions {
   room: Room | null;
   currentUser: User | null;
   roomId: string;
-  youtubePlayerRef: React.RefObject<YouTubePlayerRef | null>;
-  videoPlayerRef: React.RefObject<VideoPlayerRef | null>;
-  hlsPlayerRef: React.RefObject<HLSPlayerRef | null>;
-  castPlayerRef?: React.RefObject<CastPlayerRef | null>;
+  /** Must be stable across renders (memoize it) — it's a dependency of every sync callback. */
+  playerRefs: PlayerRefs;
   isCasting?: boolean;
   clockOffset?: number;
+  /**
+   * Server time right now from useClockOffset's live estimate (skew projected per call). Preferred over
+   * clockOffset, which is a rounded snapshot that only moves when the estimate is republished.
+   */
+  getServerNow?: () => number;
+  /** Smallest clock-probe round trip (ms) from useClockOffset; bounds the projection error. */
+  clockRtt?: number;
+  /** Clock estimate confidence (0..1) from useClockOffset; 0 = not yet measured. */
+  clockConfidence?: number;
+  /** Viewer's catch-up speed (relative to the room's) instead of hard-seeking when behind; null = off. */
+  catchUpRate?: number | null;
+  /** Host only: fires once each time the current video plays through to its end. */
+  onEnded?: () => void;
 }
 
 interface UseVideoSyncReturn {
@@ -42,23 +92,39 @@ interface UseVideoSyncReturn {
   stopSyncCheck: () => void;
   handleVideoPlay: () => void;
   handleVideoPause: () => void;
-  handleVideoSeek: () => void;
+  /** Broadcast the player's position; with explicitTime, move the player that owns playback there first. */
+  handleVideoSeek: (explicitTime?: number) => void;
+  handlePlaybackRateChange: (rate: number) => void;
+  /** Coarse state reports from 'state'-event players; seeks are inferred from position jumps. */
+  handlePlayerStateChange: (state: PlayerPlaybackState) => void;
   handleYouTubeStateChange: (state: number) => void;
   handleSetVideo: (videoUrl: string, pageUrl?: string | null) => void;
   handleVideoControlAttempt: () => void;
   applyPendingSync: () => void;
+  /** Live corrector/clock state for the stats-for-nerds overlay. Reads refs; never triggers a render. */
+  getSyncDiagnostics: () => SyncDiagnostics;
+  /** Latest barrier broadcast while "wait for everyone" is holding or resuming the room; null otherwise. */
+  bufferingBarrier: BufferingBarrierResponse | null;
+  /** Shared room playback speed from the latest sync anchor. */
+  playbackRate: number;
+  /** Whole seconds left until a catch-up run is back in step; null when not catching up. */
+  catchUpRemainingS: number | null;
+  /** The room's speed while this viewer's player can't play at it (Cast, Twitch); null when it can. */
+  unmatchedRoomRate: number | null;
 }
 
 export function useVideoSync({
   room,
   currentUser,
   roomId,
-  youtubePlayerRef,
-  videoPlayerRef,
-  hlsPlayerRef,
-  castPlayerRef,
+  playerRefs,
   isCasting = false,
   clockOffset = 0,
+  getServerNow,
+  clockRtt = 0,
+  clockConfidence = 0,
+  catchUpRate = null,
+  onEnded,
 }: UseVideoSyncOptions): UseVideoSyncReturn {
   const { socket } = useSocket();
 
@@ -77,74 +143,199 @@ export function useVideoSync({
     rate: number;
   } | null>(null);
 
-  // Whether the current player's playbackRate is currently nudged away from 1.0
+  // Whether the current player's playbackRate is currently nudged away from the shared base rate
   const rateNudgedRef = useRef<boolean>(false);
+  // playbackRate last written to the current player; reset when the player instance changes
+  const appliedRateRef = useRef<number>(1);
+  // Local wall-clock (ms) at which a stepped-mode glide snaps back to the base rate; null when idle
+  const glideUntilRef = useRef<number | null>(null);
+  // PI corrector state per player source (e.g. 'm3u8', 'cast'); a cast hand-off and back resumes
+  // the local player's history, a new video clears it
+  const piStatesRef = useRef(new Map<string, PiCorrectorState>());
+  // Host-chosen shared speed, mirrored from the latest anchor for the speed menu
+  const [playbackRate, setPlaybackRate] = useState<number>(1);
   // Latest sync-update anchor, continuously re-projected by the local corrector loop
   const syncAnchorRef = useRef<{ currentTime: number; isPlaying: boolean; rate: number; timestamp: number } | null>(
     null
   );
   const correctorIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Last corrector decision, kept only for diagnostics
+  const lastCorrectionRef = useRef<{ drift: number; action: SyncDiagnostics['correction']; rate: number } | null>(null);
+  const hardSeekCountRef = useRef<number>(0);
+  const [catchUpRemainingS, setCatchUpRemainingS] = useState<number | null>(null);
+  const [unmatchedRoomRate, setUnmatchedRoomRate] = useState<number | null>(null);
+  // Hosts are the room's reference point, so only guests ever catch up
+  const catchUpRateRef = useRef(catchUpRate);
+  catchUpRateRef.current = currentUser?.isHost ? null : catchUpRate;
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+
+  // "Wait for everyone" barrier: local stall tracking plus the room-wide broadcast
+  const waitForEveryone = room?.settings?.waitForEveryone ?? false;
+  const localBufferingRef = useRef<LocalBufferingState>(createLocalBufferingState());
+  const [bufferingBarrier, setBufferingBarrier] = useState<BufferingBarrierResponse | null>(null);
+  const waitForEveryoneRef = useRef(waitForEveryone);
+  waitForEveryoneRef.current = waitForEveryone;
 
   // Keep clockOffset in a ref so all callbacks always read the latest value
   const clockOffsetRef = useRef(clockOffset);
   clockOffsetRef.current = clockOffset;
+  const getServerNowRef = useRef(getServerNow);
+  getServerNowRef.current = getServerNow;
 
-  // Get current player based on video type (prioritize cast player when casting)
-  const getCurrentPlayer = useCallback(() => {
-    if (!room) return null;
+  // Offset to server time at this instant: the live estimate when there is one, else the last snapshot
+  const getLiveClockOffset = useCallback(() => {
+    const readServerNow = getServerNowRef.current;
+    return readServerNow ? readServerNow() - Date.now() : clockOffsetRef.current;
+  }, []);
+  const clockRttRef = useRef(clockRtt);
+  clockRttRef.current = clockRtt;
+  const clockConfidenceRef = useRef(clockConfidence);
+  clockConfidenceRef.current = clockConfidence;
+
+  // Which registered source owns playback right now (the cast session wins while casting)
+  const getPlayerSource = useCallback(
+    (): PlayerSource | null => resolvePlayerSource(room?.videoType, playerRefs, isCasting),
+    [room?.videoType, isCasting, playerRefs]
+  );
 
-    // Prioritize cast player when casting is active
-    if (isCasting && castPlayerRef?.current) {
-      return castPlayerRef.current;
+  const getCurrentPlayer = useCallback((): PlayerAdapter | null => {
+    const source = getPlayerSource();
+    return source ? resolvePlayerAdapter(source, resolvePlayerHandle(playerRefs, source)) : null;
+  }, [getPlayerSource, playerRefs]);
+
+  // The barrier effect must survive unrelated room updates (joins, renames), so it reads the
+  // player getter through a ref instead of depending on it
+  const getCurrentPlayerRef = useRef(getCurrentPlayer);
+  getCurrentPlayerRef.current = getCurrentPlayer;
+
+  const getPiState = useCallback((): PiCorrectorState => {
+    const source = getPlayerSource() ?? 'none';
+    let state = piStatesRef.current.get(source);
+    if (!state) {
+      state = createPiCorrectorState();
+      piStatesRef.current.set(source, state);
     }
-
-    return room.videoType === 'youtube'
-      ? youtubePlayerRef.current
-      : room.videoType === 'm3u8'
-        ? hlsPlayerRef.current
-        : videoPlayerRef.current;
-  }, [room, youtubePlayerRef, videoPlayerRef, hlsPlayerRef, castPlayerRef, isCasting]);
-
-  // Determine corrector mode: YouTube and Cast use the seek path (discrete
-  // playbackRate steps / no rate setter); HTML5 (mp4) and HLS glide via playbackRate nudge.
-  const getCorrectorMode = useCallback((): CorrectorMode => {
-    if (!room) return 'seek';
-    if (room.videoType === 'youtube') return 'seek';
-    if (isCasting) return 'seek';
-    return 'rate';
-  }, [room, isCasting]);
+    return state;
+  }, [getPlayerSource]);
 
   // Shared dual-band correction application, used by both the discrete syncVideo
   // hard/soft-band handling and the local ~400ms projection corrector loop.
   const applyCorrection = useCallback(
-    (
-      player: VideoPlayerRef | HLSPlayerRef | YouTubePlayerRef | CastPlayerRef,
-      mode: CorrectorMode,
-      drift: number,
-      targetTime: number
-    ) => {
-      const serverNow = Date.now() + clockOffsetRef.current;
+    (player: PlayerAdapter, drift: number, targetTime: number) => {
+      const serverNow = Date.now() + getLiveClockOffset();
       const cooldownElapsed = serverNow - lastSyncTimeRef.current > SYNC_COOLDOWN_MS;
 
-      const correction = decideCorrection({
-        drift,
+      // The offset estimate is only good to about half the probe RTT, so drift inside that
+      // uncertainty is indistinguishable from measurement error — shave it off before deciding.
+      const uncertaintyS = clockRttRef.current / 2000;
+      const measuredDrift = Math.sign(drift) * Math.max(0, Math.abs(drift) - uncertaintyS);
+
+      const baseRate = syncAnchorRef.current?.rate ?? 1;
+      const capabilities = player.getCapabilities();
+      const mode = deriveCorrectorMode(capabilities);
+      const rates = capabilities.discreteRates ?? undefined;
+
+      // A player stuck at 1x can't follow a 2x room: chasing it would hard-seek every couple of seconds. Leave
+      // the position alone (play/pause still follow) and say why; the corrector picks up again back at 1x.
+      if (!canPlayAtRate(capabilities, baseRate)) {
+        setUnmatchedRoomRate(baseRate);
+        setCatchUpRemainingS(null);
+        lastCorrectionRef.current = { drift, action: 'none', rate: 1 };
+        return;
+      }
+      setUnmatchedRoomRate(null);
+
+      // Every non-nudge outcome settles on the shared base rate. Writing only on change also picks
+      // up a host speed change on the next pass without a dedicated code path.
+      const applyRate = (rate: number) => {
+        if (appliedRateRef.current === rate) return;
+        player.setPlaybackRate(rate);
+        appliedRateRef.current = rate;
+      };
+
+      // No position to compare with the room's yet (an HLS playlist still loading reads media time) or at all
+      // (a live stream anchored only to this viewer's view of its edge, where the "drift" would mostly be when
+      // each playlist refresh landed). Stay where the player put it; play/pause still follow.
+      if (capabilities.timeline !== 'shared') {
+        glideUntilRef.current = null;
+        applyRate(baseRate);
+        rateNudgedRef.current = false;
+        setCatchUpRemainingS(null);
+        lastCorrectionRef.current = { drift, action: 'none', rate: baseRate };
+        return;
+      }
+
+      // Catch-up takes over the hard-band seek for a viewer who opted in; once drift is back in the
+      // soft band it returns null and the regular corrector glides out the rest.
+      const catchUp =
+        catchUpRateRef.current !== null && syncAnchorRef.current?.isPlaying
+          ? decideCatchUp({
+              drift: measuredDrift,
+              mode,
+              catchUpRate: catchUpRateRef.current,
+              baseRate,
+              availableRates: rates,
+            })
+          : null;
+      setCatchUpRemainingS(catchUp ? Math.ceil(catchUp.remainingS) : null);
+      if (catchUp) {
+        glideUntilRef.current = null;
+        applyRate(catchUp.rate);
+        rateNudgedRef.current = true;
+        lastCorrectionRef.current = { drift, action: 'nudge', rate: catchUp.rate };
+        return;
+      }
+
+      const correction = decidePiCorrection(getPiState(), {
+        now: Date.now(),
+        drift: measuredDrift,
         mode,
         rateNudged: rateNudgedRef.current,
         cooldownElapsed,
+        baseRate,
+        availableRates: rates,
       });
+      lastCorrectionRef.current = {
+        drift,
+        action: correction.action,
+        rate: correction.action === 'nudge' ? correction.rate : baseRate,
+      };
 
-      const rateCapable = player as { setPlaybackRate?: (rate: number) => void };
+      // A stepped glide runs for its computed duration rather than being re-decided every pass:
+      // YouTube's coarse getCurrentTime would otherwise flap between steps. Once it's over, snap
+      // back and give the position one pass to settle before measuring again.
+      const glideUntil = glideUntilRef.current;
+      if (glideUntil !== null && correction.action !== 'seek') {
+        if (Date.now() < glideUntil && correction.action === 'nudge') return;
+        glideUntilRef.current = null;
+        applyRate(baseRate);
+        rateNudgedRef.current = false;
+        return;
+      }
 
       if (correction.action === 'nudge') {
-        rateCapable.setPlaybackRate?.(correction.rate);
+        applyRate(correction.rate);
         rateNudgedRef.current = true;
-      } else if (correction.action === 'none') {
-        if (correction.resetRate) {
-          rateCapable.setPlaybackRate?.(1.0);
+        if (correction.durationMs !== undefined) {
+          glideUntilRef.current = Date.now() + correction.durationMs;
+          logDebug(
+            'video',
+            'sync_glide',
+            `Corrector glide: ${drift.toFixed(2)}s drift, ${correction.rate}x for ${Math.round(correction.durationMs)}ms`
+          );
         }
+      } else if (correction.action === 'none') {
+        applyRate(baseRate);
         rateNudgedRef.current = false;
       } else if (correction.action === 'seek') {
-        rateCapable.setPlaybackRate?.(1.0);
+        // With the barrier on, a stalled player is waited for rather than dragged forward past
+        // content it never showed — seeking would only flush what little buffer it has.
+        if (waitForEveryoneRef.current && localBufferingRef.current.phase !== 'ready') {
+          return;
+        }
+        glideUntilRef.current = null;
+        applyRate(baseRate);
         rateNudgedRef.current = false;
         logDebug(
           'video',
@@ -152,16 +343,17 @@ export function useVideoSync({
           `Corrector seek: ${drift.toFixed(2)}s drift, seeking to ${targetTime.toFixed(2)}s`
         );
         player.seekTo(targetTime);
+        hardSeekCountRef.current++;
         lastSyncTimeRef.current = serverNow;
         lastPlayerTimeRef.current = targetTime;
       }
     },
-    []
+    [getPiState, getLiveClockOffset]
   );
 
   // Sync video playback
   const syncVideo = useCallback(
-    (targetTime: number, isPlaying: boolean | null, timestamp: number, rate: number = 1) => {
+    (targetTime: number, isPlaying: boolean | null, timestamp: number, eventRate?: number) => {
       if (!room || !currentUser) return;
 
       // Timestamp-monotonicity guard: drop any authoritative update stamped before the
@@ -174,7 +366,7 @@ export function useVideoSync({
       }
 
       // Don't sync if this user just performed the action (prevent feedback loop)
-      const serverNow = Date.now() + clockOffsetRef.current;
+      const serverNow = Date.now() + getLiveClockOffset();
       const timeSinceLastAction = serverNow - lastControlActionRef.current.timestamp;
       if (lastControlActionRef.current.userId === currentUser.id && timeSinceLastAction < 500) {
         logDebug('video', 'sync_skip', 'Skipping sync - user just performed this action');
@@ -184,34 +376,37 @@ export function useVideoSync({
       // Update the local projection anchor so the corrector loop can glide continuously between
       // network updates. Preserve the last known isPlaying when this call is a pure seek (null).
       const anchorIsPlaying = isPlaying ?? syncAnchorRef.current?.isPlaying ?? false;
+      const rate = resolveSyncRate(eventRate, syncAnchorRef.current?.rate);
       syncAnchorRef.current = { currentTime: targetTime, isPlaying: anchorIsPlaying, rate, timestamp };
+      setPlaybackRate(rate);
 
       const player = getCurrentPlayer();
       if (!player) return;
 
-      // For MP4/HLS, check if player has loaded metadata before syncing
-      if (room.videoType !== 'youtube') {
-        const videoElement = (player as { getVideoElement?: () => HTMLVideoElement | null }).getVideoElement?.();
-        if (videoElement && videoElement.readyState < 1) {
-          // Player not ready, queue sync for later
-          logDebug('video', 'sync_queued', 'Player not ready, queueing sync for after metadata load', {
-            targetTime,
-            readyState: videoElement.readyState,
-          });
-          pendingSyncRef.current = { targetTime, isPlaying, timestamp, rate };
-          return;
-        }
+      // Check the player has loaded metadata before syncing
+      const readyState = player.getReadyState();
+      if (readyState !== null && readyState < 1) {
+        // Player not ready, queue sync for later
+        logDebug('video', 'sync_queued', 'Player not ready, queueing sync for after metadata load', {
+          targetTime,
+          readyState,
+        });
+        pendingSyncRef.current = { targetTime, isPlaying, timestamp, rate };
+        return;
       }
       pendingSyncRef.current = null;
 
-      const adjustedTime = calculateCurrentTime(
-        {
-          currentTime: targetTime,
-          isPlaying: isPlaying ?? false,
-          lastUpdateTime: timestamp,
-          rate,
-        },
-        clockOffsetRef.current
+      const adjustedTime = getReachableTarget(
+        player,
+        calculateCurrentTime(
+          {
+            currentTime: targetTime,
+            isPlaying: isPlaying ?? false,
+            lastUpdateTime: timestamp,
+            rate,
+          },
+          getLiveClockOffset()
+        )
       );
 
       // Check current drift
@@ -222,7 +417,7 @@ export function useVideoSync({
       // Detect large seek for observability (potential decoder stress) — preserved from the
       // legacy hard-seek path.
       const LARGE_SEEK_THRESHOLD_SECONDS = 30;
-      if (syncDiff > LARGE_SEEK_THRESHOLD_SECONDS && room.videoType !== 'youtube') {
+      if (syncDiff > LARGE_SEEK_THRESHOLD_SECONDS && player.getCapabilities().seekableRanges) {
         logDebug('video', 'sync_large_seek', `Large seek detected: ${syncDiff.toFixed(1)}s`, {
           from: currentTime,
           to: adjustedTime,
@@ -230,37 +425,23 @@ export function useVideoSync({
       }
 
       // Dual-band drift correction: dead-band -> nothing, soft-band -> playbackRate
-      // glide (HTML5/HLS only), hard-band -> seek (cooldown-gated). Replaces the old bare
-      // SYNC_TOLERANCE_S hard-seek.
-      applyCorrection(player, getCorrectorMode(), drift, adjustedTime);
+      // glide (rate-capable players only), hard-band -> seek (cooldown-gated). Replaces the old
+      // bare SYNC_TOLERANCE_S hard-seek.
+      applyCorrection(player, drift, adjustedTime);
 
       // Handle play/pause state
       if (isPlaying !== null) {
-        if (room.videoType === 'youtube') {
-          const ytPlayer = player as YouTubePlayerRef;
-          const currentState = ytPlayer.getPlayerState();
-
-          if (isPlaying && currentState !== YT_STATES.PLAYING) {
-            logDebug('video', 'sync_play', 'Syncing play state');
-            ytPlayer.play();
-          } else if (!isPlaying && currentState === YT_STATES.PLAYING) {
-            logDebug('video', 'sync_pause', 'Syncing pause state');
-            ytPlayer.pause();
-          }
-        } else {
-          const videoPlayer = player as VideoPlayerRef | HLSPlayerRef;
-
-          if (isPlaying && videoPlayer.isPaused()) {
-            logDebug('video', 'sync_play', 'Syncing play state');
-            videoPlayer.play();
-          } else if (!isPlaying && !videoPlayer.isPaused()) {
-            logDebug('video', 'sync_pause', 'Syncing pause state');
-            videoPlayer.pause();
-          }
+        const playing = player.getPlaybackState() === 'playing';
+        if (isPlaying && !playing) {
+          logDebug('video', 'sync_play', 'Syncing play state');
+          player.play();
+        } else if (!isPlaying && playing) {
+          logDebug('video', 'sync_pause', 'Syncing pause state');
+          player.pause();
         }
       }
     },
-    [room, currentUser, getCurrentPlayer, applyCorrection, getCorrectorMode]
+    [room, currentUser, getCurrentPlayer, applyCorrection, getLiveClockOffset]
   );
 
   // Slow host->server re-anchor. The server ticker (PlaybackSyncTicker) is now the
@@ -275,28 +456,20 @@ export function useVideoSync({
       if (!room || !currentUser?.isHost || !socket) return;
 
       const player = getCurrentPlayer();
-      if (!player) return;
+      if (!player || isTimelinePending(player)) return;
 
       const currentTime = player.getCurrentTime();
-
-      let isPlaying: boolean;
-      if ('getPlayerState' in player) {
-        isPlaying = player.getPlayerState() === YT_STATES.PLAYING;
-      } else if ('isPaused' in player) {
-        isPlaying = !player.isPaused();
-      } else {
-        isPlaying = false;
-      }
+      const isPlaying = player.getPlaybackState() === 'playing';
 
       logDebug('video', 'sync_check', `Host re-anchor: ${currentTime.toFixed(2)}s, playing: ${isPlaying}`);
       socket.emit('sync-check', {
         roomId,
         currentTime,
         isPlaying,
-        timestamp: Date.now() + clockOffsetRef.current, // emit in server-time
+        timestamp: Date.now() + getLiveClockOffset(), // emit in server-time
       });
     }, HOST_REANCHOR_MS);
-  }, [room, currentUser, socket, roomId, getCurrentPlayer]);
+  }, [room, currentUser, socket, roomId, getCurrentPlayer, getLiveClockOffset]);
 
   const stopSyncCheck = useCallback(() => {
     if (syncCheckIntervalRef.current) {
@@ -305,6 +478,28 @@ export function useVideoSync({
     }
   }, []);
 
+  // Drift history from the previous video says nothing about the next one — including when the host
+  // re-sets the same URL, which leaves room.videoUrl unchanged
+  useEffect(() => {
+    if (!socket) return;
+    const handleVideoSet = () => {
+      piStatesRef.current.clear();
+    };
+    socket.on('video-set', handleVideoSet);
+    return () => {
+      socket.off('video-set', handleVideoSet);
+    };
+  }, [socket]);
+
+  // A new video or a cast hand-off means a fresh player at its default rate
+  useEffect(() => {
+    appliedRateRef.current = 1;
+    rateNudgedRef.current = false;
+    glideUntilRef.current = null;
+    setCatchUpRemainingS(null);
+    setUnmatchedRoomRate(null);
+  }, [room?.videoUrl, isCasting]);
+
   // Local projection corrector loop. Projects the expected position from the
   // latest sync-update anchor every SYNC_CORRECTOR_INTERVAL_MS and runs the same dual-band
   // correction as syncVideo, giving continuous glide between PLAYBACK_TICK_MS network ticks
@@ -320,6 +515,10 @@ export function useVideoSync({
       const anchor = syncAnchorRef.current;
       if (!anchor) return;
 
+      // Projecting an anchor forward is only as good as the clock offset; until the first probe
+      // lands, leave correction to the discrete syncVideo path.
+      if (clockConfidenceRef.current <= 0) return;
+
       // Same timestamp-monotonicity guard syncVideo applies to incoming updates: never let
       // an anchor that predates the client's own last local intent drive a correction. Without this,
       // a stale pre-seek anchor keeps pulling the host back to the old position every tick until a
@@ -329,20 +528,23 @@ export function useVideoSync({
       const player = getCurrentPlayer();
       if (!player) return;
 
-      const projected = calculateCurrentTime(
-        {
-          currentTime: anchor.currentTime,
-          isPlaying: anchor.isPlaying,
-          lastUpdateTime: anchor.timestamp,
-          rate: anchor.rate,
-        },
-        clockOffsetRef.current
+      const projected = getReachableTarget(
+        player,
+        calculateCurrentTime(
+          {
+            currentTime: anchor.currentTime,
+            isPlaying: anchor.isPlaying,
+            lastUpdateTime: anchor.timestamp,
+            rate: anchor.rate,
+          },
+          getLiveClockOffset()
+        )
       );
 
       const currentTime = player.getCurrentTime();
       const drift = projected - currentTime;
 
-      applyCorrection(player, getCorrectorMode(), drift, projected);
+      applyCorrection(player, drift, projected);
     }, SYNC_CORRECTOR_INTERVAL_MS);
 
     return () => {
@@ -351,7 +553,84 @@ export function useVideoSync({
         correctorIntervalRef.current = null;
       }
     };
-  }, [room?.videoUrl, getCurrentPlayer, getCorrectorMode, applyCorrection]);
+  }, [room?.videoUrl, getCurrentPlayer, applyCorrection, getLiveClockOffset]);
+
+  // Buffering barrier client state machine: sample the active player's readiness on the corrector
+  // cadence and report sustained stalls to the server, which pauses the room and later resumes it
+  // with a countdown once every reporter is back at HAVE_FUTURE_DATA.
+  useEffect(() => {
+    if (!socket || !waitForEveryone || !room?.videoUrl) {
+      setBufferingBarrier(null);
+      return;
+    }
+
+    localBufferingRef.current = createLocalBufferingState();
+    let lastReadyState = 0;
+    let lastCurrentTime = 0;
+
+    const emitState = (isBuffering: boolean, readyState: number, currentTime: number) => {
+      logDebug('video', 'barrier_report', `Reporting ${isBuffering ? 'buffering' : 'recovered'} to barrier`, {
+        readyState,
+        currentTime,
+      });
+      socket.emit('buffering-state', { roomId, isBuffering, readyState, currentTime });
+    };
+
+    const interval = setInterval(() => {
+      // Cast receivers buffer on the TV; their stalls aren't observable here
+      if (isCasting) return;
+      const player = getCurrentPlayerRef.current();
+      if (!player) return;
+
+      const readyState = player.getReadyState();
+      if (readyState === null) return;
+
+      const { state, report } = advanceLocalBuffering(localBufferingRef.current, {
+        expectedPlaying: syncAnchorRef.current?.isPlaying ?? false,
+        readyState,
+        now: Date.now(),
+      });
+      localBufferingRef.current = state;
+      lastReadyState = readyState;
+      lastCurrentTime = player.getCurrentTime();
+      if (report !== null) {
+        emitState(report, readyState, lastCurrentTime);
+      }
+    }, SYNC_CORRECTOR_INTERVAL_MS);
+
+    const handleBarrier = (data: BufferingBarrierResponse) => {
+      setBufferingBarrier(data.waitingUserIds.length > 0 || data.resumeAt !== null ? data : null);
+    };
+    socket.on('buffering-barrier', handleBarrier);
+
+    return () => {
+      clearInterval(interval);
+      socket.off('buffering-barrier', handleBarrier);
+      // Never leave the room held on our behalf (video change, setting turned off, unmount)
+      if (localBufferingRef.current.phase === 'buffering') {
+        emitState(false, lastReadyState, lastCurrentTime);
+      }
+      localBufferingRef.current = createLocalBufferingState();
+    };
+  }, [socket, waitForEveryone, room?.videoUrl, roomId, isCasting]);
+
+  // Host end-of-video detection, polled through the adapter so every source reports 'ended' alike.
+  // Edge-triggered: a video already sitting at its end when this starts doesn't fire.
+  useEffect(() => {
+    if (!currentUser?.isHost || !room?.videoUrl) return;
+
+    let wasEnded = getCurrentPlayerRef.current()?.getPlaybackState() === 'ended';
+    const interval = setInterval(() => {
+      const ended = getCurrentPlayerRef.current()?.getPlaybackState() === 'ended';
+      if (ended && !wasEnded) {
+        logDebug('video', 'video_ended', 'Current video reached its end');
+        onEndedRef.current?.();
+      }
+      wasEnded = ended;
+    }, SYNC_CORRECTOR_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [currentUser?.isHost, room?.videoUrl]);
 
   // Video control handlers for hosts
   const handleVideoPlay = useCallback(() => {
@@ -367,35 +646,39 @@ export function useVideoSync({
       logDebug('video', 'play_no_player', 'No player found');
       return;
     }
+    if (isTimelinePending(player)) {
+      logDebug('video', 'play_timeline_pending', 'Not emitting play-video until the live timeline is known');
+      return;
+    }
 
     const currentTime = player.getCurrentTime();
     logDebug('video', 'play_emit', 'Emitting play-video', { roomId, currentTime });
 
     lastControlActionRef.current = {
-      timestamp: Date.now() + clockOffsetRef.current,
+      timestamp: Date.now() + getLiveClockOffset(),
       type: 'play',
       userId: currentUser.id,
     };
 
     socket.emit('play-video', { roomId, currentTime });
-  }, [room, currentUser, socket, roomId, getCurrentPlayer]);
+  }, [room, currentUser, socket, roomId, getCurrentPlayer, getLiveClockOffset]);
 
   const handleVideoPause = useCallback(() => {
     if (!room || !currentUser?.isHost || !socket) return;
 
     const player = getCurrentPlayer();
-    if (!player) return;
+    if (!player || isTimelinePending(player)) return;
 
     const currentTime = player.getCurrentTime();
 
     lastControlActionRef.current = {
-      timestamp: Date.now() + clockOffsetRef.current,
+      timestamp: Date.now() + getLiveClockOffset(),
       type: 'pause',
       userId: currentUser.id,
     };
 
     socket.emit('pause-video', { roomId, currentTime });
-  }, [room, currentUser, socket, roomId, getCurrentPlayer]);
+  }, [room, currentUser, socket, roomId, getCurrentPlayer, getLiveClockOffset]);
 
   const handleVideoSeek = useCallback(
     (explicitTime?: number) => {
@@ -403,6 +686,7 @@ export function useVideoSync({
 
       const player = getCurrentPlayer();
       if (!player && explicitTime === undefined) return;
+      if (player && isTimelinePending(player)) return;
 
       const currentTime = explicitTime ?? player!.getCurrentTime();
 
@@ -412,32 +696,71 @@ export function useVideoSync({
       }
 
       lastControlActionRef.current = {
-        timestamp: Date.now() + clockOffsetRef.current,
+        timestamp: Date.now() + getLiveClockOffset(),
         type: 'seek',
         userId: currentUser.id,
       };
+      // Embeds that report their own seeks come through here; don't re-detect this one on the next state change
+      lastPlayerTimeRef.current = currentTime;
 
       socket.emit('seek-video', { roomId, currentTime });
     },
-    [room, currentUser, socket, roomId, getCurrentPlayer]
+    [room, currentUser, socket, roomId, getCurrentPlayer, getLiveClockOffset]
   );
 
-  const handleYouTubeStateChange = useCallback(
-    (state: number) => {
+  // Host speed change: re-anchor locally at the new rate right away (so the corrector doesn't fight
+  // the change while the intent round-trips) and broadcast it for everyone else.
+  const handlePlaybackRateChange = useCallback(
+    (rate: number) => {
+      if (!room || !currentUser?.isHost || !socket) return;
+
+      const player = getCurrentPlayer();
+      if (!player || isTimelinePending(player)) return;
+      // The host is the room's reference: a speed its own player can't play would leave the room on a clock
+      // nobody is actually watching
+      if (!canPlayAtRate(player.getCapabilities(), rate)) {
+        logDebug('video', 'rate_unsupported', `Player can't play at ${rate}x, not changing the room's speed`);
+        return;
+      }
+
+      const currentTime = player.getCurrentTime();
+      const serverNow = Date.now() + getLiveClockOffset();
+
+      lastControlActionRef.current = { timestamp: serverNow, type: 'rate', userId: currentUser.id };
+      syncAnchorRef.current = {
+        currentTime,
+        isPlaying: syncAnchorRef.current?.isPlaying ?? false,
+        rate,
+        timestamp: serverNow,
+      };
+      player.setPlaybackRate(rate);
+      appliedRateRef.current = rate;
+      rateNudgedRef.current = false;
+      glideUntilRef.current = null;
+      setPlaybackRate(rate);
+
+      logDebug('video', 'rate_emit', `Emitting set-playback-rate: ${rate}x`, { currentTime });
+      socket.emit('set-playback-rate', { roomId, rate, currentTime });
+    },
+    [room, currentUser, socket, roomId, getCurrentPlayer, getLiveClockOffset]
+  );
+
+  const handlePlayerStateChange = useCallback(
+    (state: PlayerPlaybackState) => {
       if (!currentUser?.isHost || !socket) return;
 
-      const player = youtubePlayerRef.current;
-      if (!player) return;
+      const player = getCurrentPlayer();
+      if (!player || player.getCapabilities().events !== 'state') return;
 
       const currentTime = player.getCurrentTime();
 
-      if (state === YT_STATES.PLAYING) {
+      if (state === 'playing') {
         // Check if this is a seek by comparing with last known time
         const timeDiff = Math.abs(currentTime - lastPlayerTimeRef.current);
         if (timeDiff > 1) {
-          logDebug('video', 'yt_seek_detected', `Detected seek to ${currentTime.toFixed(2)}s before play`);
+          logDebug('video', 'state_seek_detected', `Detected seek to ${currentTime.toFixed(2)}s before play`);
           lastControlActionRef.current = {
-            timestamp: Date.now() + clockOffsetRef.current,
+            timestamp: Date.now() + getLiveClockOffset(),
             type: 'seek',
             userId: currentUser.id,
           };
@@ -445,27 +768,27 @@ export function useVideoSync({
         }
 
         lastControlActionRef.current = {
-          timestamp: Date.now() + clockOffsetRef.current,
+          timestamp: Date.now() + getLiveClockOffset(),
           type: 'play',
           userId: currentUser.id,
         };
         lastPlayerTimeRef.current = currentTime;
         socket.emit('play-video', { roomId, currentTime });
-      } else if (state === YT_STATES.PAUSED) {
+      } else if (state === 'paused') {
         lastControlActionRef.current = {
-          timestamp: Date.now() + clockOffsetRef.current,
+          timestamp: Date.now() + getLiveClockOffset(),
           type: 'pause',
           userId: currentUser.id,
         };
         lastPlayerTimeRef.current = currentTime;
         socket.emit('pause-video', { roomId, currentTime });
-      } else if (state === YT_STATES.BUFFERING) {
+      } else if (state === 'buffering') {
         // Check for potential seek during buffering
         const timeDiff = Math.abs(currentTime - lastPlayerTimeRef.current);
         if (timeDiff > 1) {
-          logDebug('video', 'yt_seek_buffering', `Detected seek to ${currentTime.toFixed(2)}s during buffering`);
+          logDebug('video', 'state_seek_buffering', `Detected seek to ${currentTime.toFixed(2)}s during buffering`);
           lastControlActionRef.current = {
-            timestamp: Date.now() + clockOffsetRef.current,
+            timestamp: Date.now() + getLiveClockOffset(),
             type: 'seek',
             userId: currentUser.id,
           };
@@ -474,7 +797,12 @@ export function useVideoSync({
         }
       }
     },
-    [currentUser, socket, roomId, youtubePlayerRef]
+    [currentUser, socket, roomId, getCurrentPlayer, getLiveClockOffset]
+  );
+
+  const handleYouTubeStateChange = useCallback(
+    (state: number) => handlePlayerStateChange(toPlaybackState(state)),
+    [handlePlayerStateChange]
   );
 
   const handleSetVideo = useCallback(
@@ -501,6 +829,21 @@ export function useVideoSync({
     }
   }, [syncVideo]);
 
+  const getSyncDiagnostics = useCallback(
+    (): SyncDiagnostics => ({
+      drift: lastCorrectionRef.current?.drift ?? null,
+      correction: lastCorrectionRef.current?.action ?? null,
+      playbackRate: lastCorrectionRef.current?.rate ?? 1,
+      rateNudged: rateNudgedRef.current,
+      clockOffset: Math.round(getLiveClockOffset()),
+      clockRtt: clockRttRef.current,
+      clockConfidence: clockConfidenceRef.current,
+      anchorTimestamp: syncAnchorRef.current?.timestamp ?? null,
+      hardSeekCount: hardSeekCountRef.current,
+    }),
+    [getLiveClockOffset]
+  );
+
   return {
     syncVideo,
     startSyncCheck,
@@ -508,9 +851,16 @@ export function useVideoSync({
     handleVideoPlay,
     handleVideoPause,
     handleVideoSeek,
+    handlePlaybackRateChange,
+    handlePlayerStateChange,
     handleYouTubeStateChange,
     handleSetVideo,
     handleVideoControlAttempt,
     applyPendingSync,
+    getSyncDiagnostics,
+    bufferingBarrier,
+    playbackRate,
+    catchUpRemainingS,
+    unmatchedRoomRate,
   };
 }
@@ -0,0 +1,79 @@
+// Pure client-side state machine for the "wait for everyone" buffering barrier. No React, no DOM —
+// readyState and `now` are caller-injected so it stays node-testable (mirrors corrector.ts).
+import { BARRIER_STALL_THRESHOLD_MS, HAVE_FUTURE_DATA } from '@/src/lib/constants';
+
+/**
+ * 'ready'     — player can keep playing (readyState >= HAVE_FUTURE_DATA) or isn't expected to play.
+ * 'stalling'  — starved while it should be playing, but not yet for BARRIER_STALL_THRESHOLD_MS.
+ * 'buffering' — stalled past the threshold and reported to the server; holds the room.
+ */
+export type LocalBufferingPhase = 'ready' | 'stalling' | 'buffering';
+
+export interface LocalBufferingState {
+  phase: LocalBufferingPhase;
+  /** Local timestamp (ms) the current stall began; null while ready. */
+  stalledSince: number | null;
+}
+
+export interface BufferingObservation {
+  /** Whether the latest sync anchor says the room is playing. */
+  expectedPlaying: boolean;
+  readyState: number;
+  /** Injected timestamp (ms) — never Date.now() internally. */
+  now: number;
+}
+
+export interface BufferingTransition {
+  state: LocalBufferingState;
+  /** true = emit isBuffering, false = emit recovered, null = nothing to report. */
+  report: boolean | null;
+}
+
+export function createLocalBufferingState(): LocalBufferingState {
+  return { phase: 'ready', stalledSince: null };
+}
+
+const READY: LocalBufferingState = { phase: 'ready', stalledSince: null };
+
+/**
+ * Advance the local buffering phase by one observation.
+ *
+ * Short stalls are absorbed silently so a single slow segment doesn't pause the whole room. Once
+ * reported, the phase only clears on readyState >= HAVE_FUTURE_DATA — the barrier itself pauses the
+ * room, so `expectedPlaying` going false must not be mistaken for having recovered.
+ */
+export function advanceLocalBuffering(
+  state: LocalBufferingState,
+  observation: BufferingObservation
+): BufferingTransition {
+  const { expectedPlaying, readyState, now } = observation;
+  const canPlay = readyState >= HAVE_FUTURE_DATA;
+
+  switch (state.phase) {
+    case 'ready':
+      if (expectedPlaying && !canPlay) {
+        return { state: { phase: 'stalling', stalledSince: now }, report: null };
+      }
+      return { state, report: null };
+
+    case 'stalling':
+      if (canPlay || !expectedPlaying) {
+        return { state: READY, report: null };
+      }
+      if (now - (state.stalledSince ?? now) >= BARRIER_STALL_THRESHOLD_MS) {
+        return { state: { phase: 'buffering', stalledSince: state.stalledSince }, report: true };
+      }
+      return { state, report: null };
+
+    case 'buffering':
+      if (canPlay) {
+        return { state: READY, report: false };
+      }
+      return { state, report: null };
+  }
+}
+
+/** Whole seconds left before a barrier resume, for the countdown UI. 0 once resumeAt has passed. */
+export function getBarrierCountdown(resumeAt: number, serverNow: number): number {
+  return Math.max(0, Math.ceil((resumeAt - serverNow) / 1000));
+}
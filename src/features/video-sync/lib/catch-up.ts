@@ -0,0 +1,46 @@
+// Pure late-joiner catch-up decision. No React, no DOM — node-testable (mirrors corrector.ts).
+import { CATCH_UP_MAX_DRIFT_S, CATCH_UP_MAX_RATE, SYNC_SOFT_BAND_S, YOUTUBE_PLAYBACK_RATES } from '@/src/lib/constants';
+import type { CorrectorMode } from './corrector';
+
+export interface DecideCatchUpParams {
+  /** projected - playerCurrentTime (s). Positive = player is behind. */
+  drift: number;
+  mode: CorrectorMode;
+  /** Viewer's catch-up speed, relative to baseRate (e.g. 1.25). */
+  catchUpRate: number;
+  /** Room's shared playback speed. Defaults to 1. */
+  baseRate?: number;
+  /** mode 'stepped' only: rates the player accepts. Defaults to YOUTUBE_PLAYBACK_RATES. */
+  availableRates?: readonly number[];
+}
+
+export interface CatchUpDecision {
+  rate: number;
+  /** Wall-clock seconds at `rate` until drift is back inside SYNC_SOFT_BAND_S. */
+  remainingS: number;
+}
+
+/**
+ * Catch-up replaces the hard seek for a player that is behind by more than SYNC_SOFT_BAND_S but no
+ * more than CATCH_UP_MAX_DRIFT_S: play at baseRate * catchUpRate (capped at CATCH_UP_MAX_RATE, and
+ * snapped down to a discrete step in 'stepped' mode) until drift is back in the soft band, where the
+ * regular corrector takes over. Returns null whenever the regular corrector should decide instead:
+ * inside the soft band, ahead of the room (slowing to a crawl is worse than a seek), too far behind,
+ * on a seek-only player, or when no usable faster rate exists.
+ */
+export function decideCatchUp(params: DecideCatchUpParams): CatchUpDecision | null {
+  const { drift, mode, catchUpRate, baseRate = 1, availableRates = YOUTUBE_PLAYBACK_RATES } = params;
+  if (mode === 'seek') return null;
+  if (drift <= SYNC_SOFT_BAND_S || drift > CATCH_UP_MAX_DRIFT_S) return null;
+
+  const target = Math.min(baseRate * catchUpRate, CATCH_UP_MAX_RATE);
+  let rate = target;
+  if (mode === 'stepped') {
+    const steps = availableRates.filter(r => r > baseRate && r <= target);
+    if (steps.length === 0) return null;
+    rate = Math.max(...steps);
+  }
+  if (rate <= baseRate) return null;
+
+  return { rate, remainingS: (drift - SYNC_SOFT_BAND_S) / (rate - baseRate) };
+}
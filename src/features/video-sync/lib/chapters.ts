@@ -0,0 +1,118 @@
+import type { Chapter } from '@/types';
+import { CHAT_TIMESTAMP_PATTERN, parseTimestampToSeconds } from '@/src/lib/chat-timestamps';
+
+/** YouTube only shows description chapters when there are at least this many, starting at 0:00. */
+export const MIN_DESCRIPTION_CHAPTERS = 3;
+
+/** "Previous chapter" this far into a chapter restarts it instead of jumping back one. */
+export const CHAPTER_RESTART_THRESHOLD_S = 3;
+
+// A timestamp at the start of a line, optionally behind a bullet or bracket: "0:00 Intro", "- (1:02:03) Outro"
+const LEADING_TIMESTAMP = new RegExp(`^[\\s\\-–—•*·>[(]*(${CHAT_TIMESTAMP_PATTERN.source})[\\])]?`);
+const TITLE_SEPARATORS = /^[\s\-–—:|•·.)\]]+/;
+
+/** Sorted by start, one chapter per start time, no blank titles. */
+export function normalizeChapters(chapters: readonly Chapter[]): Chapter[] {
+  const sorted = chapters
+    .filter(c => Number.isFinite(c.start) && c.start >= 0)
+    .map(c => ({ start: c.start, title: c.title.trim() }))
+    .sort((a, b) => a.start - b.start);
+
+  const result: Chapter[] = [];
+  for (const chapter of sorted) {
+    if (result.length > 0 && Math.abs(result[result.length - 1].start - chapter.start) < 0.5) continue;
+    result.push({ start: chapter.start, title: chapter.title || `Chapter ${result.length + 1}` });
+  }
+  return result;
+}
+
+/**
+ * Chapters from a YouTube-style description: lines that open with a timestamp. Follows YouTube's own
+ * rules (first at 0:00, ascending, at least three) so we never invent chapters from a tracklist in prose.
+ */
+export function parseDescriptionChapters(description: string): Chapter[] {
+  const chapters: Chapter[] = [];
+
+  for (const line of description.split(/\r?\n/)) {
+    const match = LEADING_TIMESTAMP.exec(line);
+    if (!match) continue;
+    const parsed = parseTimestampToSeconds(match[1]);
+    if (!parsed) continue;
+    chapters.push({ start: parsed.seconds, title: line.slice(match[0].length).replace(TITLE_SEPARATORS, '').trim() });
+  }
+
+  if (chapters.length < MIN_DESCRIPTION_CHAPTERS || chapters[0].start !== 0) return [];
+  for (let i = 1; i < chapters.length; i++) {
+    if (chapters[i].start <= chapters[i - 1].start) return [];
+  }
+  return normalizeChapters(chapters);
+}
+
+/** Cues of a WebVTT kind="chapters" text track (TextTrackCue-shaped). */
+export function chaptersFromCues(cues: readonly { startTime: number; text: string }[]): Chapter[] {
+  return normalizeChapters(cues.map(cue => ({ start: cue.startTime, title: cue.text.replace(/\s+/g, ' ') })));
+}
+
+export interface HlsDateRangeLike {
+  id: string;
+  class: string;
+  /** Media time in seconds (hls.js maps START-DATE through EXT-X-PROGRAM-DATE-TIME). */
+  startTime: number;
+  attr: Record<string, unknown>;
+}
+
+/** #EXT-X-DATERANGE tags with a chapter CLASS (e.g. "com.example.chapter") or an X-TITLE attribute. */
+export function chaptersFromDateRanges(ranges: readonly HlsDateRangeLike[]): Chapter[] {
+  return normalizeChapters(
+    ranges
+      .filter(range => /chapter/i.test(range.class) || typeof range.attr['X-TITLE'] === 'string')
+      .map(range => {
+        const title = range.attr['X-TITLE'] ?? range.attr['X-CHAPTER-TITLE'];
+        return { start: range.startTime, title: typeof title === 'string' ? title : range.id };
+      })
+  );
+}
+
+export interface Id3FrameCue {
+  startTime: number;
+  key: string;
+  info?: string;
+  data: unknown;
+}
+
+/** Timed ID3 frames: a TIT2 title, or a TXXX frame described as a chapter, marks where a chapter starts. */
+export function chaptersFromId3(frames: readonly Id3FrameCue[]): Chapter[] {
+  return normalizeChapters(
+    frames
+      .filter(
+        frame =>
+          typeof frame.data === 'string' &&
+          (frame.key === 'TIT2' || (frame.key === 'TXXX' && /chapter/i.test(frame.info ?? '')))
+      )
+      .map(frame => ({ start: frame.startTime, title: frame.data as string }))
+  );
+}
+
+/** Index of the chapter playing at `time`, or -1 before the first one. */
+export function getChapterIndexAt(chapters: readonly Chapter[], time: number): number {
+  let index = -1;
+  for (let i = 0; i < chapters.length && chapters[i].start <= time; i++) index = i;
+  return index;
+}
+
+/** Where "next"/"previous chapter" should seek to, or null when there's nowhere to go. */
+export function getChapterSeekTarget(
+  chapters: readonly Chapter[],
+  time: number,
+  direction: 'next' | 'previous'
+): number | null {
+  const index = getChapterIndexAt(chapters, time);
+
+  if (direction === 'next') {
+    return chapters[index + 1]?.start ?? null;
+  }
+
+  if (index === -1) return null;
+  if (time - chapters[index].start > CHAPTER_RESTART_THRESHOLD_S) return chapters[index].start;
+  return chapters[index - 1]?.start ?? chapters[index].start;
+}
@@ -0,0 +1,192 @@
+// Pure min-RTT filtered clock-offset estimator. No React, no DOM, no Date.now() inside — receive
+// times are always caller-injected so this stays deterministic and node-testable (mirrors corrector.ts).
+import {
+  CLOCK_SAMPLE_WINDOW,
+  CLOCK_SAMPLE_MAX_AGE_MS,
+  CLOCK_MAX_RTT_MS,
+  CLOCK_STEP_THRESHOLD_MS,
+  CLOCK_STEP_CONFIRM_SAMPLES,
+  CLOCK_SKEW_MIN_SPAN_MS,
+  CLOCK_MAX_SKEW,
+} from '@/src/lib/constants';
+
+/** Samples whose RTT exceeds minRtt * this factor (+ slack) are dropped by the min-RTT filter. */
+const RTT_FILTER_FACTOR = 1.5;
+/** Absolute RTT slack (ms) so a handful of ms of jitter on a fast link doesn't starve the filter. */
+const RTT_FILTER_SLACK_MS = 10;
+/** Samples are rejected as outliers beyond this many MADs from the median offset. */
+const OUTLIER_MAD_FACTOR = 3;
+/** MAD floor (ms) so a window of near-identical samples doesn't reject every tiny wobble. */
+const MIN_MAD_MS = 2;
+/** Minimum samples required before a skew slope is fitted. */
+const MIN_SKEW_SAMPLES = 4;
+/** Sample count at which the count component of confidence saturates. */
+const CONFIDENT_SAMPLE_COUNT = 8;
+/** Offset uncertainty (ms) at which the tightness component of confidence halves. */
+const CONFIDENCE_REFERENCE_MS = 50;
+
+export interface ClockSample {
+  /** Local midpoint of the probe (clientSendTime + rtt / 2), in client ms. */
+  localTime: number;
+  rtt: number;
+  /** serverTime - localTime (ms). Positive = server clock is ahead of ours. */
+  offset: number;
+}
+
+export interface ClockEstimatorState {
+  samples: ClockSample[];
+  /** Consecutive samples that disagreed with the estimate by more than CLOCK_STEP_THRESHOLD_MS. */
+  stepCandidates: ClockSample[];
+}
+
+export interface ClockEstimate {
+  /** serverNow - clientNow (ms) at `anchorTime`. Use projectClockOffset for any other instant. */
+  offset: number;
+  /** Offset drift per elapsed local ms (0 until the window spans CLOCK_SKEW_MIN_SPAN_MS). */
+  skew: number;
+  /** Local timestamp (ms) the offset is anchored at. */
+  anchorTime: number;
+  /** Smallest RTT in the window (ms); the offset error is bounded by roughly rtt / 2. */
+  rtt: number;
+  /** 0 (no usable data) .. 1 (full window of tight, mutually consistent samples). */
+  confidence: number;
+  sampleCount: number;
+}
+
+/**
+ * 'accepted'     — sample joined the window.
+ * 'rejected'     — negative or oversized RTT; dropped without touching state.
+ * 'step-pending' — sample disagrees with the estimate; held until the step is confirmed.
+ * 'step-reset'   — enough agreeing step samples arrived; the window was replaced by them.
+ */
+export type ClockSampleOutcome = 'accepted' | 'rejected' | 'step-pending' | 'step-reset';
+
+/** Fresh, mutable estimator state — create one per socket. */
+export function createClockEstimatorState(): ClockEstimatorState {
+  return { samples: [], stepCandidates: [] };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/** Offset the estimate predicts for local time `now`, including skew. */
+export function projectClockOffset(estimate: ClockEstimate, now: number): number {
+  return estimate.offset + estimate.skew * (now - estimate.anchorTime);
+}
+
+/**
+ * Fold one time-pong into the estimator window.
+ *
+ * A sample that lands more than CLOCK_STEP_THRESHOLD_MS away from the current projection is
+ * treated as a possible clock step (laptop sleep, NTP correction) rather than noise: it is held
+ * aside, and once CLOCK_STEP_CONFIRM_SAMPLES consecutive samples agree on the new offset the old
+ * window is discarded. A single wild sample therefore never moves the estimate.
+ */
+export function addClockSample(
+  state: ClockEstimatorState,
+  pong: { clientSendTime: number; serverTime: number },
+  receivedAt: number
+): ClockSampleOutcome {
+  const rtt = receivedAt - pong.clientSendTime;
+  if (rtt < 0 || rtt > CLOCK_MAX_RTT_MS) {
+    return 'rejected';
+  }
+
+  const localTime = pong.clientSendTime + rtt / 2;
+  const sample: ClockSample = { localTime, rtt, offset: pong.serverTime - localTime };
+
+  state.samples = state.samples.filter(s => receivedAt - s.localTime <= CLOCK_SAMPLE_MAX_AGE_MS);
+
+  const current = estimateClock(state);
+  if (current) {
+    const deviation = Math.abs(sample.offset - projectClockOffset(current, localTime));
+    if (deviation > CLOCK_STEP_THRESHOLD_MS + rtt / 2) {
+      state.stepCandidates.push(sample);
+
+      const candidateOffsets = state.stepCandidates.map(s => s.offset);
+      const agree = Math.max(...candidateOffsets) - Math.min(...candidateOffsets) <= CLOCK_STEP_THRESHOLD_MS;
+      if (!agree) {
+        // Candidates disagree with each other too — keep only the newest and keep waiting.
+        state.stepCandidates = [sample];
+        return 'step-pending';
+      }
+
+      if (state.stepCandidates.length >= CLOCK_STEP_CONFIRM_SAMPLES) {
+        state.samples = state.stepCandidates;
+        state.stepCandidates = [];
+        return 'step-reset';
+      }
+      return 'step-pending';
+    }
+  }
+
+  state.stepCandidates = [];
+  state.samples.push(sample);
+  if (state.samples.length > CLOCK_SAMPLE_WINDOW) {
+    state.samples = state.samples.slice(-CLOCK_SAMPLE_WINDOW);
+  }
+  return 'accepted';
+}
+
+/**
+ * Estimate the current offset from the window:
+ * 1. min-RTT filter — keep samples near the window's best RTT (the symmetric-path assumption holds
+ *    best there), regardless of age so the skew fit still sees the whole span;
+ * 2. outlier rejection — drop samples more than OUTLIER_MAD_FACTOR MADs from the median offset;
+ * 3. skew — least-squares slope of offset over local time once the window spans
+ *    CLOCK_SKEW_MIN_SPAN_MS, clamped to +/- CLOCK_MAX_SKEW; otherwise a flat mean.
+ * Returns null until at least one sample has been accepted.
+ */
+export function estimateClock(state: ClockEstimatorState): ClockEstimate | null {
+  const { samples } = state;
+  if (samples.length === 0) return null;
+
+  const byRtt = [...samples].sort((a, b) => a.rtt - b.rtt);
+  const rttCutoff = byRtt[0].rtt * RTT_FILTER_FACTOR + RTT_FILTER_SLACK_MS;
+  const filtered = samples.filter(s => s.rtt <= rttCutoff);
+  const lowRtt = filtered.length >= Math.min(3, samples.length) ? filtered : byRtt.slice(0, 3);
+
+  const medianOffset = median(lowRtt.map(s => s.offset));
+  const mad = Math.max(MIN_MAD_MS, median(lowRtt.map(s => Math.abs(s.offset - medianOffset))));
+  const inliers = lowRtt.filter(s => Math.abs(s.offset - medianOffset) <= OUTLIER_MAD_FACTOR * mad);
+  const kept = inliers.length > 0 ? inliers : lowRtt;
+
+  const meanTime = kept.reduce((sum, s) => sum + s.localTime, 0) / kept.length;
+  const meanOffset = kept.reduce((sum, s) => sum + s.offset, 0) / kept.length;
+
+  const times = kept.map(s => s.localTime);
+  const span = Math.max(...times) - Math.min(...times);
+
+  let skew = 0;
+  let anchorTime = Math.max(...times);
+  if (kept.length >= MIN_SKEW_SAMPLES && span >= CLOCK_SKEW_MIN_SPAN_MS) {
+    let covariance = 0;
+    let variance = 0;
+    for (const s of kept) {
+      covariance += (s.localTime - meanTime) * (s.offset - meanOffset);
+      variance += (s.localTime - meanTime) ** 2;
+    }
+    skew = variance > 0 ? clamp(covariance / variance, -CLOCK_MAX_SKEW, CLOCK_MAX_SKEW) : 0;
+    anchorTime = meanTime;
+  }
+
+  const rtt = byRtt[0].rtt;
+  const countFactor = Math.min(1, samples.length / CONFIDENT_SAMPLE_COUNT);
+  const tightness = 1 / (1 + (rtt / 2 + mad) / CONFIDENCE_REFERENCE_MS);
+
+  return {
+    offset: meanOffset,
+    skew,
+    anchorTime,
+    rtt,
+    confidence: Math.round(countFactor * tightness * 100) / 100,
+    sampleCount: samples.length,
+  };
+}
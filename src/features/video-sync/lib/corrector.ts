@@ -4,43 +4,91 @@ import {
   SYNC_SOFT_BAND_S,
   SYNC_NUDGE_GAIN,
   SYNC_MAX_NUDGE,
+  SYNC_PI_INTEGRAL_GAIN,
+  SYNC_PI_DRIFT_WINDOW,
+  SYNC_PI_MIN_DEAD_BAND_S,
+  SYNC_PI_MAX_DEAD_BAND_S,
+  SYNC_PI_DEAD_BAND_SIGMAS,
+  SYNC_PI_NOISE_REFERENCE_S,
   YOUTUBE_SEEK_TOLERANCE_S,
+  SYNC_STEPPED_DEAD_BAND_S,
+  SYNC_STEPPED_MAX_GLIDE_MS,
+  YOUTUBE_PLAYBACK_RATES,
 } from '@/src/lib/constants';
 
-/** 'rate' = HTML5/HLS (fine playbackRate control); 'seek' = YouTube/Cast (discrete rates only). */
-export type CorrectorMode = 'rate' | 'seek';
+/**
+ * 'rate'    = HTML5/HLS (fine playbackRate control).
+ * 'stepped' = YouTube (discrete playbackRate steps — glide one step off the base rate for a while).
+ * 'seek'    = Cast (no rate control at all).
+ */
+export type CorrectorMode = 'rate' | 'stepped' | 'seek';
 
 export interface DecideCorrectionParams {
   /** projected - playerCurrentTime. Positive = player is behind and must speed up. */
   drift: number;
   mode: CorrectorMode;
-  /** Whether the player's playbackRate is currently nudged away from 1.0. */
+  /** Whether the player's playbackRate is currently nudged away from baseRate. */
   rateNudged: boolean;
   /** Whether SYNC_COOLDOWN_MS has elapsed since the last hard seek. */
   cooldownElapsed: boolean;
+  /** Host-chosen shared playback speed the nudge is applied around. Defaults to 1. */
+  baseRate?: number;
+  /** mode 'stepped' only: rates the player accepts. Defaults to YOUTUBE_PLAYBACK_RATES. */
+  availableRates?: readonly number[];
 }
 
 export type CorrectionResult =
   | { action: 'none'; resetRate: boolean }
-  | { action: 'nudge'; rate: number }
+  /** durationMs (stepped mode only): hold `rate` this long to eat the drift, then snap back to base. */
+  | { action: 'nudge'; rate: number; durationMs?: number }
   | { action: 'seek' };
 
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
 
+/**
+ * Nearest discrete rate strictly beyond `baseRate` in the direction of `drift` — the smallest
+ * faster rate when behind, the largest slower rate when ahead. null if the player has none.
+ */
+export function pickSteppedRate(drift: number, baseRate: number, availableRates: readonly number[]): number | null {
+  const candidates = drift > 0 ? availableRates.filter(r => r > baseRate) : availableRates.filter(r => r < baseRate);
+  if (candidates.length === 0) return null;
+  return drift > 0 ? Math.min(...candidates) : Math.max(...candidates);
+}
+
 /**
  * Decide how to correct drift for the current player mode.
- * - mode 'seek' (YouTube/Cast): dead-band below YOUTUBE_SEEK_TOLERANCE_S -> none; above -> seek if
+ * - mode 'stepped' (YouTube): |drift| < SYNC_STEPPED_DEAD_BAND_S -> none; otherwise glide at the
+ *   next discrete rate for drift / (stepRate - baseRate) seconds, as long as that fits in
+ *   SYNC_STEPPED_MAX_GLIDE_MS; longer glides (or no usable step) -> seek if cooldownElapsed else none.
+ * - mode 'seek' (Cast): dead-band below YOUTUBE_SEEK_TOLERANCE_S -> none; above -> seek if
  *   cooldownElapsed else none. Never returns 'nudge' (discrete playbackRate steps only).
  * - mode 'rate' (HTML5/HLS): |drift| < SYNC_DEAD_BAND_S -> none (resetRate if previously nudged);
  *   <= SYNC_SOFT_BAND_S -> nudge with clamped rate; > SYNC_SOFT_BAND_S -> seek if cooldownElapsed
  *   else none.
+ * Nudges scale with baseRate (a 2x room glides between 1.9x and 2.1x, not around 1.0); 'resetRate'
+ * means return to baseRate.
  */
 export function decideCorrection(params: DecideCorrectionParams): CorrectionResult {
-  const { drift, mode, rateNudged, cooldownElapsed } = params;
+  const { drift, mode, rateNudged, cooldownElapsed, baseRate = 1, availableRates = YOUTUBE_PLAYBACK_RATES } = params;
   const absDrift = Math.abs(drift);
 
+  if (mode === 'stepped') {
+    if (absDrift < SYNC_STEPPED_DEAD_BAND_S) {
+      return { action: 'none', resetRate: rateNudged };
+    }
+    const stepRate = pickSteppedRate(drift, baseRate, availableRates);
+    if (stepRate !== null) {
+      // Media time gained per wall second at stepRate vs the room's baseRate
+      const durationMs = (drift / (stepRate - baseRate)) * 1000;
+      if (durationMs <= SYNC_STEPPED_MAX_GLIDE_MS) {
+        return { action: 'nudge', rate: stepRate, durationMs };
+      }
+    }
+    return cooldownElapsed ? { action: 'seek' } : { action: 'none', resetRate: rateNudged };
+  }
+
   if (mode === 'seek') {
     if (absDrift < YOUTUBE_SEEK_TOLERANCE_S) {
       return { action: 'none', resetRate: rateNudged };
@@ -54,13 +102,111 @@ export function decideCorrection(params: DecideCorrectionParams): CorrectionResu
   }
 
   if (absDrift <= SYNC_SOFT_BAND_S) {
-    const rate = clamp(1 + SYNC_NUDGE_GAIN * drift, 1 - SYNC_MAX_NUDGE, 1 + SYNC_MAX_NUDGE);
-    return { action: 'nudge', rate };
+    const factor = clamp(1 + SYNC_NUDGE_GAIN * drift, 1 - SYNC_MAX_NUDGE, 1 + SYNC_MAX_NUDGE);
+    return { action: 'nudge', rate: baseRate * factor };
   }
 
   return cooldownElapsed ? { action: 'seek' } : { action: 'none', resetRate: rateNudged };
 }
 
+/** Longest gap (s) between PI updates that still counts towards the integral (tab throttling, pauses). */
+const PI_MAX_STEP_S = 2;
+/** Rate factors are rounded to this step so the integral's slow creep doesn't rewrite playbackRate every pass. */
+const PI_RATE_STEP = 0.001;
+
+/**
+ * Per-player-source PI controller state. Mutated in place by decidePiCorrection, like the clock
+ * estimator's state; create one per source and drop it when the video changes.
+ */
+export interface PiCorrectorState {
+  /** Accumulated drift (drift-seconds) outside the dead band. */
+  integral: number;
+  /** Most recent drift samples (s), oldest first, capped at SYNC_PI_DRIFT_WINDOW. */
+  recentDrift: number[];
+  /** Caller clock (ms) of the previous update; null before the first. */
+  lastUpdateAt: number | null;
+  /** Dead band (s) used by the last decision — for diagnostics. */
+  deadBand: number;
+}
+
+export function createPiCorrectorState(): PiCorrectorState {
+  return { integral: 0, recentDrift: [], lastUpdateAt: null, deadBand: SYNC_DEAD_BAND_S };
+}
+
+/** Population standard deviation of recent drift (s); 0 with fewer than two samples. */
+export function getDriftSpread(recentDrift: readonly number[]): number {
+  if (recentDrift.length < 2) return 0;
+  const mean = recentDrift.reduce((sum, d) => sum + d, 0) / recentDrift.length;
+  const variance = recentDrift.reduce((sum, d) => sum + (d - mean) ** 2, 0) / recentDrift.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Dead band sized to the measurement noise: SYNC_PI_DEAD_BAND_SIGMAS standard deviations of recent
+ * drift, clamped to [SYNC_PI_MIN_DEAD_BAND_S, SYNC_PI_MAX_DEAD_BAND_S]. Until there are enough samples
+ * to judge the noise, the fixed SYNC_DEAD_BAND_S applies.
+ */
+export function getAdaptiveDeadBand(recentDrift: readonly number[]): number {
+  if (recentDrift.length < SYNC_PI_DRIFT_WINDOW / 2) return SYNC_DEAD_BAND_S;
+  return clamp(
+    SYNC_PI_DEAD_BAND_SIGMAS * getDriftSpread(recentDrift),
+    SYNC_PI_MIN_DEAD_BAND_S,
+    SYNC_PI_MAX_DEAD_BAND_S
+  );
+}
+
+export interface DecidePiCorrectionParams extends DecideCorrectionParams {
+  /** Caller clock (ms); only differences are used. */
+  now: number;
+}
+
+/**
+ * Stateful counterpart of decideCorrection. Mode 'rate' runs a PI controller:
+ * - the dead band follows the spread of recent drift (wide on jittery links, so noise isn't chased;
+ *   narrow on clean ones, so no visible residual is left behind) and gates the proportional term;
+ * - both gains shrink as that spread grows — a spread of SYNC_PI_NOISE_REFERENCE_S halves them —
+ *   which is what stops the oscillation a fixed SYNC_NUDGE_GAIN shows on flaky networks;
+ * - the integral term eats the steady offset the proportional term alone settles at (a decoder that
+ *   consistently runs a little slow), with anti-windup so it never exceeds SYNC_MAX_NUDGE.
+ * Beyond SYNC_SOFT_BAND_S it seeks (cooldown-gated) and clears the history. 'stepped' and 'seek'
+ * modes have no fine rate to steer, so they fall through to decideCorrection unchanged.
+ */
+export function decidePiCorrection(state: PiCorrectorState, params: DecidePiCorrectionParams): CorrectionResult {
+  if (params.mode !== 'rate') return decideCorrection(params);
+
+  const { drift, rateNudged, cooldownElapsed, baseRate = 1, now } = params;
+  const absDrift = Math.abs(drift);
+  const dt = state.lastUpdateAt === null ? 0 : clamp((now - state.lastUpdateAt) / 1000, 0, PI_MAX_STEP_S);
+  state.lastUpdateAt = now;
+
+  if (absDrift > SYNC_SOFT_BAND_S) {
+    if (!cooldownElapsed) return { action: 'none', resetRate: rateNudged };
+    // Post-seek drift has nothing to do with what came before
+    state.integral = 0;
+    state.recentDrift = [];
+    return { action: 'seek' };
+  }
+
+  state.recentDrift.push(drift);
+  if (state.recentDrift.length > SYNC_PI_DRIFT_WINDOW) state.recentDrift.shift();
+  state.deadBand = getAdaptiveDeadBand(state.recentDrift);
+
+  const temper = 1 / (1 + getDriftSpread(state.recentDrift) / SYNC_PI_NOISE_REFERENCE_S);
+  const kp = SYNC_NUDGE_GAIN * temper;
+  const ki = SYNC_PI_INTEGRAL_GAIN * temper;
+
+  // The integral runs inside the dead band too: it is what holds the bias a steadily slow or fast
+  // decoder needs, where a dead band alone would let drift creep back out to its edge every time.
+  const integralLimit = SYNC_MAX_NUDGE / SYNC_PI_INTEGRAL_GAIN;
+  state.integral = clamp(state.integral + drift * dt, -integralLimit, integralLimit);
+
+  const proportional = absDrift < state.deadBand ? 0 : kp * drift;
+  const correction = clamp(proportional + ki * state.integral, -SYNC_MAX_NUDGE, SYNC_MAX_NUDGE);
+  const factor = 1 + Math.round(correction / PI_RATE_STEP) * PI_RATE_STEP;
+  if (factor === 1) return { action: 'none', resetRate: rateNudged };
+  return { action: 'nudge', rate: baseRate * factor };
+}
+
 /**
  * Timestamp-monotonicity guard: drop any authoritative sync-update whose anchor timestamp
  * predates the client's own last locally-issued intent. This is what prevents the host from being
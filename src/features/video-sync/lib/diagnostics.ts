@@ -0,0 +1,137 @@
+// Pure "stats for nerds" snapshot builder. No React, no DOM — TimeRanges is accepted through a
+// minimal structural type and `serverNow` is caller-injected, so snapshots are node-testable.
+import type { CorrectionResult } from './corrector';
+
+/** Live sync-loop state as read from useVideoSync's refs. */
+export interface SyncDiagnostics {
+  /** Last projected - player drift (s) the corrector saw; null before the first correction. */
+  drift: number | null;
+  /** Action the last corrector pass decided on. */
+  correction: CorrectionResult['action'] | null;
+  /** playbackRate the sync loop last wrote to the player. */
+  playbackRate: number;
+  rateNudged: boolean;
+  clockOffset: number;
+  clockRtt: number;
+  clockConfidence: number;
+  /** Server-time timestamp of the latest sync-update anchor; null before the first update. */
+  anchorTimestamp: number | null;
+  hardSeekCount: number;
+}
+
+/** HLS-only extras read from HLSPlayerRef. */
+export interface HlsDiagnostics {
+  /** Current hls.js level index; -1 while unknown. */
+  level: number;
+  levelCount: number;
+  /** Advertised bitrate (bits/s) of the current level. */
+  bitrate: number | null;
+  height: number | null;
+  /** Auto (ABR) level selection enabled. */
+  autoLevel: boolean;
+  networkErrorsInWindow: number;
+  networkReloadCount: number;
+  mediaRecoveryCount: number;
+  reattachAttempted: boolean;
+}
+
+/** One rung of the per-client source fallback ladder (direct, then proxied). */
+export interface SourceAttemptDiagnostics {
+  kind: 'direct' | 'proxy';
+  /** Short failure label ("HTTP 403"); null for the attempt that's playing. */
+  failure: string | null;
+}
+
+/** Structural subset of TimeRanges so tests don't need a DOM. */
+export interface TimeRangesLike {
+  length: number;
+  start(index: number): number;
+  end(index: number): number;
+}
+
+export interface BuildSyncDiagnosticsSnapshotInput {
+  videoType: string | null;
+  sync: SyncDiagnostics | null;
+  currentTime: number | null;
+  buffered: TimeRangesLike | null;
+  readyState: number | null;
+  hls: HlsDiagnostics | null;
+  /** Source fallback history, oldest first; empty for embeds. */
+  sourceAttempts: SourceAttemptDiagnostics[];
+  isHost: boolean;
+  isCasting: boolean;
+  /** Injected server-time now (ms) used to age the anchor. */
+  serverNow: number;
+}
+
+export interface SyncDiagnosticsSnapshot {
+  capturedAt: string;
+  videoType: string | null;
+  role: 'host' | 'guest';
+  casting: boolean;
+  currentTime: number | null;
+  driftMs: number | null;
+  correction: CorrectionResult['action'] | null;
+  playbackRate: number | null;
+  rateNudged: boolean;
+  clock: { offsetMs: number; rttMs: number; confidence: number } | null;
+  anchorAgeMs: number | null;
+  hardSeekCount: number;
+  readyState: number | null;
+  buffered: Array<[number, number]>;
+  /** Seconds buffered past currentTime in the range containing it. */
+  bufferAhead: number | null;
+  hls: HlsDiagnostics | null;
+  sourceAttempts: SourceAttemptDiagnostics[];
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/** Flattens TimeRanges into [start, end] pairs rounded to 0.1s. */
+export function flattenTimeRanges(ranges: TimeRangesLike | null): Array<[number, number]> {
+  if (!ranges) return [];
+  const result: Array<[number, number]> = [];
+  for (let i = 0; i < ranges.length; i++) {
+    result.push([round(ranges.start(i), 1), round(ranges.end(i), 1)]);
+  }
+  return result;
+}
+
+/** Seconds of buffer ahead of `currentTime`, or 0 when the playhead sits outside every range. */
+export function getBufferAhead(ranges: TimeRangesLike | null, currentTime: number): number {
+  if (!ranges) return 0;
+  for (let i = 0; i < ranges.length; i++) {
+    if (currentTime >= ranges.start(i) && currentTime <= ranges.end(i)) {
+      return ranges.end(i) - currentTime;
+    }
+  }
+  return 0;
+}
+
+/** Assemble a JSON-safe snapshot — the same object the overlay renders and copies to the clipboard. */
+export function buildSyncDiagnosticsSnapshot(input: BuildSyncDiagnosticsSnapshotInput): SyncDiagnosticsSnapshot {
+  const { sync, currentTime, buffered } = input;
+
+  return {
+    capturedAt: new Date(input.serverNow).toISOString(),
+    videoType: input.videoType,
+    role: input.isHost ? 'host' : 'guest',
+    casting: input.isCasting,
+    currentTime: currentTime === null ? null : round(currentTime, 2),
+    driftMs: sync?.drift == null ? null : Math.round(sync.drift * 1000),
+    correction: sync?.correction ?? null,
+    playbackRate: sync ? round(sync.playbackRate, 3) : null,
+    rateNudged: sync?.rateNudged ?? false,
+    clock: sync ? { offsetMs: sync.clockOffset, rttMs: sync.clockRtt, confidence: sync.clockConfidence } : null,
+    anchorAgeMs: sync?.anchorTimestamp == null ? null : Math.max(0, Math.round(input.serverNow - sync.anchorTimestamp)),
+    hardSeekCount: sync?.hardSeekCount ?? 0,
+    readyState: input.readyState,
+    buffered: flattenTimeRanges(buffered),
+    bufferAhead: currentTime === null || !buffered ? null : round(getBufferAhead(buffered, currentTime), 1),
+    hls: input.hls,
+    sourceAttempts: input.sourceAttempts,
+  };
+}
@@ -1,2 +1,5 @@
 // Video sync lib utilities
 export { extractYouTubeId } from './youtube';
+export { extractVimeoVideo } from './vimeo';
+export { extractTwitchVideoId } from './twitch';
+export { getChapterIndexAt, getChapterSeekTarget } from './chapters';
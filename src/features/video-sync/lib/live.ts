@@ -0,0 +1,132 @@
+// Live HLS timeline. A live stream has no shared zero: each viewer's media timeline starts wherever its
+// player joined the sliding playlist, so live rooms sync on a stream clock instead. It is the wall-clock
+// time of the frame on screen when the playlist carries #EXT-X-PROGRAM-DATE-TIME, otherwise seconds since
+// media sequence 0, and only where neither is visible an estimate from the live edge against server time.
+// Pure; server time is injected.
+import type { TimeRangesLike } from './diagnostics';
+
+/** Seeks and corrections stop this far short of the playlist end so the player isn't starved on arrival. */
+export const LIVE_EDGE_SAFETY_S = 3;
+
+/**
+ * An edge-estimated anchor is only re-taken when the estimate moves by more than this (a discontinuity or
+ * a reload). The edge advances a segment at a time while server time is continuous, so a fresh estimate
+ * on every read would wobble by up to a target duration.
+ */
+export const LIVE_CLOCK_REANCHOR_S = 15;
+
+/** Within this of the player's live sync position counts as watching live. */
+export const LIVE_EDGE_THRESHOLD_S = 5;
+
+/**
+ * 'pdt' and 'sequence' read the same on every viewer's player. 'edge' doesn't: the estimate is taken when
+ * this viewer's playlist refresh lands, which can trail another viewer's by up to a target duration while
+ * both see the same last segment, so an edge-anchored position can't be compared with anyone else's.
+ */
+export type LiveClockAnchor = 'pdt' | 'sequence' | 'edge';
+
+/** What a live player can observe about its playlist, all in viewer-local media time. */
+export interface LiveTimelineSample {
+  /** Oldest seekable position (start of the DVR window). */
+  start: number;
+  /** Playlist end (the live edge). */
+  end: number;
+  /** Where the player sits for its target latency; "Go live" seeks here. */
+  liveSyncPosition: number;
+  /** Epoch seconds at media time 0 per #EXT-X-PROGRAM-DATE-TIME; null when the playlist has none. */
+  programDateOffset: number | null;
+  /**
+   * The playlist end counted from media sequence 0 in target durations ((last sequence number + 1) ×
+   * #EXT-X-TARGETDURATION); null where the playlist itself isn't visible (native HLS).
+   */
+  sequenceEnd: number | null;
+}
+
+export interface LiveTimeline extends Omit<LiveTimelineSample, 'programDateOffset' | 'sequenceEnd'> {
+  /** Stream clock = media time + streamOffset. */
+  streamOffset: number;
+  anchor: LiveClockAnchor;
+}
+
+export interface LiveClockState {
+  offset: number | null;
+  anchor: LiveClockAnchor | null;
+}
+
+export function createLiveClockState(): LiveClockState {
+  return { offset: null, anchor: null };
+}
+
+/**
+ * Fold a playlist sample into the clock and return the timeline in both coordinates. Program date time
+ * always wins, then the sequence count; both are re-read, since they can shift across discontinuities.
+ * The edge estimate sticks until it is clearly stale.
+ */
+export function updateLiveClock(state: LiveClockState, sample: LiveTimelineSample, serverNowMs: number): LiveTimeline {
+  if (sample.programDateOffset !== null) {
+    state.offset = sample.programDateOffset;
+    state.anchor = 'pdt';
+  } else if (state.anchor !== 'pdt') {
+    if (sample.sequenceEnd !== null) {
+      state.offset = sample.sequenceEnd - sample.end;
+      state.anchor = 'sequence';
+    } else {
+      const estimate = serverNowMs / 1000 - sample.end;
+      if (state.offset === null || Math.abs(estimate - state.offset) > LIVE_CLOCK_REANCHOR_S) {
+        state.offset = estimate;
+        state.anchor = 'edge';
+      }
+    }
+  }
+
+  return {
+    start: sample.start,
+    end: sample.end,
+    liveSyncPosition: sample.liveSyncPosition,
+    streamOffset: state.offset!,
+    anchor: state.anchor!,
+  };
+}
+
+/** Whether this timeline's positions mean the same thing on every viewer's player. */
+export function isSharedLiveClock(timeline: Pick<LiveTimeline, 'anchor'>): boolean {
+  return timeline.anchor !== 'edge';
+}
+
+export function toStreamTime(mediaTime: number, timeline: Pick<LiveTimeline, 'streamOffset'>): number {
+  return mediaTime + timeline.streamOffset;
+}
+
+export function toMediaTime(streamTime: number, timeline: Pick<LiveTimeline, 'streamOffset'>): number {
+  return streamTime - timeline.streamOffset;
+}
+
+/** The DVR window as a single TimeRanges-shaped range on the stream clock. */
+export function getLiveStreamRanges(timeline: LiveTimeline): TimeRangesLike {
+  return {
+    length: 1,
+    start: () => toStreamTime(timeline.start, timeline),
+    end: () => toStreamTime(timeline.end, timeline),
+  };
+}
+
+/**
+ * Clamp a target into what the window can actually play: no earlier than its oldest segment, no later than
+ * LIVE_EDGE_SAFETY_S short of the edge. A position that slid out of the window, or one ahead of this
+ * viewer's (older) playlist, becomes the nearest reachable point instead of a seek that can't land.
+ */
+export function clampToLiveWindow(target: number, ranges: TimeRangesLike | null): number {
+  if (!ranges || ranges.length === 0) return target;
+  const start = ranges.start(0);
+  const end = Math.max(start, ranges.end(ranges.length - 1) - LIVE_EDGE_SAFETY_S);
+  return Math.min(Math.max(target, start), end);
+}
+
+/** Seconds behind the player's live sync position; 0 at or past it. */
+export function getLiveBehindS(mediaTime: number, timeline: Pick<LiveTimeline, 'liveSyncPosition'>): number {
+  return Math.max(0, timeline.liveSyncPosition - mediaTime);
+}
+
+export function isAtLiveEdge(mediaTime: number, timeline: Pick<LiveTimeline, 'liveSyncPosition'>): boolean {
+  return getLiveBehindS(mediaTime, timeline) <= LIVE_EDGE_THRESHOLD_S;
+}
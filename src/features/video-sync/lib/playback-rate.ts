@@ -0,0 +1,32 @@
+// Pure helpers for the host-controlled shared playback speed. No React, no DOM — node-testable.
+import { PLAYBACK_RATES } from '@/src/lib/constants';
+import type { PlayerCapabilities } from './player-adapter';
+
+/** Closest entry of `supported` to `rate`; ties resolve to the slower rate. Returns `rate` if none. */
+export function snapPlaybackRate(rate: number, supported: readonly number[] = PLAYBACK_RATES): number {
+  if (supported.length === 0) return rate;
+  return [...supported]
+    .sort((a, b) => a - b)
+    .reduce((best, candidate) => (Math.abs(candidate - rate) < Math.abs(best - rate) ? candidate : best));
+}
+
+/**
+ * Base rate for a sync event. Play/pause/seek events from older servers carry no rate; those keep the rate the
+ * room is already at instead of dropping everyone back to 1x.
+ */
+export function resolveSyncRate(eventRate: number | undefined, anchorRate: number | undefined): number {
+  return eventRate ?? anchorRate ?? 1;
+}
+
+/**
+ * Whether a player can run at the room's speed. Without rate control it only ever plays at 1x, so a faster or
+ * slower room pulls away from it by (rate - 1) seconds every second and no amount of seeking keeps up.
+ */
+export function canPlayAtRate(capabilities: PlayerCapabilities, rate: number): boolean {
+  return rate === 1 || capabilities.rateControl;
+}
+
+/** Menu/label form: 1 -> "1x", 1.25 -> "1.25x", 0.5 -> "0.5x". */
+export function formatPlaybackRate(rate: number): string {
+  return `${Number(rate.toFixed(2))}x`;
+}
@@ -0,0 +1,283 @@
+// One player surface for the sync loop. Each source's ref (YouTube/Vimeo/Twitch iframes, <video> via
+// mp4/HLS/DASH, Cast receiver) is wrapped once in a PlayerAdapter, and the corrector mode comes from what the
+// adapter declares it can do — the sync hook never asks which player it is talking to.
+import { YT_STATES } from './youtube';
+import { YOUTUBE_PLAYBACK_RATES } from '@/src/lib/constants';
+import type { CorrectorMode } from './corrector';
+import type { TimeRangesLike } from './diagnostics';
+import {
+  clampToLiveWindow,
+  getLiveStreamRanges,
+  isSharedLiveClock,
+  toMediaTime,
+  toStreamTime,
+  type LiveTimeline,
+} from './live';
+
+export interface PlayerCapabilities {
+  /** playbackRate can be written at all. */
+  rateControl: boolean;
+  /** The only rates the player accepts (YouTube); null when any rate in range works. */
+  discreteRates: readonly number[] | null;
+  /** Seekable/buffered TimeRanges are observable. */
+  seekableRanges: boolean;
+  /** Live stream: no fixed end. */
+  live: boolean;
+  /**
+   * Whose clock positions are on: 'shared' = the same for every viewer; 'local' = this player's own
+   * estimate (a live stream only anchored to its edge, see live.ts), which can't be compared with the room's;
+   * 'pending' = not settled yet (an HLS playlist still loading reads media time, then the stream clock).
+   */
+  timeline: 'shared' | 'local' | 'pending';
+  /**
+   * How user play/pause/seek reaches the sync hook:
+   * 'media' = the component forwards native media events (onPlay/onPause/onSeeked);
+   * 'state' = the player reports coarse state changes and seeks are inferred (YouTube IFrame API) or,
+   *           for embeds that report them (Vimeo, Twitch), forwarded as onSeeked;
+   * 'none'  = nothing observable (Cast, which reports through its own remote-control callbacks).
+   */
+  events: 'media' | 'state' | 'none';
+}
+
+export type PlayerPlaybackState = 'playing' | 'paused' | 'buffering' | 'ended' | 'unknown';
+
+export interface PlayerAdapter {
+  /** Read per call — some capabilities (available rates, live) are only known after load. */
+  getCapabilities: () => PlayerCapabilities;
+  play: () => void;
+  pause: () => void;
+  seekTo: (time: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  getPlaybackState: () => PlayerPlaybackState;
+  /** HTMLMediaElement.readyState or the nearest equivalent; null when not observable. */
+  getReadyState: () => number | null;
+  /** No-op without rateControl. */
+  setPlaybackRate: (rate: number) => void;
+  /** null without seekableRanges. */
+  getSeekableRanges: () => TimeRangesLike | null;
+}
+
+/**
+ * Corrector mode from declared capabilities: no rate control -> 'seek'; a fixed set of rates ->
+ * 'stepped'; anything finer -> 'rate'.
+ */
+export function deriveCorrectorMode(capabilities: PlayerCapabilities): CorrectorMode {
+  if (!capabilities.rateControl) return 'seek';
+  if (capabilities.discreteRates !== null) return 'stepped';
+  return 'rate';
+}
+
+/** Structural surface shared by VideoPlayer, HLSPlayer and DASHPlayer. */
+export interface MediaElementPlayerHandle {
+  play: () => void | Promise<void>;
+  pause: () => void;
+  seekTo: (time: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  isPaused: () => boolean;
+  getVideoElement: () => HTMLVideoElement | null;
+  setPlaybackRate?: (rate: number) => void;
+}
+
+export function createMediaElementAdapter(handle: MediaElementPlayerHandle): PlayerAdapter {
+  return {
+    getCapabilities: () => ({
+      rateControl: handle.setPlaybackRate !== undefined,
+      discreteRates: null,
+      seekableRanges: true,
+      // Live HLS/DASH reports an infinite duration until the stream ends
+      live: handle.getVideoElement()?.duration === Infinity,
+      timeline: 'shared',
+      events: 'media',
+    }),
+    play: () => void handle.play(),
+    pause: () => handle.pause(),
+    seekTo: time => handle.seekTo(time),
+    getCurrentTime: () => handle.getCurrentTime(),
+    getDuration: () => handle.getDuration(),
+    getPlaybackState: () => {
+      const element = handle.getVideoElement();
+      if (element?.ended) return 'ended';
+      return handle.isPaused() ? 'paused' : 'playing';
+    },
+    getReadyState: () => handle.getVideoElement()?.readyState ?? null,
+    setPlaybackRate: rate => handle.setPlaybackRate?.(rate),
+    getSeekableRanges: () => handle.getVideoElement()?.seekable ?? null,
+  };
+}
+
+/** HLSPlayer: a media element that may be playing a live stream. */
+export interface HlsPlayerHandle extends MediaElementPlayerHandle {
+  /** null for VOD, and for live until the playlist's window is known. */
+  getLiveTimeline: () => LiveTimeline | null;
+  /** True until the player can tell a live stream from VOD; getLiveTimeline is null for both meanwhile. */
+  isLiveTimelinePending: () => boolean;
+}
+
+/**
+ * A media-element adapter that reads and seeks on the stream clock (see live.ts) while the stream is live,
+ * so the sync loop compares the same coordinate on every client whatever point of the playlist they joined at.
+ */
+export function createHlsAdapter(handle: HlsPlayerHandle): PlayerAdapter {
+  const base = createMediaElementAdapter(handle);
+  return {
+    ...base,
+    getCapabilities: () => {
+      const timeline = handle.getLiveTimeline();
+      return {
+        ...base.getCapabilities(),
+        live: timeline !== null,
+        timeline: handle.isLiveTimelinePending()
+          ? 'pending'
+          : timeline && !isSharedLiveClock(timeline)
+            ? 'local'
+            : 'shared',
+      };
+    },
+    seekTo: time => {
+      const timeline = handle.getLiveTimeline();
+      if (!timeline) return handle.seekTo(time);
+      handle.seekTo(toMediaTime(clampToLiveWindow(time, getLiveStreamRanges(timeline)), timeline));
+    },
+    getCurrentTime: () => {
+      const timeline = handle.getLiveTimeline();
+      const mediaTime = handle.getCurrentTime();
+      return timeline ? toStreamTime(mediaTime, timeline) : mediaTime;
+    },
+    getSeekableRanges: () => {
+      const timeline = handle.getLiveTimeline();
+      return timeline ? getLiveStreamRanges(timeline) : base.getSeekableRanges();
+    },
+  };
+}
+
+export interface YouTubePlayerHandle {
+  play: () => void;
+  pause: () => void;
+  seekTo: (time: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  getPlayerState: () => number;
+  setPlaybackRate: (rate: number) => void;
+  getAvailablePlaybackRates: () => number[];
+}
+
+/** YouTube IFrame API state code -> adapter playback state. */
+export function toPlaybackState(youTubeState: number): PlayerPlaybackState {
+  switch (youTubeState) {
+    case YT_STATES.PLAYING:
+      return 'playing';
+    case YT_STATES.PAUSED:
+    case YT_STATES.CUED:
+      return 'paused';
+    case YT_STATES.BUFFERING:
+      return 'buffering';
+    case YT_STATES.ENDED:
+      return 'ended';
+    default:
+      return 'unknown';
+  }
+}
+
+export function createYouTubeAdapter(handle: YouTubePlayerHandle): PlayerAdapter {
+  return {
+    getCapabilities: () => {
+      const rates = handle.getAvailablePlaybackRates();
+      return {
+        rateControl: true,
+        // The list is empty until the player is ready; YouTube's usual steps stand in meanwhile
+        discreteRates: rates.length > 0 ? rates : YOUTUBE_PLAYBACK_RATES,
+        seekableRanges: false,
+        live: false,
+        timeline: 'shared',
+        events: 'state',
+      };
+    },
+    play: () => handle.play(),
+    pause: () => handle.pause(),
+    seekTo: time => handle.seekTo(time),
+    getCurrentTime: () => handle.getCurrentTime(),
+    getDuration: () => handle.getDuration(),
+    getPlaybackState: () => toPlaybackState(handle.getPlayerState()),
+    // No readyState on an iframe; BUFFERING is the closest equivalent of a starved element
+    getReadyState: () => (handle.getPlayerState() === YT_STATES.BUFFERING ? 2 : 4),
+    setPlaybackRate: rate => handle.setPlaybackRate(rate),
+    getSeekableRanges: () => null,
+  };
+}
+
+/** Structural surface shared by VimeoPlayer and TwitchPlayer. */
+export interface EmbedPlayerHandle {
+  play: () => void;
+  pause: () => void;
+  seekTo: (time: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  getPlaybackState: () => PlayerPlaybackState;
+  /** Vimeo only allows speed changes on some plans; Twitch never does. */
+  canSetPlaybackRate: () => boolean;
+  setPlaybackRate: (rate: number) => void;
+}
+
+export function createEmbedAdapter(handle: EmbedPlayerHandle): PlayerAdapter {
+  return {
+    getCapabilities: () => ({
+      rateControl: handle.canSetPlaybackRate(),
+      discreteRates: null,
+      seekableRanges: false,
+      live: false,
+      timeline: 'shared',
+      events: 'state',
+    }),
+    play: () => handle.play(),
+    pause: () => handle.pause(),
+    seekTo: time => handle.seekTo(time),
+    getCurrentTime: () => handle.getCurrentTime(),
+    getDuration: () => handle.getDuration(),
+    getPlaybackState: () => handle.getPlaybackState(),
+    // Iframe stand-in like YouTube's, except an embed that hasn't loaded yet reads as HAVE_NOTHING
+    // so an early sync is queued for its onReady instead of seeking a player that isn't there
+    getReadyState: () => {
+      const state = handle.getPlaybackState();
+      if (state === 'unknown') return 0;
+      return state === 'buffering' ? 2 : 4;
+    },
+    setPlaybackRate: rate => {
+      if (handle.canSetPlaybackRate()) handle.setPlaybackRate(rate);
+    },
+    getSeekableRanges: () => null,
+  };
+}
+
+export interface CastPlayerHandle {
+  play: () => void;
+  pause: () => void;
+  seekTo: (time: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+  isPaused: () => boolean;
+}
+
+export function createCastAdapter(handle: CastPlayerHandle): PlayerAdapter {
+  return {
+    getCapabilities: () => ({
+      rateControl: false,
+      discreteRates: null,
+      seekableRanges: false,
+      live: false,
+      timeline: 'shared',
+      events: 'none',
+    }),
+    play: () => handle.play(),
+    pause: () => handle.pause(),
+    seekTo: time => handle.seekTo(time),
+    getCurrentTime: () => handle.getCurrentTime(),
+    getDuration: () => handle.getDuration(),
+    getPlaybackState: () => (handle.isPaused() ? 'paused' : 'playing'),
+    // The receiver buffers on the TV; its stalls aren't observable from here
+    getReadyState: () => null,
+    setPlaybackRate: () => {},
+    getSeekableRanges: () => null,
+  };
+}
@@ -0,0 +1,96 @@
+// Video type -> PlayerAdapter factory. A new source registers here (and its ref goes into the
+// playerRefs map RoomShell builds); the sync hook and the room components look players up by source
+// and stay untouched.
+import type { RefObject } from 'react';
+import type { VideoType } from '@/types';
+import {
+  createCastAdapter,
+  createEmbedAdapter,
+  createHlsAdapter,
+  createMediaElementAdapter,
+  createYouTubeAdapter,
+  type PlayerAdapter,
+} from './player-adapter';
+
+/** Registry key: a room video type, or 'cast' while a Cast session owns playback. */
+export type PlayerSource = NonNullable<VideoType> | 'cast';
+
+/** What every player component's imperative handle offers, whatever the source. */
+export interface PlayerHandle {
+  play: () => void | Promise<void>;
+  pause: () => void;
+  seekTo: (time: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+}
+
+/** Each source's player ref. Memoize it: lookups read `.current` per call. */
+export type PlayerRefs = Partial<Record<PlayerSource, RefObject<PlayerHandle | null>>>;
+
+type PlayerAdapterFactory = (handle: never) => PlayerAdapter;
+
+const factories = new Map<PlayerSource, PlayerAdapterFactory>([
+  ['youtube', createYouTubeAdapter],
+  ['mp4', createMediaElementAdapter],
+  ['m3u8', createHlsAdapter],
+  ['mpd', createMediaElementAdapter],
+  ['vimeo', createEmbedAdapter],
+  ['twitch', createEmbedAdapter],
+  ['cast', createCastAdapter],
+]);
+
+// Adapters are thin wrappers that read the handle live, so one per handle instance is enough. Kept per
+// factory, so replacing a source's factory takes effect for handles that already have an adapter.
+const adapterCache = new WeakMap<PlayerAdapterFactory, WeakMap<object, PlayerAdapter>>();
+
+/** Register (or replace) the adapter factory for a source. */
+export function registerPlayerAdapter<T extends object>(
+  source: PlayerSource,
+  factory: (handle: T) => PlayerAdapter
+): void {
+  factories.set(source, factory as PlayerAdapterFactory);
+}
+
+export function hasPlayerAdapter(source: PlayerSource): boolean {
+  return factories.has(source);
+}
+
+/**
+ * Adapter for the player handle (the component's imperative ref value) of a source; null when the
+ * source has no registered factory or the handle isn't mounted yet.
+ */
+export function resolvePlayerAdapter(source: PlayerSource, handle: object | null | undefined): PlayerAdapter | null {
+  if (!handle) return null;
+  const factory = factories.get(source) as ((handle: object) => PlayerAdapter) | undefined;
+  if (!factory) return null;
+  let adapters = adapterCache.get(factory);
+  if (!adapters) {
+    adapters = new WeakMap();
+    adapterCache.set(factory, adapters);
+  }
+  let adapter = adapters.get(handle);
+  if (!adapter) {
+    adapter = factory(handle);
+    adapters.set(handle, adapter);
+  }
+  return adapter;
+}
+
+/**
+ * The source that owns playback for this viewer: the Cast receiver while a session is up and its handle is
+ * mounted, otherwise the room's video type. Pass isCasting false for the local player regardless of Cast.
+ */
+export function resolvePlayerSource(
+  videoType: VideoType | null | undefined,
+  playerRefs: PlayerRefs,
+  isCasting = false
+): PlayerSource | null {
+  if (!videoType) return null;
+  if (isCasting && playerRefs.cast?.current) return 'cast';
+  return videoType;
+}
+
+/** The mounted player component for a source, as its own imperative handle; null when it isn't mounted. */
+export function resolvePlayerHandle(playerRefs: PlayerRefs, source: PlayerSource | null): PlayerHandle | null {
+  return source ? (playerRefs[source]?.current ?? null) : null;
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useSyncExternalStore, useCallback } from 'react';
+import { logVideo } from '@/src/core/logger';
+
+export interface StreamPreferences {
+  /** Remembered HLS quality as a height (e.g. 720); null = Auto (ABR). */
+  preferredHeight: number | null;
+  /** Remembered audio language tag (e.g. "ja"); null = the manifest's default. */
+  preferredAudioLang: string | null;
+}
+
+const DEFAULT_PREFERENCES: StreamPreferences = {
+  preferredHeight: null,
+  preferredAudioLang: null,
+};
+
+const STORAGE_KEY = 'stream_preferences';
+
+// Module-level state (singleton), same shape as the subtitle settings store
+let preferences: StreamPreferences = DEFAULT_PREFERENCES;
+const listeners = new Set<() => void>();
+
+if (typeof window !== 'undefined') {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<StreamPreferences>;
+      preferences = {
+        preferredHeight: typeof parsed.preferredHeight === 'number' ? parsed.preferredHeight : null,
+        preferredAudioLang: typeof parsed.preferredAudioLang === 'string' ? parsed.preferredAudioLang : null,
+      };
+    }
+  } catch (error) {
+    logVideo('prefs_load_fail', 'Failed to load stream preferences from localStorage', { error: String(error) });
+  }
+}
+
+function emitChange() {
+  listeners.forEach(listener => listener());
+}
+
+function persist() {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    logVideo('prefs_save_fail', 'Failed to save stream preferences to localStorage', { error: String(error) });
+  }
+}
+
+function setPreferredHeight(value: number | null) {
+  preferences = { ...preferences, preferredHeight: value };
+  persist();
+  emitChange();
+}
+
+function setPreferredAudioLang(value: string | null) {
+  preferences = { ...preferences, preferredAudioLang: value };
+  persist();
+  emitChange();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function getSnapshot() {
+  return preferences;
+}
+
+function getServerSnapshot() {
+  return DEFAULT_PREFERENCES;
+}
+
+export function useStreamPreferences() {
+  const currentPreferences = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  return {
+    preferences: currentPreferences,
+    setPreferredHeight: useCallback((v: number | null) => setPreferredHeight(v), []),
+    setPreferredAudioLang: useCallback((v: string | null) => setPreferredAudioLang(v), []),
+  };
+}
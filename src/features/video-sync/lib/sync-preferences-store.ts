@@ -0,0 +1,87 @@
+'use client';
+
+import { useSyncExternalStore, useCallback } from 'react';
+import { logVideo } from '@/src/core/logger';
+import { CATCH_UP_RATES } from '@/src/lib/constants';
+
+export interface SyncPreferences {
+  /** Speed up instead of hard-seeking when falling a little behind the room. */
+  catchUpEnabled: boolean;
+  /** One of CATCH_UP_RATES, relative to the room's speed. */
+  catchUpRate: number;
+}
+
+const DEFAULT_PREFERENCES: SyncPreferences = {
+  catchUpEnabled: false,
+  catchUpRate: CATCH_UP_RATES[0],
+};
+
+const STORAGE_KEY = 'sync_preferences';
+
+// Module-level state (singleton), same shape as the subtitle settings store
+let preferences: SyncPreferences = DEFAULT_PREFERENCES;
+const listeners = new Set<() => void>();
+
+if (typeof window !== 'undefined') {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<SyncPreferences>;
+      preferences = { ...DEFAULT_PREFERENCES, ...parsed };
+      if (!(CATCH_UP_RATES as readonly number[]).includes(preferences.catchUpRate)) {
+        preferences.catchUpRate = DEFAULT_PREFERENCES.catchUpRate;
+      }
+    }
+  } catch (error) {
+    logVideo('prefs_load_fail', 'Failed to load sync preferences from localStorage', { error: String(error) });
+  }
+}
+
+function emitChange() {
+  listeners.forEach(listener => listener());
+}
+
+function persist() {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    logVideo('prefs_save_fail', 'Failed to save sync preferences to localStorage', { error: String(error) });
+  }
+}
+
+function setCatchUpEnabled(value: boolean) {
+  preferences = { ...preferences, catchUpEnabled: value };
+  persist();
+  emitChange();
+}
+
+function setCatchUpRate(value: number) {
+  if (!(CATCH_UP_RATES as readonly number[]).includes(value)) return;
+  preferences = { ...preferences, catchUpRate: value };
+  persist();
+  emitChange();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function getSnapshot() {
+  return preferences;
+}
+
+function getServerSnapshot() {
+  return DEFAULT_PREFERENCES;
+}
+
+export function useSyncPreferences() {
+  const currentPreferences = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+
+  return {
+    preferences: currentPreferences,
+    setCatchUpEnabled: useCallback((v: boolean) => setCatchUpEnabled(v), []),
+    setCatchUpRate: useCallback((v: number) => setCatchUpRate(v), []),
+  };
+}
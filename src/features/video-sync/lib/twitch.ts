@@ -0,0 +1,21 @@
+// Extract a Twitch VOD ID (digits only) from twitch.tv/videos/ID, twitch.tv/CHANNEL/v/ID or
+// player.twitch.tv/?video=vID. Live channels and clips aren't VODs and return undefined.
+export function extractTwitchVideoId(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+
+  try {
+    const u = new URL(url);
+    const hostname = u.hostname.toLowerCase();
+    if (hostname !== 'twitch.tv' && !hostname.endsWith('.twitch.tv')) return undefined;
+
+    if (hostname === 'player.twitch.tv') {
+      const video = u.searchParams.get('video')?.replace(/^v/, '');
+      return video && /^\d+$/.test(video) ? video : undefined;
+    }
+
+    const match = u.pathname.match(/^\/(?:videos|[^/]+\/v)\/(\d+)\/?$/);
+    return match ? match[1] : undefined;
+  } catch {
+    return undefined;
+  }
+}
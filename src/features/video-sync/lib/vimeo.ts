@@ -0,0 +1,57 @@
+export interface VimeoVideoRef {
+  id: string;
+  /** Privacy hash of an unlisted video (vimeo.com/ID/HASH or ?h=HASH); the embed refuses it without one. */
+  hash?: string;
+}
+
+// Extract a Vimeo video ID (and unlisted hash) from vimeo.com / player.vimeo.com URL formats
+export function extractVimeoVideo(url: string | undefined): VimeoVideoRef | undefined {
+  if (!url) return undefined;
+
+  try {
+    const u = new URL(url);
+    const hostname = u.hostname.toLowerCase();
+    if (hostname !== 'vimeo.com' && !hostname.endsWith('.vimeo.com')) return undefined;
+
+    const segments = u.pathname.split('/').filter(Boolean);
+    const queryHash = u.searchParams.get('h') ?? undefined;
+
+    // player.vimeo.com/video/ID, vimeo.com/showcase/N/video/ID, vimeo.com/groups/NAME/videos/ID
+    const videoIndex = segments.findIndex(s => s === 'video' || s === 'videos');
+    if (videoIndex !== -1) {
+      const id = segments[videoIndex + 1];
+      return id && /^\d+$/.test(id) ? { id, hash: queryHash } : undefined;
+    }
+
+    // A showcase/album link without a video is a playlist, not something we can play
+    if (segments[0] === 'showcase' || segments[0] === 'album') return undefined;
+
+    // vimeo.com/ID, vimeo.com/ID/HASH, vimeo.com/channels/NAME/ID
+    const idIndex = segments.findIndex(s => /^\d+$/.test(s));
+    if (idIndex === -1) return undefined;
+    const next = segments[idIndex + 1];
+    const pathHash = next && /^[0-9a-f]+$/i.test(next) ? next : undefined;
+    return { id: segments[idIndex], hash: pathHash ?? queryHash };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Last position a Vimeo `timeupdate` reported, and what the player was doing at that moment. */
+export interface VimeoTimeSample {
+  seconds: number;
+  /** Local clock (ms) when the sample arrived. */
+  at: number;
+  playing: boolean;
+  rate: number;
+}
+
+/**
+ * Current position projected from the last sample. The Vimeo SDK's getters are all async while
+ * the sync loop reads positions synchronously, so the player caches the ~4 Hz timeupdate stream
+ * and extrapolates between events.
+ */
+export function projectVimeoTime(sample: VimeoTimeSample, now: number): number {
+  if (!sample.playing) return sample.seconds;
+  return sample.seconds + (Math.max(0, now - sample.at) / 1000) * sample.rate;
+}
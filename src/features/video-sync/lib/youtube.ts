@@ -1,3 +1,13 @@
+// YouTube IFrame Player API states
+export const YT_STATES = {
+  UNSTARTED: -1,
+  ENDED: 0,
+  PLAYING: 1,
+  PAUSED: 2,
+  BUFFERING: 3,
+  CUED: 5,
+};
+
 // Extract YouTube video ID from various URL formats
 export function extractYouTubeId(url: string | undefined): string | undefined {
   if (!url) return undefined;
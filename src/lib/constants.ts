@@ -30,7 +30,89 @@ export const SYNC_SOFT_BAND_S = 1.0;
 export const SYNC_NUDGE_GAIN = 0.5;
 /** Clamp playbackRate to 1 +/- this amount (HTML5/HLS glide) */
 export const SYNC_MAX_NUDGE = 0.05;
+/** PI corrector: integral gain (per second of accumulated drift) that removes the steady residual */
+export const SYNC_PI_INTEGRAL_GAIN = 0.1;
+/** PI corrector: recent drift samples whose spread sizes the dead band and tempers the gains */
+export const SYNC_PI_DRIFT_WINDOW = 10;
+/** PI corrector: adaptive dead band bounds (seconds) */
+export const SYNC_PI_MIN_DEAD_BAND_S = 0.04;
+export const SYNC_PI_MAX_DEAD_BAND_S = 0.4;
+/** PI corrector: dead band = this many standard deviations of recent drift */
+export const SYNC_PI_DEAD_BAND_SIGMAS = 2;
+/** PI corrector: drift spread (seconds) at which both gains are halved */
+export const SYNC_PI_NOISE_REFERENCE_S = 0.1;
 /** Client local projection corrector loop interval */
 export const SYNC_CORRECTOR_INTERVAL_MS = 400;
 /** Raised hard-seek threshold (seconds) for YouTube/Cast (discrete playbackRate only) */
 export const YOUTUBE_SEEK_TOLERANCE_S = 0.75;
+/** Stepped (YouTube) mode: below this drift (seconds), do nothing */
+export const SYNC_STEPPED_DEAD_BAND_S = 0.25;
+/** Stepped mode: longest discrete-rate glide (ms) before a hard seek is preferred instead */
+export const SYNC_STEPPED_MAX_GLIDE_MS = 8_000;
+/** Discrete rates the YouTube IFrame API offers for most videos (fallback before the player reports its own) */
+export const YOUTUBE_PLAYBACK_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2] as const;
+
+// Playback Speed
+
+/** Shared speeds a host can pick; every entry is also a YouTube-supported discrete rate */
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2] as const;
+
+// Catch-up
+
+/** Catch-up speeds a viewer can pick, relative to the room's shared speed */
+export const CATCH_UP_RATES = [1.25, 1.5] as const;
+/** Behind by more than this (seconds), catching up would take too long — hard seek instead */
+export const CATCH_UP_MAX_DRIFT_S = 20;
+/** Never play faster than this while catching up (YouTube's ceiling; past it speech turns to mush) */
+export const CATCH_UP_MAX_RATE = 2;
+
+// Buffering Barrier
+
+/** HTMLMediaElement.HAVE_FUTURE_DATA — a player at or above this can keep playing */
+export const HAVE_FUTURE_DATA = 3;
+/** Continuous stall (ms) before a client reports itself as holding the room */
+export const BARRIER_STALL_THRESHOLD_MS = 1_500;
+
+// Clock Offset
+
+/** Number of back-to-back time-pings sent on (re)connect for fast initial convergence */
+export const CLOCK_BURST_PROBE_COUNT = 5;
+/** Spacing (ms) between probes inside a burst */
+export const CLOCK_BURST_PROBE_INTERVAL_MS = 200;
+/** Background re-probe cadence (ms) once the initial burst has converged */
+export const CLOCK_REPROBE_INTERVAL_MS = 15_000;
+/** Maximum number of samples kept in the sliding estimator window */
+export const CLOCK_SAMPLE_WINDOW = 32;
+/** Samples older than this (ms) are evicted from the window regardless of count */
+export const CLOCK_SAMPLE_MAX_AGE_MS = 10 * 60_000;
+/** Probes with a round trip above this (ms) are discarded outright (queued behind a stall) */
+export const CLOCK_MAX_RTT_MS = 2_000;
+/** Offset jump (ms) against the current estimate that counts as a clock step (sleep, NTP) */
+export const CLOCK_STEP_THRESHOLD_MS = 1_000;
+/** Consecutive step-agreeing samples required before the window is reset to the new offset */
+export const CLOCK_STEP_CONFIRM_SAMPLES = 2;
+/** Minimum window time span (ms) before a skew slope is fitted instead of a flat mean */
+export const CLOCK_SKEW_MIN_SPAN_MS = 60_000;
+/** Skew clamp (ms of drift per ms elapsed); 500ppm is far beyond any sane quartz crystal */
+export const CLOCK_MAX_SKEW = 0.0005;
+
+// Watch History
+
+/** How often (ms) the playing position is written to the local watch history */
+export const WATCH_HISTORY_SAVE_INTERVAL_MS = 5_000;
+/** Entries kept in the local watch history; the oldest are dropped past this */
+export const WATCH_HISTORY_MAX_ENTRIES = 200;
+/** Don't offer to resume anything closer than this (seconds) to the start or the end */
+export const WATCH_HISTORY_RESUME_MARGIN_S = 30;
+
+// Subtitle Sharing
+
+/** Largest compressed cue payload (bytes) a host can share; keeps the event well under socket.io's 1MB buffer */
+export const SUBTITLE_SHARE_MAX_BYTES = 256 * 1024;
+/** Largest decompressed payload (bytes) a guest will inflate, so a hostile share can't balloon in memory */
+export const SUBTITLE_SHARE_MAX_INFLATED_BYTES = 8 * 1024 * 1024;
+/** Longest track label / language code a share may carry (matches SharedSubtitleTrackSchema) */
+export const SUBTITLE_SHARE_MAX_LABEL_LENGTH = 200;
+export const SUBTITLE_SHARE_MAX_LANGUAGE_LENGTH = 16;
+/** How long the host waits for the server to echo a share back before calling it failed (ms) */
+export const SUBTITLE_SHARE_ACK_TIMEOUT_MS = 5000;
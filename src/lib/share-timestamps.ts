@@ -0,0 +1,45 @@
+// Utilities for timestamped room links (/room/[roomId]?t=1h2m30s, also #t=)
+
+import { parseTimestampToSeconds } from './chat-timestamps';
+
+const UNIT_TIME_PATTERN = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+(?:\.\d+)?)s?)?$/i;
+
+// Parse a `t` value into seconds. Accepts 1h2m30s / 2m / 90s / 90 (YouTube style) and 01:02:30 / 2:30.
+// Returns null for anything else, including an empty string.
+export function parseShareTime(raw: string | null | undefined): number | null {
+  const value = raw?.trim();
+  if (!value) return null;
+
+  if (value.includes(':')) {
+    return parseTimestampToSeconds(value)?.seconds ?? null;
+  }
+
+  const match = UNIT_TIME_PATTERN.exec(value);
+  if (!match) return null;
+  const [, hours, minutes, seconds] = match;
+  if (hours === undefined && minutes === undefined && seconds === undefined) return null;
+
+  return Number(hours ?? 0) * 3600 + Number(minutes ?? 0) * 60 + Math.floor(Number(seconds ?? 0));
+}
+
+// Read the requested start time from a location, preferring ?t= over #t=
+export function readShareTime(search: string, hash: string): number | null {
+  const fromQuery = parseShareTime(new URLSearchParams(search).get('t'));
+  if (fromQuery !== null) return fromQuery;
+  return parseShareTime(new URLSearchParams(hash.replace(/^#/, '')).get('t'));
+}
+
+// Compact form used in generated links: 1h2m30s, 4m5s, 42s
+export function formatShareTime(totalSeconds: number): string {
+  const clamped = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(clamped / 3600);
+  const minutes = Math.floor((clamped % 3600) / 60);
+  const seconds = clamped % 60;
+
+  return `${hours ? `${hours}h` : ''}${hours || minutes ? `${minutes}m` : ''}${seconds}s`;
+}
+
+export function buildRoomShareUrl(origin: string, roomId: string, atSeconds?: number): string {
+  const url = `${origin}/room/${roomId}`;
+  return atSeconds && atSeconds >= 1 ? `${url}?t=${formatShareTime(atSeconds)}` : url;
+}
@@ -1,8 +1,17 @@
 import { VideoType } from '@/types';
 import { logVideo } from '@/src/core/logger/client-logger';
+import { extractTwitchVideoId } from '@/src/features/video-sync/lib/twitch';
+import { extractVimeoVideo } from '@/src/features/video-sync/lib/vimeo';
 
 type ParsedVideo = { type: VideoType | 'unknown'; embedUrl: string };
 
+/** Types played through a third-party iframe: no <video> element, the embed draws its own controls. */
+export const EMBED_VIDEO_TYPES = ['youtube', 'vimeo', 'twitch'] as const;
+
+export function isEmbedVideoType(type: VideoType | 'unknown' | undefined): type is (typeof EMBED_VIDEO_TYPES)[number] {
+  return (EMBED_VIDEO_TYPES as readonly string[]).includes(type ?? '');
+}
+
 const DRM_HOSTNAMES = new Set([
   'netflix.com',
   'www.netflix.com',
@@ -54,6 +63,24 @@ export function parseVideoUrl(url: string): ParsedVideo | null {
       }
     }
 
+    // Vimeo URLs
+    const vimeo = extractVimeoVideo(url);
+    if (vimeo) {
+      return {
+        type: 'vimeo',
+        embedUrl: `https://player.vimeo.com/video/${vimeo.id}${vimeo.hash ? `?h=${vimeo.hash}` : ''}`,
+      };
+    }
+
+    // Twitch VODs (live channels and clips fall through to the generic path)
+    const twitchId = extractTwitchVideoId(url);
+    if (twitchId) {
+      return {
+        type: 'twitch',
+        embedUrl: `https://player.twitch.tv/?video=v${twitchId}&parent=${window.location.hostname}&autoplay=false`,
+      };
+    }
+
     return { type: 'unknown', embedUrl: url };
   } catch (error) {
     logVideo('parse_error', 'Error parsing video URL', { error: error instanceof Error ? error.message : error });
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getEntriesToPrune,
+  getHistoryTitle,
+  getRecentRooms,
+  getResumePosition,
+  getWatchProgress,
+  type WatchHistoryEntry,
+} from '@/src/features/history/lib/watch-history';
+
+const entry = (videoId: string, watchedAt: number, overrides: Partial<WatchHistoryEntry> = {}): WatchHistoryEntry => ({
+  videoId,
+  videoUrl: `https://example.com/${videoId}.mp4`,
+  title: `${videoId}.mp4`,
+  position: 600,
+  duration: 6000,
+  roomId: 'room-a',
+  watchedAt,
+  ...overrides,
+});
+
+describe('getResumePosition', () => {
+  it('offers the saved position partway through', () => {
+    expect(getResumePosition({ position: 4324, duration: 6300 })).toBe(4324);
+  });
+
+  it('skips sessions that barely started or already finished', () => {
+    expect(getResumePosition({ position: 12, duration: 6300 })).toBeNull();
+    expect(getResumePosition({ position: 6290, duration: 6300 })).toBeNull();
+  });
+
+  it('still offers a position when the duration is unknown', () => {
+    expect(getResumePosition({ position: 900, duration: 0 })).toBe(900);
+  });
+});
+
+describe('getWatchProgress', () => {
+  it('is the share watched, clamped', () => {
+    expect(getWatchProgress({ position: 1500, duration: 6000 })).toBe(0.25);
+    expect(getWatchProgress({ position: 7000, duration: 6000 })).toBe(1);
+    expect(getWatchProgress({ position: 100, duration: 0 })).toBe(0);
+  });
+});
+
+describe('getHistoryTitle', () => {
+  it('prefers the player title', () => {
+    expect(getHistoryTitle('https://www.youtube.com/watch?v=dQw4w9WgXcQ', '  Never Gonna Give You Up ')).toBe(
+      'Never Gonna Give You Up'
+    );
+  });
+
+  it('falls back to the link label', () => {
+    expect(getHistoryTitle('https://www.youtube.com/watch?v=dQw4w9WgXcQ', '')).toBe('dQw4w9WgXcQ (YouTube)');
+    expect(getHistoryTitle('https://cdn.example.com/films/night%20one.mp4')).toBe('night one.mp4 (cdn.example.com)');
+  });
+});
+
+describe('getRecentRooms', () => {
+  it('groups by room, newest first, with the latest title', () => {
+    const rooms = getRecentRooms([
+      entry('a', 100, { roomId: 'room-a' }),
+      entry('b', 300, { roomId: 'room-b' }),
+      entry('c', 200, { roomId: 'room-a', title: 'Second film' }),
+    ]);
+    expect(rooms).toEqual([
+      { roomId: 'room-b', watchedAt: 300, lastTitle: 'b.mp4', videoCount: 1 },
+      { roomId: 'room-a', watchedAt: 200, lastTitle: 'Second film', videoCount: 2 },
+    ]);
+  });
+});
+
+describe('getEntriesToPrune', () => {
+  it('drops the least recently watched past the limit', () => {
+    const entries = [entry('a', 100), entry('b', 300), entry('c', 200)];
+    expect(getEntriesToPrune(entries, 2)).toEqual(['a']);
+    expect(getEntriesToPrune(entries, 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { QueueItem } from '@/types';
+import { canRemoveQueueItem, describeQueueUrl, getNextQueueItem, moveQueueItem } from '@/src/features/queue/lib/queue';
+
+const item = (id: string, status: QueueItem['status'] = 'queued', addedBy = 'host-id'): QueueItem => ({
+  id,
+  videoUrl: `https://example.com/${id}.mp4`,
+  addedBy,
+  addedByName: 'Someone',
+  addedAt: 0,
+  status,
+});
+
+describe('getNextQueueItem', () => {
+  it('skips suggestions the host has not approved', () => {
+    expect(getNextQueueItem([item('a', 'suggested'), item('b'), item('c')])?.id).toBe('b');
+  });
+
+  it('returns null when nothing is approved', () => {
+    expect(getNextQueueItem([])).toBeNull();
+    expect(getNextQueueItem([item('a', 'suggested')])).toBeNull();
+  });
+});
+
+describe('moveQueueItem', () => {
+  const queue = [item('a'), item('b'), item('c')];
+
+  it('moves an item to the requested index', () => {
+    expect(moveQueueItem(queue, 'c', 0).map(i => i.id)).toEqual(['c', 'a', 'b']);
+    expect(moveQueueItem(queue, 'a', 1).map(i => i.id)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('clamps out-of-range targets and ignores unknown items', () => {
+    expect(moveQueueItem(queue, 'a', 99).map(i => i.id)).toEqual(['b', 'c', 'a']);
+    expect(moveQueueItem(queue, 'b', -1).map(i => i.id)).toEqual(['b', 'a', 'c']);
+    expect(moveQueueItem(queue, 'missing', 0)).toEqual(queue);
+  });
+
+  it('does not mutate the input', () => {
+    moveQueueItem(queue, 'c', 0);
+    expect(queue.map(i => i.id)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('canRemoveQueueItem', () => {
+  it('lets hosts remove anything', () => {
+    expect(canRemoveQueueItem(item('a'), { id: 'other', isHost: true })).toBe(true);
+  });
+
+  it('lets guests withdraw only their own pending suggestions', () => {
+    const guest = { id: 'guest-id', isHost: false };
+    expect(canRemoveQueueItem(item('a', 'suggested', 'guest-id'), guest)).toBe(true);
+    expect(canRemoveQueueItem(item('a', 'suggested', 'someone-else'), guest)).toBe(false);
+    expect(canRemoveQueueItem(item('a', 'queued', 'guest-id'), guest)).toBe(false);
+  });
+});
+
+describe('describeQueueUrl', () => {
+  it('names embed platforms by video ID', () => {
+    expect(describeQueueUrl('https://www.youtube.com/watch?v=dQw4w9WgXcQ')).toEqual({
+      source: 'YouTube',
+      detail: 'dQw4w9WgXcQ',
+    });
+    expect(describeQueueUrl('https://vimeo.com/76979871')).toEqual({ source: 'Vimeo', detail: '76979871' });
+    expect(describeQueueUrl('https://www.twitch.tv/videos/2034567890')).toEqual({
+      source: 'Twitch VOD',
+      detail: '2034567890',
+    });
+  });
+
+  it('falls back to host and file name for direct links', () => {
+    expect(describeQueueUrl('https://www.cdn.example.com/films/My%20Movie.mp4')).toEqual({
+      source: 'cdn.example.com',
+      detail: 'My Movie.mp4',
+    });
+    expect(describeQueueUrl('not a url')).toEqual({ source: 'Link', detail: 'not a url' });
+  });
+});
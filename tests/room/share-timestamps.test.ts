@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { buildRoomShareUrl, formatShareTime, parseShareTime, readShareTime } from '@/src/lib/share-timestamps';
+
+describe('parseShareTime', () => {
+  it('reads unit-suffixed times', () => {
+    expect(parseShareTime('1h2m30s')).toBe(3750);
+    expect(parseShareTime('2m')).toBe(120);
+    expect(parseShareTime('1h5s')).toBe(3605);
+    expect(parseShareTime('90s')).toBe(90);
+    expect(parseShareTime('1H2M')).toBe(3720);
+  });
+
+  it('reads bare seconds and clock-style times', () => {
+    expect(parseShareTime('90')).toBe(90);
+    expect(parseShareTime('12.7')).toBe(12);
+    expect(parseShareTime('2:30')).toBe(150);
+    expect(parseShareTime('01:02:30')).toBe(3750);
+  });
+
+  it('rejects empty and malformed values', () => {
+    expect(parseShareTime(null)).toBeNull();
+    expect(parseShareTime('')).toBeNull();
+    expect(parseShareTime('abc')).toBeNull();
+    expect(parseShareTime('1m2h')).toBeNull();
+    expect(parseShareTime('2:75')).toBeNull();
+    expect(parseShareTime('-5')).toBeNull();
+  });
+});
+
+describe('readShareTime', () => {
+  it('reads ?t= and #t=, preferring the query string', () => {
+    expect(readShareTime('?t=1m', '')).toBe(60);
+    expect(readShareTime('', '#t=2m')).toBe(120);
+    expect(readShareTime('?autoplay=1&t=1m', '#t=2m')).toBe(60);
+  });
+
+  it('falls back to the hash when the query value is unusable', () => {
+    expect(readShareTime('?t=soon', '#t=45')).toBe(45);
+    expect(readShareTime('?videoUrl=x', '#chat')).toBeNull();
+  });
+});
+
+describe('formatShareTime', () => {
+  it('drops leading zero units', () => {
+    expect(formatShareTime(3750)).toBe('1h2m30s');
+    expect(formatShareTime(3605)).toBe('1h0m5s');
+    expect(formatShareTime(245)).toBe('4m5s');
+    expect(formatShareTime(42.9)).toBe('42s');
+    expect(formatShareTime(-3)).toBe('0s');
+  });
+
+  it('round-trips through parseShareTime', () => {
+    for (const seconds of [0, 59, 60, 3599, 3600, 7384]) {
+      expect(parseShareTime(formatShareTime(seconds))).toBe(seconds);
+    }
+  });
+});
+
+describe('buildRoomShareUrl', () => {
+  it('adds t only for a real position', () => {
+    expect(buildRoomShareUrl('https://sideby.me', 'ABC123')).toBe('https://sideby.me/room/ABC123');
+    expect(buildRoomShareUrl('https://sideby.me', 'ABC123', 0.4)).toBe('https://sideby.me/room/ABC123');
+    expect(buildRoomShareUrl('https://sideby.me', 'ABC123', 3750)).toBe('https://sideby.me/room/ABC123?t=1h2m30s');
+  });
+});
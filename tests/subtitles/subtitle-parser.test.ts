@@ -0,0 +1,165 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import {
+  detectSubtitleFormat,
+  parseASS,
+  parseSRT,
+  parseSubtitleText,
+  parseTimestamp,
+  parseVTT,
+  serializeVTT,
+} from '@/src/features/subtitles/lib/subtitle-parser';
+import { decodeSubtitleBytes } from '@/src/features/subtitles/lib/subtitle-encoding';
+
+const fixtureBytes = (name: string) => new Uint8Array(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+const fixture = (name: string) => decodeSubtitleBytes(fixtureBytes(name)).text;
+
+describe('parseTimestamp', () => {
+  it('reads SRT, VTT and ASS timestamps', () => {
+    expect(parseTimestamp('01:02:03,456')).toBeCloseTo(3723.456);
+    expect(parseTimestamp('01:02:03.456')).toBeCloseTo(3723.456);
+    expect(parseTimestamp('02:03.5')).toBeCloseTo(123.5);
+    expect(parseTimestamp('1:02:03.45')).toBeCloseTo(3723.45);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimestamp('00:00:xx,000')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+  });
+});
+
+describe('parseSRT', () => {
+  it('handles a BOM and CRLF line endings', () => {
+    const { cues, warnings } = parseSRT(fixture('crlf-bom.srt'));
+    expect(warnings).toEqual([]);
+    expect(cues).toEqual([
+      { start: 1, end: 3.5, text: 'Hello there.' },
+      {
+        start: 4,
+        end: 6,
+        text: 'Two lines,\none in italics.',
+        runs: [{ text: 'Two lines,\n' }, { text: 'one in italics', italic: true }, { text: '.' }],
+      },
+    ]);
+  });
+
+  it('keeps cues without index lines and reports what it skipped', () => {
+    const { cues, warnings } = parseSRT(fixture('no-index.srt'));
+    expect(cues.map(cue => cue.text)).toEqual([
+      'No index line, dot milliseconds.',
+      'Coloured text',
+      'Out of order but still valid',
+    ]);
+    expect(cues.map(cue => cue.start)).toEqual([1, 3, 7]);
+    expect(warnings.map(warning => [warning.code, warning.line])).toEqual([
+      ['orphan-text', 7],
+      ['invalid-timing', 11],
+      ['negative-duration', 15],
+    ]);
+  });
+});
+
+describe('parseVTT', () => {
+  it('skips header metadata, NOTE and STYLE blocks and keeps cue settings', () => {
+    const { cues, warnings } = parseVTT(fixture('cue-settings.vtt'));
+    expect(warnings).toEqual([]);
+    expect(cues).toEqual([
+      {
+        start: 1,
+        end: 2.5,
+        text: 'Top left',
+        settings: 'line:0 align:start',
+        position: { vertical: 'top', horizontal: 'left' },
+      },
+      { start: 3, end: 5, text: 'Plain cue' },
+      { start: 6, end: 7, text: 'Positioned', settings: 'position:10%,line-left size:35%' },
+    ]);
+  });
+
+  it('reads a cue straight after the header and flags a missing header', () => {
+    expect(parseVTT('WEBVTT\n00:01.000 --> 00:02.000\nNo gap').cues).toEqual([{ start: 1, end: 2, text: 'No gap' }]);
+    expect(parseVTT('00:01.000 --> 00:02.000\nHeaderless').warnings[0].code).toBe('missing-header');
+  });
+
+  it('round-trips through serializeVTT', () => {
+    const { cues } = parseVTT(fixture('cue-settings.vtt'));
+    expect(parseVTT(serializeVTT(cues)).cues).toEqual(cues);
+  });
+});
+
+describe('parseASS', () => {
+  it('follows the Format line and keeps commas in the text', () => {
+    const { format, cues, warnings } = parseASS(fixture('styled.ass'));
+    expect(format).toBe('ass');
+    expect(cues).toEqual([
+      {
+        start: 1,
+        end: 3,
+        text: 'Top line\nSecond row',
+        runs: [{ text: 'Top', italic: true }, { text: ' line\nSecond row' }],
+        position: { vertical: 'top', horizontal: 'center' },
+      },
+      { start: 5, end: 7.5, text: 'Later line, with a comma' },
+      { start: 8, end: 9, text: 'Hard\u00A0space' },
+    ]);
+    expect(warnings.map(warning => [warning.code, warning.line])).toEqual([['malformed-dialogue', 17]]);
+  });
+
+  it('honours a reordered Format line', () => {
+    expect(parseASS(fixture('reordered.ass')).cues).toEqual([
+      { start: 1, end: 2, text: 'Only three fields, comma kept' },
+    ]);
+  });
+
+  it('falls back to the SSA field order without a Format line', () => {
+    const { format, cues, warnings } = parseASS(fixture('no-format.ssa'));
+    expect(format).toBe('ssa');
+    expect(cues).toEqual([{ start: 1.5, end: 2.25, text: 'Old school SSA' }]);
+    expect(warnings.map(warning => warning.code)).toEqual(['missing-format-line']);
+  });
+});
+
+describe('detectSubtitleFormat', () => {
+  it('trusts the content over the file name', () => {
+    expect(detectSubtitleFormat(fixture('cue-settings.vtt'), 'mislabelled.srt')).toBe('vtt');
+    expect(detectSubtitleFormat(fixture('styled.ass'), 'subs.txt')).toBe('ass');
+    expect(detectSubtitleFormat(fixture('no-format.ssa'))).toBe('ssa');
+  });
+
+  it('falls back to the extension, then to the timing style', () => {
+    expect(detectSubtitleFormat(fixture('no-index.srt'), 'movie.srt')).toBe('srt');
+    expect(detectSubtitleFormat(fixture('crlf-bom.srt'))).toBe('srt');
+    expect(detectSubtitleFormat('hello', 'notes.txt')).toBeNull();
+  });
+
+  it('dispatches through parseSubtitleText', () => {
+    expect(parseSubtitleText(fixture('no-format.ssa'), 'ssa').cues).toHaveLength(1);
+  });
+});
+
+describe('decodeSubtitleBytes', () => {
+  it('decodes UTF-8 with and without a BOM', () => {
+    expect(decodeSubtitleBytes(fixtureBytes('crlf-bom.srt'))).toMatchObject({ encoding: 'utf-8', guessed: false });
+    expect(decodeSubtitleBytes(new TextEncoder().encode('Привет'))).toEqual({
+      text: 'Привет',
+      encoding: 'utf-8',
+      guessed: false,
+    });
+  });
+
+  it('decodes UTF-16 with a BOM', () => {
+    const bytes = new Uint8Array([0xff, 0xfe, 0x48, 0x00, 0x69, 0x00]);
+    expect(decodeSubtitleBytes(bytes)).toEqual({ text: 'Hi', encoding: 'utf-16le', guessed: false });
+  });
+
+  it.each([
+    ['french-1252.srt', 'windows-1252', 'Déjà vu, à côté de la fenêtre.'],
+    ['polish-1250.srt', 'windows-1250', 'Zażółć gęślą jaźń.'],
+    ['russian-1251.srt', 'windows-1251', 'Привет, как дела?'],
+    ['greek-1253.srt', 'windows-1253', 'Καλημέρα, τι κάνεις;'],
+  ])('sniffs %s as %s', (name, encoding, firstLine) => {
+    const decoded = decodeSubtitleBytes(fixtureBytes(name));
+    expect(decoded).toMatchObject({ encoding, guessed: true });
+    expect(parseSRT(decoded.text).cues[0].text).toBe(firstLine);
+  });
+});
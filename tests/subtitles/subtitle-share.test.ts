@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { decodeSharedCues, encodeSharedCues, getSharedTrackBase } from '@/src/features/subtitles/lib/subtitle-share';
+import { SUBTITLE_SHARE_MAX_BYTES, SUBTITLE_SHARE_MAX_INFLATED_BYTES } from '@/src/lib/constants';
+import { ShareSubtitleTrackDataSchema } from '@/types';
+import type { SubtitleCue } from '@/src/features/subtitles/lib/subtitle-parser';
+
+async function gzipBase64(text: string): Promise<string> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  return Buffer.from(await new Response(stream).arrayBuffer()).toString('base64');
+}
+
+const cues: SubtitleCue[] = [
+  { start: 1, end: 2.5, text: 'Plain line' },
+  {
+    start: 3,
+    end: 4,
+    text: 'Sign text',
+    runs: [{ text: 'Sign text', bold: true, color: '#ffff00' }],
+    position: { vertical: 'top', horizontal: 'center' },
+  },
+];
+
+describe('shared subtitle payloads', () => {
+  it('round-trips cues, styling included', async () => {
+    const payload = await encodeSharedCues(cues);
+    expect(payload).not.toBeNull();
+    expect(await decodeSharedCues(payload!)).toEqual(cues);
+  });
+
+  it('compresses repetitive subtitle text well under the limit', async () => {
+    const many = Array.from({ length: 2000 }, (_, i) => ({ start: i, end: i + 0.9, text: `Line number ${i}` }));
+    const payload = await encodeSharedCues(many);
+    expect(payload!.length).toBeLessThan(SUBTITLE_SHARE_MAX_BYTES / 4);
+    expect(() =>
+      ShareSubtitleTrackDataSchema.parse({
+        roomId: 'ABC123',
+        videoUrl: 'https://example.com/video.mp4',
+        track: { source: 'cues', trackId: 'upload-1', label: 'English', language: 'en', payload },
+      })
+    ).not.toThrow();
+  });
+
+  it('refuses to share what compresses past the limit', async () => {
+    // Pseudo-random text barely compresses
+    let seed = 1;
+    const noise = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed.toString(36);
+    };
+    const big = Array.from({ length: 6000 }, (_, i) => ({
+      start: i,
+      end: i + 1,
+      text: Array.from({ length: 12 }, noise).join(''),
+    }));
+    expect(await encodeSharedCues(big)).toBeNull();
+  });
+
+  it('rejects payloads that are not cues', async () => {
+    await expect(decodeSharedCues(await gzipBase64('{"start":1}'))).rejects.toThrow();
+    await expect(decodeSharedCues(await gzipBase64('[{"start":1,"end":2,"text":3}]'))).rejects.toThrow();
+    await expect(decodeSharedCues('not base64 gzip')).rejects.toThrow();
+  });
+
+  it('stops inflating past the cap', async () => {
+    const bomb = await gzipBase64(`[{"start":0,"end":1,"text":"${'a'.repeat(SUBTITLE_SHARE_MAX_INFLATED_BYTES)}"}]`);
+    await expect(decodeSharedCues(bomb)).rejects.toThrow('too large');
+  });
+
+  it('drops cues that end before they start', async () => {
+    const payload = await gzipBase64(JSON.stringify([...cues, { start: 5, end: 4, text: 'Backwards' }]));
+    expect(await decodeSharedCues(payload)).toEqual(cues);
+  });
+});
+
+describe('getSharedTrackBase', () => {
+  it('cuts long file-name labels and language tags to what the server accepts', () => {
+    const base = getSharedTrackBase({ id: 'upload-1', label: 'x'.repeat(500), language: 'en-US-x-private-extra' });
+    expect(base.trackId).toBe('upload-1');
+    expect(base.label).toHaveLength(200);
+    expect(base.language).toHaveLength(16);
+    expect(
+      ShareSubtitleTrackDataSchema.safeParse({
+        roomId: 'ABC123',
+        videoUrl: 'https://example.com/video.mp4',
+        track: { ...base, source: 'opensubtitles', fileId: '123' },
+      }).success
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,130 @@
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import { parseASS, parseSRT, parseVTT, serializeVTT } from '@/src/features/subtitles/lib/subtitle-parser';
+import {
+  assColorToCss,
+  parseASSText,
+  parseCueMarkup,
+  positionFromLegacyAlignment,
+  positionFromNumpad,
+  positionFromVTTSettings,
+  positionToVTTSettings,
+} from '@/src/features/subtitles/lib/subtitle-styles';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf-8');
+
+describe('parseCueMarkup', () => {
+  it('turns nested tags into runs and keeps the plain text', () => {
+    expect(parseCueMarkup('<i>Soft <b>and loud</b></i> <c.yellow.bg_black>warning</c>')).toEqual({
+      text: 'Soft and loud warning',
+      runs: [
+        { text: 'Soft ', italic: true },
+        { text: 'and loud', italic: true, bold: true },
+        { text: ' ' },
+        { text: 'warning', color: '#ffff00' },
+      ],
+    });
+  });
+
+  it("reads SRT's font colour and leaves unknown angle brackets alone", () => {
+    expect(parseCueMarkup('<font color="#00FF00">Go</font> if x < 3 <br>').runs).toEqual([
+      { text: 'Go', color: '#00ff00' },
+      { text: ' if x < 3 <br>' },
+    ]);
+  });
+
+  it('drops voice spans and karaoke timestamps without styling anything', () => {
+    expect(parseCueMarkup('<v.loud Mary>Never <00:00:01.500>again</v>')).toEqual({ text: 'Never again' });
+  });
+
+  it('decodes WebVTT entities only when asked', () => {
+    expect(parseCueMarkup('Tom &amp; Jerry &lt;3', { decodeEntities: true }).text).toBe('Tom & Jerry <3');
+    expect(parseCueMarkup('Tom &amp; Jerry').text).toBe('Tom &amp; Jerry');
+  });
+});
+
+describe('positions', () => {
+  it('maps numpad and legacy SSA alignment', () => {
+    expect(positionFromNumpad(8)).toEqual({ vertical: 'top', horizontal: 'center' });
+    expect(positionFromNumpad(4)).toEqual({ vertical: 'middle', horizontal: 'left' });
+    expect(positionFromNumpad(3)).toEqual({ vertical: 'bottom', horizontal: 'right' });
+    expect(positionFromLegacyAlignment(6)).toEqual({ vertical: 'top', horizontal: 'center' });
+    expect(positionFromLegacyAlignment(11)).toEqual({ vertical: 'middle', horizontal: 'right' });
+    expect(positionFromLegacyAlignment(4)).toBeUndefined();
+  });
+
+  it('reads and writes WebVTT line/align settings', () => {
+    expect(positionFromVTTSettings('line:10% align:end')).toEqual({ vertical: 'top', horizontal: 'right' });
+    expect(positionFromVTTSettings('line:-1')).toBeUndefined();
+    expect(positionFromVTTSettings('position:10%,line-left size:35%')).toBeUndefined();
+    expect(positionToVTTSettings({ vertical: 'middle', horizontal: 'left' })).toBe('line:50%,center align:left');
+  });
+});
+
+describe('ASS styling', () => {
+  it('converts BGR colours', () => {
+    expect(assColorToCss('&H0000FFFF')).toBe('#ffff00');
+    expect(assColorToCss('&HFF8000&')).toBe('#0080ff');
+    expect(assColorToCss('65535')).toBe('#ffff00');
+    expect(assColorToCss('blue')).toBeUndefined();
+  });
+
+  it('starts each line from its style and applies override tags on top', () => {
+    const { cues } = parseASS(fixture('anime-styles.ass'));
+    expect(cues).toEqual([
+      { start: 1, end: 4, text: 'We have to go.' },
+      {
+        start: 2,
+        end: 3,
+        text: 'Tokyo Station',
+        runs: [{ text: 'Tokyo Station', bold: true, color: '#ffff00' }],
+        position: { vertical: 'top', horizontal: 'center' },
+      },
+      {
+        start: 2.5,
+        end: 5,
+        text: 'Not again... please.',
+        runs: [
+          { text: 'Not again', italic: true },
+          { text: '... ' },
+          { text: 'please', color: '#ff0000' },
+          { text: '.' },
+        ],
+      },
+      {
+        start: 6,
+        end: 7,
+        text: 'Legacy top sign',
+        runs: [{ text: 'Legacy', bold: true }, { text: ' top' }, { text: ' sign', bold: true, color: '#ffff00' }],
+        position: { vertical: 'top', horizontal: 'center' },
+      },
+    ]);
+  });
+
+  it('keeps the first alignment tag', () => {
+    expect(parseASSText('{\\an7}A{\\an3}B', undefined, new Map()).position).toEqual({
+      vertical: 'top',
+      horizontal: 'left',
+    });
+  });
+});
+
+describe('serializeVTT', () => {
+  it('carries runs and positions through a VTT blob', () => {
+    const { cues } = parseASS(fixture('anime-styles.ass'));
+    const roundTripped = parseVTT(serializeVTT(cues)).cues;
+    expect(roundTripped.map(({ settings: _settings, ...cue }) => cue)).toEqual(cues);
+  });
+
+  it('escapes text that looks like markup', () => {
+    const vtt = serializeVTT([{ start: 0, end: 1, text: 'a <b> & c' }]);
+    expect(vtt).toContain('a &lt;b&gt; &amp; c');
+    expect(parseVTT(vtt).cues[0].text).toBe('a <b> & c');
+  });
+
+  it("places SRT cues that borrow ASS's {\\an8}", () => {
+    expect(parseSRT('1\n00:00:01,000 --> 00:00:02,000\n{\\an8}Up here').cues).toEqual([
+      { start: 1, end: 2, text: 'Up here', position: { vertical: 'top', horizontal: 'center' } },
+    ]);
+  });
+});
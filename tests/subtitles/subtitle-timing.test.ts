@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  IDENTITY_TRANSFORM,
+  applyTimingTransform,
+  describeTimingTransform,
+  getFrameRateTransform,
+  getTwoPointTransform,
+  transformCues,
+} from '@/src/features/subtitles/lib/subtitle-timing';
+import { SubtitleTrackSchema } from '@/types';
+import type { SubtitleCue } from '@/src/features/subtitles/lib/subtitle-parser';
+
+describe('subtitle timing transforms', () => {
+  it('stretches a PAL (25 fps) file onto a 23.976 fps video', () => {
+    const transform = getFrameRateTransform(25, 23.976)!;
+    expect(transform.offset).toBe(0);
+    expect(transform.scale).toBeCloseTo(1.0427, 4);
+    // A line at 40:00 in a PAL file lands ~1:40 later in the film
+    expect(applyTimingTransform(2400, transform)).toBeCloseTo(2502.5, 1);
+  });
+
+  it('rejects frame rates that make no sense', () => {
+    expect(getFrameRateTransform(0, 25)).toBeNull();
+    expect(getFrameRateTransform(25, -1)).toBeNull();
+    expect(getFrameRateTransform(Number.NaN, 25)).toBeNull();
+    expect(getFrameRateTransform(120, 23.976)).toBeNull();
+  });
+
+  it('solves scale and offset from two placed lines', () => {
+    // File drifts: 12:00 is really at 12:03, 1:40:00 is really at 1:40:10
+    const transform = getTwoPointTransform({ cueTime: 720, videoTime: 723 }, { cueTime: 6000, videoTime: 6010 })!;
+    expect(applyTimingTransform(720, transform)).toBeCloseTo(723, 6);
+    expect(applyTimingTransform(6000, transform)).toBeCloseTo(6010, 6);
+    expect(transform.scale).toBeCloseTo(5287 / 5280, 9);
+  });
+
+  it('accepts the two lines in either order', () => {
+    const forward = getTwoPointTransform({ cueTime: 10, videoTime: 12 }, { cueTime: 100, videoTime: 110 })!;
+    const backward = getTwoPointTransform({ cueTime: 100, videoTime: 110 }, { cueTime: 10, videoTime: 12 })!;
+    expect(backward.scale).toBeCloseTo(forward.scale, 9);
+    expect(backward.offset).toBeCloseTo(forward.offset, 9);
+  });
+
+  it('rejects points that are too close or out of order', () => {
+    expect(getTwoPointTransform({ cueTime: 10, videoTime: 10 }, { cueTime: 10.5, videoTime: 30 })).toBeNull();
+    // The later line placed before the earlier one would run the subtitles backwards
+    expect(getTwoPointTransform({ cueTime: 10, videoTime: 100 }, { cueTime: 100, videoTime: 10 })).toBeNull();
+  });
+
+  it('moves cue starts and ends, keeping everything else', () => {
+    const cues: SubtitleCue[] = [
+      { start: 10, end: 12, text: 'Hello', position: { vertical: 'top', horizontal: 'center' } },
+    ];
+    expect(transformCues(cues, { scale: 2, offset: 1 })).toEqual([
+      { start: 21, end: 25, text: 'Hello', position: { vertical: 'top', horizontal: 'center' } },
+    ]);
+    expect(transformCues(cues, IDENTITY_TRANSFORM)).toBe(cues);
+  });
+
+  it('describes the transform for the timing tool', () => {
+    expect(describeTimingTransform(IDENTITY_TRANSFORM)).toBe('As released');
+    expect(describeTimingTransform({ scale: 25 / 23.976, offset: 0 })).toBe('×1.0427');
+    expect(describeTimingTransform({ scale: 1, offset: -1.5 })).toBe('-1.50s');
+    expect(describeTimingTransform({ scale: 1.001, offset: 2 })).toBe('×1.0010, +2.00s');
+  });
+
+  it('keeps the release frame rate on a track', () => {
+    const track = { id: 'a', label: 'A', language: 'en', url: 'blob:https://x/1', format: 'vtt', fps: 25 };
+    expect(SubtitleTrackSchema.parse(track).fps).toBe(25);
+    expect(SubtitleTrackSchema.safeParse({ ...track, fps: 0 }).success).toBe(false);
+  });
+});
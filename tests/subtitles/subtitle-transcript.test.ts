@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTranscript,
+  findCurrentEntryIndex,
+  normalizeSearchText,
+  searchTranscript,
+} from '@/src/features/subtitles/lib/subtitle-transcript';
+import type { SubtitleCue } from '@/src/features/subtitles/lib/subtitle-parser';
+
+const cues: SubtitleCue[] = [
+  { start: 10, end: 12, text: 'Where are we going?' },
+  { start: 1, end: 3, text: 'Previously on...' },
+  { start: 5, end: 8, text: 'Café at\nnoon' },
+  { start: 5, end: 8, text: 'Café at\nnoon' },
+  { start: 20, end: 22, text: 'We are going to the café.' },
+];
+
+describe('subtitle transcript', () => {
+  it('orders cues by start and drops stacked duplicates', () => {
+    const entries = buildTranscript(cues);
+    expect(entries.map(entry => entry.cue.start)).toEqual([1, 5, 10, 20]);
+    expect(entries.map(entry => entry.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('drops layer copies that end at different times or sort apart', () => {
+    const layered: SubtitleCue[] = [
+      { start: 4, end: 6, text: 'Run!' },
+      { start: 4, end: 5, text: 'Sign: EXIT' },
+      { start: 4, end: 7, text: 'run!\n' },
+      { start: 4, end: 8, text: 'Sign:  EXIT' },
+      { start: 9, end: 10, text: 'Run!' },
+    ];
+    expect(buildTranscript(layered).map(({ cue }) => [cue.start, cue.text])).toEqual([
+      [4, 'Sign: EXIT'],
+      [4, 'Run!'],
+      [9, 'Run!'],
+    ]);
+  });
+
+  it('highlights the latest line that has started, through gaps', () => {
+    const entries = buildTranscript(cues);
+    expect(findCurrentEntryIndex(entries, 0.5)).toBe(-1);
+    expect(findCurrentEntryIndex(entries, 1)).toBe(0);
+    expect(findCurrentEntryIndex(entries, 9)).toBe(1);
+    expect(findCurrentEntryIndex(entries, 11)).toBe(2);
+    expect(findCurrentEntryIndex(entries, 500)).toBe(3);
+    expect(findCurrentEntryIndex([], 5)).toBe(-1);
+  });
+
+  it('normalizes case, accents and line breaks for search', () => {
+    expect(normalizeSearchText('  Café at\nNOON ')).toBe('cafe at noon');
+  });
+
+  it('finds lines containing every search word, in any order', () => {
+    const entries = buildTranscript(cues);
+    expect(searchTranscript(entries, 'cafe').map(entry => entry.index)).toEqual([1, 3]);
+    expect(searchTranscript(entries, 'going WE').map(entry => entry.index)).toEqual([2, 3]);
+    expect(searchTranscript(entries, 'at noon').map(entry => entry.index)).toEqual([1]);
+    expect(searchTranscript(entries, 'dragons')).toEqual([]);
+    expect(searchTranscript(entries, '   ')).toBe(entries);
+  });
+});
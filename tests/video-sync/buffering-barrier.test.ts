@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  advanceLocalBuffering,
+  createLocalBufferingState,
+  getBarrierCountdown,
+  type LocalBufferingState,
+} from '@/src/features/video-sync/lib/buffering-barrier';
+import { BARRIER_STALL_THRESHOLD_MS, HAVE_FUTURE_DATA } from '@/src/lib/constants';
+
+const STARVED = HAVE_FUTURE_DATA - 1;
+
+// Feed a sequence of observations, returning the final state and every non-null report
+function run(observations: Array<{ expectedPlaying: boolean; readyState: number; now: number }>) {
+  let state: LocalBufferingState = createLocalBufferingState();
+  const reports: boolean[] = [];
+  for (const observation of observations) {
+    const transition = advanceLocalBuffering(state, observation);
+    state = transition.state;
+    if (transition.report !== null) reports.push(transition.report);
+  }
+  return { state, reports };
+}
+
+describe('advanceLocalBuffering', () => {
+  it('stays ready while playing with enough data', () => {
+    const { state, reports } = run([
+      { expectedPlaying: true, readyState: 4, now: 0 },
+      { expectedPlaying: true, readyState: HAVE_FUTURE_DATA, now: 400 },
+    ]);
+    expect(state.phase).toBe('ready');
+    expect(reports).toEqual([]);
+  });
+
+  it('ignores a starved player while the room is paused', () => {
+    const { state } = run([{ expectedPlaying: false, readyState: 1, now: 0 }]);
+    expect(state.phase).toBe('ready');
+  });
+
+  it('absorbs a stall shorter than BARRIER_STALL_THRESHOLD_MS without reporting', () => {
+    const { state, reports } = run([
+      { expectedPlaying: true, readyState: STARVED, now: 0 },
+      { expectedPlaying: true, readyState: STARVED, now: BARRIER_STALL_THRESHOLD_MS - 1 },
+      { expectedPlaying: true, readyState: 4, now: BARRIER_STALL_THRESHOLD_MS },
+    ]);
+    expect(state.phase).toBe('ready');
+    expect(reports).toEqual([]);
+  });
+
+  it('reports once the stall crosses the threshold', () => {
+    const { state, reports } = run([
+      { expectedPlaying: true, readyState: STARVED, now: 0 },
+      { expectedPlaying: true, readyState: STARVED, now: BARRIER_STALL_THRESHOLD_MS },
+      { expectedPlaying: true, readyState: STARVED, now: BARRIER_STALL_THRESHOLD_MS + 400 },
+    ]);
+    expect(state.phase).toBe('buffering');
+    expect(reports).toEqual([true]);
+  });
+
+  it('keeps holding after the barrier pauses the room, until HAVE_FUTURE_DATA', () => {
+    const { state, reports } = run([
+      { expectedPlaying: true, readyState: STARVED, now: 0 },
+      { expectedPlaying: true, readyState: STARVED, now: BARRIER_STALL_THRESHOLD_MS },
+      // Barrier paused the room; the player is still starved
+      { expectedPlaying: false, readyState: STARVED, now: BARRIER_STALL_THRESHOLD_MS + 400 },
+    ]);
+    expect(state.phase).toBe('buffering');
+    expect(reports).toEqual([true]);
+  });
+
+  it('reports recovery when the player reaches HAVE_FUTURE_DATA', () => {
+    const { state, reports } = run([
+      { expectedPlaying: true, readyState: STARVED, now: 0 },
+      { expectedPlaying: true, readyState: STARVED, now: BARRIER_STALL_THRESHOLD_MS },
+      { expectedPlaying: false, readyState: HAVE_FUTURE_DATA, now: BARRIER_STALL_THRESHOLD_MS + 800 },
+    ]);
+    expect(state.phase).toBe('ready');
+    expect(reports).toEqual([true, false]);
+  });
+
+  it('drops a pending stall when the host pauses before the threshold', () => {
+    const { state, reports } = run([
+      { expectedPlaying: true, readyState: STARVED, now: 0 },
+      { expectedPlaying: false, readyState: STARVED, now: 400 },
+    ]);
+    expect(state.phase).toBe('ready');
+    expect(reports).toEqual([]);
+  });
+});
+
+describe('getBarrierCountdown', () => {
+  it('rounds remaining time up to whole seconds', () => {
+    expect(getBarrierCountdown(10_000, 7_100)).toBe(3);
+    expect(getBarrierCountdown(10_000, 9_999)).toBe(1);
+  });
+
+  it('never goes negative', () => {
+    expect(getBarrierCountdown(10_000, 12_000)).toBe(0);
+  });
+});
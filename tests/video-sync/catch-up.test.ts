@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { decideCatchUp } from '@/src/features/video-sync/lib/catch-up';
+import { CATCH_UP_MAX_DRIFT_S, CATCH_UP_MAX_RATE, SYNC_SOFT_BAND_S } from '@/src/lib/constants';
+
+describe('decideCatchUp', () => {
+  it('speeds up when behind by more than the soft band', () => {
+    expect(decideCatchUp({ drift: 9, mode: 'rate', catchUpRate: 1.5 })).toEqual({ rate: 1.5, remainingS: 16 });
+  });
+
+  it('hands back to the regular corrector inside the soft band', () => {
+    expect(decideCatchUp({ drift: SYNC_SOFT_BAND_S, mode: 'rate', catchUpRate: 1.5 })).toBeNull();
+    expect(decideCatchUp({ drift: 0.4, mode: 'rate', catchUpRate: 1.5 })).toBeNull();
+  });
+
+  it('leaves gaps beyond CATCH_UP_MAX_DRIFT_S to a hard seek', () => {
+    expect(decideCatchUp({ drift: CATCH_UP_MAX_DRIFT_S + 1, mode: 'rate', catchUpRate: 1.5 })).toBeNull();
+  });
+
+  it('never slows down to wait for the room when ahead', () => {
+    expect(decideCatchUp({ drift: -5, mode: 'rate', catchUpRate: 1.5 })).toBeNull();
+  });
+
+  it('does nothing on seek-only players', () => {
+    expect(decideCatchUp({ drift: 5, mode: 'seek', catchUpRate: 1.5 })).toBeNull();
+  });
+
+  it('scales with the room speed, capped at CATCH_UP_MAX_RATE', () => {
+    expect(decideCatchUp({ drift: 5, mode: 'rate', catchUpRate: 1.25, baseRate: 1.2 })?.rate).toBeCloseTo(1.5, 10);
+    expect(decideCatchUp({ drift: 5, mode: 'rate', catchUpRate: 1.5, baseRate: 1.5 })?.rate).toBe(CATCH_UP_MAX_RATE);
+    expect(decideCatchUp({ drift: 5, mode: 'rate', catchUpRate: 1.5, baseRate: 2 })).toBeNull();
+  });
+
+  it('snaps down to a discrete step in stepped mode', () => {
+    const decision = decideCatchUp({ drift: 5, mode: 'stepped', catchUpRate: 1.4 });
+    expect(decision).toEqual({ rate: 1.25, remainingS: 16 });
+  });
+
+  it('gives up in stepped mode when no faster step fits under the target', () => {
+    expect(decideCatchUp({ drift: 5, mode: 'stepped', catchUpRate: 1.1 })).toBeNull();
+    expect(decideCatchUp({ drift: 5, mode: 'stepped', catchUpRate: 1.5, availableRates: [1] })).toBeNull();
+  });
+});
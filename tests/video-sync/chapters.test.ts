@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chaptersFromCues,
+  chaptersFromDateRanges,
+  chaptersFromId3,
+  getChapterIndexAt,
+  getChapterSeekTarget,
+  normalizeChapters,
+  parseDescriptionChapters,
+} from '@/src/features/video-sync/lib/chapters';
+
+describe('parseDescriptionChapters', () => {
+  it('reads timestamped lines in the usual description shapes', () => {
+    const description = [
+      'Thanks for watching! Links below.',
+      '',
+      '0:00 Intro',
+      '1:05 - Setting up',
+      '(12:30) The good part',
+      '• 1:02:03 | Outro',
+    ].join('\n');
+
+    expect(parseDescriptionChapters(description)).toEqual([
+      { start: 0, title: 'Intro' },
+      { start: 65, title: 'Setting up' },
+      { start: 750, title: 'The good part' },
+      { start: 3723, title: 'Outro' },
+    ]);
+  });
+
+  it('ignores timestamps mentioned mid-sentence', () => {
+    const description = '0:00 Intro\nAt 3:00 I mention the thing\n2:00 Middle\n4:00 End';
+    expect(parseDescriptionChapters(description).map(c => c.start)).toEqual([0, 120, 240]);
+  });
+
+  it('follows YouTube: starts at 0:00, ascending, at least three', () => {
+    expect(parseDescriptionChapters('0:10 Intro\n1:00 Middle\n2:00 End')).toEqual([]);
+    expect(parseDescriptionChapters('0:00 Intro\n2:00 Middle\n1:00 End')).toEqual([]);
+    expect(parseDescriptionChapters('0:00 Intro\n1:00 End')).toEqual([]);
+    expect(parseDescriptionChapters('')).toEqual([]);
+  });
+
+  it('names untitled chapters by position', () => {
+    expect(parseDescriptionChapters('0:00\n1:00 Middle\n2:00').map(c => c.title)).toEqual([
+      'Chapter 1',
+      'Middle',
+      'Chapter 3',
+    ]);
+  });
+});
+
+describe('chaptersFromCues', () => {
+  it('maps WebVTT chapter cues, sorted and collapsed to one line', () => {
+    expect(
+      chaptersFromCues([
+        { startTime: 90, text: 'Second' },
+        { startTime: 0, text: 'First\npart' },
+      ])
+    ).toEqual([
+      { start: 0, title: 'First part' },
+      { start: 90, title: 'Second' },
+    ]);
+  });
+});
+
+describe('chaptersFromDateRanges', () => {
+  it('keeps chapter-class or titled ranges and skips ads', () => {
+    expect(
+      chaptersFromDateRanges([
+        { id: 'c1', class: 'com.example.chapter', startTime: 0, attr: { 'X-TITLE': 'Opening' } },
+        { id: 'ad-1', class: 'com.apple.hls.interstitial', startTime: 30, attr: {} },
+        { id: 'c2', class: 'com.example.chapter', startTime: 120, attr: {} },
+        { id: 'c3', class: '', startTime: 300, attr: { 'X-TITLE': 'Finale' } },
+      ])
+    ).toEqual([
+      { start: 0, title: 'Opening' },
+      { start: 120, title: 'c2' },
+      { start: 300, title: 'Finale' },
+    ]);
+  });
+});
+
+describe('chaptersFromId3', () => {
+  it('uses TIT2 titles and chapter TXXX frames only', () => {
+    expect(
+      chaptersFromId3([
+        { startTime: 0, key: 'TIT2', data: 'Kickoff' },
+        { startTime: 10, key: 'PRIV', info: 'com.apple.streaming.transportStreamTimestamp', data: new Uint8Array() },
+        { startTime: 60, key: 'TXXX', info: 'CHAPTER', data: 'Half time' },
+        { startTime: 70, key: 'TXXX', info: 'ad-break', data: 'Sponsor' },
+      ])
+    ).toEqual([
+      { start: 0, title: 'Kickoff' },
+      { start: 60, title: 'Half time' },
+    ]);
+  });
+});
+
+describe('normalizeChapters', () => {
+  it('drops duplicates and invalid starts', () => {
+    expect(
+      normalizeChapters([
+        { start: 10, title: 'A' },
+        { start: 10.2, title: 'A again' },
+        { start: -1, title: 'Bad' },
+        { start: Number.NaN, title: 'Worse' },
+      ])
+    ).toEqual([{ start: 10, title: 'A' }]);
+  });
+});
+
+describe('chapter navigation', () => {
+  const chapters = [
+    { start: 0, title: 'Intro' },
+    { start: 60, title: 'Middle' },
+    { start: 120, title: 'End' },
+  ];
+
+  it('finds the chapter under the playhead', () => {
+    expect(getChapterIndexAt(chapters, 0)).toBe(0);
+    expect(getChapterIndexAt(chapters, 59.9)).toBe(0);
+    expect(getChapterIndexAt(chapters, 60)).toBe(1);
+    expect(getChapterIndexAt(chapters, 500)).toBe(2);
+    expect(getChapterIndexAt([{ start: 30, title: 'Late' }], 10)).toBe(-1);
+  });
+
+  it('jumps to the next chapter start, or nowhere from the last', () => {
+    expect(getChapterSeekTarget(chapters, 10, 'next')).toBe(60);
+    expect(getChapterSeekTarget(chapters, 130, 'next')).toBeNull();
+  });
+
+  it('restarts the current chapter unless it only just began', () => {
+    expect(getChapterSeekTarget(chapters, 90, 'previous')).toBe(60);
+    expect(getChapterSeekTarget(chapters, 61, 'previous')).toBe(0);
+    expect(getChapterSeekTarget(chapters, 1, 'previous')).toBe(0);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addClockSample,
+  createClockEstimatorState,
+  estimateClock,
+  projectClockOffset,
+} from '@/src/features/video-sync/lib/clock-estimator';
+import {
+  CLOCK_MAX_RTT_MS,
+  CLOCK_MAX_SKEW,
+  CLOCK_SAMPLE_WINDOW,
+  CLOCK_SKEW_MIN_SPAN_MS,
+  CLOCK_STEP_THRESHOLD_MS,
+} from '@/src/lib/constants';
+
+// Simulated probe: the server clock runs `offset` ms ahead of ours; the request leg takes `up` ms
+// and the response leg `down` ms. Returns the pong payload plus the local receive time.
+function probe(sentAt: number, offset: number, up: number, down = up) {
+  return {
+    pong: { clientSendTime: sentAt, serverTime: sentAt + up + offset },
+    receivedAt: sentAt + up + down,
+  };
+}
+
+function feed(
+  state: ReturnType<typeof createClockEstimatorState>,
+  sentAt: number,
+  offset: number,
+  up: number,
+  down = up
+) {
+  const { pong, receivedAt } = probe(sentAt, offset, up, down);
+  return addClockSample(state, pong, receivedAt);
+}
+
+describe('addClockSample', () => {
+  it('rejects negative round trips', () => {
+    const state = createClockEstimatorState();
+    const outcome = addClockSample(state, { clientSendTime: 1000, serverTime: 5000 }, 900);
+    expect(outcome).toBe('rejected');
+    expect(state.samples).toHaveLength(0);
+  });
+
+  it('rejects round trips above CLOCK_MAX_RTT_MS', () => {
+    const state = createClockEstimatorState();
+    expect(feed(state, 0, 100, CLOCK_MAX_RTT_MS)).toBe('rejected');
+  });
+
+  it('caps the window at CLOCK_SAMPLE_WINDOW samples', () => {
+    const state = createClockEstimatorState();
+    for (let i = 0; i < CLOCK_SAMPLE_WINDOW + 10; i++) {
+      feed(state, i * 1000, 250, 20);
+    }
+    expect(state.samples).toHaveLength(CLOCK_SAMPLE_WINDOW);
+  });
+});
+
+describe('estimateClock', () => {
+  it('returns null with no samples', () => {
+    expect(estimateClock(createClockEstimatorState())).toBeNull();
+  });
+
+  it('recovers the true offset from symmetric probes', () => {
+    const state = createClockEstimatorState();
+    for (let i = 0; i < 5; i++) feed(state, i * 200, 1234, 25);
+    const estimate = estimateClock(state)!;
+    expect(estimate.offset).toBeCloseTo(1234, 5);
+    expect(estimate.rtt).toBe(50);
+  });
+
+  it('prefers low-RTT samples over asymmetric, queued ones', () => {
+    const state = createClockEstimatorState();
+    // Clean probes
+    for (let i = 0; i < 4; i++) feed(state, i * 200, 500, 15);
+    // Probes stuck behind a congested uplink: large RTT, asymmetric -> biased offset
+    for (let i = 4; i < 8; i++) feed(state, i * 200, 500, 400, 10);
+    const estimate = estimateClock(state)!;
+    expect(Math.abs(estimate.offset - 500)).toBeLessThan(1);
+    expect(estimate.rtt).toBe(30);
+  });
+
+  it('rejects a single offset outlier among low-RTT samples', () => {
+    const state = createClockEstimatorState();
+    for (let i = 0; i < 6; i++) feed(state, i * 200, 100, 10);
+    // Same RTT, but the server stamped it late (e.g. event-loop stall on the server)
+    const { pong, receivedAt } = probe(2000, 100, 10);
+    addClockSample(state, { ...pong, serverTime: pong.serverTime + 300 }, receivedAt);
+    const estimate = estimateClock(state)!;
+    expect(Math.abs(estimate.offset - 100)).toBeLessThan(1);
+  });
+
+  it('fits skew once the window spans CLOCK_SKEW_MIN_SPAN_MS', () => {
+    const state = createClockEstimatorState();
+    const skew = 0.0001; // 100ppm
+    const step = CLOCK_SKEW_MIN_SPAN_MS / 5;
+    for (let i = 0; i <= 6; i++) {
+      const t = i * step;
+      feed(state, t, 1000 + skew * t, 20);
+    }
+    const estimate = estimateClock(state)!;
+    expect(estimate.skew).toBeCloseTo(skew, 6);
+    const later = 6 * step + 30_000;
+    expect(projectClockOffset(estimate, later)).toBeCloseTo(1000 + skew * later, 0);
+  });
+
+  it('clamps absurd skew to CLOCK_MAX_SKEW', () => {
+    const state = createClockEstimatorState();
+    const step = CLOCK_SKEW_MIN_SPAN_MS / 5;
+    for (let i = 0; i <= 6; i++) {
+      const t = i * step;
+      // 50 ms per ~12s step: big, but each step stays under the step-detection threshold
+      feed(state, t, i * 50, 20);
+    }
+    const estimate = estimateClock(state)!;
+    expect(estimate.skew).toBe(CLOCK_MAX_SKEW);
+  });
+
+  it('keeps skew at zero for a short window', () => {
+    const state = createClockEstimatorState();
+    for (let i = 0; i < 5; i++) feed(state, i * 200, 1000 + i, 20);
+    expect(estimateClock(state)!.skew).toBe(0);
+  });
+
+  it('raises confidence as consistent samples accumulate', () => {
+    const state = createClockEstimatorState();
+    feed(state, 0, 100, 10);
+    const early = estimateClock(state)!.confidence;
+    for (let i = 1; i < 10; i++) feed(state, i * 200, 100, 10);
+    const late = estimateClock(state)!.confidence;
+    expect(late).toBeGreaterThan(early);
+    expect(late).toBeLessThanOrEqual(1);
+  });
+
+  it('reports lower confidence on a high-RTT link than on a tight one', () => {
+    const tight = createClockEstimatorState();
+    const slow = createClockEstimatorState();
+    for (let i = 0; i < 10; i++) {
+      feed(tight, i * 200, 100, 10);
+      feed(slow, i * 200, 100, 300);
+    }
+    expect(estimateClock(slow)!.confidence).toBeLessThan(estimateClock(tight)!.confidence);
+  });
+});
+
+describe('clock steps (sleep / NTP jump)', () => {
+  it('holds a single wildly different sample aside without moving the estimate', () => {
+    const state = createClockEstimatorState();
+    for (let i = 0; i < 5; i++) feed(state, i * 200, 0, 20);
+    expect(feed(state, 2000, CLOCK_STEP_THRESHOLD_MS * 5, 20)).toBe('step-pending');
+    expect(estimateClock(state)!.offset).toBeCloseTo(0, 5);
+  });
+
+  it('resets the window once the step is confirmed by agreeing samples', () => {
+    const state = createClockEstimatorState();
+    for (let i = 0; i < 5; i++) feed(state, i * 200, 0, 20);
+    const stepped = CLOCK_STEP_THRESHOLD_MS * 5;
+    expect(feed(state, 2000, stepped, 20)).toBe('step-pending');
+    expect(feed(state, 2200, stepped, 20)).toBe('step-reset');
+    expect(estimateClock(state)!.offset).toBeCloseTo(stepped, 5);
+  });
+
+  it('drops pending step candidates when a normal sample arrives in between', () => {
+    const state = createClockEstimatorState();
+    for (let i = 0; i < 5; i++) feed(state, i * 200, 0, 20);
+    feed(state, 2000, CLOCK_STEP_THRESHOLD_MS * 5, 20);
+    expect(feed(state, 2200, 0, 20)).toBe('accepted');
+    expect(state.stepCandidates).toHaveLength(0);
+  });
+});
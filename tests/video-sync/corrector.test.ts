@@ -1,6 +1,25 @@
 import { describe, it, expect } from 'vitest';
-import { decideCorrection, shouldApplySyncUpdate } from '@/src/features/video-sync/lib/corrector';
-import { SYNC_DEAD_BAND_S, SYNC_SOFT_BAND_S, SYNC_MAX_NUDGE, YOUTUBE_SEEK_TOLERANCE_S } from '@/src/lib/constants';
+import {
+  createPiCorrectorState,
+  decideCorrection,
+  decidePiCorrection,
+  getAdaptiveDeadBand,
+  getDriftSpread,
+  pickSteppedRate,
+  shouldApplySyncUpdate,
+  type PiCorrectorState,
+} from '@/src/features/video-sync/lib/corrector';
+import {
+  SYNC_DEAD_BAND_S,
+  SYNC_SOFT_BAND_S,
+  SYNC_MAX_NUDGE,
+  YOUTUBE_SEEK_TOLERANCE_S,
+  SYNC_STEPPED_DEAD_BAND_S,
+  SYNC_STEPPED_MAX_GLIDE_MS,
+  SYNC_PI_DRIFT_WINDOW,
+  SYNC_PI_MIN_DEAD_BAND_S,
+  SYNC_PI_MAX_DEAD_BAND_S,
+} from '@/src/lib/constants';
 
 describe('decideCorrection — mode: rate (HTML5/HLS)', () => {
   it('returns none within the dead-band', () => {
@@ -86,7 +105,7 @@ describe('decideCorrection — mode: rate (HTML5/HLS)', () => {
   });
 });
 
-describe('decideCorrection — mode: seek (YouTube/Cast)', () => {
+describe('decideCorrection — mode: seek (Cast)', () => {
   it('returns none below YOUTUBE_SEEK_TOLERANCE_S', () => {
     const result = decideCorrection({ drift: 0.5, mode: 'seek', rateNudged: false, cooldownElapsed: true });
     expect(result).toEqual({ action: 'none', resetRate: false });
@@ -128,6 +147,310 @@ describe('decideCorrection — mode: seek (YouTube/Cast)', () => {
   });
 });
 
+describe('decideCorrection — mode: stepped (YouTube)', () => {
+  it('returns none within the stepped dead-band', () => {
+    const result = decideCorrection({ drift: 0.2, mode: 'stepped', rateNudged: false, cooldownElapsed: true });
+    expect(result).toEqual({ action: 'none', resetRate: false });
+  });
+
+  it('returns none with resetRate=true when previously nudged and now inside dead-band', () => {
+    const result = decideCorrection({ drift: -0.1, mode: 'stepped', rateNudged: true, cooldownElapsed: true });
+    expect(result).toEqual({ action: 'none', resetRate: true });
+  });
+
+  it('glides at the next faster step when behind, for long enough to eat the drift', () => {
+    const result = decideCorrection({ drift: 0.5, mode: 'stepped', rateNudged: false, cooldownElapsed: true });
+    expect(result).toEqual({ action: 'nudge', rate: 1.25, durationMs: 2000 });
+  });
+
+  it('glides at the next slower step when ahead', () => {
+    const result = decideCorrection({ drift: -0.5, mode: 'stepped', rateNudged: false, cooldownElapsed: true });
+    expect(result).toEqual({ action: 'nudge', rate: 0.75, durationMs: 2000 });
+  });
+
+  it('is exactly at the dead-band boundary (not dead-band, glides)', () => {
+    const result = decideCorrection({
+      drift: SYNC_STEPPED_DEAD_BAND_S,
+      mode: 'stepped',
+      rateNudged: false,
+      cooldownElapsed: true,
+    });
+    expect(result.action).toBe('nudge');
+  });
+
+  it('glides past YOUTUBE_SEEK_TOLERANCE_S instead of seeking while the glide is short enough', () => {
+    const result = decideCorrection({
+      drift: YOUTUBE_SEEK_TOLERANCE_S + 0.5,
+      mode: 'stepped',
+      rateNudged: false,
+      cooldownElapsed: true,
+    });
+    expect(result.action).toBe('nudge');
+  });
+
+  it('uses the rates the player reports', () => {
+    const result = decideCorrection({
+      drift: 0.5,
+      mode: 'stepped',
+      rateNudged: false,
+      cooldownElapsed: true,
+      availableRates: [0.5, 1, 1.5, 2],
+    });
+    expect(result).toEqual({ action: 'nudge', rate: 1.5, durationMs: 1000 });
+  });
+
+  it('steps around the base rate', () => {
+    const result = decideCorrection({
+      drift: 0.5,
+      mode: 'stepped',
+      rateNudged: false,
+      cooldownElapsed: true,
+      baseRate: 1.5,
+    });
+    expect(result).toEqual({ action: 'nudge', rate: 1.75, durationMs: 2000 });
+  });
+
+  it('seeks when the glide would exceed SYNC_STEPPED_MAX_GLIDE_MS and cooldown has elapsed', () => {
+    // At a 0.25 step, drift D takes 4D seconds to eat
+    const drift = (SYNC_STEPPED_MAX_GLIDE_MS / 1000) * 0.25 + 0.1;
+    const result = decideCorrection({ drift, mode: 'stepped', rateNudged: false, cooldownElapsed: true });
+    expect(result).toEqual({ action: 'seek' });
+  });
+
+  it('does nothing for a too-long glide while cooldown is active', () => {
+    const result = decideCorrection({ drift: 10, mode: 'stepped', rateNudged: true, cooldownElapsed: false });
+    expect(result).toEqual({ action: 'none', resetRate: true });
+  });
+
+  it('falls back to seeking when no step exists in the drift direction', () => {
+    const result = decideCorrection({
+      drift: 0.5,
+      mode: 'stepped',
+      rateNudged: false,
+      cooldownElapsed: true,
+      baseRate: 2,
+    });
+    expect(result).toEqual({ action: 'seek' });
+  });
+});
+
+describe('pickSteppedRate', () => {
+  const rates = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+  it('picks the smallest faster rate when behind', () => {
+    expect(pickSteppedRate(1, 1, rates)).toBe(1.25);
+  });
+
+  it('picks the largest slower rate when ahead', () => {
+    expect(pickSteppedRate(-1, 1, rates)).toBe(0.75);
+  });
+
+  it('works from a base rate that is not itself in the list', () => {
+    expect(pickSteppedRate(1, 1.1, rates)).toBe(1.25);
+    expect(pickSteppedRate(-1, 1.1, rates)).toBe(1);
+  });
+
+  it('returns null at the edge of the range', () => {
+    expect(pickSteppedRate(1, 2, rates)).toBeNull();
+    expect(pickSteppedRate(-1, 0.25, rates)).toBeNull();
+  });
+});
+
+describe('decideCorrection — shared base rate', () => {
+  it('nudges around the base rate instead of 1.0', () => {
+    const result = decideCorrection({
+      drift: 0.5,
+      mode: 'rate',
+      rateNudged: false,
+      cooldownElapsed: true,
+      baseRate: 2,
+    });
+    expect(result.action).toBe('nudge');
+    if (result.action === 'nudge') {
+      expect(result.rate).toBeGreaterThan(2);
+      expect(result.rate).toBeLessThanOrEqual(2 * (1 + SYNC_MAX_NUDGE));
+    }
+  });
+
+  it('scales the clamp with the base rate when slowing down', () => {
+    const result = decideCorrection({
+      drift: -SYNC_SOFT_BAND_S,
+      mode: 'rate',
+      rateNudged: false,
+      cooldownElapsed: true,
+      baseRate: 0.5,
+    });
+    expect(result.action).toBe('nudge');
+    if (result.action === 'nudge') {
+      expect(result.rate).toBeCloseTo(0.5 * (1 - SYNC_MAX_NUDGE), 5);
+    }
+  });
+
+  it('matches the 1.0 behaviour when baseRate is omitted', () => {
+    const withDefault = decideCorrection({ drift: 0.3, mode: 'rate', rateNudged: false, cooldownElapsed: true });
+    const explicit = decideCorrection({
+      drift: 0.3,
+      mode: 'rate',
+      rateNudged: false,
+      cooldownElapsed: true,
+      baseRate: 1,
+    });
+    expect(withDefault).toEqual(explicit);
+  });
+});
+
+// Feed the same drift every `stepMs`, returning the last result
+function runPi(state: PiCorrectorState, drifts: number[], stepMs = 400, cooldownElapsed = true) {
+  let result = decidePiCorrection(state, {
+    drift: drifts[0],
+    mode: 'rate',
+    rateNudged: false,
+    cooldownElapsed,
+    now: 0,
+  });
+  drifts.slice(1).forEach((drift, i) => {
+    result = decidePiCorrection(state, {
+      drift,
+      mode: 'rate',
+      rateNudged: result.action === 'nudge',
+      cooldownElapsed,
+      now: (i + 1) * stepMs,
+    });
+  });
+  return result;
+}
+
+describe('getDriftSpread / getAdaptiveDeadBand', () => {
+  it('measures the standard deviation of recent drift', () => {
+    expect(getDriftSpread([0.1])).toBe(0);
+    expect(getDriftSpread([0.1, 0.3])).toBeCloseTo(0.1, 10);
+  });
+
+  it('uses the fixed dead band until half the window is filled', () => {
+    expect(getAdaptiveDeadBand([0.5, -0.5])).toBe(SYNC_DEAD_BAND_S);
+  });
+
+  it('narrows to the floor on a steady link', () => {
+    expect(getAdaptiveDeadBand(new Array(SYNC_PI_DRIFT_WINDOW).fill(0.02))).toBe(SYNC_PI_MIN_DEAD_BAND_S);
+  });
+
+  it('widens with jitter, up to the ceiling', () => {
+    const moderate = Array.from({ length: SYNC_PI_DRIFT_WINDOW }, (_, i) => (i % 2 === 0 ? 0.05 : -0.05));
+    expect(getAdaptiveDeadBand(moderate)).toBeCloseTo(0.1, 10);
+    const wild = Array.from({ length: SYNC_PI_DRIFT_WINDOW }, (_, i) => (i % 2 === 0 ? 0.8 : -0.8));
+    expect(getAdaptiveDeadBand(wild)).toBe(SYNC_PI_MAX_DEAD_BAND_S);
+  });
+});
+
+describe('decidePiCorrection', () => {
+  it('falls through to decideCorrection for stepped and seek modes', () => {
+    for (const mode of ['stepped', 'seek'] as const) {
+      const params = { drift: 0.6, mode, rateNudged: false, cooldownElapsed: true };
+      expect(decidePiCorrection(createPiCorrectorState(), { ...params, now: 0 })).toEqual(decideCorrection(params));
+    }
+  });
+
+  it('uses the fixed dead band before it has history to adapt', () => {
+    const result = decidePiCorrection(createPiCorrectorState(), {
+      drift: 0.04,
+      mode: 'rate',
+      rateNudged: false,
+      cooldownElapsed: true,
+      now: 0,
+    });
+    expect(result).toEqual({ action: 'none', resetRate: false });
+  });
+
+  it('grows the correction while a drift persists', () => {
+    const early = runPi(createPiCorrectorState(), new Array(3).fill(0.05));
+    const late = runPi(createPiCorrectorState(), new Array(12).fill(0.05));
+    expect(early.action).toBe('nudge');
+    expect(late.action).toBe('nudge');
+    if (early.action === 'nudge' && late.action === 'nudge') {
+      expect(late.rate).toBeGreaterThan(early.rate);
+    }
+  });
+
+  it('keeps nudging inside the dead band once a bias has built up', () => {
+    const state = createPiCorrectorState();
+    runPi(state, new Array(20).fill(0.3));
+    const result = decidePiCorrection(state, {
+      drift: 0,
+      mode: 'rate',
+      rateNudged: true,
+      cooldownElapsed: true,
+      now: 20 * 400,
+    });
+    expect(result.action).toBe('nudge');
+    if (result.action === 'nudge') expect(result.rate).toBeGreaterThan(1);
+  });
+
+  it('never exceeds SYNC_MAX_NUDGE however long the drift lasts', () => {
+    const result = runPi(createPiCorrectorState(), new Array(200).fill(-0.9));
+    expect(result.action).toBe('nudge');
+    if (result.action === 'nudge') {
+      expect(result.rate).toBeGreaterThanOrEqual(1 - SYNC_MAX_NUDGE);
+    }
+  });
+
+  it('nudges more gently when recent drift is noisy', () => {
+    const clean = runPi(createPiCorrectorState(), [...new Array(9).fill(0.3), 0.3]);
+    const noisy = runPi(createPiCorrectorState(), [0.6, 0, 0.6, 0, 0.6, 0, 0.6, 0, 0.6, 0.3]);
+    expect(clean.action).toBe('nudge');
+    expect(noisy.action).toBe('nudge');
+    if (clean.action === 'nudge' && noisy.action === 'nudge') {
+      expect(noisy.rate - 1).toBeLessThan(clean.rate - 1);
+    }
+  });
+
+  it('scales around the base rate', () => {
+    const state = createPiCorrectorState();
+    const result = decidePiCorrection(state, {
+      drift: 0.5,
+      mode: 'rate',
+      rateNudged: false,
+      cooldownElapsed: true,
+      baseRate: 2,
+      now: 0,
+    });
+    expect(result.action).toBe('nudge');
+    if (result.action === 'nudge') {
+      expect(result.rate).toBeGreaterThan(2);
+      expect(result.rate).toBeLessThanOrEqual(2 * (1 + SYNC_MAX_NUDGE));
+    }
+  });
+
+  it('seeks beyond the soft band and clears its history', () => {
+    const state = createPiCorrectorState();
+    runPi(state, new Array(10).fill(0.5));
+    const result = decidePiCorrection(state, {
+      drift: SYNC_SOFT_BAND_S + 1,
+      mode: 'rate',
+      rateNudged: true,
+      cooldownElapsed: true,
+      now: 10 * 400,
+    });
+    expect(result).toEqual({ action: 'seek' });
+    expect(state.integral).toBe(0);
+    expect(state.recentDrift).toEqual([]);
+  });
+
+  it('holds off a seek during cooldown without touching its history', () => {
+    const state = createPiCorrectorState();
+    runPi(state, new Array(10).fill(0.5));
+    const integral = state.integral;
+    const result = decidePiCorrection(state, {
+      drift: SYNC_SOFT_BAND_S + 1,
+      mode: 'rate',
+      rateNudged: true,
+      cooldownElapsed: false,
+      now: 10 * 400,
+    });
+    expect(result).toEqual({ action: 'none', resetRate: true });
+    expect(state.integral).toBe(integral);
+  });
+});
+
 describe('shouldApplySyncUpdate', () => {
   it('drops stale anchors (anchor before last intent)', () => {
     expect(shouldApplySyncUpdate(1000, 2000)).toBe(false);
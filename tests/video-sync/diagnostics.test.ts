@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSyncDiagnosticsSnapshot,
+  flattenTimeRanges,
+  getBufferAhead,
+  type BuildSyncDiagnosticsSnapshotInput,
+  type SyncDiagnostics,
+  type TimeRangesLike,
+} from '@/src/features/video-sync/lib/diagnostics';
+
+function ranges(pairs: Array<[number, number]>): TimeRangesLike {
+  return {
+    length: pairs.length,
+    start: i => pairs[i][0],
+    end: i => pairs[i][1],
+  };
+}
+
+const sync: SyncDiagnostics = {
+  drift: 0.1234,
+  correction: 'nudge',
+  playbackRate: 1.04567,
+  rateNudged: true,
+  clockOffset: -42,
+  clockRtt: 60,
+  clockConfidence: 0.8,
+  anchorTimestamp: 1_000_000,
+  hardSeekCount: 2,
+};
+
+function input(overrides: Partial<BuildSyncDiagnosticsSnapshotInput> = {}): BuildSyncDiagnosticsSnapshotInput {
+  return {
+    videoType: 'mp4',
+    sync,
+    currentTime: 12.3456,
+    buffered: ranges([
+      [0, 30.04],
+      [60, 90],
+    ]),
+    readyState: 4,
+    hls: null,
+    sourceAttempts: [],
+    isHost: false,
+    isCasting: false,
+    serverNow: 1_000_750,
+    ...overrides,
+  };
+}
+
+describe('flattenTimeRanges', () => {
+  it('returns an empty list for null', () => {
+    expect(flattenTimeRanges(null)).toEqual([]);
+  });
+
+  it('flattens and rounds each range', () => {
+    expect(
+      flattenTimeRanges(
+        ranges([
+          [0, 10.04],
+          [20.06, 30],
+        ])
+      )
+    ).toEqual([
+      [0, 10],
+      [20.1, 30],
+    ]);
+  });
+});
+
+describe('getBufferAhead', () => {
+  it('measures to the end of the range containing the playhead', () => {
+    expect(
+      getBufferAhead(
+        ranges([
+          [0, 10],
+          [20, 50],
+        ]),
+        25
+      )
+    ).toBe(25);
+  });
+
+  it('is zero when the playhead sits in a gap', () => {
+    expect(
+      getBufferAhead(
+        ranges([
+          [0, 10],
+          [20, 50],
+        ]),
+        15
+      )
+    ).toBe(0);
+  });
+});
+
+describe('buildSyncDiagnosticsSnapshot', () => {
+  it('converts drift to ms and ages the anchor against serverNow', () => {
+    const snapshot = buildSyncDiagnosticsSnapshot(input());
+    expect(snapshot.driftMs).toBe(123);
+    expect(snapshot.anchorAgeMs).toBe(750);
+    expect(snapshot.playbackRate).toBe(1.046);
+    expect(snapshot.currentTime).toBe(12.35);
+    expect(snapshot.bufferAhead).toBe(17.7);
+    expect(snapshot.clock).toEqual({ offsetMs: -42, rttMs: 60, confidence: 0.8 });
+    expect(snapshot.role).toBe('guest');
+  });
+
+  it('never reports a negative anchor age', () => {
+    expect(buildSyncDiagnosticsSnapshot(input({ serverNow: 999_000 })).anchorAgeMs).toBe(0);
+  });
+
+  it('reports nulls before the sync loop has run', () => {
+    const snapshot = buildSyncDiagnosticsSnapshot(
+      input({ sync: null, currentTime: null, buffered: null, readyState: null, videoType: 'youtube' })
+    );
+    expect(snapshot.driftMs).toBeNull();
+    expect(snapshot.correction).toBeNull();
+    expect(snapshot.clock).toBeNull();
+    expect(snapshot.anchorAgeMs).toBeNull();
+    expect(snapshot.bufferAhead).toBeNull();
+    expect(snapshot.buffered).toEqual([]);
+  });
+
+  it('round-trips through JSON unchanged', () => {
+    const snapshot = buildSyncDiagnosticsSnapshot(
+      input({
+        hls: {
+          level: 2,
+          levelCount: 4,
+          bitrate: 2_500_000,
+          height: 720,
+          autoLevel: true,
+          networkErrorsInWindow: 1,
+          networkReloadCount: 0,
+          mediaRecoveryCount: 0,
+          reattachAttempted: false,
+        },
+        sourceAttempts: [
+          { kind: 'direct', failure: 'HTTP 403' },
+          { kind: 'proxy', failure: null },
+        ],
+      })
+    );
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+    expect(snapshot.capturedAt).toBe(new Date(1_000_750).toISOString());
+  });
+});
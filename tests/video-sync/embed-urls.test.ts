@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { extractVimeoVideo, projectVimeoTime } from '@/src/features/video-sync/lib/vimeo';
+import { extractTwitchVideoId } from '@/src/features/video-sync/lib/twitch';
+
+describe('extractVimeoVideo', () => {
+  it('reads the ID from vimeo.com and player.vimeo.com links', () => {
+    expect(extractVimeoVideo('https://vimeo.com/76979871')).toEqual({ id: '76979871', hash: undefined });
+    expect(extractVimeoVideo('https://player.vimeo.com/video/76979871')).toEqual({ id: '76979871', hash: undefined });
+    expect(extractVimeoVideo('https://vimeo.com/channels/staffpicks/76979871')?.id).toBe('76979871');
+    expect(extractVimeoVideo('https://vimeo.com/showcase/123/video/76979871')?.id).toBe('76979871');
+  });
+
+  it('keeps the unlisted hash from the path or the h parameter', () => {
+    expect(extractVimeoVideo('https://vimeo.com/76979871/8c2f1a9b0d')).toEqual({ id: '76979871', hash: '8c2f1a9b0d' });
+    expect(extractVimeoVideo('https://player.vimeo.com/video/76979871?h=8c2f1a9b0d')?.hash).toBe('8c2f1a9b0d');
+  });
+
+  it('rejects playlists, other hosts and garbage', () => {
+    expect(extractVimeoVideo('https://vimeo.com/showcase/123')).toBeUndefined();
+    expect(extractVimeoVideo('https://notvimeo.com/76979871')).toBeUndefined();
+    expect(extractVimeoVideo('https://vimeo.com/watch')).toBeUndefined();
+    expect(extractVimeoVideo('not a url')).toBeUndefined();
+  });
+});
+
+describe('extractTwitchVideoId', () => {
+  it('reads VOD links in their usual shapes', () => {
+    expect(extractTwitchVideoId('https://www.twitch.tv/videos/2034567890')).toBe('2034567890');
+    expect(extractTwitchVideoId('https://m.twitch.tv/videos/2034567890?t=1h2m3s')).toBe('2034567890');
+    expect(extractTwitchVideoId('https://www.twitch.tv/somechannel/v/2034567890')).toBe('2034567890');
+    expect(extractTwitchVideoId('https://player.twitch.tv/?video=v2034567890&parent=example.com')).toBe('2034567890');
+  });
+
+  it('rejects live channels and clips', () => {
+    expect(extractTwitchVideoId('https://www.twitch.tv/somechannel')).toBeUndefined();
+    expect(extractTwitchVideoId('https://www.twitch.tv/somechannel/clip/FunnyClipSlug')).toBeUndefined();
+    expect(extractTwitchVideoId('https://player.twitch.tv/?channel=somechannel')).toBeUndefined();
+  });
+});
+
+describe('projectVimeoTime', () => {
+  it('holds still while paused', () => {
+    expect(projectVimeoTime({ seconds: 30, at: 1_000, playing: false, rate: 1 }, 5_000)).toBe(30);
+  });
+
+  it('advances at the playback rate while playing', () => {
+    expect(projectVimeoTime({ seconds: 30, at: 1_000, playing: true, rate: 1 }, 1_250)).toBeCloseTo(30.25);
+    expect(projectVimeoTime({ seconds: 30, at: 1_000, playing: true, rate: 1.5 }, 3_000)).toBeCloseTo(33);
+  });
+
+  it('never runs backwards on a sample stamped after now', () => {
+    expect(projectVimeoTime({ seconds: 30, at: 2_000, playing: true, rate: 1 }, 1_000)).toBe(30);
+  });
+});
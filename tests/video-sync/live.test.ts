@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clampToLiveWindow,
+  createLiveClockState,
+  getLiveBehindS,
+  getLiveStreamRanges,
+  isAtLiveEdge,
+  isSharedLiveClock,
+  LIVE_CLOCK_REANCHOR_S,
+  LIVE_EDGE_SAFETY_S,
+  LIVE_EDGE_THRESHOLD_S,
+  toMediaTime,
+  toStreamTime,
+  updateLiveClock,
+  type LiveTimelineSample,
+} from '@/src/features/video-sync/lib/live';
+
+const SERVER_NOW_MS = 1_700_000_000_000;
+
+function sample(overrides: Partial<LiveTimelineSample> = {}): LiveTimelineSample {
+  return { start: 100, end: 160, liveSyncPosition: 142, programDateOffset: null, sequenceEnd: null, ...overrides };
+}
+
+describe('updateLiveClock', () => {
+  it('anchors to program date time when the playlist has it', () => {
+    const timeline = updateLiveClock(
+      createLiveClockState(),
+      sample({ programDateOffset: 1_699_999_000 }),
+      SERVER_NOW_MS
+    );
+    expect(timeline.anchor).toBe('pdt');
+    expect(timeline.streamOffset).toBe(1_699_999_000);
+  });
+
+  it('anchors to the media sequence count without program date time', () => {
+    const timeline = updateLiveClock(createLiveClockState(), sample({ sequenceEnd: 6_000 }), SERVER_NOW_MS);
+    expect(timeline.anchor).toBe('sequence');
+    expect(toStreamTime(160, timeline)).toBe(6_000);
+  });
+
+  it('puts two viewers whose playlist fetches are a segment apart on the same clock', () => {
+    // 6s segments. A joined a segment earlier than B, so its media time is 6s further along for the same
+    // frame, and B fetches 5.9s after A, still seeing the segment A saw
+    const a = sample({ end: 166, sequenceEnd: 6_000 });
+    const b = sample({ end: 160, sequenceEnd: 6_000 });
+    const onSequence = [
+      updateLiveClock(createLiveClockState(), a, SERVER_NOW_MS),
+      updateLiveClock(createLiveClockState(), b, SERVER_NOW_MS + 5_900),
+    ];
+    expect(toStreamTime(150, onSequence[0])).toBe(toStreamTime(144, onSequence[1]));
+
+    // Without sequence numbers each takes "now" at its own fetch, 5.9s apart
+    const onEdge = [
+      updateLiveClock(createLiveClockState(), { ...a, sequenceEnd: null }, SERVER_NOW_MS),
+      updateLiveClock(createLiveClockState(), { ...b, sequenceEnd: null }, SERVER_NOW_MS + 5_900),
+    ];
+    expect(toStreamTime(144, onEdge[1]) - toStreamTime(150, onEdge[0])).toBeCloseTo(5.9);
+    expect(onEdge.some(isSharedLiveClock)).toBe(false);
+    expect(onSequence.every(isSharedLiveClock)).toBe(true);
+  });
+
+  it('estimates from the live edge against server time otherwise', () => {
+    const timeline = updateLiveClock(createLiveClockState(), sample(), SERVER_NOW_MS);
+    expect(timeline.anchor).toBe('edge');
+    // The playlist end is "now" on the stream clock
+    expect(toStreamTime(160, timeline)).toBe(SERVER_NOW_MS / 1000);
+  });
+
+  it('keeps an edge estimate across segment-sized edge steps', () => {
+    const state = createLiveClockState();
+    const first = updateLiveClock(state, sample(), SERVER_NOW_MS);
+    // 4s later the playlist edge hasn't moved yet: the fresh estimate is 4s off, the anchor isn't
+    const later = updateLiveClock(state, sample(), SERVER_NOW_MS + 4000);
+    expect(later.streamOffset).toBe(first.streamOffset);
+  });
+
+  it('re-anchors when the edge estimate jumps', () => {
+    const state = createLiveClockState();
+    const first = updateLiveClock(state, sample(), SERVER_NOW_MS);
+    const jumped = updateLiveClock(state, sample({ end: 10 }), SERVER_NOW_MS);
+    expect(jumped.streamOffset - first.streamOffset).toBeGreaterThan(LIVE_CLOCK_REANCHOR_S);
+  });
+
+  it('prefers program date time once it shows up and never falls back to the edge', () => {
+    const state = createLiveClockState();
+    updateLiveClock(state, sample(), SERVER_NOW_MS);
+    expect(updateLiveClock(state, sample({ programDateOffset: 1_699_999_000 }), SERVER_NOW_MS).anchor).toBe('pdt');
+    const withoutPdt = updateLiveClock(state, sample({ end: 10 }), SERVER_NOW_MS);
+    expect(withoutPdt.anchor).toBe('pdt');
+    expect(withoutPdt.streamOffset).toBe(1_699_999_000);
+  });
+});
+
+describe('stream clock conversion', () => {
+  const timeline = { streamOffset: 1_000 };
+
+  it('round-trips media and stream time', () => {
+    expect(toStreamTime(42, timeline)).toBe(1_042);
+    expect(toMediaTime(1_042, timeline)).toBe(42);
+  });
+
+  it('exposes the DVR window on the stream clock', () => {
+    const ranges = getLiveStreamRanges({
+      start: 100,
+      end: 160,
+      liveSyncPosition: 142,
+      streamOffset: 1_000,
+      anchor: 'pdt',
+    });
+    expect(ranges.length).toBe(1);
+    expect(ranges.start(0)).toBe(1_100);
+    expect(ranges.end(0)).toBe(1_160);
+  });
+});
+
+describe('clampToLiveWindow', () => {
+  const ranges = { length: 1, start: () => 100, end: () => 160 };
+
+  it('leaves reachable targets alone', () => {
+    expect(clampToLiveWindow(130, ranges)).toBe(130);
+  });
+
+  it('pulls a target that slid out of the window up to its start', () => {
+    expect(clampToLiveWindow(40, ranges)).toBe(100);
+  });
+
+  it('stops short of the edge', () => {
+    expect(clampToLiveWindow(200, ranges)).toBe(160 - LIVE_EDGE_SAFETY_S);
+  });
+
+  it('passes targets through without a window', () => {
+    expect(clampToLiveWindow(200, null)).toBe(200);
+    expect(clampToLiveWindow(200, { length: 0, start: () => 0, end: () => 0 })).toBe(200);
+  });
+
+  it('never clamps past the start of a window shorter than the safety margin', () => {
+    expect(clampToLiveWindow(200, { length: 1, start: () => 100, end: () => 101 })).toBe(100);
+  });
+});
+
+describe('live edge', () => {
+  const timeline = { liveSyncPosition: 142 };
+
+  it('measures how far behind live the player is', () => {
+    expect(getLiveBehindS(130, timeline)).toBe(12);
+    expect(getLiveBehindS(150, timeline)).toBe(0);
+  });
+
+  it('counts positions near the sync position as live', () => {
+    expect(isAtLiveEdge(142 - LIVE_EDGE_THRESHOLD_S, timeline)).toBe(true);
+    expect(isAtLiveEdge(142 - LIVE_EDGE_THRESHOLD_S - 1, timeline)).toBe(false);
+  });
+});
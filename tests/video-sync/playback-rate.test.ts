@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canPlayAtRate,
+  formatPlaybackRate,
+  resolveSyncRate,
+  snapPlaybackRate,
+} from '@/src/features/video-sync/lib/playback-rate';
+import type { PlayerCapabilities } from '@/src/features/video-sync/lib/player-adapter';
+
+describe('snapPlaybackRate', () => {
+  const youtubeRates = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+  it('keeps a rate YouTube already supports', () => {
+    expect(snapPlaybackRate(1.5, youtubeRates)).toBe(1.5);
+  });
+
+  it('snaps to the nearest supported rate', () => {
+    expect(snapPlaybackRate(1.1, youtubeRates)).toBe(1);
+    expect(snapPlaybackRate(1.9, youtubeRates)).toBe(2);
+  });
+
+  it('resolves ties to the slower rate regardless of input order', () => {
+    expect(snapPlaybackRate(1.125, [1.25, 1])).toBe(1);
+  });
+
+  it('clamps to the ends of the supported range', () => {
+    expect(snapPlaybackRate(3, youtubeRates)).toBe(2);
+    expect(snapPlaybackRate(0.1, youtubeRates)).toBe(0.25);
+  });
+
+  it('passes the rate through when nothing is supported (player not ready)', () => {
+    expect(snapPlaybackRate(1.3, [])).toBe(1.3);
+  });
+});
+
+describe('formatPlaybackRate', () => {
+  it('drops trailing zeros', () => {
+    expect(formatPlaybackRate(1)).toBe('1x');
+    expect(formatPlaybackRate(0.5)).toBe('0.5x');
+    expect(formatPlaybackRate(1.25)).toBe('1.25x');
+  });
+});
+
+describe('resolveSyncRate', () => {
+  it('keeps a 2x room at 2x when a play, pause or seek event carries no rate', () => {
+    expect(resolveSyncRate(undefined, 2)).toBe(2);
+  });
+
+  it('follows the rate an event does carry', () => {
+    expect(resolveSyncRate(1.5, 2)).toBe(1.5);
+  });
+
+  it('falls back to 1x before any anchor exists', () => {
+    expect(resolveSyncRate(undefined, undefined)).toBe(1);
+  });
+});
+
+describe('canPlayAtRate', () => {
+  const capabilities = (rateControl: boolean): PlayerCapabilities => ({
+    rateControl,
+    discreteRates: null,
+    seekableRanges: false,
+    live: false,
+    timeline: 'shared',
+    events: 'none',
+  });
+
+  it('lets a player without rate control follow a 1x room', () => {
+    expect(canPlayAtRate(capabilities(false), 1)).toBe(true);
+  });
+
+  it('rules out any other speed for a player without rate control (Cast, Twitch)', () => {
+    expect(canPlayAtRate(capabilities(false), 2)).toBe(false);
+    expect(canPlayAtRate(capabilities(false), 0.75)).toBe(false);
+  });
+
+  it('accepts any speed for a player with rate control', () => {
+    expect(canPlayAtRate(capabilities(true), 2)).toBe(true);
+  });
+});
@@ -0,0 +1,291 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createCastAdapter,
+  createEmbedAdapter,
+  createHlsAdapter,
+  createMediaElementAdapter,
+  createYouTubeAdapter,
+  deriveCorrectorMode,
+  toPlaybackState,
+  type EmbedPlayerHandle,
+  type HlsPlayerHandle,
+  type MediaElementPlayerHandle,
+  type PlayerPlaybackState,
+  type PlayerCapabilities,
+  type YouTubePlayerHandle,
+} from '@/src/features/video-sync/lib/player-adapter';
+import {
+  hasPlayerAdapter,
+  registerPlayerAdapter,
+  resolvePlayerAdapter,
+  resolvePlayerHandle,
+  resolvePlayerSource,
+} from '@/src/features/video-sync/lib/player-registry';
+import { YT_STATES } from '@/src/features/video-sync/lib/youtube';
+import { YOUTUBE_PLAYBACK_RATES } from '@/src/lib/constants';
+import { LIVE_EDGE_SAFETY_S, type LiveTimeline } from '@/src/features/video-sync/lib/live';
+
+const BASE_CAPABILITIES: PlayerCapabilities = {
+  rateControl: true,
+  discreteRates: null,
+  seekableRanges: true,
+  live: false,
+  timeline: 'shared',
+  events: 'media',
+};
+
+function mediaHandle(element: Partial<HTMLVideoElement> = {}, paused = true): MediaElementPlayerHandle {
+  return {
+    play: vi.fn(),
+    pause: vi.fn(),
+    seekTo: vi.fn(),
+    getCurrentTime: () => 12,
+    getDuration: () => 100,
+    isPaused: () => paused,
+    getVideoElement: () => ({ readyState: 4, duration: 100, ended: false, ...element }) as HTMLVideoElement,
+    setPlaybackRate: vi.fn(),
+  };
+}
+
+function youTubeHandle(state: number, rates: number[] = []): YouTubePlayerHandle {
+  return {
+    play: vi.fn(),
+    pause: vi.fn(),
+    seekTo: vi.fn(),
+    getCurrentTime: () => 5,
+    getDuration: () => 60,
+    getPlayerState: () => state,
+    setPlaybackRate: vi.fn(),
+    getAvailablePlaybackRates: () => rates,
+  };
+}
+
+describe('deriveCorrectorMode', () => {
+  it('glides on fine rate control', () => {
+    expect(deriveCorrectorMode(BASE_CAPABILITIES)).toBe('rate');
+  });
+
+  it('steps when only discrete rates are accepted', () => {
+    expect(deriveCorrectorMode({ ...BASE_CAPABILITIES, discreteRates: [1, 1.25] })).toBe('stepped');
+  });
+
+  it('only seeks without rate control', () => {
+    expect(deriveCorrectorMode({ ...BASE_CAPABILITIES, rateControl: false, discreteRates: [1, 1.25] })).toBe('seek');
+  });
+});
+
+describe('createMediaElementAdapter', () => {
+  it('declares fine rate control and derives rate mode', () => {
+    const adapter = createMediaElementAdapter(mediaHandle());
+    expect(deriveCorrectorMode(adapter.getCapabilities())).toBe('rate');
+  });
+
+  it('drops rate control when the handle has no setter', () => {
+    const { setPlaybackRate: _omit, ...handle } = mediaHandle();
+    expect(createMediaElementAdapter(handle).getCapabilities().rateControl).toBe(false);
+  });
+
+  it('reports live for an infinite duration', () => {
+    expect(createMediaElementAdapter(mediaHandle({ duration: Infinity })).getCapabilities().live).toBe(true);
+  });
+
+  it('maps paused/playing/ended and exposes readyState', () => {
+    expect(createMediaElementAdapter(mediaHandle({}, true)).getPlaybackState()).toBe('paused');
+    expect(createMediaElementAdapter(mediaHandle({}, false)).getPlaybackState()).toBe('playing');
+    expect(createMediaElementAdapter(mediaHandle({ ended: true }, true)).getPlaybackState()).toBe('ended');
+    expect(createMediaElementAdapter(mediaHandle({ readyState: 1 })).getReadyState()).toBe(1);
+  });
+
+  it('returns a null readyState before the element mounts', () => {
+    const handle = { ...mediaHandle(), getVideoElement: () => null };
+    expect(createMediaElementAdapter(handle).getReadyState()).toBeNull();
+  });
+});
+
+describe('createHlsAdapter', () => {
+  const LIVE: LiveTimeline = { start: 100, end: 160, liveSyncPosition: 142, streamOffset: 1_000, anchor: 'pdt' };
+
+  function hlsHandle(timeline: LiveTimeline | null, pending = false): HlsPlayerHandle {
+    return { ...mediaHandle(), getLiveTimeline: () => timeline, isLiveTimelinePending: () => pending };
+  }
+
+  it('behaves like a plain media element for VOD', () => {
+    const handle = hlsHandle(null);
+    const adapter = createHlsAdapter(handle);
+    expect(adapter.getCapabilities().live).toBe(false);
+    expect(adapter.getCurrentTime()).toBe(12);
+    adapter.seekTo(30);
+    expect(handle.seekTo).toHaveBeenCalledWith(30);
+  });
+
+  it('reads and reports the window on the stream clock while live', () => {
+    const adapter = createHlsAdapter(hlsHandle(LIVE));
+    expect(adapter.getCapabilities().live).toBe(true);
+    expect(adapter.getCurrentTime()).toBe(1_012);
+    expect(adapter.getSeekableRanges()?.start(0)).toBe(1_100);
+  });
+
+  it('marks an edge-anchored timeline as local, one anchored to sequence numbers as shared', () => {
+    expect(createHlsAdapter(hlsHandle({ ...LIVE, anchor: 'edge' })).getCapabilities().timeline).toBe('local');
+    expect(createHlsAdapter(hlsHandle({ ...LIVE, anchor: 'sequence' })).getCapabilities().timeline).toBe('shared');
+  });
+
+  it('marks the timeline pending until the playlist tells live from VOD', () => {
+    expect(createHlsAdapter(hlsHandle(null, true)).getCapabilities().timeline).toBe('pending');
+    expect(createHlsAdapter(hlsHandle(null)).getCapabilities().timeline).toBe('shared');
+  });
+
+  it('seeks stream-clock targets back into media time, clamped to the window', () => {
+    const handle = hlsHandle(LIVE);
+    const adapter = createHlsAdapter(handle);
+    adapter.seekTo(1_130);
+    expect(handle.seekTo).toHaveBeenLastCalledWith(130);
+    adapter.seekTo(5_000);
+    expect(handle.seekTo).toHaveBeenLastCalledWith(160 - LIVE_EDGE_SAFETY_S);
+  });
+});
+
+describe('createYouTubeAdapter', () => {
+  it('declares discrete rates, falling back to the usual steps before the player is ready', () => {
+    expect(createYouTubeAdapter(youTubeHandle(YT_STATES.PLAYING)).getCapabilities().discreteRates).toEqual(
+      YOUTUBE_PLAYBACK_RATES
+    );
+    expect(createYouTubeAdapter(youTubeHandle(YT_STATES.PLAYING, [1, 2])).getCapabilities().discreteRates).toEqual([
+      1, 2,
+    ]);
+  });
+
+  it('derives stepped mode and state events', () => {
+    const capabilities = createYouTubeAdapter(youTubeHandle(YT_STATES.PLAYING)).getCapabilities();
+    expect(deriveCorrectorMode(capabilities)).toBe('stepped');
+    expect(capabilities.events).toBe('state');
+  });
+
+  it('treats BUFFERING as a starved readyState', () => {
+    expect(createYouTubeAdapter(youTubeHandle(YT_STATES.BUFFERING)).getReadyState()).toBe(2);
+    expect(createYouTubeAdapter(youTubeHandle(YT_STATES.PLAYING)).getReadyState()).toBe(4);
+  });
+});
+
+describe('toPlaybackState', () => {
+  it('maps YouTube state codes', () => {
+    expect(toPlaybackState(YT_STATES.PLAYING)).toBe('playing');
+    expect(toPlaybackState(YT_STATES.PAUSED)).toBe('paused');
+    expect(toPlaybackState(YT_STATES.CUED)).toBe('paused');
+    expect(toPlaybackState(YT_STATES.BUFFERING)).toBe('buffering');
+    expect(toPlaybackState(YT_STATES.ENDED)).toBe('ended');
+    expect(toPlaybackState(YT_STATES.UNSTARTED)).toBe('unknown');
+  });
+});
+
+describe('createEmbedAdapter', () => {
+  function embedHandle(state: PlayerPlaybackState, canSetRate: boolean): EmbedPlayerHandle {
+    return {
+      play: vi.fn(),
+      pause: vi.fn(),
+      seekTo: vi.fn(),
+      getCurrentTime: () => 0,
+      getDuration: () => 0,
+      getPlaybackState: () => state,
+      canSetPlaybackRate: () => canSetRate,
+      setPlaybackRate: vi.fn(),
+    };
+  }
+
+  it('glides when the embed allows speed changes and seeks when it does not', () => {
+    expect(deriveCorrectorMode(createEmbedAdapter(embedHandle('playing', true)).getCapabilities())).toBe('rate');
+    expect(deriveCorrectorMode(createEmbedAdapter(embedHandle('playing', false)).getCapabilities())).toBe('seek');
+  });
+
+  it('never forwards a rate the embed would reject', () => {
+    const handle = embedHandle('playing', false);
+    createEmbedAdapter(handle).setPlaybackRate(1.05);
+    expect(handle.setPlaybackRate).not.toHaveBeenCalled();
+  });
+
+  it('reads as not loaded until the embed reports a state, starved while buffering', () => {
+    expect(createEmbedAdapter(embedHandle('unknown', false)).getReadyState()).toBe(0);
+    expect(createEmbedAdapter(embedHandle('buffering', false)).getReadyState()).toBe(2);
+    expect(createEmbedAdapter(embedHandle('paused', false)).getReadyState()).toBe(4);
+  });
+});
+
+describe('createCastAdapter', () => {
+  it('has no rate control, so it derives seek mode', () => {
+    const adapter = createCastAdapter({
+      play: vi.fn(),
+      pause: vi.fn(),
+      seekTo: vi.fn(),
+      getCurrentTime: () => 0,
+      getDuration: () => 0,
+      isPaused: () => false,
+    });
+    expect(deriveCorrectorMode(adapter.getCapabilities())).toBe('seek');
+    expect(adapter.getReadyState()).toBeNull();
+  });
+});
+
+describe('player registry', () => {
+  it('resolves built-in sources and caches one adapter per handle', () => {
+    const handle = mediaHandle();
+    const adapter = resolvePlayerAdapter('m3u8', handle);
+    expect(adapter).not.toBeNull();
+    expect(resolvePlayerAdapter('m3u8', handle)).toBe(adapter);
+  });
+
+  it('registers the Vimeo and Twitch embeds', () => {
+    expect(hasPlayerAdapter('vimeo')).toBe(true);
+    expect(hasPlayerAdapter('twitch')).toBe(true);
+  });
+
+  it('returns null for an unmounted handle', () => {
+    expect(resolvePlayerAdapter('mp4', null)).toBeNull();
+  });
+
+  it('lets a new source plug in', () => {
+    expect(hasPlayerAdapter('mpd')).toBe(true);
+    const factory = vi.fn(createMediaElementAdapter);
+    registerPlayerAdapter('mpd', factory);
+    const handle = mediaHandle();
+    resolvePlayerAdapter('mpd', handle);
+    expect(factory).toHaveBeenCalledWith(handle);
+    registerPlayerAdapter('mpd', createMediaElementAdapter);
+  });
+
+  it('uses a replaced factory for handles that already have an adapter', () => {
+    const handle = mediaHandle();
+    const original = resolvePlayerAdapter('mp4', handle);
+    const replacement = { ...createMediaElementAdapter(handle) };
+    registerPlayerAdapter('mp4', () => replacement);
+    expect(resolvePlayerAdapter('mp4', handle)).toBe(replacement);
+    registerPlayerAdapter('mp4', createMediaElementAdapter);
+    expect(resolvePlayerAdapter('mp4', handle)).toBe(original);
+  });
+});
+
+describe('resolvePlayerSource / resolvePlayerHandle', () => {
+  const local = mediaHandle();
+  const cast = mediaHandle();
+  const playerRefs = { m3u8: { current: local }, cast: { current: cast } };
+
+  it('picks the Cast receiver only while casting', () => {
+    expect(resolvePlayerSource('m3u8', playerRefs, true)).toBe('cast');
+    expect(resolvePlayerSource('m3u8', playerRefs, false)).toBe('m3u8');
+    expect(resolvePlayerSource('m3u8', playerRefs)).toBe('m3u8');
+  });
+
+  it('stays on the local player while the Cast handle is not mounted', () => {
+    expect(resolvePlayerSource('m3u8', { ...playerRefs, cast: { current: null } }, true)).toBe('m3u8');
+  });
+
+  it('has no source without a video', () => {
+    expect(resolvePlayerSource(null, playerRefs, true)).toBeNull();
+  });
+
+  it("returns the source's mounted handle", () => {
+    expect(resolvePlayerHandle(playerRefs, 'cast')).toBe(cast);
+    expect(resolvePlayerHandle(playerRefs, 'm3u8')).toBe(local);
+    expect(resolvePlayerHandle(playerRefs, 'youtube')).toBeNull();
+    expect(resolvePlayerHandle(playerRefs, null)).toBeNull();
+  });
+});
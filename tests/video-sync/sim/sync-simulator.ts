@@ -0,0 +1,589 @@
+// Deterministic multi-client sync simulator. Everything runs on one virtual clock driven by a seeded
+// event queue, so a scenario always produces the same drift traces — sync changes can be compared
+// numerically instead of by eye in two browser tabs.
+//
+// What is real and what is modelled:
+// - real: addClockSample/estimateClock (clock-estimator.ts), decidePiCorrection/shouldApplySyncUpdate
+//   (corrector.ts), updateLiveClock (live.ts) and the SYNC_* constants they read;
+// - modelled: the server (anchor + periodic ticker + host re-anchor), the network (per-client one-way
+//   latency with jitter, FIFO per direction like a socket), the players (position advanced at their
+//   playbackRate, frozen during stall windows and after seeks), a live playlist (segments published on
+//   the true clock, refreshed by each client a segment at a time from when it joined; the DVR window
+//   isn't), and applyCorrection from use-video-sync.ts, which is mirrored in `applyCorrection` below and
+//   must be kept in step with it.
+import {
+  CLOCK_BURST_PROBE_COUNT,
+  CLOCK_BURST_PROBE_INTERVAL_MS,
+  CLOCK_REPROBE_INTERVAL_MS,
+  HOST_REANCHOR_MS,
+  SYNC_COOLDOWN_MS,
+  SYNC_CORRECTOR_INTERVAL_MS,
+} from '@/src/lib/constants';
+import {
+  addClockSample,
+  createClockEstimatorState,
+  estimateClock,
+  projectClockOffset,
+  type ClockEstimate,
+  type ClockEstimatorState,
+} from '@/src/features/video-sync/lib/clock-estimator';
+import {
+  createPiCorrectorState,
+  decideCorrection,
+  decidePiCorrection,
+  shouldApplySyncUpdate,
+  type CorrectorMode,
+  type PiCorrectorState,
+} from '@/src/features/video-sync/lib/corrector';
+import { decideCatchUp } from '@/src/features/video-sync/lib/catch-up';
+import {
+  createLiveClockState,
+  isSharedLiveClock,
+  updateLiveClock,
+  type LiveClockState,
+  type LiveTimeline,
+} from '@/src/features/video-sync/lib/live';
+
+/** One-way latency: each leg takes latencyMs plus a uniform 0..jitterMs extra. */
+export interface NetworkProfile {
+  latencyMs: number;
+  jitterMs: number;
+}
+
+/** The player cannot advance from startMs (virtual time) for durationMs, e.g. a rebuffer. */
+export interface StallWindow {
+  startMs: number;
+  durationMs: number;
+}
+
+export interface SimClientConfig {
+  id: string;
+  isHost?: boolean;
+  /** Defaults to 'rate' (HTML5/HLS). */
+  mode?: CorrectorMode;
+  /** Defaults to 20ms +/- 0 (a good connection). */
+  network?: NetworkProfile;
+  /** Local clock minus true clock (ms) at t=0. */
+  clockErrorMs?: number;
+  /** Local clock drift per true ms (e.g. 0.0001 = 100ppm fast). */
+  clockSkew?: number;
+  stalls?: StallWindow[];
+  /** Virtual time the client joins the room. Defaults to 0. */
+  joinAtMs?: number;
+  /** How long a seek freezes the player while it refills its buffer. Defaults to 0. */
+  seekCostMs?: number;
+  /** Rates a 'stepped' player accepts; undefined = the corrector's default. */
+  availableRates?: number[];
+  /** Fractional error of the decoder's real speed vs its playbackRate (-0.01 = plays 1% slow). */
+  decoderRateError?: number;
+  /** 'stateless' runs plain decideCorrection, for comparing against the PI default. */
+  corrector?: 'pi' | 'stateless';
+  /** Catch-up speed preference (relative to the room's); undefined = off. Ignored for the host. */
+  catchUpRate?: number;
+  /**
+   * Live streams only: what the player reads from the playlist. hls.js sees media sequence numbers
+   * ('sequence'); native HLS only sees where the edge is ('edge'). Defaults to 'sequence'.
+   */
+  livePlaylist?: 'sequence' | 'edge';
+}
+
+export type HostAction =
+  | { atMs: number; type: 'play' }
+  | { atMs: number; type: 'pause' }
+  | { atMs: number; type: 'seek'; time: number };
+
+export interface SimConfig {
+  seed: number;
+  durationMs: number;
+  clients: SimClientConfig[];
+  actions?: HostAction[];
+  /** Server PlaybackSyncTicker cadence. Defaults to 1000ms. */
+  tickIntervalMs?: number;
+  /** Drift trace resolution. Defaults to 100ms. */
+  traceIntervalMs?: number;
+  /** Room position at t=0. Defaults to 0. */
+  initialTime?: number;
+  /** Whether the room is already playing at t=0. Defaults to true. */
+  initiallyPlaying?: boolean;
+  /**
+   * Play a live stream without program date time, cut into segments of this length (s). Segment k ends
+   * at k * liveSegmentS on the true stream clock, which runs on the true clock. undefined = VOD.
+   */
+  liveSegmentS?: number;
+}
+
+export interface DriftSample {
+  /** Virtual time (ms). */
+  t: number;
+  /** Authoritative room position minus player position (s). Positive = player is behind. */
+  drift: number;
+  rate: number;
+  stalled: boolean;
+}
+
+export interface SimClientResult {
+  id: string;
+  trace: DriftSample[];
+  /** Virtual times (ms) of every corrector seek. */
+  seekTimes: number[];
+  /** Corrector passes that chose 'nudge'. */
+  nudgeCount: number;
+  /** Final clock-offset estimate error (ms) against the true offset; null if never measured. */
+  clockErrorMs: number | null;
+}
+
+export interface SimResult {
+  clients: Record<string, SimClientResult>;
+}
+
+interface Anchor {
+  currentTime: number;
+  isPlaying: boolean;
+  rate: number;
+  timestamp: number;
+}
+
+interface SimPlayer {
+  position: number;
+  playing: boolean;
+  rate: number;
+  decoderRateError: number;
+  /** Virtual time up to which `position` is accurate. */
+  updatedAt: number;
+  /** Frozen intervals (virtual ms): configured stalls plus seek refills. */
+  frozen: Array<{ from: number; to: number }>;
+}
+
+interface SimClient {
+  config: SimClientConfig;
+  mode: CorrectorMode;
+  network: NetworkProfile;
+  player: SimPlayer;
+  clock: ClockEstimatorState;
+  estimate: ClockEstimate | null;
+  anchor: Anchor | null;
+  pi: PiCorrectorState;
+  lastIntentTimestamp: number;
+  lastSeekServerTime: number;
+  appliedRate: number;
+  rateNudged: boolean;
+  glideUntilLocal: number | null;
+  /** Delivery time of the last message on each leg, so a socket never reorders. */
+  lastUpAt: number;
+  lastDownAt: number;
+  /** Live only: the client's stream clock, and where its media time 0 sits on the true stream clock. */
+  liveClock: LiveClockState;
+  liveTimeline: LiveTimeline | null;
+  mediaOrigin: number;
+  result: SimClientResult;
+}
+
+/** mulberry32 — tiny, fast and good enough for jitter. */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function project(anchor: Anchor, serverNow: number): number {
+  if (!anchor.isPlaying) return anchor.currentTime;
+  return anchor.currentTime + ((serverNow - anchor.timestamp) / 1000) * anchor.rate;
+}
+
+function frozenOverlap(player: SimPlayer, from: number, to: number): number {
+  let overlap = 0;
+  for (const window of player.frozen) {
+    overlap += Math.max(0, Math.min(to, window.to) - Math.max(from, window.from));
+  }
+  return overlap;
+}
+
+function advancePlayer(player: SimPlayer, now: number): void {
+  if (now <= player.updatedAt) return;
+  if (player.playing) {
+    const movingMs = now - player.updatedAt - frozenOverlap(player, player.updatedAt, now);
+    player.position += (movingMs / 1000) * player.rate * (1 + player.decoderRateError);
+  }
+  player.updatedAt = now;
+}
+
+function isFrozen(player: SimPlayer, now: number): boolean {
+  return player.frozen.some(window => now >= window.from && now < window.to);
+}
+
+/** Run one scenario to `durationMs` of virtual time. Same config + seed = same result. */
+export function runSyncSimulation(config: SimConfig): SimResult {
+  const {
+    seed,
+    durationMs,
+    actions = [],
+    tickIntervalMs = 1_000,
+    traceIntervalMs = 100,
+    initialTime = 0,
+    initiallyPlaying = true,
+    liveSegmentS,
+  } = config;
+  const random = createRandom(seed);
+
+  // Event queue: ordered by time, then by insertion so same-instant events stay deterministic
+  const queue: Array<{ at: number; seq: number; run: () => void }> = [];
+  let seq = 0;
+  let now = 0;
+  const schedule = (at: number, run: () => void) => {
+    const event = { at, seq: seq++, run };
+    let index = queue.length;
+    while (
+      index > 0 &&
+      (queue[index - 1].at > at || (queue[index - 1].at === at && queue[index - 1].seq > event.seq))
+    ) {
+      index--;
+    }
+    queue.splice(index, 0, event);
+  };
+
+  // The server clock is the true clock
+  const server: { anchor: Anchor } = {
+    anchor: { currentTime: initialTime, isPlaying: initiallyPlaying, rate: 1, timestamp: 0 },
+  };
+
+  const clients: SimClient[] = config.clients.map(clientConfig => ({
+    config: clientConfig,
+    mode: clientConfig.mode ?? 'rate',
+    network: clientConfig.network ?? { latencyMs: 20, jitterMs: 0 },
+    player: {
+      position: 0,
+      playing: false,
+      rate: 1,
+      decoderRateError: clientConfig.decoderRateError ?? 0,
+      updatedAt: 0,
+      frozen: (clientConfig.stalls ?? []).map(stall => ({ from: stall.startMs, to: stall.startMs + stall.durationMs })),
+    },
+    clock: createClockEstimatorState(),
+    estimate: null,
+    anchor: null,
+    pi: createPiCorrectorState(),
+    lastIntentTimestamp: 0,
+    lastSeekServerTime: -Infinity,
+    appliedRate: 1,
+    rateNudged: false,
+    glideUntilLocal: null,
+    lastUpAt: 0,
+    lastDownAt: 0,
+    liveClock: createLiveClockState(),
+    liveTimeline: null,
+    mediaOrigin: 0,
+    result: { id: clientConfig.id, trace: [], seekTimes: [], nudgeCount: 0, clockErrorMs: null },
+  }));
+  const joined = new Set<SimClient>();
+
+  const localNow = (client: SimClient) =>
+    now + (client.config.clockErrorMs ?? 0) + (client.config.clockSkew ?? 0) * now;
+  const estimatedServerNow = (client: SimClient) => {
+    const local = localNow(client);
+    return local + (client.estimate ? projectClockOffset(client.estimate, local) : 0);
+  };
+  const legDelay = (network: NetworkProfile) => network.latencyMs + random() * network.jitterMs;
+  const sendUp = (client: SimClient, deliver: () => void) => {
+    client.lastUpAt = Math.max(now + legDelay(client.network), client.lastUpAt);
+    schedule(client.lastUpAt, deliver);
+  };
+  const sendDown = (client: SimClient, deliver: () => void) => {
+    client.lastDownAt = Math.max(now + legDelay(client.network), client.lastDownAt);
+    schedule(client.lastDownAt, deliver);
+  };
+
+  // Positions as the client's adapter reads and seeks them: on its own stream clock when live, which is the
+  // true one shifted by whatever its anchor got wrong
+  const clockErrorS = (client: SimClient) =>
+    client.liveTimeline ? client.liveTimeline.streamOffset - client.mediaOrigin : 0;
+  const readPosition = (client: SimClient) => client.player.position + clockErrorS(client);
+
+  // A playlist refresh: the edge is the last segment published on the true clock by now
+  const refreshPlaylist = (client: SimClient, segmentS: number) => {
+    const edge = Math.floor(now / 1000 / segmentS) * segmentS;
+    if (!client.liveTimeline) client.mediaOrigin = edge;
+    const end = edge - client.mediaOrigin;
+    client.liveTimeline = updateLiveClock(
+      client.liveClock,
+      {
+        start: 0,
+        end,
+        liveSyncPosition: end,
+        programDateOffset: null,
+        sequenceEnd: (client.config.livePlaylist ?? 'sequence') === 'sequence' ? edge : null,
+      },
+      estimatedServerNow(client)
+    );
+  };
+
+  const setRate = (client: SimClient, rate: number) => {
+    if (client.appliedRate === rate) return;
+    advancePlayer(client.player, now);
+    client.player.rate = rate;
+    client.appliedRate = rate;
+  };
+
+  // Mirror of applyCorrection in use-video-sync.ts (minus the buffering barrier)
+  const applyCorrection = (client: SimClient, drift: number, targetTime: number) => {
+    const serverNow = estimatedServerNow(client);
+    const cooldownElapsed = serverNow - client.lastSeekServerTime > SYNC_COOLDOWN_MS;
+    const uncertaintyS = (client.estimate?.rtt ?? 0) / 2000;
+    const measuredDrift = Math.sign(drift) * Math.max(0, Math.abs(drift) - uncertaintyS);
+    const baseRate = client.anchor?.rate ?? 1;
+
+    if (client.liveTimeline && !isSharedLiveClock(client.liveTimeline)) {
+      client.glideUntilLocal = null;
+      setRate(client, baseRate);
+      client.rateNudged = false;
+      return;
+    }
+
+    const catchUp =
+      client.config.catchUpRate !== undefined && !client.config.isHost && client.anchor?.isPlaying
+        ? decideCatchUp({
+            drift: measuredDrift,
+            mode: client.mode,
+            catchUpRate: client.config.catchUpRate,
+            baseRate,
+            availableRates: client.config.availableRates,
+          })
+        : null;
+    if (catchUp) {
+      client.glideUntilLocal = null;
+      setRate(client, catchUp.rate);
+      client.rateNudged = true;
+      return;
+    }
+
+    const params = {
+      drift: measuredDrift,
+      mode: client.mode,
+      rateNudged: client.rateNudged,
+      cooldownElapsed,
+      baseRate,
+      availableRates: client.config.availableRates,
+    };
+    const correction =
+      client.config.corrector === 'stateless'
+        ? decideCorrection(params)
+        : decidePiCorrection(client.pi, { ...params, now: localNow(client) });
+
+    if (client.glideUntilLocal !== null && correction.action !== 'seek') {
+      if (localNow(client) < client.glideUntilLocal && correction.action === 'nudge') return;
+      client.glideUntilLocal = null;
+      setRate(client, baseRate);
+      client.rateNudged = false;
+      return;
+    }
+
+    if (correction.action === 'nudge') {
+      setRate(client, correction.rate);
+      client.rateNudged = true;
+      client.result.nudgeCount++;
+      if (correction.durationMs !== undefined) {
+        client.glideUntilLocal = localNow(client) + correction.durationMs;
+      }
+    } else if (correction.action === 'none') {
+      setRate(client, baseRate);
+      client.rateNudged = false;
+    } else {
+      client.glideUntilLocal = null;
+      setRate(client, baseRate);
+      client.rateNudged = false;
+      seekPlayer(client, targetTime);
+      client.result.seekTimes.push(now);
+      client.lastSeekServerTime = serverNow;
+    }
+  };
+
+  const seekPlayer = (client: SimClient, time: number) => {
+    advancePlayer(client.player, now);
+    client.player.position = time - clockErrorS(client);
+    const seekCostMs = client.config.seekCostMs ?? 0;
+    if (seekCostMs > 0) client.player.frozen.push({ from: now, to: now + seekCostMs });
+  };
+
+  // syncVideo: a sync-update (or room join) reaching a client
+  const receiveSyncUpdate = (client: SimClient, anchor: Anchor) => {
+    if (!shouldApplySyncUpdate(anchor.timestamp, client.lastIntentTimestamp)) return;
+    client.anchor = anchor;
+    advancePlayer(client.player, now);
+    const target = project(anchor, estimatedServerNow(client));
+    applyCorrection(client, target - readPosition(client), target);
+    client.player.playing = anchor.isPlaying;
+  };
+
+  const broadcast = () => {
+    const anchor = { ...server.anchor, currentTime: project(server.anchor, now), timestamp: now };
+    server.anchor = anchor;
+    for (const client of joined) {
+      sendDown(client, () => receiveSyncUpdate(client, anchor));
+    }
+  };
+
+  const probeClock = (client: SimClient) => {
+    const clientSendTime = localNow(client);
+    sendUp(client, () => {
+      const serverTime = now;
+      sendDown(client, () => {
+        const outcome = addClockSample(client.clock, { clientSendTime, serverTime }, localNow(client));
+        if (outcome === 'accepted' || outcome === 'step-reset') {
+          client.estimate = estimateClock(client.clock);
+        }
+      });
+    });
+  };
+
+  const every = (start: number, intervalMs: number, run: () => void) => {
+    const tick = () => {
+      run();
+      schedule(now + intervalMs, tick);
+    };
+    schedule(start, tick);
+  };
+
+  for (const client of clients) {
+    const joinAt = client.config.joinAtMs ?? 0;
+    schedule(joinAt, () => {
+      joined.add(client);
+      if (liveSegmentS !== undefined) {
+        refreshPlaylist(client, liveSegmentS);
+        every(now + liveSegmentS * 1000, liveSegmentS * 1000, () => refreshPlaylist(client, liveSegmentS));
+      }
+      const anchor = { ...server.anchor, currentTime: project(server.anchor, now), timestamp: now };
+      sendDown(client, () => receiveSyncUpdate(client, anchor));
+      for (let i = 0; i < CLOCK_BURST_PROBE_COUNT; i++) {
+        schedule(now + i * CLOCK_BURST_PROBE_INTERVAL_MS, () => probeClock(client));
+      }
+      every(now + CLOCK_REPROBE_INTERVAL_MS, CLOCK_REPROBE_INTERVAL_MS, () => probeClock(client));
+
+      // Local projection corrector loop; waits for a clock estimate like the hook does
+      every(now + SYNC_CORRECTOR_INTERVAL_MS, SYNC_CORRECTOR_INTERVAL_MS, () => {
+        const anchor = client.anchor;
+        if (!anchor || !client.estimate) return;
+        if (!shouldApplySyncUpdate(anchor.timestamp, client.lastIntentTimestamp)) return;
+        advancePlayer(client.player, now);
+        const projected = project(anchor, estimatedServerNow(client));
+        applyCorrection(client, projected - readPosition(client), projected);
+      });
+
+      // Host re-anchor: the host's own position becomes the room's position
+      if (client.config.isHost) {
+        every(now + HOST_REANCHOR_MS, HOST_REANCHOR_MS, () => {
+          advancePlayer(client.player, now);
+          const currentTime = readPosition(client);
+          const isPlaying = client.player.playing;
+          const timestamp = estimatedServerNow(client);
+          sendUp(client, () => {
+            server.anchor = { ...server.anchor, currentTime, isPlaying, timestamp };
+          });
+        });
+      }
+    });
+  }
+
+  const host = clients.find(client => client.config.isHost);
+  for (const action of actions) {
+    schedule(action.atMs, () => {
+      if (!host) return;
+      advancePlayer(host.player, now);
+      host.lastIntentTimestamp = estimatedServerNow(host);
+      if (action.type === 'seek') seekPlayer(host, action.time);
+      if (action.type !== 'seek') host.player.playing = action.type === 'play';
+      const currentTime = readPosition(host);
+      sendUp(host, () => {
+        server.anchor = {
+          ...server.anchor,
+          currentTime,
+          isPlaying: action.type === 'seek' ? server.anchor.isPlaying : action.type === 'play',
+          timestamp: now,
+        };
+        broadcast();
+      });
+    });
+  }
+
+  every(tickIntervalMs, tickIntervalMs, broadcast);
+
+  every(0, traceIntervalMs, () => {
+    const truth = project(server.anchor, now);
+    for (const client of joined) {
+      advancePlayer(client.player, now);
+      client.result.trace.push({
+        t: now,
+        drift: truth - client.player.position,
+        rate: client.player.rate,
+        stalled: client.player.playing && isFrozen(client.player, now),
+      });
+    }
+  });
+
+  while (queue.length > 0 && queue[0].at <= durationMs) {
+    const event = queue.shift()!;
+    now = event.at;
+    event.run();
+  }
+
+  const results: Record<string, SimClientResult> = {};
+  for (const client of clients) {
+    if (client.estimate) {
+      const local = localNow(client);
+      const trueOffset = now - local;
+      client.result.clockErrorMs = projectClockOffset(client.estimate, local) - trueOffset;
+    }
+    results[client.config.id] = client.result;
+  }
+  return { clients: results };
+}
+
+/** Largest |drift| (s) in [fromMs, toMs]. */
+export function maxAbsDrift(trace: DriftSample[], fromMs = 0, toMs = Infinity): number {
+  return trace
+    .filter(sample => sample.t >= fromMs && sample.t <= toMs)
+    .reduce((max, sample) => Math.max(max, Math.abs(sample.drift)), 0);
+}
+
+/**
+ * Time (ms) from `afterMs` until |drift| settles within `thresholdS` and stays there for the rest of
+ * the trace (or until `untilMs`). null if it never settles.
+ */
+export function convergenceTimeMs(
+  trace: DriftSample[],
+  afterMs: number,
+  thresholdS: number,
+  untilMs = Infinity
+): number | null {
+  const window = trace.filter(sample => sample.t >= afterMs && sample.t <= untilMs);
+  let settledAt: number | null = null;
+  for (const sample of window) {
+    if (Math.abs(sample.drift) > thresholdS) {
+      settledAt = null;
+    } else if (settledAt === null) {
+      settledAt = sample.t;
+    }
+  }
+  return settledAt === null ? null : settledAt - afterMs;
+}
+
+/** Mean |drift| (s) in [fromMs, toMs] — the visible residual a listener would notice as lip-sync offset. */
+export function meanAbsDrift(trace: DriftSample[], fromMs = 0, toMs = Infinity): number {
+  const window = trace.filter(sample => sample.t >= fromMs && sample.t <= toMs);
+  if (window.length === 0) return 0;
+  return window.reduce((sum, sample) => sum + Math.abs(sample.drift), 0) / window.length;
+}
+
+/** playbackRate changes in [fromMs, toMs] — how hard the corrector is working (oscillation shows up here). */
+export function countRateChanges(trace: DriftSample[], fromMs = 0, toMs = Infinity): number {
+  const window = trace.filter(sample => sample.t >= fromMs && sample.t <= toMs);
+  return window.slice(1).filter((sample, i) => sample.rate !== window[i].rate).length;
+}
+
+/** Seeks at or after `fromMs`. */
+export function countSeeks(result: SimClientResult, fromMs = 0): number {
+  return result.seekTimes.filter(t => t >= fromMs).length;
+}
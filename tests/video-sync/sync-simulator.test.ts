@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convergenceTimeMs,
+  countSeeks,
+  maxAbsDrift,
+  meanAbsDrift,
+  runSyncSimulation,
+  type SimClientConfig,
+} from './sim/sync-simulator';
+import { SYNC_DEAD_BAND_S, SYNC_SOFT_BAND_S, SYNC_STEPPED_DEAD_BAND_S } from '@/src/lib/constants';
+
+const HOST: SimClientConfig = { id: 'host', isHost: true };
+// Long enough for the clock burst to land and the first corrector passes to settle
+const WARMUP_MS = 3_000;
+
+describe('sync simulator', () => {
+  it('is deterministic for a given seed', () => {
+    const config = {
+      seed: 42,
+      durationMs: 20_000,
+      clients: [HOST, { id: 'guest', network: { latencyMs: 50, jitterMs: 200 } }],
+      actions: [{ atMs: 8_000, type: 'seek' as const, time: 60 }],
+    };
+    expect(runSyncSimulation(config)).toEqual(runSyncSimulation(config));
+    expect(runSyncSimulation({ ...config, seed: 43 }).clients.guest.trace).not.toEqual(
+      runSyncSimulation(config).clients.guest.trace
+    );
+  });
+
+  it('holds a guest on a clean network inside the dead band without seeking', () => {
+    const { clients } = runSyncSimulation({ seed: 1, durationMs: 30_000, clients: [HOST, { id: 'guest' }] });
+    expect(maxAbsDrift(clients.guest.trace, WARMUP_MS)).toBeLessThan(SYNC_DEAD_BAND_S);
+    expect(countSeeks(clients.guest)).toBe(0);
+  });
+
+  it('absorbs a 5s local clock error once the offset estimate lands', () => {
+    const { clients } = runSyncSimulation({
+      seed: 3,
+      durationMs: 30_000,
+      clients: [HOST, { id: 'guest', clockErrorMs: 5_000, network: { latencyMs: 60, jitterMs: 40 } }],
+    });
+    // Bounded by half the best round trip
+    expect(Math.abs(clients.guest.clockErrorMs!)).toBeLessThan(60);
+    expect(maxAbsDrift(clients.guest.trace, 12_000)).toBeLessThan(SYNC_DEAD_BAND_S);
+    expect(countSeeks(clients.guest)).toBeLessThanOrEqual(2);
+  });
+
+  it('brings a buffering guest back after the host seeks under 300ms jitter', () => {
+    const { clients } = runSyncSimulation({
+      seed: 7,
+      durationMs: 40_000,
+      clients: [
+        { ...HOST, network: { latencyMs: 30, jitterMs: 20 } },
+        {
+          id: 'guest',
+          network: { latencyMs: 80, jitterMs: 300 },
+          stalls: [{ startMs: 9_000, durationMs: 4_000 }],
+          seekCostMs: 300,
+        },
+      ],
+      actions: [{ atMs: 10_000, type: 'seek', time: 120 }],
+    });
+
+    // The host seeked itself — it must not be yanked back to the pre-seek anchor
+    expect(countSeeks(clients.host)).toBe(0);
+    expect(maxAbsDrift(clients.host.trace, 11_000)).toBeLessThan(SYNC_DEAD_BAND_S);
+
+    // A corrector seek just before the host's seek holds the guest in SYNC_COOLDOWN_MS, so it only
+    // follows once the cooldown lapses; it then settles just outside the dead band (offset error +
+    // jitter uncertainty shaved off by the corrector)
+    const stallEndMs = 13_000;
+    const convergence = convergenceTimeMs(clients.guest.trace, stallEndMs, 0.3);
+    expect(convergence).not.toBeNull();
+    expect(convergence!).toBeLessThanOrEqual(2_000);
+    expect(countSeeks(clients.guest, WARMUP_MS)).toBeLessThanOrEqual(2);
+  });
+
+  it('glides out a short stall on a rate-capable player instead of seeking', () => {
+    const { clients } = runSyncSimulation({
+      seed: 5,
+      durationMs: 30_000,
+      clients: [HOST, { id: 'guest', stalls: [{ startMs: 10_000, durationMs: 500 }] }],
+    });
+    expect(countSeeks(clients.guest)).toBe(0);
+    expect(clients.guest.nudgeCount).toBeGreaterThan(0);
+    expect(convergenceTimeMs(clients.guest.trace, 10_500, 0.2)).toBeLessThanOrEqual(8_000);
+  });
+
+  it('glides a YouTube player on discrete steps where seek-only mode would jump', () => {
+    const stall = { startMs: 10_000, durationMs: 1_000 };
+    const stepped = runSyncSimulation({
+      seed: 4,
+      durationMs: 30_000,
+      clients: [HOST, { id: 'youtube', mode: 'stepped', stalls: [stall] }],
+    }).clients.youtube;
+    const seekOnly = runSyncSimulation({
+      seed: 4,
+      durationMs: 30_000,
+      clients: [HOST, { id: 'youtube', mode: 'seek', stalls: [stall] }],
+    }).clients.youtube;
+
+    expect(countSeeks(seekOnly)).toBe(1);
+    expect(countSeeks(stepped)).toBe(0);
+    expect(stepped.nudgeCount).toBeGreaterThan(0);
+    expect(maxAbsDrift(stepped.trace, 17_000)).toBeLessThanOrEqual(SYNC_STEPPED_DEAD_BAND_S);
+  });
+
+  it('leaves a smaller residual than the stateless corrector when a decoder runs slow', () => {
+    const run = (corrector: 'pi' | 'stateless') =>
+      runSyncSimulation({
+        seed: 1,
+        durationMs: 60_000,
+        clients: [HOST, { id: 'guest', corrector, decoderRateError: -0.01 }],
+      }).clients.guest;
+    const pi = run('pi');
+    const stateless = run('stateless');
+
+    // The proportional-only corrector saws between the dead band and its edge
+    expect(meanAbsDrift(stateless.trace, 10_000)).toBeGreaterThan(0.1);
+    expect(meanAbsDrift(pi.trace, 10_000)).toBeLessThan(meanAbsDrift(stateless.trace, 10_000) / 2);
+    expect(countSeeks(pi)).toBe(0);
+  });
+
+  it('lets a late joiner who opted in catch up at speed instead of seeking', () => {
+    const run = (catchUpRate?: number) =>
+      runSyncSimulation({
+        seed: 9,
+        durationMs: 60_000,
+        clients: [HOST, { id: 'late', joinAtMs: 10_000, catchUpRate }],
+      }).clients.late;
+    const seeker = run();
+    const catcher = run(1.5);
+
+    expect(countSeeks(seeker)).toBe(1);
+    expect(countSeeks(catcher)).toBe(0);
+    // ~10s behind at +0.5x is about 18s to the soft band; the regular corrector glides in the rest
+    expect(convergenceTimeMs(catcher.trace, 10_000, SYNC_SOFT_BAND_S)).toBeLessThanOrEqual(20_000);
+    expect(maxAbsDrift(catcher.trace, 50_000)).toBeLessThan(SYNC_DEAD_BAND_S);
+  });
+
+  describe('live stream without program date time', () => {
+    // The guest's playlist refreshes land 5.9s after the host's, so for most of each 6s segment it sees
+    // one segment less of the stream
+    const run = (livePlaylist: 'sequence' | 'edge') =>
+      runSyncSimulation({
+        seed: 11,
+        durationMs: 60_000,
+        liveSegmentS: 6,
+        initialTime: 30,
+        clients: [HOST, { id: 'guest', joinAtMs: 5_900, livePlaylist }],
+      }).clients.guest;
+
+    it('holds two viewers whose playlist fetches are a segment apart together on sequence numbers', () => {
+      const guest = run('sequence');
+      // One seek from where its player started to the room's position, none afterwards
+      expect(countSeeks(guest, 5_900 + WARMUP_MS)).toBe(0);
+      expect(maxAbsDrift(guest.trace, 5_900 + WARMUP_MS)).toBeLessThan(SYNC_DEAD_BAND_S);
+    });
+
+    it('leaves a viewer that only sees the edge where its player put it instead of chasing its refresh time', () => {
+      const guest = run('edge');
+      expect(countSeeks(guest)).toBe(0);
+      expect(guest.nudgeCount).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeCodec,
+  getCodecContentType,
+  getCodecKind,
+  parseContainerHint,
+  parseHlsVariantCodecs,
+  summarizeCodecSupport,
+  toCodecReportEntries,
+} from '@/src/core/video/codec-preflight';
+import { CodecCapabilityReportDataSchema } from '@/types';
+
+const MULTIVARIANT = [
+  '#EXTM3U',
+  '#EXT-X-STREAM-INF:BANDWIDTH=2000000,RESOLUTION=1280x720,CODECS="avc1.64001f,mp4a.40.2"',
+  '720p.m3u8',
+  '#EXT-X-STREAM-INF:BANDWIDTH=8000000,RESOLUTION=3840x2160,CODECS="hvc1.2.4.L153.B0,ec-3",FRAME-RATE=30',
+  '2160p.m3u8',
+].join('\r\n');
+
+describe('parseHlsVariantCodecs', () => {
+  it('reads codecs, resolution and bandwidth per variant', () => {
+    expect(parseHlsVariantCodecs(MULTIVARIANT)).toEqual([
+      { codecs: ['avc1.64001f', 'mp4a.40.2'], width: 1280, height: 720, bandwidth: 2_000_000 },
+      { codecs: ['hvc1.2.4.L153.B0', 'ec-3'], width: 3840, height: 2160, bandwidth: 8_000_000 },
+    ]);
+  });
+
+  it('keeps variants that declare no codecs', () => {
+    expect(parseHlsVariantCodecs('#EXTM3U\n#EXT-X-STREAM-INF:BANDWIDTH=500000\nlow.m3u8')).toEqual([
+      { codecs: [], bandwidth: 500_000 },
+    ]);
+  });
+
+  it('finds nothing in a media playlist', () => {
+    expect(parseHlsVariantCodecs('#EXTM3U\n#EXT-X-TARGETDURATION:6\n#EXTINF:6,\nseg0.ts')).toEqual([]);
+  });
+});
+
+describe('parseContainerHint', () => {
+  it('maps short container names', () => {
+    expect(parseContainerHint('mkv')).toEqual({ mimeType: 'video/x-matroska', name: 'Matroska (MKV)', codecs: [] });
+    expect(parseContainerHint('.MP4')).toMatchObject({ mimeType: 'video/mp4', name: 'MP4' });
+  });
+
+  it('reads MIME hints with codecs', () => {
+    expect(parseContainerHint('video/mp4; codecs="hvc1.1.6.L93.B0, mp4a.40.2"')).toEqual({
+      mimeType: 'video/mp4',
+      name: 'MP4',
+      codecs: ['hvc1.1.6.L93.B0', 'mp4a.40.2'],
+    });
+  });
+
+  it('keeps unknown names without a MIME type', () => {
+    expect(parseContainerHint('rmvb')).toEqual({ mimeType: null, name: 'rmvb', codecs: [] });
+    expect(parseContainerHint('  ')).toBeNull();
+  });
+});
+
+describe('codec naming', () => {
+  it('names common codecs for the host', () => {
+    expect(describeCodec('avc1.64001f')).toBe('H.264');
+    expect(describeCodec('hev1.1.6.L93.B0')).toBe('HEVC');
+    expect(describeCodec('av01.0.08M.08')).toBe('AV1');
+    expect(describeCodec('ec-3')).toBe('Dolby Digital Plus');
+    expect(describeCodec('mp4a.40.2')).toBe('AAC');
+    expect(describeCodec('mp4a.6B')).toBe('MP3');
+    expect(describeCodec('xyz1')).toBe('xyz1');
+  });
+
+  it('classifies tracks and builds probe types', () => {
+    expect(getCodecKind('mp4a.40.2')).toBe('audio');
+    expect(getCodecKind('wvtt')).toBe('text');
+    expect(getCodecContentType('mp4a.40.2')).toBe('audio/mp4; codecs="mp4a.40.2"');
+    expect(getCodecContentType('vp09.00.10.08', 'video/webm')).toBe('video/webm; codecs="vp09.00.10.08"');
+  });
+});
+
+describe('summarizeCodecSupport', () => {
+  const variants = parseHlsVariantCodecs(MULTIVARIANT);
+
+  it('is supported when every variant decodes', () => {
+    expect(
+      summarizeCodecSupport({
+        variants,
+        results: [
+          [true, true],
+          [true, true],
+        ],
+      })
+    ).toEqual({
+      verdict: 'supported',
+      unsupportedCodecs: [],
+    });
+  });
+
+  it('is partial when only some variants decode', () => {
+    expect(
+      summarizeCodecSupport({
+        variants,
+        results: [
+          [true, true],
+          [false, true],
+        ],
+      })
+    ).toEqual({
+      verdict: 'partial',
+      unsupportedCodecs: ['HEVC'],
+    });
+  });
+
+  it('is unsupported when no variant decodes', () => {
+    expect(
+      summarizeCodecSupport({
+        variants,
+        results: [
+          [false, true],
+          [false, false],
+        ],
+      })
+    ).toEqual({
+      verdict: 'unsupported',
+      unsupportedCodecs: ['H.264', 'HEVC', 'Dolby Digital Plus'],
+    });
+  });
+
+  it('is unknown when nothing could be probed', () => {
+    expect(
+      summarizeCodecSupport({
+        variants,
+        results: [
+          [null, null],
+          [null, null],
+        ],
+      }).verdict
+    ).toBe('unknown');
+    expect(summarizeCodecSupport({ variants: [{ codecs: [] }], results: [[]] }).verdict).toBe('unknown');
+  });
+
+  it('ignores subtitle codecs', () => {
+    expect(
+      summarizeCodecSupport({ variants: [{ codecs: ['avc1.64001f', 'wvtt'] }], results: [[true, false]] }).verdict
+    ).toBe('supported');
+  });
+
+  it('fails on a container the browser refuses', () => {
+    expect(
+      summarizeCodecSupport({
+        variants: [{ codecs: [] }],
+        results: [[]],
+        container: { name: 'Matroska (MKV)', supported: false },
+      })
+    ).toEqual({ verdict: 'unsupported', unsupportedCodecs: ['Matroska (MKV)'] });
+  });
+});
+
+describe('toCodecReportEntries', () => {
+  it('trims unknown codec strings so the report still passes the schema', () => {
+    const longCodec = describeCodec(`x-vendor.${'a'.repeat(120)}`);
+    expect(longCodec.length).toBeGreaterThan(64);
+    const entries = toCodecReportEntries([longCodec, 'HEVC']);
+    expect(entries).toEqual([longCodec.slice(0, 64), 'HEVC']);
+    expect(
+      CodecCapabilityReportDataSchema.safeParse({
+        roomId: 'ABC123',
+        videoUrl: 'https://example.com/video.m3u8',
+        verdict: 'unsupported',
+        unsupportedCodecs: entries,
+      }).success
+    ).toBe(true);
+  });
+
+  it('caps the number of entries', () => {
+    const names = Array.from({ length: 20 }, (_, index) => `codec-${index}`);
+    expect(toCodecReportEntries(names)).toHaveLength(16);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDashRecoveryState,
+  decideDashRecovery,
+  classifyDashError,
+  DASH_NETWORK_ERROR_WINDOW_MS,
+  MAX_DASH_SOURCE_RELOADS_IN_WINDOW,
+  MAX_DASH_REATTACHES,
+} from '@/src/core/video/dash-error-policy';
+
+// dash.js MediaPlayer.errors codes
+const DOWNLOAD_ERROR_ID_CONTENT = 27;
+const DOWNLOAD_ERROR_ID_MANIFEST = 25;
+const APPEND_ERROR = 20;
+const MANIFEST_ERROR_ID_PARSE = 31;
+const MEDIASOURCE_TYPE_UNSUPPORTED = 35;
+const TIMED_TEXT_ERROR_ID_PARSE = 33;
+const MEDIA_KEYERR = 100;
+
+describe('decideDashRecovery — ignorable errors', () => {
+  it('a subtitle parse failure -> ignore', () => {
+    const state = createDashRecoveryState();
+    const result = decideDashRecovery({ error: { code: TIMED_TEXT_ERROR_ID_PARSE }, state, now: 0 });
+    expect(result.action).toBe('ignore');
+  });
+});
+
+describe('decideDashRecovery — download failures', () => {
+  it('a segment download failure without a response code -> reload-source', () => {
+    const state = createDashRecoveryState();
+    const result = decideDashRecovery({ error: { code: DOWNLOAD_ERROR_ID_CONTENT }, state, now: 0 });
+    expect(result.action).toBe('reload-source');
+    expect(state.sourceReloadCount).toBe(1);
+  });
+
+  it('hard HTTP block (responseCode >= 400) -> terminal immediately', () => {
+    const state = createDashRecoveryState();
+    const result = decideDashRecovery({
+      error: { code: DOWNLOAD_ERROR_ID_MANIFEST, responseCode: 403 },
+      state,
+      now: 0,
+    });
+    expect(result.action).toBe('terminal');
+  });
+
+  it('more than MAX_DASH_SOURCE_RELOADS_IN_WINDOW failures inside the window -> terminal', () => {
+    const state = createDashRecoveryState();
+    for (let i = 0; i < MAX_DASH_SOURCE_RELOADS_IN_WINDOW; i++) {
+      const r = decideDashRecovery({ error: { code: DOWNLOAD_ERROR_ID_CONTENT }, state, now: i * 1000 });
+      expect(r.action).toBe('reload-source');
+    }
+    const last = decideDashRecovery({
+      error: { code: DOWNLOAD_ERROR_ID_CONTENT },
+      state,
+      now: MAX_DASH_SOURCE_RELOADS_IN_WINDOW * 1000,
+    });
+    expect(last.action).toBe('terminal');
+  });
+
+  it('failures spread further apart than the window never accumulate to terminal', () => {
+    const state = createDashRecoveryState();
+    for (let i = 0; i < MAX_DASH_SOURCE_RELOADS_IN_WINDOW + 3; i++) {
+      const r = decideDashRecovery({
+        error: { code: DOWNLOAD_ERROR_ID_CONTENT },
+        state,
+        now: i * (DASH_NETWORK_ERROR_WINDOW_MS + 1000),
+      });
+      expect(r.action).toBe('reload-source');
+    }
+    expect(state.networkErrorTimestamps).toHaveLength(1);
+    expect(state.sourceReloadCount).toBe(MAX_DASH_SOURCE_RELOADS_IN_WINDOW + 3);
+  });
+});
+
+describe('decideDashRecovery — append failures', () => {
+  it('reattaches up to MAX_DASH_REATTACHES, then terminal', () => {
+    const state = createDashRecoveryState();
+    for (let i = 0; i < MAX_DASH_REATTACHES; i++) {
+      expect(decideDashRecovery({ error: { code: APPEND_ERROR }, state, now: i }).action).toBe('reattach');
+    }
+    expect(decideDashRecovery({ error: { code: APPEND_ERROR }, state, now: 10 }).action).toBe('terminal');
+  });
+});
+
+describe('decideDashRecovery — unrecoverable errors', () => {
+  it('an unparsable manifest -> terminal with codecUnparsable', () => {
+    const state = createDashRecoveryState();
+    const result = decideDashRecovery({ error: { code: MANIFEST_ERROR_ID_PARSE }, state, now: 0 });
+    expect(result).toEqual({ action: 'terminal', codecUnparsable: true });
+  });
+
+  it('an unsupported codec -> terminal with codecUnparsable', () => {
+    const state = createDashRecoveryState();
+    const result = decideDashRecovery({ error: { code: MEDIASOURCE_TYPE_UNSUPPORTED }, state, now: 0 });
+    expect(result).toEqual({ action: 'terminal', codecUnparsable: true });
+  });
+
+  it('a DRM error -> terminal without codecUnparsable', () => {
+    const state = createDashRecoveryState();
+    const result = decideDashRecovery({ error: { code: MEDIA_KEYERR }, state, now: 0 });
+    expect(result).toEqual({ action: 'terminal', codecUnparsable: false });
+  });
+});
+
+describe('classifyDashError', () => {
+  it('flags manifest parse and unsupported-type codes', () => {
+    expect(classifyDashError(MANIFEST_ERROR_ID_PARSE).codecUnparsable).toBe(true);
+    expect(classifyDashError(MEDIASOURCE_TYPE_UNSUPPORTED).codecUnparsable).toBe(true);
+  });
+
+  it('does not flag download failures or a missing code', () => {
+    expect(classifyDashError(DOWNLOAD_ERROR_ID_CONTENT).codecUnparsable).toBe(false);
+    expect(classifyDashError(undefined).codecUnparsable).toBe(false);
+  });
+});
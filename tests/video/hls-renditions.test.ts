@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatAudioTrackLabel,
+  formatBitrate,
+  formatLevelLabel,
+  pickPreferredAudioTrack,
+  pickPreferredLevel,
+  type HlsAudioTrackOption,
+  type HlsLevelOption,
+} from '@/src/core/video/hls-renditions';
+
+const LEVELS: HlsLevelOption[] = [
+  { index: 0, height: 360, bitrate: 800_000 },
+  { index: 1, height: 720, bitrate: 2_400_000 },
+  { index: 2, height: 720, bitrate: 3_200_000 },
+  { index: 3, height: 1080, bitrate: 5_000_000 },
+];
+
+const AUDIO: HlsAudioTrackOption[] = [
+  { id: 0, name: 'English', lang: 'en' },
+  { id: 1, name: 'Português', lang: 'pt-PT' },
+  { id: 2, name: 'Português (Brasil)', lang: 'pt-BR' },
+  { id: 3, name: 'Commentary', lang: null },
+];
+
+describe('pickPreferredLevel', () => {
+  it('returns auto (-1) when no height is remembered', () => {
+    expect(pickPreferredLevel(LEVELS, null)).toBe(-1);
+  });
+
+  it('picks the exact height, preferring the higher bitrate among equals', () => {
+    expect(pickPreferredLevel(LEVELS, 720)).toBe(2);
+  });
+
+  it('falls back to the tallest level below the remembered height', () => {
+    expect(pickPreferredLevel(LEVELS, 900)).toBe(2);
+    expect(pickPreferredLevel(LEVELS, 2160)).toBe(3);
+  });
+
+  it('returns auto when every level is taller than the remembered height', () => {
+    expect(pickPreferredLevel(LEVELS, 240)).toBe(-1);
+  });
+
+  it('ignores levels without a height', () => {
+    expect(pickPreferredLevel([{ index: 0, height: null, bitrate: 1_000_000 }], 720)).toBe(-1);
+  });
+});
+
+describe('pickPreferredAudioTrack', () => {
+  it('returns null when no language is remembered', () => {
+    expect(pickPreferredAudioTrack(AUDIO, null)).toBeNull();
+  });
+
+  it('matches the full tag case-insensitively', () => {
+    expect(pickPreferredAudioTrack(AUDIO, 'PT-br')).toBe(2);
+  });
+
+  it('falls back to the same primary language', () => {
+    expect(pickPreferredAudioTrack(AUDIO, 'en-GB')).toBe(0);
+    expect(pickPreferredAudioTrack(AUDIO, 'pt')).toBe(1);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(pickPreferredAudioTrack(AUDIO, 'ja')).toBeNull();
+  });
+});
+
+describe('labels', () => {
+  it('formats bitrates in kbps below 1 Mbps and Mbps above', () => {
+    expect(formatBitrate(800_000)).toBe('800 kbps');
+    expect(formatBitrate(2_400_000)).toBe('2.40 Mbps');
+    expect(formatBitrate(null)).toBe('—');
+  });
+
+  it('labels a level by height, or by bitrate when there is none', () => {
+    expect(formatLevelLabel(LEVELS[3])).toBe('1080p');
+    expect(formatLevelLabel({ index: 0, height: null, bitrate: 800_000 })).toBe('800 kbps');
+  });
+
+  it('labels an audio track by name, then language, then position', () => {
+    expect(formatAudioTrackLabel(AUDIO[0])).toBe('English');
+    expect(formatAudioTrackLabel({ id: 4, name: '', lang: 'de' })).toBe('de');
+    expect(formatAudioTrackLabel({ id: 4, name: '', lang: null })).toBe('Track 5');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPlaybackFallbackState,
+  decidePlaybackFallback,
+  describePlaybackFailure,
+  getActiveAttempt,
+  isProxyFixable,
+} from '@/src/core/video/playback-fallback-policy';
+
+const DIRECT = 'https://cdn.example.com/movie.mp4';
+const PROXIED = 'https://pipe.example.com/?url=https%3A%2F%2Fcdn.example.com%2Fmovie.mp4';
+
+describe('isProxyFixable', () => {
+  it('treats access blocks and CORS as fixable', () => {
+    expect(isProxyFixable({ responseCode: 403 })).toBe(true);
+    expect(isProxyFixable({ responseCode: 401 })).toBe(true);
+    expect(isProxyFixable({ responseCode: 0 })).toBe(true);
+    expect(isProxyFixable({})).toBe(true);
+    expect(isProxyFixable({ mediaErrorCode: 2 })).toBe(true);
+    expect(isProxyFixable({ mediaErrorCode: 4 })).toBe(true);
+  });
+
+  it('never retries what the proxy would relay unchanged', () => {
+    expect(isProxyFixable({ responseCode: 404 })).toBe(false);
+    expect(isProxyFixable({ responseCode: 410 })).toBe(false);
+    expect(isProxyFixable({ responseCode: 500 })).toBe(false);
+    expect(isProxyFixable({ mediaErrorCode: 3 })).toBe(false);
+    expect(isProxyFixable({ mediaErrorCode: 4, codecUnparsable: true })).toBe(false);
+    expect(isProxyFixable({ responseCode: 403, codecUnparsable: true })).toBe(false);
+  });
+});
+
+describe('decidePlaybackFallback', () => {
+  it('retries a blocked direct source through the proxy once', () => {
+    const state = createPlaybackFallbackState(DIRECT, 'direct', 0);
+    const decision = decidePlaybackFallback({ state, failure: { responseCode: 403 }, proxiedUrl: PROXIED, now: 100 });
+
+    expect(decision).toEqual({ action: 'retry-proxied', url: PROXIED });
+    expect(state.attempts).toHaveLength(2);
+    expect(state.attempts[0]).toMatchObject({ kind: 'direct', failure: { responseCode: 403 }, failedAt: 100 });
+    expect(getActiveAttempt(state)).toEqual({ kind: 'proxy', url: PROXIED, startedAt: 100 });
+  });
+
+  it('reports when the proxied attempt fails too', () => {
+    const state = createPlaybackFallbackState(DIRECT, 'direct', 0);
+    decidePlaybackFallback({ state, failure: { responseCode: 403 }, proxiedUrl: PROXIED, now: 100 });
+    const decision = decidePlaybackFallback({ state, failure: { responseCode: 403 }, proxiedUrl: PROXIED, now: 200 });
+
+    expect(decision).toEqual({ action: 'report' });
+    expect(state.attempts).toHaveLength(2);
+    expect(state.attempts[1].failedAt).toBe(200);
+  });
+
+  it('reports straight away without a proxy', () => {
+    const state = createPlaybackFallbackState(DIRECT, 'direct', 0);
+    expect(decidePlaybackFallback({ state, failure: { responseCode: 403 }, proxiedUrl: null, now: 1 })).toEqual({
+      action: 'report',
+    });
+  });
+
+  it('reports a source that was proxied from the start', () => {
+    const state = createPlaybackFallbackState(PROXIED, 'proxy', 0);
+    expect(decidePlaybackFallback({ state, failure: {}, proxiedUrl: PROXIED, now: 1 }).action).toBe('report');
+  });
+
+  it('reports when proxying would return the same URL', () => {
+    const state = createPlaybackFallbackState(DIRECT, 'direct', 0);
+    expect(decidePlaybackFallback({ state, failure: {}, proxiedUrl: DIRECT, now: 1 }).action).toBe('report');
+  });
+
+  it('reports codec failures without burning the proxy rung', () => {
+    const state = createPlaybackFallbackState(DIRECT, 'direct', 0);
+    const decision = decidePlaybackFallback({
+      state,
+      failure: { mediaErrorCode: 4, codecUnparsable: true },
+      proxiedUrl: PROXIED,
+      now: 1,
+    });
+    expect(decision.action).toBe('report');
+    expect(state.attempts).toHaveLength(1);
+  });
+});
+
+describe('describePlaybackFailure', () => {
+  it('labels failures for the diagnostics overlay', () => {
+    expect(describePlaybackFailure({ responseCode: 403 })).toBe('HTTP 403');
+    expect(describePlaybackFailure({ mediaErrorCode: 2 })).toBe('media error 2');
+    expect(describePlaybackFailure({ mediaErrorCode: 4, codecUnparsable: true })).toBe('codec');
+    expect(describePlaybackFailure({ responseCode: 0, details: 'manifestLoadError' })).toBe('manifestLoadError');
+    expect(describePlaybackFailure({})).toBe('network');
+  });
+});
@@ -7,6 +7,8 @@ import type {
   JoinRoomData,
   SetVideoData,
   VideoControlData,
+  SetPlaybackRateData,
+  PlaybackRateChangedResponse,
   PromoteHostData,
   SendMessageData,
   SyncCheckData,
@@ -63,6 +65,18 @@ import type {
   PickerRequiredResponse,
   PickerSelectData,
   VideoStaleData,
+  BufferingStateData,
+  BufferingBarrierResponse,
+  CodecCapabilityReportData,
+  CodecCapabilityMatrixResponse,
+  QueueAddData,
+  QueueRemoveData,
+  QueueReorderData,
+  QueueApproveData,
+  QueueAdvanceData,
+  QueueUpdatedResponse,
+  ShareSubtitleTrackData,
+  SubtitleTrackSharedResponse,
 } from './schemas';
 
 export interface SocketEvents {
@@ -95,10 +109,12 @@ export interface SocketEvents {
   'play-video': (data: VideoControlData) => void;
   'pause-video': (data: VideoControlData) => void;
   'seek-video': (data: VideoControlData) => void;
+  'set-playback-rate': (data: SetPlaybackRateData) => void;
   'sync-check': (data: SyncCheckData) => void;
   'video-played': (data: VideoEventResponse) => void;
   'video-paused': (data: VideoEventResponse) => void;
   'video-seeked': (data: VideoEventResponse) => void;
+  'playback-rate-changed': (data: PlaybackRateChangedResponse) => void;
   'sync-update': (data: SyncUpdateResponse) => void;
   'sync-video': (data: { videoState: VideoState }) => void;
 
@@ -106,6 +122,34 @@ export interface SocketEvents {
   'time-ping': (data: TimePingData) => void;
   'time-pong': (data: TimePongData) => void;
 
+  // Buffering barrier ("wait for everyone") events
+  // Client -> Server: local player stalled past BARRIER_STALL_THRESHOLD_MS, or recovered
+  'buffering-state': (data: BufferingStateData) => void;
+  // Server -> Client: room is held for these users; resumeAt set once everyone is ready
+  'buffering-barrier': (data: BufferingBarrierResponse) => void;
+
+  // Codec preflight events
+  // Client -> Server: what this client can decode of the current video, sent once per video-set
+  'codec-capability-report': (data: CodecCapabilityReportData) => void;
+  // Server -> Hosts: the per-client capability matrix for the current video
+  'codec-capability-matrix': (data: CodecCapabilityMatrixResponse) => void;
+
+  // Watch queue events
+  // Client -> Server
+  'queue-add': (data: QueueAddData) => void;
+  'queue-remove': (data: QueueRemoveData) => void;
+  'queue-reorder': (data: QueueReorderData) => void;
+  'queue-approve': (data: QueueApproveData) => void;
+  'queue-advance': (data: QueueAdvanceData) => void;
+  // Server -> Client: full queue after any change (an advance also emits video-set)
+  'queue-updated': (data: QueueUpdatedResponse) => void;
+
+  // Subtitle sharing events
+  // Host -> Server: make a track the room default for the current video (null clears it)
+  'share-subtitle-track': (data: ShareSubtitleTrackData) => void;
+  // Server -> Client: the room default changed, or is being replayed on join
+  'subtitle-track-shared': (data: SubtitleTrackSharedResponse) => void;
+
   'video-error-report': (data: {
     roomId: string;
     code?: number;
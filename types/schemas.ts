@@ -32,11 +32,14 @@ export const ICECandidateSchema = z
   })
   .or(z.null());
 
-export const VideoTypeSchema = z.enum(['youtube', 'mp4', 'm3u8']).nullable();
+export const VideoTypeSchema = z.enum(['youtube', 'vimeo', 'twitch', 'mp4', 'm3u8', 'mpd']).nullable();
 
 export const VideoStateSchema = z.object({
   isPlaying: z.boolean(),
+  // Seconds into the video. Live HLS rooms use the stream clock instead (epoch seconds of the frame on
+  // screen, see video-sync/lib/live.ts), which projects forward the same way.
   currentTime: z.number().min(0),
+  // Not meaningful for live streams
   duration: z.number().min(0),
   lastUpdateTime: z.number().positive(),
   playbackRate: z.number().positive().default(1),
@@ -89,6 +92,10 @@ export const SubtitleTrackSchema = z.object({
   url: z.string().url(),
   format: z.enum(['vtt', 'srt', 'ass']),
   isDefault: z.boolean().default(false),
+  // OpenSubtitles file the track was downloaded from, so sharing it can send the id instead of the cues
+  fileId: z.string().optional(),
+  // Frame rate the file was timed against, when the source says; seeds the timing tool's frame-rate stretch
+  fps: z.number().positive().optional(),
 });
 
 // Room settings for host controls
@@ -101,13 +108,17 @@ export const RoomSettingsSchema = z.object({
     .nullable()
     .optional(),
   isChatLocked: z.boolean().default(false),
+  // Pause the whole room while anyone is buffering, resume once everyone has caught up
+  waitForEveryone: z.boolean().default(false),
+  // Let guests add to the watch queue; their items wait as suggestions until a host approves them
+  allowQueueSuggestions: z.boolean().default(false),
 });
 
 export const VideoMetaSchema = z.object({
   originalUrl: VideoUrlSchema,
   playbackUrl: VideoUrlSchema,
-  deliveryType: z.enum(['youtube', 'file-direct', 'file-proxy', 'hls']),
-  videoType: z.enum(['youtube', 'mp4', 'm3u8']).nullable(),
+  deliveryType: z.enum(['youtube', 'vimeo', 'twitch', 'file-direct', 'file-proxy', 'hls', 'dash']),
+  videoType: z.enum(['youtube', 'vimeo', 'twitch', 'mp4', 'm3u8', 'mpd']).nullable(),
   containerHint: z.string().optional(),
   codecWarning: z.string().optional(),
   requiresProxy: z.boolean(),
@@ -124,6 +135,17 @@ export const VideoMetaSchema = z.object({
   userSelectedUrl: z.string().url().optional(),
 });
 
+// Watch queue entry. 'queued' items play in order once the current video ends; 'suggested' items
+// come from guests and are skipped by auto-advance until a host approves them.
+export const QueueItemSchema = z.object({
+  id: z.string().uuid(),
+  videoUrl: VideoUrlSchema,
+  addedBy: z.string().uuid(),
+  addedByName: UserNameSchema,
+  addedAt: z.number().positive(),
+  status: z.enum(['queued', 'suggested']),
+});
+
 export const RoomSchema = z.object({
   id: RoomIdSchema,
   hostId: z.string().uuid(),
@@ -137,6 +159,8 @@ export const RoomSchema = z.object({
   videoMeta: VideoMetaSchema.optional(),
   // Room settings for host controls (lock, passcode, chat lock)
   settings: RoomSettingsSchema.optional(),
+  // Watch queue, in play order
+  queue: z.array(QueueItemSchema).optional(),
   // OTT room support (v1.3)
   roomType: z.enum(['standard', 'ott']).default('standard'),
   ottUrl: z.string().url().optional(),
@@ -164,6 +188,13 @@ export const VideoControlDataSchema = z.object({
   currentTime: z.number().min(0),
 });
 
+// Host speed change intent; currentTime re-anchors the room at the moment of the change
+export const SetPlaybackRateDataSchema = z.object({
+  roomId: RoomIdSchema,
+  rate: z.number().min(0.5).max(2),
+  currentTime: z.number().min(0),
+});
+
 export const PromoteHostDataSchema = z.object({
   roomId: RoomIdSchema,
   userId: z.string().uuid(),
@@ -227,6 +258,8 @@ export const UpdateRoomSettingsDataSchema = z.object({
       .nullable()
       .optional(),
     isChatLocked: z.boolean().optional(),
+    waitForEveryone: z.boolean().optional(),
+    allowQueueSuggestions: z.boolean().optional(),
   }),
 });
 
@@ -437,6 +470,27 @@ export const SubtitleDownloadResponseSchema = z.object({
   filename: z.string(),
 });
 
+// Chapter schemas (markers on the seek bar; each client derives them from the same source)
+export const ChapterSchema = z.object({
+  start: z.number().min(0),
+  title: z.string(),
+});
+
+// YouTube Data API videos.list (part=snippet): only the description is read, for its chapter timestamps
+export const YouTubeVideosAPIResponseSchema = z.object({
+  items: z.array(
+    z.object({
+      snippet: z.object({
+        description: z.string().default(''),
+      }),
+    })
+  ),
+});
+
+export const YouTubeChaptersResponseSchema = z.object({
+  chapters: z.array(ChapterSchema),
+});
+
 // Response schemas
 export const RoomCreatedResponseSchema = z.object({
   roomId: RoomIdSchema,
@@ -470,14 +524,14 @@ export const UserKickedResponseSchema = z.object({
 
 export const VideoSetResponseSchema = z.object({
   videoUrl: VideoUrlSchema,
-  videoType: z.enum(['youtube', 'mp4', 'm3u8']),
+  videoType: z.enum(['youtube', 'vimeo', 'twitch', 'mp4', 'm3u8', 'mpd']),
   videoMeta: RoomSchema.shape.videoMeta.optional(),
 });
 
 // Lens: daemon-triggered URL refresh (same shape as video-set)
 export const VideoUrlRefreshResponseSchema = z.object({
   videoUrl: VideoUrlSchema,
-  videoType: z.enum(['youtube', 'mp4', 'm3u8']),
+  videoType: z.enum(['youtube', 'vimeo', 'twitch', 'mp4', 'm3u8', 'mpd']),
   videoMeta: RoomSchema.shape.videoMeta.optional(),
 });
 
@@ -486,6 +540,115 @@ export const VideoStaleDataSchema = z.object({
   roomId: RoomIdSchema,
 });
 
+// Buffering barrier: client reports it has been stalled past the threshold (or recovered)
+export const BufferingStateDataSchema = z.object({
+  roomId: RoomIdSchema,
+  isBuffering: z.boolean(),
+  readyState: z.number().int().min(0).max(4),
+  currentTime: z.number().min(0),
+});
+
+// Buffering barrier: server broadcasts who is holding the room, and when playback resumes
+export const BufferingBarrierResponseSchema = z.object({
+  waitingUserIds: z.array(z.string().uuid()),
+  // Server-time (ms) at which the room resumes; null while anyone is still buffering
+  resumeAt: z.number().positive().nullable(),
+});
+
+// Codec preflight: each client reports whether it can decode the current video's declared codecs
+export const CodecVerdictSchema = z.enum(['supported', 'partial', 'unsupported', 'unknown']);
+
+export const CodecCapabilityReportDataSchema = z.object({
+  roomId: RoomIdSchema,
+  videoUrl: VideoUrlSchema,
+  verdict: CodecVerdictSchema,
+  // Human-readable names of what this client can't decode ("HEVC", "Dolby Digital Plus")
+  unsupportedCodecs: z.array(z.string().max(64)).max(16),
+});
+
+// Codec preflight: server sends hosts every report for the current video
+export const CodecCapabilityMatrixResponseSchema = z.object({
+  videoUrl: VideoUrlSchema,
+  reports: z.array(
+    z.object({
+      userId: z.string().uuid(),
+      verdict: CodecVerdictSchema,
+      unsupportedCodecs: z.array(z.string()),
+    })
+  ),
+});
+
+// Watch queue: hosts add straight to the queue, guests add suggestions (when the room allows them)
+export const QueueAddDataSchema = z.object({
+  roomId: RoomIdSchema,
+  videoUrl: VideoUrlSchema,
+});
+
+// Hosts remove anything; guests only their own suggestions
+export const QueueRemoveDataSchema = z.object({
+  roomId: RoomIdSchema,
+  itemId: z.string().uuid(),
+});
+
+export const QueueReorderDataSchema = z.object({
+  roomId: RoomIdSchema,
+  itemId: z.string().uuid(),
+  toIndex: z.number().int().min(0),
+});
+
+export const QueueApproveDataSchema = z.object({
+  roomId: RoomIdSchema,
+  itemId: z.string().uuid(),
+});
+
+// Play itemId, or the first queued item when omitted. fromVideoUrl is the video that just ended: the
+// server drops the advance when the room has already moved past it, so several hosts reporting the
+// same end only advance once.
+export const QueueAdvanceDataSchema = z.object({
+  roomId: RoomIdSchema,
+  itemId: z.string().uuid().optional(),
+  fromVideoUrl: VideoUrlSchema.optional(),
+});
+
+// Full queue snapshot after any change
+export const QueueUpdatedResponseSchema = z.object({
+  queue: z.array(QueueItemSchema),
+});
+
+// Subtitle sharing: a host makes one of their tracks the room default. OpenSubtitles tracks travel as the
+// fileId (each guest downloads it); anything else as gzip-compressed, base64-encoded JSON cues.
+const SharedSubtitleTrackBaseSchema = z.object({
+  trackId: z.string().min(1).max(128),
+  label: z.string().max(200),
+  language: z.string().max(16),
+});
+
+export const SharedSubtitleTrackSchema = z.discriminatedUnion('source', [
+  SharedSubtitleTrackBaseSchema.extend({
+    source: z.literal('opensubtitles'),
+    fileId: z.string().regex(/^\d+$/),
+  }),
+  SharedSubtitleTrackBaseSchema.extend({
+    source: z.literal('cues'),
+    // Base64 of at most SUBTITLE_SHARE_MAX_BYTES compressed bytes
+    payload: z.string().max(350_000),
+  }),
+]);
+
+// Host -> Server: null clears the room default
+export const ShareSubtitleTrackDataSchema = z.object({
+  roomId: RoomIdSchema,
+  videoUrl: VideoUrlSchema,
+  track: SharedSubtitleTrackSchema.nullable(),
+});
+
+// Server -> Room: the room default for videoUrl, also replayed to anyone joining while it's set
+export const SubtitleTrackSharedResponseSchema = z.object({
+  videoUrl: VideoUrlSchema,
+  sharedBy: z.string().uuid(),
+  track: SharedSubtitleTrackSchema.nullable(),
+});
+
 // Lens: loading status relayed from Lens SSE during capture
 export const VideoLoadingStatusResponseSchema = z.object({
   status: z.string(),
@@ -521,6 +684,14 @@ export const PickerSelectDataSchema = z.object({
 export const VideoEventResponseSchema = z.object({
   currentTime: z.number().min(0),
   timestamp: z.number().positive(),
+  // Room speed at the time of the event; absent from older servers
+  rate: z.number().positive().optional(),
+});
+
+export const PlaybackRateChangedResponseSchema = z.object({
+  rate: z.number().positive(),
+  currentTime: z.number().min(0),
+  timestamp: z.number().positive(),
 });
 
 export const SyncUpdateResponseSchema = z.object({
@@ -571,12 +742,14 @@ export type VideoType = z.infer<typeof VideoTypeSchema>;
 export type SubtitleTrack = z.infer<typeof SubtitleTrackSchema>;
 export type RoomSettings = z.infer<typeof RoomSettingsSchema>;
 export type VideoMeta = z.infer<typeof VideoMetaSchema>;
+export type QueueItem = z.infer<typeof QueueItemSchema>;
 
 // Socket event data types
 export type CreateRoomData = z.infer<typeof CreateRoomDataSchema>;
 export type JoinRoomData = z.infer<typeof JoinRoomDataSchema>;
 export type SetVideoData = z.infer<typeof SetVideoDataSchema>;
 export type VideoControlData = z.infer<typeof VideoControlDataSchema>;
+export type SetPlaybackRateData = z.infer<typeof SetPlaybackRateDataSchema>;
 export type PromoteHostData = z.infer<typeof PromoteHostDataSchema>;
 export type SendMessageData = z.infer<typeof SendMessageDataSchema>;
 export type MessageReactionData = z.infer<typeof MessageReactionDataSchema>;
@@ -599,6 +772,7 @@ export type UserPromotedResponse = z.infer<typeof UserPromotedResponseSchema>;
 export type UserKickedResponse = z.infer<typeof UserKickedResponseSchema>;
 export type VideoSetResponse = z.infer<typeof VideoSetResponseSchema>;
 export type VideoEventResponse = z.infer<typeof VideoEventResponseSchema>;
+export type PlaybackRateChangedResponse = z.infer<typeof PlaybackRateChangedResponseSchema>;
 export type SyncUpdateResponse = z.infer<typeof SyncUpdateResponseSchema>;
 export type NewMessageResponse = z.infer<typeof NewMessageResponseSchema>;
 export type ReactionUpdatedResponse = z.infer<typeof ReactionUpdatedResponseSchema>;
@@ -608,6 +782,21 @@ export type VideoErrorReport = z.infer<typeof VideoErrorReportSchema>;
 export type VideoUrlRefreshResponse = z.infer<typeof VideoUrlRefreshResponseSchema>;
 export type VideoLoadingStatusResponse = z.infer<typeof VideoLoadingStatusResponseSchema>;
 export type VideoStaleData = z.infer<typeof VideoStaleDataSchema>;
+export type BufferingStateData = z.infer<typeof BufferingStateDataSchema>;
+export type BufferingBarrierResponse = z.infer<typeof BufferingBarrierResponseSchema>;
+export type CodecVerdict = z.infer<typeof CodecVerdictSchema>;
+export type CodecCapabilityReportData = z.infer<typeof CodecCapabilityReportDataSchema>;
+export type CodecCapabilityMatrixResponse = z.infer<typeof CodecCapabilityMatrixResponseSchema>;
+export type CodecCapabilityReport = CodecCapabilityMatrixResponse['reports'][number];
+export type QueueAddData = z.infer<typeof QueueAddDataSchema>;
+export type QueueRemoveData = z.infer<typeof QueueRemoveDataSchema>;
+export type QueueReorderData = z.infer<typeof QueueReorderDataSchema>;
+export type QueueApproveData = z.infer<typeof QueueApproveDataSchema>;
+export type QueueAdvanceData = z.infer<typeof QueueAdvanceDataSchema>;
+export type QueueUpdatedResponse = z.infer<typeof QueueUpdatedResponseSchema>;
+export type SharedSubtitleTrack = z.infer<typeof SharedSubtitleTrackSchema>;
+export type ShareSubtitleTrackData = z.infer<typeof ShareSubtitleTrackDataSchema>;
+export type SubtitleTrackSharedResponse = z.infer<typeof SubtitleTrackSharedResponseSchema>;
 
 // Voice chat types
 export type VoiceJoinData = z.infer<typeof VoiceJoinDataSchema>;
@@ -649,6 +838,9 @@ export type SubtitleSearchRequest = z.infer<typeof SubtitleSearchRequestSchema>;
 export type SubtitleSearchResponse = z.infer<typeof SubtitleSearchResponseSchema>;
 export type SubtitleDownloadRequest = z.infer<typeof SubtitleDownloadRequestSchema>;
 export type SubtitleDownloadResponse = z.infer<typeof SubtitleDownloadResponseSchema>;
+export type Chapter = z.infer<typeof ChapterSchema>;
+export type YouTubeVideosAPIResponse = z.infer<typeof YouTubeVideosAPIResponseSchema>;
+export type YouTubeChaptersResponse = z.infer<typeof YouTubeChaptersResponseSchema>;
 export type PickerCandidate = z.infer<typeof PickerCandidateSchema>;
 export type PickerRequiredResponse = z.infer<typeof PickerRequiredResponseSchema>;
 export type PickerSelectData = z.infer<typeof PickerSelectDataSchema>;